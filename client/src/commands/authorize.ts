@@ -5,6 +5,7 @@ import { authentication, commands, window } from "vscode";
 import { SASAuthProvider } from "../components/AuthProvider";
 import LibraryNavigator from "../components/LibraryNavigator";
 import { ConnectionType } from "../components/profile";
+import { getConnectionProvider } from "../connection/providers";
 import { profileConfig, switchProfile } from "./profile";
 
 const finishAuthorization = (profileConfig): boolean => {
@@ -40,10 +41,16 @@ export const checkProfileAndAuthorize =
         return finishAuthorization(profileConfig);
       case ConnectionType.IOM:
       case ConnectionType.COM:
+      case ConnectionType.SSH:
         commands.executeCommand("setContext", "SAS.librariesDisplayed", true);
         libraryNavigator.refresh();
         return finishAuthorization(profileConfig);
       default:
+        // connection types of other extensions have no sign in
+        if (getConnectionProvider(activeProfile.connectionType)) {
+          commands.executeCommand("setContext", "SAS.librariesDisplayed", true);
+          libraryNavigator.refresh();
+        }
         return finishAuthorization(profileConfig);
     }
   };
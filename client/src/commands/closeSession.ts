@@ -5,10 +5,13 @@ import { window } from "vscode";
 import { getSession } from "../connection";
 import { Session } from "../connection/session";
 
-export async function closeSession(message?: string): Promise<void> {
+export async function closeSession(
+  message?: string,
+  profileName?: string,
+): Promise<void> {
   let session: Session;
   try {
-    session = getSession();
+    session = getSession(profileName);
   } catch {
     // no session, do nothing
   }
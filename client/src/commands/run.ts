@@ -1,30 +1,44 @@
 // Copyright © 2022-2024, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 import {
+  CancellationToken,
+  CancellationTokenSource,
   EventEmitter,
   Position,
   ProgressLocation,
   Selection,
   Uri,
-  commands,
   l10n,
   window,
 } from "vscode";
 import type { BaseLanguageClient } from "vscode-languageclient";
 
 import { basename, extname } from "path";
+import { v4 } from "uuid";
 
 import { showResult } from "../components/ResultPanel";
+import { recordRun } from "../components/RunHistory";
 import {
   appendExecutionLogFn,
   appendSessionLogFn,
   setFileName,
 } from "../components/logViewer";
 import { sasDiagnostic } from "../components/logViewer/sasDiagnostics";
-import { SASCodeDocument } from "../components/utils/SASCodeDocument";
+import {
+  generateStepLogFn,
+  getStepMessage,
+} from "../components/logViewer/stepProgress";
+import {
+  SASCodeDocument,
+  SASCodeDocumentParameters,
+} from "../components/utils/SASCodeDocument";
 import { getCodeDocumentConstructionParameters } from "../components/utils/SASCodeDocumentHelper";
-import { isOutputHtmlEnabled } from "../components/utils/settings";
-import { ErrorRepresentation, getSession } from "../connection";
+import {
+  getRunWhenBusy,
+  isOutputHtmlEnabled,
+} from "../components/utils/settings";
+import { ErrorRepresentation, getSession, getSessions } from "../connection";
+import { finishExecuting, waitInQueue } from "../connection/queue";
 import { useRunStore } from "../store";
 import { profileConfig, switchProfile } from "./profile";
 
@@ -35,7 +49,7 @@ interface FoldingBlock {
   endCol: number;
 }
 
-const { setIsExecutingCode } = useRunStore.getState();
+const { cancelQueue } = useRunStore.getState();
 
 async function getSelectedRegions(
   client: BaseLanguageClient,
@@ -87,13 +101,7 @@ async function getSelectedRegions(
   });
 }
 
-async function runCode(selected?: boolean, uri?: Uri) {
-  if (profileConfig.getActiveProfile() === "") {
-    switchProfile();
-    return;
-  }
-
-  const outputHtml = isOutputHtmlEnabled();
+async function runCode(selected?: boolean, uri?: Uri, profileName?: string) {
   const editor = uri
     ? window.visibleTextEditors.find(
         (editor) => editor.document.uri.toString() === uri.toString(),
@@ -105,13 +113,48 @@ async function runCode(selected?: boolean, uri?: Uri) {
     selections,
   });
   const codeDoc = new SASCodeDocument(parameters);
-  const onExecutionLogFn = sasDiagnostic.generateLogFn(
+  const binding = profileName
+    ? undefined
+    : profileConfig.getBoundProfile(editor.document);
+  if (binding?.error) {
+    window.showErrorMessage(binding.error);
+    return;
+  }
+  const targetProfileName = profileName ?? binding?.profileName;
+  const label = basename(codeDoc.getFileName());
+  await runExclusively(
+    targetProfileName ? `${label} (${targetProfileName})` : label,
+    () => runCodeDocument(codeDoc, uri, targetProfileName),
+  );
+}
+
+/**
+ * @param profileName profile of the session running the code, the active
+ * profile by default.
+ */
+async function runCodeDocument(
+  codeDoc: SASCodeDocument,
+  uri?: Uri,
+  profileName?: string,
+) {
+  if (!profileName && profileConfig.getActiveProfile() === "") {
+    switchProfile();
+    return;
+  }
+
+  const outputHtml = isOutputHtmlEnabled();
+  const targetProfileName = profileName ?? profileConfig.getActiveProfile();
+  const recorder = recordRun(codeDoc, targetProfileName);
+  // the step that is executing is shown in the progress notification
+  let reportStep: (message: string) => void = () => {};
+  const onExecutionLogFn = generateStepLogFn(
     codeDoc,
-    appendExecutionLogFn,
+    (step) => reportStep(getStepMessage(step)),
+    sasDiagnostic.generateLogFn(codeDoc, appendExecutionLogFn),
   );
 
-  const session = getSession();
-  session.onExecutionLogFn = onExecutionLogFn;
+  const session = getSession(targetProfileName);
+  session.onExecutionLogFn = recorder.wrapLogFn(onExecutionLogFn);
   session.onSessionLogFn = appendSessionLogFn;
 
   const fileName = basename(
@@ -120,7 +163,11 @@ async function runCode(selected?: boolean, uri?: Uri) {
   );
   setFileName(fileName);
 
-  await session.setup();
+  recorder.start();
+  await session.setup().catch(async (err) => {
+    await recorder.fail(err);
+    throw err;
+  });
 
   await window.withProgress(
     {
@@ -128,53 +175,136 @@ async function runCode(selected?: boolean, uri?: Uri) {
       title: l10n.t("SAS code running..."),
       cancellable: typeof session.cancel === "function",
     },
-    (_progress, cancellationToken) => {
+    (progress, cancellationToken) => {
+      reportStep = (message) => progress.report({ message });
       cancellationToken.onCancellationRequested(() => {
         session.cancel?.();
       });
-      return session.run(codeDoc.getWrappedCode()).then((results) => {
-        if (outputHtml && results.html5) {
-          showResult(results.html5, uri);
-        }
-      });
+      return session.run(codeDoc.getWrappedCode()).then(
+        async (results) => {
+          if (outputHtml && (results.html5 || results.artifacts?.length)) {
+            showResult(results.html5 ?? "", uri, undefined, results.artifacts);
+          }
+          await recorder.finish(
+            cancellationToken.isCancellationRequested
+              ? "cancelled"
+              : "completed",
+            results,
+          );
+        },
+        async (err) => {
+          await recorder.finish(
+            cancellationToken.isCancellationRequested ? "cancelled" : "failed",
+          );
+          throw err;
+        },
+      );
     },
   );
 }
 
-const _run = async (selected = false, uri?: Uri) => {
+/**
+ * Waits in the run queue while other SAS code is running, unless the
+ * SAS.run.whenBusy setting says to reject the run or to cancel the running
+ * code instead.
+ * @returns false if the run was removed from the queue before its turn.
+ */
+const waitForTurn = async (
+  label: string,
+  token?: CancellationToken,
+): Promise<boolean> => {
   if (useRunStore.getState().isExecutingCode) {
-    return;
+    switch (getRunWhenBusy()) {
+      case "reject":
+        throw new Error(
+          l10n.t(
+            "SAS code is already running. Try again after it is complete.",
+          ),
+        );
+      case "replace":
+        cancelQueue();
+        // code run by the extension itself completes on its own
+        if (useRunStore.getState().isUserExecuting) {
+          getSessions().forEach(
+            ({ session }) => session.running && session.cancel?.(),
+          );
+        }
+        break;
+    }
   }
+  return waitInQueue(label, true, token);
+};
 
-  setIsExecutingCode(true);
-  commands.executeCommand("setContext", "SAS.running", true);
+/**
+ * Runs SAS code once no other SAS code is running.
+ * @param label name of the run in the run queue.
+ * @param runFn submits the code.
+ * @param token removes the run from the run queue when cancelled.
+ */
+export async function runExclusively(
+  label: string,
+  runFn: () => Promise<void>,
+  token?: CancellationToken,
+): Promise<void> {
+  if (!(await waitForTurn(label, token))) {
+    return;
+  }
 
-  await runCode(selected, uri)
-    .catch((err) => {
-      onRunError(err);
-    })
-    .finally(() => {
-      setIsExecutingCode(false);
-      commands.executeCommand("setContext", "SAS.running", false);
-    });
-};
+  await runFn().finally(finishExecuting);
+}
 
 export async function run(): Promise<void> {
-  await _run();
+  await runCode().catch(onRunError);
 }
 
 export async function runSelected(uri: Uri): Promise<void> {
-  await _run(true, uri);
+  await runCode(true, uri).catch(onRunError);
+}
+
+/**
+ * Runs the selected code, or all code, with the session of a profile other
+ * than the active one.
+ * @param uri document to run, the active editor by default.
+ * @param profileName profile to run with, picked by the user when missing.
+ */
+export async function runWithProfile(
+  uri?: Uri,
+  profileName?: string,
+): Promise<void> {
+  const selected =
+    profileName ??
+    (await window.showQuickPick(profileConfig.listProfile(), {
+      placeHolder: l10n.t("Select a SAS connection profile to run with"),
+    }));
+  if (!selected) {
+    return;
+  }
+  await runCode(true, uri, selected).catch(onRunError);
 }
 
 export async function runRegion(client: BaseLanguageClient): Promise<void> {
   const selections = await getSelectedRegions(client);
   window.activeTextEditor.selections = selections;
-  await _run(true, window.activeTextEditor.document.uri);
+  await runCode(true, window.activeTextEditor.document.uri).catch(onRunError);
 }
 
-export function hasRunningTask() {
-  return useRunStore.getState().isExecutingCode;
+/**
+ * Submits the code of a previous run again, as it was when it was run.
+ * @param profileName profile of the session the code ran with, the active
+ * profile by default.
+ */
+export async function rerun(
+  parameters: SASCodeDocumentParameters,
+  profileName?: string,
+): Promise<void> {
+  const codeDoc = new SASCodeDocument({
+    ...parameters,
+    uuid: parameters.uuid ? v4() : undefined,
+  });
+  const label = basename(codeDoc.getFileName());
+  await runExclusively(profileName ? `${label} (${profileName})` : label, () =>
+    runCodeDocument(codeDoc, undefined, profileName),
+  ).catch(onRunError);
 }
 
 export async function runTask(
@@ -182,15 +312,28 @@ export async function runTask(
   messageEmitter?: EventEmitter<string>,
   closeEmitter?: EventEmitter<number>,
   taskLabel?: string,
+  profileName?: string,
 ): Promise<void> {
-  return _runTask(codeDoc, messageEmitter, closeEmitter, taskLabel)
+  if (useRunStore.getState().isExecutingCode) {
+    messageEmitter?.fire(
+      `${l10n.t("Waiting for the running SAS code to complete...")}\r\n`,
+    );
+  }
+  const tokenSource = new CancellationTokenSource();
+  const subscription = closeEmitter?.event(() => tokenSource.cancel());
+  return runExclusively(
+    taskLabel ?? basename(codeDoc.getFileName()),
+    () =>
+      _runTask(codeDoc, messageEmitter, closeEmitter, taskLabel, profileName),
+    tokenSource.token,
+  )
     .catch((err) => {
       onRunError(err);
       throw err;
     })
     .finally(() => {
-      setIsExecutingCode(false);
-      commands.executeCommand("setContext", "SAS.running", false);
+      subscription?.dispose();
+      tokenSource.dispose();
     });
 }
 
@@ -199,34 +342,30 @@ async function _runTask(
   messageEmitter?: EventEmitter<string>,
   closeEmitter?: EventEmitter<number>,
   taskLabel?: string,
+  profileName?: string,
 ): Promise<void> {
-  if (useRunStore.getState().isExecutingCode) {
-    return;
-  }
-
-  if (profileConfig.getActiveProfile() === "") {
+  if (!profileName && profileConfig.getActiveProfile() === "") {
     await switchProfile();
     return;
   }
 
-  setIsExecutingCode(true);
-  commands.executeCommand("setContext", "SAS.running", true);
-
+  const targetProfileName = profileName ?? profileConfig.getActiveProfile();
   let cancelled = false;
-  const session = getSession();
+  const session = getSession(targetProfileName);
   closeEmitter.event(async (e) => {
     if (e > 0) {
       cancelled = true;
       await session.cancel();
     }
-
-    setIsExecutingCode(false);
-    commands.executeCommand("setContext", "SAS.running", false);
   });
 
-  session.onExecutionLogFn = sasDiagnostic.generateLogFn(
-    codeDoc,
-    appendExecutionLogFn,
+  const recorder = recordRun(codeDoc, targetProfileName);
+  session.onExecutionLogFn = recorder.wrapLogFn(
+    generateStepLogFn(
+      codeDoc,
+      (step) => messageEmitter.fire(`${getStepMessage(step)}\r\n`),
+      sasDiagnostic.generateLogFn(codeDoc, appendExecutionLogFn),
+    ),
   );
   session.onSessionLogFn = appendSessionLogFn;
 
@@ -237,23 +376,39 @@ async function _runTask(
   setFileName(fileName);
 
   messageEmitter.fire(`${l10n.t("Connecting to SAS session...")}\r\n`);
-  !cancelled && (await session.setup(true));
+  recorder.start();
+  !cancelled &&
+    (await session.setup(true).catch(async (err) => {
+      await recorder.fail(err);
+      throw err;
+    }));
+
+  if (cancelled) {
+    await recorder.finish("cancelled");
+    return;
+  }
 
   messageEmitter.fire(`${l10n.t("SAS code running...")}\r\n`);
-  return cancelled
-    ? undefined
-    : session.run(codeDoc.getWrappedCode()).then((results) => {
-        const outputHtml = isOutputHtmlEnabled();
-
-        if (outputHtml && results.html5) {
-          messageEmitter.fire(l10n.t("Show results...") + "\r\n");
-          showResult(
-            results.html5,
-            undefined,
-            l10n.t("Result: {result}", { result: taskLabel }),
-          );
-        }
-      });
+  return session.run(codeDoc.getWrappedCode()).then(
+    async (results) => {
+      const outputHtml = isOutputHtmlEnabled();
+
+      if (outputHtml && (results.html5 || results.artifacts?.length)) {
+        messageEmitter.fire(l10n.t("Show results...") + "\r\n");
+        showResult(
+          results.html5 ?? "",
+          undefined,
+          l10n.t("Result: {result}", { result: taskLabel }),
+          results.artifacts,
+        );
+      }
+      await recorder.finish(cancelled ? "cancelled" : "completed", results);
+    },
+    async (err) => {
+      await recorder.finish(cancelled ? "cancelled" : "failed");
+      throw err;
+    },
+  );
 }
 
 const isErrorRep = (err: unknown): err is ErrorRepresentation => {
@@ -1,7 +1,10 @@
 // Copyright © 2024, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
+import ItcSASServerAdapter from "../../connection/itc/ItcSASServerAdapter";
+import { getConnectionProvider } from "../../connection/providers";
 import RestSASServerAdapter from "../../connection/rest/RestSASServerAdapter";
 import SASContentAdapter from "../../connection/rest/SASContentAdapter";
+import SSHSASServerAdapter from "../../connection/ssh/SSHSASServerAdapter";
 import { ConnectionType } from "../profile";
 import {
   ContentAdapter,
@@ -10,15 +13,26 @@ import {
 } from "./types";
 
 class ContentAdapterFactory {
-  // TODO #889 Update this to return ITCSASServerAdapter
   public create(
     connectionType: ConnectionType,
     sourceType: ContentNavigatorConfig["sourceType"],
-  ): ContentAdapter {
+  ): ContentAdapter | undefined {
+    const provider = getConnectionProvider(connectionType);
+    if (provider) {
+      // connection providers only supply the SAS Content explorer
+      return sourceType === ContentSourceType.SASContent
+        ? provider.createContentAdapter?.()
+        : undefined;
+    }
     const key = `${connectionType}.${sourceType}`;
     switch (key) {
       case `${ConnectionType.Rest}.${ContentSourceType.SASServer}`:
         return new RestSASServerAdapter();
+      case `${ConnectionType.IOM}.${ContentSourceType.SASServer}`:
+      case `${ConnectionType.COM}.${ContentSourceType.SASServer}`:
+        return new ItcSASServerAdapter();
+      case `${ConnectionType.SSH}.${ContentSourceType.SASServer}`:
+        return new SSHSASServerAdapter();
       case `${ConnectionType.Rest}.${ContentSourceType.SASContent}`:
       default:
         return new SASContentAdapter();
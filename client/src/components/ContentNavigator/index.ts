@@ -15,6 +15,7 @@ import {
 } from "vscode";
 
 import { profileConfig } from "../../commands/profile";
+import { onDidChangeConnectionProviders } from "../../connection/providers";
 import { SubscriptionProvider } from "../SubscriptionProvider";
 import { ConnectionType } from "../profile";
 import ContentAdapterFactory from "./ContentAdapterFactory";
@@ -399,24 +400,29 @@ class ContentNavigator implements SubscriptionProvider {
       workspace.onDidChangeConfiguration(
         async (event: ConfigurationChangeEvent) => {
           if (event.affectsConfiguration("SAS.connectionProfiles")) {
-            const endpoint = this.viyaEndpoint();
-            this.collapseAllContent();
-            const contentModel = new ContentModel(
-              this.contentAdapterForConnectionType(),
-            );
-            this.contentDataProvider.useModel(contentModel);
-            this.contentModel = contentModel;
-            if (endpoint) {
-              await this.contentDataProvider.connect(endpoint);
-            } else {
-              await this.contentDataProvider.refresh();
-            }
+            await this.useActiveProfile();
           }
         },
       ),
+      onDidChangeConnectionProviders(() => this.useActiveProfile()),
     ];
   }
 
+  private async useActiveProfile(): Promise<void> {
+    const endpoint = this.viyaEndpoint();
+    this.collapseAllContent();
+    const contentModel = new ContentModel(
+      this.contentAdapterForConnectionType(),
+    );
+    this.contentDataProvider.useModel(contentModel);
+    this.contentModel = contentModel;
+    if (endpoint) {
+      await this.contentDataProvider.connect(endpoint);
+    } else {
+      await this.contentDataProvider.refresh();
+    }
+  }
+
   private async collapseAllContent() {
     const collapeAllCmd = `workbench.actions.treeView.${this.treeIdentifier}.collapseAll`;
     const commandExists = (await commands.getCommands()).find(
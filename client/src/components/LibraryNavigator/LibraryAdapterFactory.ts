@@ -1,16 +1,24 @@
 // Copyright © 2024, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 import ItcLibraryAdapter from "../../connection/itc/ItcLibraryAdapter";
+import { getConnectionProvider } from "../../connection/providers";
 import RestLibraryAdapter from "../../connection/rest/RestLibraryAdapter";
+import SSHLibraryAdapter from "../../connection/ssh/SSHLibraryAdapter";
 import { ConnectionType } from "../profile";
 import { LibraryAdapter } from "./types";
 
 class LibraryAdapterFactory {
-  public create(connectionType: ConnectionType): LibraryAdapter {
+  public create(connectionType: ConnectionType): LibraryAdapter | undefined {
+    const provider = getConnectionProvider(connectionType);
+    if (provider) {
+      return provider.createLibraryAdapter?.();
+    }
     switch (connectionType) {
       case ConnectionType.IOM:
       case ConnectionType.COM:
         return new ItcLibraryAdapter();
+      case ConnectionType.SSH:
+        return new SSHLibraryAdapter();
       case ConnectionType.Rest:
       default:
         return new RestLibraryAdapter();
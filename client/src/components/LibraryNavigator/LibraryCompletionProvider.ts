@@ -0,0 +1,154 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Disposable } from "vscode";
+import type { BaseLanguageClient } from "vscode-languageclient";
+
+import { profileConfig } from "../../commands/profile";
+import { getSessions } from "../../connection";
+import { Session } from "../../connection/session";
+import { useRunStore } from "../../store";
+import LibraryModel from "./LibraryModel";
+import { LibraryAdapter, LibraryItem } from "./types";
+
+// the items of the sas/getLibList request of the language server
+export interface LibCompleteItem {
+  id: string;
+  name: string;
+  type: "DATA" | "VIEW" | "LIBRARY";
+}
+
+// the items of the sas/getColumnList request of the language server
+export interface ColumnCompleteItem {
+  name: string;
+  type: string;
+  label?: string;
+}
+
+const getActiveSession = (): Session | undefined =>
+  getSessions().find(
+    ({ profileName }) => profileName === profileConfig.getActiveProfile(),
+  )?.session;
+
+/**
+ * Answers the requests of the language server for the libraries, tables and
+ * columns of the session of the active profile, to complete them in code.
+ * The answers are cached for the session until the libraries are refreshed.
+ */
+class LibraryCompletionProvider {
+  private libraries = new Map<string, Promise<LibCompleteItem[]>>();
+  private columns = new Map<string, Promise<ColumnCompleteItem[]>>();
+  private model: LibraryModel | undefined;
+  private session: Session | undefined;
+
+  constructor(private createAdapter: () => LibraryAdapter | undefined) {}
+
+  public getSubscriptions(client: BaseLanguageClient): Disposable[] {
+    return [
+      client.onRequest(
+        "sas/getLibList",
+        ({ libId }: { libId: string | null }) => this.getLibList(libId),
+      ),
+      client.onRequest(
+        "sas/getColumnList",
+        ({ libId, tableId }: { libId: string; tableId: string }) =>
+          this.getColumnList(libId, tableId),
+      ),
+    ];
+  }
+
+  public clear(): void {
+    this.libraries.clear();
+    this.columns.clear();
+    this.model = undefined;
+  }
+
+  /**
+   * Lists the libraries, or the tables of a library.
+   * @param libId the id of the library, or null for the libraries.
+   */
+  public getLibList(libId: string | null): Promise<LibCompleteItem[]> {
+    const key = libId === null ? "" : libId.toUpperCase();
+    return this.getCached(this.libraries, key, async (model) => {
+      if (libId === null) {
+        return (await model.getChildren()).map(
+          ({ id, name }): LibCompleteItem => ({
+            id,
+            name,
+            type: "LIBRARY",
+          }),
+        );
+      }
+
+      const library: LibraryItem = {
+        uid: libId,
+        id: libId,
+        name: libId,
+        type: "library",
+        readOnly: true,
+      };
+      return (await model.getChildren(library)).map(
+        ({ id, name }): LibCompleteItem => ({ id, name, type: "DATA" }),
+      );
+    });
+  }
+
+  public getColumnList(
+    libId: string,
+    tableId: string,
+  ): Promise<ColumnCompleteItem[]> {
+    const key = `${libId}.${tableId}`.toUpperCase();
+    return this.getCached(this.columns, key, async (model) => {
+      const table: LibraryItem = {
+        uid: `${libId}.${tableId}`,
+        id: tableId,
+        name: tableId,
+        type: "table",
+        library: libId,
+        readOnly: true,
+      };
+      return (await model.fetchColumns(table)).map(({ name, type, label }) => ({
+        name,
+        type,
+        label: label || undefined,
+      }));
+    });
+  }
+
+  private getCached<T>(
+    cache: Map<string, Promise<T[]>>,
+    key: string,
+    fetchItems: (model: LibraryModel) => Promise<T[]>,
+  ): Promise<T[]> {
+    // only a connected session is asked, completing code does not sign in
+    const session = getActiveSession();
+    if (!session?.connected) {
+      return Promise.resolve([]);
+    }
+    if (session !== this.session) {
+      this.clear();
+      this.session = session;
+    }
+
+    const cached = cache.get(key);
+    if (cached) {
+      return cached;
+    }
+    // the libraries are not read while code is running in the session
+    if (useRunStore.getState().isExecutingCode) {
+      return Promise.resolve([]);
+    }
+
+    if (!this.model) {
+      this.model = new LibraryModel(this.createAdapter());
+    }
+    const items = fetchItems(this.model).catch((): T[] => {
+      cache.delete(key);
+      return [];
+    });
+    cache.set(key, items);
+
+    return items;
+  }
+}
+
+export default LibraryCompletionProvider;
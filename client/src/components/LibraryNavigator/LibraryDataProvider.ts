@@ -18,6 +18,7 @@ import {
   TreeItemCollapsibleState,
   TreeView,
   Uri,
+  commands,
   languages,
   window,
 } from "vscode";
@@ -27,7 +28,17 @@ import { Writable } from "stream";
 import { SubscriptionProvider } from "../SubscriptionProvider";
 import LibraryModel from "./LibraryModel";
 import { Icons, Messages, WorkLibraryId } from "./const";
-import { LibraryAdapter, LibraryItem, LibraryType, TableType } from "./types";
+import {
+  ColumnComparison,
+  LibraryAdapter,
+  LibraryItem,
+  LibraryType,
+  TableComparison,
+  TableEdits,
+  TableExportOptions,
+  TableImport,
+  TableType,
+} from "./types";
 
 export const libraryItemMimeType =
   "application/vnd.code.tree.librarydataprovider";
@@ -42,7 +53,7 @@ class LibraryDataProvider
   private _treeView: TreeView<LibraryItem>;
   private _dropEditProvider: Disposable;
 
-  public dropMimeTypes: string[] = [];
+  public dropMimeTypes: string[] = ["text/uri-list"];
   public dragMimeTypes: string[] = [libraryItemMimeType, tableTextMimeType];
 
   get onDidChangeTreeData(): Event<LibraryItem> {
@@ -82,6 +93,29 @@ class LibraryDataProvider
     }
   }
 
+  public async handleDrop(
+    target: LibraryItem | undefined,
+    dataTransfer: DataTransfer,
+  ): Promise<void> {
+    const dataTransferItem = dataTransfer.get(this.dropMimeTypes[0]);
+    if (target?.type !== LibraryType || !dataTransferItem?.value) {
+      return;
+    }
+
+    // If a user drops multiple files, there will be multiple
+    // uris separated by newlines
+    const uris = `${dataTransferItem.value}`
+      .split("\n")
+      .filter((uri) => uri.trim());
+    for (const uri of uris) {
+      await commands.executeCommand(
+        "SAS.importTable",
+        target,
+        Uri.parse(uri.trim()),
+      );
+    }
+  }
+
   public async provideDocumentDropEdits(
     _document: TextDocument,
     position: Position,
@@ -156,8 +190,55 @@ class LibraryDataProvider
     return this.model.getChildren(item);
   }
 
-  public writeTableContentsToStream(stream: Writable, item: LibraryItem) {
-    return this.model.writeTableContentsToStream(stream, item);
+  public writeTableContentsToStream(
+    stream: Writable,
+    item: LibraryItem,
+    options?: TableExportOptions,
+  ) {
+    return this.model.writeTableContentsToStream(stream, item, options);
+  }
+
+  public getTableProfile(item: LibraryItem) {
+    return this.model.getTableProfile(item);
+  }
+
+  public async importTable(
+    item: LibraryItem,
+    table: TableImport,
+  ): Promise<void> {
+    await this.model.importTable(item, table);
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  public compareColumns(
+    base: LibraryItem,
+    compare: LibraryItem,
+  ): Promise<ColumnComparison[]> {
+    return this.model.compareColumns(base, compare);
+  }
+
+  public compareTables(
+    base: LibraryItem,
+    compare: LibraryItem,
+    columns: ColumnComparison[],
+    keys: string[],
+  ): Promise<TableComparison> {
+    return this.model.compareTables(base, compare, columns, keys);
+  }
+
+  public canUpdateTable(item: LibraryItem): boolean {
+    return this.model.canUpdateTable(item);
+  }
+
+  public getTableEditCode(
+    item: LibraryItem,
+    edits: TableEdits,
+  ): Promise<string> {
+    return this.model.getTableEditCode(item, edits);
+  }
+
+  public updateTable(item: LibraryItem, edits: TableEdits): Promise<void> {
+    return this.model.updateTable(item, edits);
   }
 
   public async deleteTable(item: LibraryItem): Promise<void> {
@@ -4,18 +4,75 @@ import { ProgressLocation, l10n, window } from "vscode";
 
 import { Writable } from "stream";
 
+import { Column } from "../../connection/rest/api/compute";
+import { compareColumns } from "../../connection/tableCompare";
+import { getTableEditCode } from "../../connection/tableEdit";
 import PaginatedResultSet from "./PaginatedResultSet";
+import {
+  DelimitedTableWriter,
+  JsonLinesTableWriter,
+  TableWriter,
+} from "./TableWriter";
+import XlsxTableWriter from "./XlsxTableWriter";
 import { DefaultRecordLimit, Messages } from "./const";
 import {
+  ColumnComparison,
   LibraryAdapter,
   LibraryItem,
   LibraryItemType,
+  TableComparison,
   TableData,
-  TableRow,
+  TableEdits,
+  TableExportFormat,
+  TableExportOptions,
+  TableImport,
+  TableProfile,
+  TableQuery,
 } from "./types";
 
 const sortById = (a: LibraryItem, b: LibraryItem) => a.id.localeCompare(b.id);
 
+const createTableWriter = async (
+  format: TableExportFormat,
+  stream: Writable,
+  columns: Column[],
+  tableName: string,
+): Promise<TableWriter> => {
+  switch (format) {
+    case "tsv":
+      return new DelimitedTableWriter(stream, columns, "tsv");
+    case "jsonl":
+      return new JsonLinesTableWriter(stream, columns);
+    case "xlsx":
+      return new XlsxTableWriter(stream, columns, tableName);
+    case "parquet": {
+      // the parquet writer is bundled with the extension, the dynamic import
+      // only defers evaluating it until a table is exported to parquet
+      const { default: ParquetTableWriter } = await import(
+        "./ParquetTableWriter"
+      );
+      return new ParquetTableWriter(stream, columns);
+    }
+    case "csv":
+    default:
+      return new DelimitedTableWriter(stream, columns, "csv");
+  }
+};
+
+// Groups row positions into ranges of consecutive positions
+const toRanges = (positions: number[]): [number, number][] =>
+  [...positions]
+    .sort((a, b) => a - b)
+    .reduce<[number, number][]>((ranges, position) => {
+      const range = ranges[ranges.length - 1];
+      if (range && position <= range[1] + 1) {
+        range[1] = Math.max(range[1], position);
+      } else {
+        ranges.push([position, position]);
+      }
+      return ranges;
+    }, []);
+
 class LibraryModel {
   public constructor(protected libraryAdapter: LibraryAdapter | undefined) {}
 
@@ -27,12 +84,12 @@ class LibraryModel {
     item: LibraryItem,
   ): PaginatedResultSet<{ data: TableData; error?: Error }> {
     return new PaginatedResultSet<{ data: TableData; error?: Error }>(
-      async (start: number, end: number) => {
+      async (start: number, end: number, query?: TableQuery) => {
         await this.libraryAdapter.setup();
         const limit = end - start + 1;
         try {
           return {
-            data: await this.libraryAdapter.getRows(item, start, limit),
+            data: await this.libraryAdapter.getRows(item, start, limit, query),
           };
         } catch (e) {
           return { error: e, data: { rows: [], count: 0 } };
@@ -44,18 +101,20 @@ class LibraryModel {
   public async writeTableContentsToStream(
     fileStream: Writable,
     item: LibraryItem,
+    { format, query, rows: selectedRows }: TableExportOptions = {
+      format: "csv",
+    },
   ) {
     await this.libraryAdapter.setup();
-    let offset = 0;
-    const { rowCount: totalItemCount, maxNumberOfRowsToRead: limit } =
+    const columns = await this.fetchColumns(item);
+    const { maxNumberOfRowsToRead: limit } =
       await this.libraryAdapter.getTableRowCount(item);
-    let hasWrittenHeader: boolean = false;
-    const stringArrayToCsvString = (strings: string[]): string =>
-      `"${strings
-        .map((item: string | number) =>
-          (item ?? "").toString().replace(/"/g, '""'),
-        )
-        .join('","')}"`;
+    const writer = await createTableWriter(
+      format,
+      fileStream,
+      columns,
+      item.name,
+    );
 
     await window.withProgress(
       {
@@ -65,32 +124,63 @@ class LibraryModel {
         }),
         cancellable: true,
       },
-      async (_progress, cancellationToken) => {
+      async (progress, cancellationToken) => {
         cancellationToken.onCancellationRequested(() => {
           fileStream.destroy();
           return;
         });
-        do {
-          const data = await this.libraryAdapter.getRowsAsCSV(
+
+        let rowCount = selectedRows?.length;
+        let writtenRowCount = 0;
+        const writePage = async (start: number, pageLimit: number) => {
+          const { rows, count } = await this.libraryAdapter.getRows(
             item,
-            offset,
-            limit,
+            start,
+            pageLimit,
+            query,
           );
+          rowCount ??= count;
 
-          const headers = data.rows.shift();
-          if (!hasWrittenHeader) {
-            fileStream.write(stringArrayToCsvString(headers.columns));
-            hasWrittenHeader = true;
-          }
+          // the first cell of a row is its index
+          await writer.writeRows(rows.map(({ cells }) => cells.slice(1)));
+          writtenRowCount += rows.length;
+          progress.report({
+            increment: rowCount ? (rows.length / rowCount) * 100 : 0,
+            message: l10n.t("{writtenRowCount} of {rowCount} rows", {
+              writtenRowCount,
+              rowCount,
+            }),
+          });
 
-          data.rows.forEach((item: TableRow) =>
-            fileStream.write("\n" + stringArrayToCsvString(item.cells)),
-          );
+          return rows.length;
+        };
 
-          offset += limit;
-        } while (offset < totalItemCount);
+        if (selectedRows) {
+          for (const [start, end] of toRanges(selectedRows)) {
+            for (
+              let offset = start;
+              offset <= end && !cancellationToken.isCancellationRequested;
+              offset += limit
+            ) {
+              await writePage(offset, Math.min(limit, end - offset + 1));
+            }
+          }
+        } else {
+          let offset = 0;
+          do {
+            if ((await writePage(offset, limit)) === 0) {
+              break;
+            }
+            offset += limit;
+          } while (
+            offset < rowCount &&
+            !cancellationToken.isCancellationRequested
+          );
+        }
 
-        fileStream.end();
+        if (!cancellationToken.isCancellationRequested) {
+          await writer.end();
+        }
       },
     );
   }
@@ -115,6 +205,122 @@ class LibraryModel {
     return items;
   }
 
+  public async getTableProfile(item: LibraryItem): Promise<TableProfile> {
+    if (!this.libraryAdapter?.getTableProfile) {
+      throw new Error(Messages.TableProfileUnsupportedError);
+    }
+
+    const columns = await this.fetchColumns(item);
+
+    return await this.libraryAdapter.getTableProfile(item, columns);
+  }
+
+  public async importTable(
+    item: LibraryItem,
+    table: TableImport,
+  ): Promise<void> {
+    if (!this.libraryAdapter?.importTable) {
+      throw new Error(Messages.TableImportUnsupportedError);
+    }
+    if (item.readOnly) {
+      throw new Error(
+        l10n.t(Messages.TableImportReadOnlyError, { libraryName: item.name }),
+      );
+    }
+
+    await this.libraryAdapter.setup();
+    await this.libraryAdapter.importTable(item, table);
+  }
+
+  public async compareColumns(
+    base: LibraryItem,
+    compare: LibraryItem,
+  ): Promise<ColumnComparison[]> {
+    if (!this.libraryAdapter?.compareTables) {
+      throw new Error(Messages.TableCompareUnsupportedError);
+    }
+
+    return compareColumns(
+      await this.fetchColumns(base),
+      await this.fetchColumns(compare),
+    );
+  }
+
+  /**
+   * Compares the values of the columns with the same name and type in two
+   * tables, with rows matched by the values of their key columns.
+   * @param columns the comparison of the columns of the tables.
+   */
+  public async compareTables(
+    base: LibraryItem,
+    compare: LibraryItem,
+    columns: ColumnComparison[],
+    keys: string[],
+  ): Promise<TableComparison> {
+    if (!this.libraryAdapter?.compareTables) {
+      throw new Error(Messages.TableCompareUnsupportedError);
+    }
+
+    const comparedColumns = columns
+      .filter(
+        ({ name, base, compare }) =>
+          base?.type === compare?.type && !keys.includes(name),
+      )
+      .map(({ name, base }): Column => ({ name, type: base.type }));
+    if (comparedColumns.length === 0) {
+      throw new Error(Messages.TableCompareNoColumnsError);
+    }
+
+    await this.libraryAdapter.setup();
+    const comparison = await this.libraryAdapter.compareTables(base, compare, {
+      keys,
+      columns: comparedColumns,
+    });
+
+    return {
+      ...comparison,
+      base: base.uid,
+      compare: compare.uid,
+      keys,
+      columns: columns.map((column) => ({
+        ...column,
+        unequalCount: comparison.unequalCounts[column.name],
+      })),
+    };
+  }
+
+  public canUpdateTable(item: LibraryItem): boolean {
+    return !!this.libraryAdapter?.updateTable && !item.readOnly;
+  }
+
+  /**
+   * Returns the SAS code that applies the changes made to the rows of a
+   * table, to review them before they are applied.
+   */
+  public async getTableEditCode(
+    item: LibraryItem,
+    edits: TableEdits,
+  ): Promise<string> {
+    return getTableEditCode(item, await this.fetchColumns(item), edits);
+  }
+
+  public async updateTable(item: LibraryItem, edits: TableEdits) {
+    if (!this.libraryAdapter?.updateTable) {
+      throw new Error(Messages.TableEditUnsupportedError);
+    }
+    if (item.readOnly) {
+      throw new Error(
+        l10n.t(Messages.TableEditReadOnlyError, {
+          libraryName: item.library,
+        }),
+      );
+    }
+
+    const columns = await this.fetchColumns(item);
+
+    await this.libraryAdapter.updateTable(item, columns, edits);
+  }
+
   public async deleteTable(item: LibraryItem) {
     try {
       await this.libraryAdapter.deleteTable(item);
@@ -1,15 +1,26 @@
 // Copyright © 2023, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
+import { TableQuery } from "./types";
+
+type QueryForData<T> = (
+  start: number,
+  end: number,
+  query?: TableQuery,
+) => Promise<T>;
 
 class PaginatedResultSet<T> {
-  private queryForData: (start: number, end: number) => Promise<T>;
+  private queryForData: QueryForData<T>;
 
-  constructor(queryForData: (start: number, end: number) => Promise<T>) {
+  constructor(queryForData: QueryForData<T>) {
     this.queryForData = queryForData;
   }
 
-  public async getData(start: number, end: number): Promise<T> {
-    return await this.queryForData(start, end);
+  public async getData(
+    start: number,
+    end: number,
+    query?: TableQuery,
+  ): Promise<T> {
+    return await this.queryForData(start, end, query);
   }
 }
 
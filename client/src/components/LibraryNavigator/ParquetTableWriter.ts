@@ -0,0 +1,130 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { ByteWriter } from "hyparquet-writer/src/bytewriter.js";
+import {
+  ParquetWriter,
+  SchemaElement,
+} from "hyparquet-writer/src/parquet-writer.js";
+import { Writable } from "stream";
+
+import { Column } from "../../connection/rest/api/compute";
+import {
+  TableWriter,
+  endStream,
+  isNumericColumn,
+  toTableCell,
+  write,
+} from "./TableWriter";
+import { TableCell } from "./types";
+
+const ROW_GROUP_SIZE = 10000;
+
+/**
+ * Returns a parquet writer that writes its buffer to a stream after each
+ * row group.
+ */
+const streamWriter = (stream: Writable): ByteWriter => {
+  const writer = new ByteWriter();
+  const flush = async () => {
+    // the buffer is reused after it is flushed
+    const bytes = new Uint8Array(writer.buffer.slice(0, writer.index));
+    writer.index = 0;
+    await write(stream, bytes);
+  };
+
+  return Object.assign(writer, { flush, finish: flush });
+};
+
+/**
+ * Writes the rows of a table to a parquet file, in row groups of 10,000
+ * rows. Numeric columns are doubles and the other columns are strings. The
+ * SAS formats and labels of the columns are kept in the key-value metadata.
+ */
+class ParquetTableWriter implements TableWriter {
+  private writer: ParquetWriter;
+  private rows: TableCell[][] = [];
+
+  public constructor(
+    private readonly stream: Writable,
+    private readonly columns: Column[],
+  ) {
+    const schema: SchemaElement[] = [
+      { name: "root", num_children: columns.length },
+      ...columns.map(
+        (column): SchemaElement =>
+          isNumericColumn(column)
+            ? {
+                name: column.name,
+                type: "DOUBLE",
+                repetition_type: "OPTIONAL",
+              }
+            : {
+                name: column.name,
+                type: "BYTE_ARRAY",
+                converted_type: "UTF8",
+                repetition_type: "OPTIONAL",
+              },
+      ),
+    ];
+
+    this.writer = new ParquetWriter({
+      writer: streamWriter(stream),
+      schema,
+      kvMetadata: [
+        {
+          key: "sas.columns",
+          value: JSON.stringify(
+            columns.map(({ name, type, format, label }) => ({
+              name,
+              type,
+              format: format?.name,
+              label,
+            })),
+          ),
+        },
+      ],
+    });
+  }
+
+  public async writeRows(rows: unknown[][]): Promise<void> {
+    for (const row of rows) {
+      this.rows.push(
+        this.columns.map((column, index) => {
+          const cell = toTableCell(row[index], column);
+          // values that could not be read as numbers are missing
+          return isNumericColumn(column) && typeof cell !== "number"
+            ? null
+            : cell;
+        }),
+      );
+    }
+
+    if (this.rows.length >= ROW_GROUP_SIZE) {
+      await this.writeRowGroup();
+    }
+  }
+
+  public async end(): Promise<void> {
+    await this.writeRowGroup();
+    await this.writer.finish();
+    await endStream(this.stream);
+  }
+
+  private async writeRowGroup(): Promise<void> {
+    if (this.rows.length === 0) {
+      return;
+    }
+
+    const rows = this.rows;
+    this.rows = [];
+    await this.writer.write({
+      columnData: this.columns.map((column, index) => ({
+        name: column.name,
+        data: rows.map((row) => row[index]),
+      })),
+      rowGroupSize: rows.length,
+    });
+  }
+}
+
+export default ParquetTableWriter;
@@ -0,0 +1,381 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import { extname } from "path";
+
+import { readXlsxRows } from "./XlsxTableReader";
+import { ImportColumn, TableCell } from "./types";
+
+export const importFileExtensions = [
+  "csv",
+  "tsv",
+  "txt",
+  "json",
+  "jsonl",
+  "ndjson",
+  "xlsx",
+  "parquet",
+];
+
+/**
+ * The columns and rows read from a file. The values of the rows are strings,
+ * numbers, booleans, dates or missing.
+ */
+export interface TableFile {
+  columns: Pick<ImportColumn, "name" | "format" | "label">[];
+  rows: unknown[][];
+}
+
+const MAX_NAME_LENGTH = 32;
+const MAX_CHARACTER_LENGTH = 32767;
+const SAS_EPOCH = Date.UTC(1960, 0, 1);
+const DAY = 86400000;
+
+const NUMBER_REGEX = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATETIME_REGEX =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[-+]\d{2}:?\d{2})?$/i;
+const DATETIME_FORMAT_REGEX = /^(DATETIME|DTDATE|E8601DT|IS8601DT|NLDATM)/i;
+
+const isMissing = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === "string" && value.trim() === "");
+
+/**
+ * Parses the rows of a delimited file, with quoted values that can contain
+ * delimiters, quotes and line breaks.
+ */
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+  if (value || row.length) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const toJsonValue = (value: unknown) =>
+  value !== null && typeof value === "object" ? JSON.stringify(value) : value;
+
+/**
+ * Reads an array of objects, or objects on separate lines, as rows with a
+ * column for each of the keys of the objects.
+ */
+const readJson = (text: string): TableFile => {
+  const trimmed = text.trim();
+  const objects: Record<string, unknown>[] = trimmed.startsWith("[")
+    ? JSON.parse(trimmed)
+    : trimmed
+        .split(/\r?\n/)
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line));
+
+  const names: string[] = [];
+  for (const object of objects) {
+    for (const name of Object.keys(object ?? {})) {
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+    }
+  }
+
+  return {
+    columns: names.map((name) => ({ name })),
+    rows: objects.map((object) =>
+      names.map((name) => toJsonValue(object?.[name])),
+    ),
+  };
+};
+
+const fromHeaderRow = ([header = [], ...rows]: unknown[][]): TableFile => ({
+  columns: Array.from(header, (name, index) => ({
+    name: isMissing(name) ? `VAR${index + 1}` : `${name}`,
+  })),
+  rows,
+});
+
+/**
+ * Reads a parquet file. The formats and labels of the columns of files
+ * exported from SAS tables are kept in their metadata.
+ */
+const readParquet = async (content: Uint8Array): Promise<TableFile> => {
+  // the parquet reader is bundled with the extension, the dynamic import
+  // only defers evaluating it until a parquet file is imported
+  const { parquetMetadata, parquetRead, parquetSchema } = await import(
+    "hyparquet"
+  );
+  const file = content.buffer.slice(
+    content.byteOffset,
+    content.byteOffset + content.byteLength,
+  );
+  const metadata = parquetMetadata(file);
+  const sasColumns: { name: string; format?: string; label?: string }[] =
+    JSON.parse(
+      metadata.key_value_metadata?.find(({ key }) => key === "sas.columns")
+        ?.value ?? "[]",
+    );
+
+  let rows: unknown[][] = [];
+  await parquetRead({ file, metadata, onComplete: (data) => (rows = data) });
+
+  return {
+    columns: parquetSchema(metadata).children.map(({ element: { name } }) => {
+      const sasColumn = sasColumns.find((column) => column.name === name);
+      return { name, format: sasColumn?.format, label: sasColumn?.label };
+    }),
+    rows: rows.map((row) =>
+      row.map((value) =>
+        typeof value === "bigint" ? Number(value) : toJsonValue(value),
+      ),
+    ),
+  };
+};
+
+/**
+ * Reads the columns and rows of a CSV, TSV, JSON, JSON Lines, Excel or
+ * parquet file.
+ * @param fileName the name of the file, whose extension selects its format.
+ * @param content the contents of the file.
+ */
+export const readTableFile = async (
+  fileName: string,
+  content: Uint8Array,
+): Promise<TableFile> => {
+  const extension = extname(fileName).slice(1).toLowerCase();
+  const text = () =>
+    Buffer.from(content.buffer, content.byteOffset, content.byteLength)
+      .toString("utf8")
+      .replace(/^\uFEFF/, "");
+
+  switch (extension) {
+    case "csv":
+      return fromHeaderRow(parseDelimited(text(), ","));
+    case "tsv":
+    case "txt":
+      return fromHeaderRow(parseDelimited(text(), "\t"));
+    case "json":
+    case "jsonl":
+    case "ndjson":
+      return readJson(text());
+    case "xlsx":
+      return fromHeaderRow(
+        readXlsxRows(
+          Buffer.from(content.buffer, content.byteOffset, content.byteLength),
+        ),
+      );
+    case "parquet":
+      return await readParquet(content);
+    default:
+      throw new Error(
+        l10n.t("Files with the extension {extension} cannot be imported.", {
+          extension,
+        }),
+      );
+  }
+};
+
+/**
+ * Converts a name to a valid SAS name, which starts with a letter or an
+ * underscore and has up to 32 letters, digits and underscores.
+ * @param name the name to convert.
+ * @param usedNames the names that are already used, in upper case.
+ */
+export const toValidSasName = (name: string, usedNames: string[] = []) => {
+  const baseName =
+    name
+      .trim()
+      .replace(/[^A-Za-z0-9_]+/g, "_")
+      .replace(/^(\d)/, "_$1")
+      .slice(0, MAX_NAME_LENGTH) || "_";
+
+  let validName = baseName;
+  for (let suffix = 2; usedNames.includes(validName.toUpperCase()); suffix++) {
+    validName = `${baseName.slice(0, MAX_NAME_LENGTH - `${suffix}`.length)}${suffix}`;
+  }
+
+  return validName;
+};
+
+/**
+ * Returns the date of a value, and whether it has a time of day.
+ */
+const toDate = (
+  value: unknown,
+): { date: Date; hasTime: boolean } | undefined => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime())
+      ? undefined
+      : { date: value, hasTime: value.getTime() % DAY !== 0 };
+  }
+  if (typeof value !== "string") {
+    return;
+  }
+
+  const text = value.trim();
+  if (DATE_REGEX.test(text)) {
+    const date = new Date(`${text}T00:00:00Z`);
+    return isNaN(date.getTime()) ? undefined : { date, hasTime: false };
+  }
+  if (DATETIME_REGEX.test(text)) {
+    // datetimes without a time zone are read as they are written
+    const hasTimeZone = /(Z|[-+]\d{2}:?\d{2})$/i.test(text);
+    const date = new Date(`${text.replace(" ", "T")}${hasTimeZone ? "" : "Z"}`);
+    return isNaN(date.getTime()) ? undefined : { date, hasTime: true };
+  }
+
+  return;
+};
+
+const isNumber = (value: unknown) =>
+  typeof value === "number" ||
+  typeof value === "boolean" ||
+  (typeof value === "string" && NUMBER_REGEX.test(value.trim()));
+
+/**
+ * Infers the type, length and format of the columns of a file from their
+ * values. Columns of numbers are numeric, columns of dates are numeric with
+ * a date or datetime format, and the other columns are character columns as
+ * long as their longest value. The names are converted to valid SAS names,
+ * with the names they replace as their labels.
+ */
+export const inferColumns = ({ columns, rows }: TableFile): ImportColumn[] => {
+  const usedNames: string[] = [];
+
+  return columns.map((column, index): ImportColumn => {
+    const name = toValidSasName(column.name, usedNames);
+    usedNames.push(name.toUpperCase());
+    const label = column.label || (name !== column.name ? column.name : "");
+
+    const values = rows
+      .map((row) => row[index])
+      .filter((value) => !isMissing(value));
+    const dates = values.map(toDate);
+    if (values.length > 0 && dates.every(Boolean)) {
+      const hasTime = dates.some(({ hasTime }) => hasTime);
+      return {
+        name,
+        type: "num",
+        length: 8,
+        format: column.format || (hasTime ? "DATETIME19." : "DATE9."),
+        label,
+      };
+    }
+    if (values.length > 0 && values.every(isNumber)) {
+      return { name, type: "num", length: 8, format: column.format, label };
+    }
+
+    const length = values.reduce<number>(
+      (length, value) => Math.max(length, Buffer.byteLength(`${value}`)),
+      1,
+    );
+    return {
+      name,
+      type: "char",
+      length: Math.min(length, MAX_CHARACTER_LENGTH),
+      format: column.format,
+      label,
+    };
+  });
+};
+
+const toIsoString = ({ date, hasTime }: { date: Date; hasTime: boolean }) =>
+  hasTime
+    ? date.toISOString().replace(/\.000Z$|Z$/, "")
+    : date.toISOString().slice(0, 10);
+
+const toText = (value: unknown): string => {
+  const date = value instanceof Date ? toDate(value) : undefined;
+  return date ? toIsoString(date) : `${value}`;
+};
+
+/**
+ * Returns the first distinct values of each column of a file, as text.
+ */
+export const getSamples = (
+  { columns, rows }: TableFile,
+  count: number = 5,
+): string[][] =>
+  columns.map((_column, index) => {
+    const samples: string[] = [];
+    for (const row of rows) {
+      if (samples.length >= count) {
+        break;
+      }
+      const text = isMissing(row[index]) ? "" : toText(row[index]);
+      if (text && !samples.includes(text)) {
+        samples.push(text);
+      }
+    }
+
+    return samples;
+  });
+
+/**
+ * Converts the values of the rows of a file to the values of the columns
+ * they are imported to. Dates are SAS date values, or SAS datetime values
+ * for columns with a datetime format, and values that are not numbers are
+ * missing in numeric columns.
+ */
+export const toImportRows = (
+  columns: ImportColumn[],
+  rows: unknown[][],
+): TableCell[][] =>
+  rows.map((row) =>
+    columns.map((column, index): TableCell => {
+      const value = row[index];
+      if (isMissing(value)) {
+        return null;
+      }
+
+      if (column.type === "char") {
+        return toText(value);
+      }
+
+      const date = toDate(value);
+      if (date) {
+        const milliseconds = date.date.getTime() - SAS_EPOCH;
+        return DATETIME_FORMAT_REGEX.test(column.format ?? "")
+          ? milliseconds / 1000
+          : Math.floor(milliseconds / DAY);
+      }
+      if (typeof value === "boolean") {
+        return value ? 1 : 0;
+      }
+
+      return isNumber(value) ? Number(value) : null;
+    }),
+  );
@@ -0,0 +1,146 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Writable } from "stream";
+
+import { Column } from "../../connection/rest/api/compute";
+import { TableCell } from "./types";
+
+/**
+ * Writes the rows of a table to a stream in one of the export formats.
+ */
+export interface TableWriter {
+  writeRows(rows: unknown[][]): Promise<void>;
+  end(): Promise<void>;
+}
+
+const NUMBER_REGEX = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+/**
+ * Returns whether the values of a column are written as numbers. Date, time
+ * and datetime columns keep the formatted values they are read with.
+ */
+export const isNumericColumn = (column: Column) =>
+  ["num", "float", "double", "integer", "currency"].includes(
+    column.type?.toLowerCase() ?? "",
+  );
+
+/**
+ * Converts a cell read from a table to the value written for its column.
+ * Missing values are null.
+ */
+export const toTableCell = (cell: unknown, column: Column): TableCell => {
+  if (cell === null || cell === undefined) {
+    return null;
+  }
+  if (!isNumericColumn(column)) {
+    return `${cell}`;
+  }
+  if (typeof cell === "number") {
+    return cell;
+  }
+
+  const value = `${cell}`.trim();
+  if (value === "" || value === ".") {
+    return null;
+  }
+
+  return NUMBER_REGEX.test(value) ? Number(value) : value;
+};
+
+/**
+ * Writes a chunk to a stream, waiting for it to drain when its buffer is
+ * full.
+ */
+export const write = async (
+  stream: Writable,
+  chunk: string | Uint8Array,
+): Promise<void> => {
+  if (!stream.write(chunk)) {
+    await new Promise((resolve) => stream.once("drain", resolve));
+  }
+};
+
+export const endStream = (stream: Writable): Promise<void> =>
+  new Promise((resolve, reject) => {
+    stream.once("error", reject);
+    stream.end(() => resolve());
+  });
+
+/**
+ * Writes CSV with quoted values, or TSV with the tabs and line breaks of
+ * the values replaced by spaces.
+ */
+export class DelimitedTableWriter implements TableWriter {
+  private hasWrittenHeader = false;
+
+  public constructor(
+    private readonly stream: Writable,
+    private readonly columns: Column[],
+    private readonly format: "csv" | "tsv",
+  ) {}
+
+  public async writeRows(rows: unknown[][]): Promise<void> {
+    let text = "";
+    if (!this.hasWrittenHeader) {
+      text += this.toLine(this.columns.map(({ name }) => name));
+      this.hasWrittenHeader = true;
+    }
+    for (const row of rows) {
+      text += "\n" + this.toLine(row);
+    }
+
+    await write(this.stream, text);
+  }
+
+  public async end(): Promise<void> {
+    if (!this.hasWrittenHeader) {
+      await this.writeRows([]);
+    }
+    await endStream(this.stream);
+  }
+
+  private toLine(cells: unknown[]): string {
+    return this.format === "tsv"
+      ? cells
+          .map((cell) => `${cell ?? ""}`.replace(/[\t\r\n]/g, " "))
+          .join("\t")
+      : cells
+          .map((cell) => `"${`${cell ?? ""}`.replace(/"/g, '""')}"`)
+          .join(",");
+  }
+}
+
+export class JsonLinesTableWriter implements TableWriter {
+  private hasWrittenRows = false;
+
+  public constructor(
+    private readonly stream: Writable,
+    private readonly columns: Column[],
+  ) {}
+
+  public async writeRows(rows: unknown[][]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    const lines = rows.map((row) =>
+      JSON.stringify(
+        Object.fromEntries(
+          this.columns.map((column, index) => [
+            column.name,
+            toTableCell(row[index], column),
+          ]),
+        ),
+      ),
+    );
+    await write(
+      this.stream,
+      (this.hasWrittenRows ? "\n" : "") + lines.join("\n"),
+    );
+    this.hasWrittenRows = true;
+  }
+
+  public async end(): Promise<void> {
+    await endStream(this.stream);
+  }
+}
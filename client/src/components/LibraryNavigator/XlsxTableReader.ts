@@ -0,0 +1,226 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const DEFLATE = 8;
+
+// Excel stores dates as the days since 1899-12-30
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY = 86400000;
+// The built-in number formats of dates and times
+const DATE_FORMAT_IDS = [14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47];
+
+const invalidWorkbook = () =>
+  new Error(l10n.t("The file is not a valid Excel workbook."));
+
+/**
+ * Reads the entries of a zip file.
+ * @returns the contents of the entries by their names.
+ */
+const readZip = (buffer: Buffer): Map<string, Buffer> => {
+  let end = buffer.length - 22;
+  while (end >= 0 && buffer.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY) {
+    end--;
+  }
+  if (end < 0) {
+    throw invalidWorkbook();
+  }
+
+  const entries = new Map<string, Buffer>();
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw invalidWorkbook();
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const headerOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    if (buffer.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) {
+      throw invalidWorkbook();
+    }
+    const dataOffset =
+      headerOffset +
+      30 +
+      buffer.readUInt16LE(headerOffset + 26) +
+      buffer.readUInt16LE(headerOffset + 28);
+    const data = buffer.subarray(dataOffset, dataOffset + compressedSize);
+    entries.set(name, method === DEFLATE ? inflateRawSync(data) : data);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const unescapeXml = (value: string) =>
+  value.replace(
+    /&(lt|gt|amp|quot|apos|#x[0-9a-f]+|#\d+);/gi,
+    (_, entity: string) => {
+      switch (entity) {
+        case "lt":
+          return "<";
+        case "gt":
+          return ">";
+        case "amp":
+          return "&";
+        case "quot":
+          return '"';
+        case "apos":
+          return "'";
+        default:
+          return String.fromCodePoint(
+            entity[1] === "x" || entity[1] === "X"
+              ? parseInt(entity.slice(2), 16)
+              : parseInt(entity.slice(1), 10),
+          );
+      }
+    },
+  );
+
+const attributes = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    [...text.matchAll(/([\w:]+)="([^"]*)"/g)].map(([, name, value]) => [
+      name,
+      unescapeXml(value),
+    ]),
+  );
+
+// Joins the text runs of a string, leaving out its phonetic runs
+const text = (xml: string) =>
+  [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "").matchAll(/<t\b[^>]*>([^<]*)/g)]
+    .map(([, value]) => unescapeXml(value))
+    .join("");
+
+const columnIndex = (reference: string) =>
+  [...reference.replace(/\d+$/, "")].reduce(
+    (index, letter) => index * 26 + letter.charCodeAt(0) - 64,
+    0,
+  ) - 1;
+
+const isDateFormat = (code: string) =>
+  /[dmyhs]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ""));
+
+/**
+ * Returns whether each cell style of a workbook formats dates.
+ */
+const dateStyles = (stylesXml: string | undefined): boolean[] => {
+  if (!stylesXml) {
+    return [];
+  }
+
+  const customFormats = new Map(
+    [...stylesXml.matchAll(/<numFmt\b([^>]*)\/?>/g)].map(([, attrs]) => {
+      const { numFmtId, formatCode } = attributes(attrs);
+      return [parseInt(numFmtId, 10), formatCode ?? ""];
+    }),
+  );
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+
+  return [...(cellXfs?.[1] ?? "").matchAll(/<xf\b([^>]*)\/?>/g)].map(
+    ([, attrs]) => {
+      const numFmtId = parseInt(attributes(attrs).numFmtId, 10) || 0;
+      return customFormats.has(numFmtId)
+        ? isDateFormat(customFormats.get(numFmtId))
+        : DATE_FORMAT_IDS.includes(numFmtId);
+    },
+  );
+};
+
+/**
+ * Returns the path of the first sheet of a workbook.
+ */
+const firstSheetPath = (entries: Map<string, Buffer>): string => {
+  const workbook = entries.get("xl/workbook.xml")?.toString("utf8") ?? "";
+  const relationships =
+    entries.get("xl/_rels/workbook.xml.rels")?.toString("utf8") ?? "";
+  const sheet = workbook.match(/<sheet\b([^>]*)\/?>/);
+  const relationshipId = sheet ? attributes(sheet[1])["r:id"] : undefined;
+  const relationship = [
+    ...relationships.matchAll(/<Relationship\b([^>]*)\/?>/g),
+  ]
+    .map(([, attrs]) => attributes(attrs))
+    .find(({ Id }) => Id === relationshipId);
+  if (!relationship) {
+    return "xl/worksheets/sheet1.xml";
+  }
+
+  return relationship.Target.startsWith("/")
+    ? relationship.Target.slice(1)
+    : `xl/${relationship.Target}`;
+};
+
+/**
+ * Reads the rows of the first sheet of an Excel workbook. Numbers with a
+ * date format are read as dates.
+ * @param buffer the contents of the workbook.
+ * @returns the values of the rows, with the header as the first row.
+ */
+export const readXlsxRows = (buffer: Buffer): unknown[][] => {
+  const entries = readZip(buffer);
+  const sheet = entries.get(firstSheetPath(entries))?.toString("utf8");
+  if (!sheet) {
+    throw invalidWorkbook();
+  }
+
+  const sharedStrings = [
+    ...(entries.get("xl/sharedStrings.xml")?.toString("utf8") ?? "").matchAll(
+      /<si>([\s\S]*?)<\/si>/g,
+    ),
+  ].map(([, xml]) => text(xml));
+  const styles = dateStyles(entries.get("xl/styles.xml")?.toString("utf8"));
+
+  const rows: unknown[][] = [];
+  for (const [, rowXml] of sheet.matchAll(
+    /<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g,
+  )) {
+    const row: unknown[] = [];
+    for (const [, attrs, cellXml = ""] of (rowXml ?? "").matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g,
+    )) {
+      const { r, t, s } = attributes(attrs);
+      const value = cellXml.match(/<v>([^<]*)<\/v>/)?.[1];
+      const index = r ? columnIndex(r) : row.length;
+      switch (t) {
+        case "s":
+          row[index] = sharedStrings[parseInt(value, 10)] ?? null;
+          break;
+        case "inlineStr":
+          row[index] = text(cellXml);
+          break;
+        case "str":
+          row[index] = value === undefined ? null : unescapeXml(value);
+          break;
+        case "b":
+          row[index] = value === "1";
+          break;
+        case "e":
+          row[index] = null;
+          break;
+        default: {
+          if (value === undefined) {
+            row[index] = null;
+            break;
+          }
+          const number = Number(value);
+          row[index] = styles[parseInt(s, 10) || 0]
+            ? new Date(EXCEL_EPOCH + Math.round(number * DAY))
+            : number;
+        }
+      }
+    }
+    rows.push(row);
+  }
+
+  return rows;
+};
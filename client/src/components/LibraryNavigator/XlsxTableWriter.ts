@@ -0,0 +1,329 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Writable } from "stream";
+import { DeflateRaw, createDeflateRaw } from "zlib";
+
+import { Column } from "../../connection/rest/api/compute";
+import { TableWriter, endStream, toTableCell, write } from "./TableWriter";
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const crc32 = (crc: number, data: Buffer): number => {
+  crc = ~crc;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+};
+
+// 1980-01-01 00:00, the earliest DOS date
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+// the sizes of the entries follow their data, and their names are UTF-8
+const ZIP_FLAGS = 0x0808;
+const DEFLATE = 8;
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+/**
+ * Writes a zip archive to a stream, deflating each entry while it is
+ * written. Archives are limited to 4 GB, as they are written without the
+ * zip64 extensions.
+ */
+class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private entry: ZipEntry | undefined;
+  private deflate: DeflateRaw | undefined;
+  private deflateEnd: Promise<void> | undefined;
+
+  public constructor(private readonly stream: Writable) {}
+
+  public async addEntry(name: string, content: string): Promise<void> {
+    await this.startEntry(name);
+    await this.writeEntry(content);
+    await this.endEntry();
+  }
+
+  public async startEntry(name: string): Promise<void> {
+    const entry: ZipEntry = {
+      name: Buffer.from(name),
+      offset: this.offset,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+    };
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(DOS_TIME, 10);
+    header.writeUInt16LE(DOS_DATE, 12);
+    header.writeUInt16LE(entry.name.length, 26);
+    await this.write(Buffer.concat([header, entry.name]));
+
+    const deflate = createDeflateRaw();
+    deflate.on("data", (chunk: Buffer) => {
+      entry.compressedSize += chunk.length;
+      this.offset += chunk.length;
+      this.stream.write(chunk);
+    });
+    this.deflateEnd = new Promise((resolve, reject) => {
+      deflate.once("end", resolve);
+      deflate.once("error", reject);
+    });
+    this.deflate = deflate;
+    this.entry = entry;
+  }
+
+  public async writeEntry(content: string): Promise<void> {
+    const data = Buffer.from(content);
+    this.entry.crc = crc32(this.entry.crc, data);
+    this.entry.size += data.length;
+    if (!this.deflate.write(data)) {
+      await new Promise((resolve) => this.deflate.once("drain", resolve));
+    }
+  }
+
+  public async endEntry(): Promise<void> {
+    this.deflate.end();
+    await this.deflateEnd;
+
+    const { crc, compressedSize, size } = this.entry;
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    await this.write(descriptor);
+
+    this.entries.push(this.entry);
+    this.entry = undefined;
+    this.deflate = undefined;
+  }
+
+  public async end(): Promise<void> {
+    const centralDirectoryOffset = this.offset;
+    for (const { name, offset, crc, compressedSize, size } of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(ZIP_FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(DOS_TIME, 12);
+      header.writeUInt16LE(DOS_DATE, 14);
+      header.writeUInt32LE(crc, 16);
+      header.writeUInt32LE(compressedSize, 20);
+      header.writeUInt32LE(size, 24);
+      header.writeUInt16LE(name.length, 28);
+      header.writeUInt32LE(offset, 42);
+      await this.write(Buffer.concat([header, name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - centralDirectoryOffset, 12);
+    end.writeUInt32LE(centralDirectoryOffset, 16);
+    await this.write(end);
+
+    await endStream(this.stream);
+  }
+
+  private async write(data: Buffer): Promise<void> {
+    this.offset += data.length;
+    await write(this.stream, data);
+  }
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // characters that are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+const XML_HEADER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`;
+const SPREADSHEET_NS =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+
+const CONTENT_TYPES = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+const RELS = `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}"><Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+const WORKBOOK_RELS = `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}"><Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${RELATIONSHIPS_NS}/styles" Target="styles.xml"/></Relationships>`;
+const workbook = (sheetName: string) =>
+  `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+// the ids of custom number formats start after the built-in formats
+const FIRST_NUMBER_FORMAT_ID = 164;
+
+/**
+ * Returns the Excel number format for a SAS numeric format, for the formats
+ * that have one.
+ * @param format the SAS format, as in `COMMA12.2`.
+ */
+export const toExcelNumberFormat = (
+  format: string | undefined,
+): string | undefined => {
+  const match = format?.toUpperCase().match(/^([A-Z]*)(\d*)\.(\d*)$/);
+  if (!match) {
+    return;
+  }
+
+  const [, name, , decimalText] = match;
+  const decimals = parseInt(decimalText, 10) || 0;
+  const number = `0${decimals > 0 ? `.${"0".repeat(decimals)}` : ""}`;
+  switch (name) {
+    case "":
+    case "F":
+    case "BEST":
+      return decimals > 0 ? number : undefined;
+    case "COMMA":
+      return `#,##${number}`;
+    case "DOLLAR":
+      return `"$"#,##${number}`;
+    case "EURO":
+      return `"€"#,##${number}`;
+    case "PERCENT":
+      return `${number}%`;
+    default:
+      return;
+  }
+};
+
+const numFmts = (numberFormats: string[]) =>
+  numberFormats.length
+    ? `<numFmts count="${numberFormats.length}">${numberFormats
+        .map(
+          (format, index) =>
+            `<numFmt numFmtId="${FIRST_NUMBER_FORMAT_ID + index}" formatCode="${escapeXml(format)}"/>`,
+        )
+        .join("")}</numFmts>`
+    : "";
+
+const styles = (numberFormats: string[]) =>
+  `${XML_HEADER}<styleSheet xmlns="${SPREADSHEET_NS}">${numFmts(numberFormats)}<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="${numberFormats.length + 2}"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>${numberFormats
+    .map(
+      (_, index) =>
+        `<xf numFmtId="${FIRST_NUMBER_FORMAT_ID + index}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`,
+    )
+    .join("")}</cellXfs></styleSheet>`;
+
+const HEADER_STYLE = 1;
+
+/**
+ * Writes the rows of a table to the first sheet of an Excel workbook. The
+ * values of numeric columns are written as numbers, with the number format
+ * of their SAS format where Excel has one.
+ */
+class XlsxTableWriter implements TableWriter {
+  private zip: ZipWriter;
+  private started = false;
+  private numberFormats: string[] = [];
+  private columnStyles: (number | undefined)[];
+
+  public constructor(
+    stream: Writable,
+    private readonly columns: Column[],
+    // sheet names are limited to 31 characters
+    private readonly sheetName: string = "Sheet1",
+  ) {
+    this.zip = new ZipWriter(stream);
+    this.columnStyles = columns.map((column) => {
+      const numberFormat = toExcelNumberFormat(column.format?.name);
+      if (!numberFormat) {
+        return;
+      }
+      if (!this.numberFormats.includes(numberFormat)) {
+        this.numberFormats.push(numberFormat);
+      }
+      return HEADER_STYLE + 1 + this.numberFormats.indexOf(numberFormat);
+    });
+  }
+
+  public async writeRows(rows: unknown[][]): Promise<void> {
+    if (!this.started) {
+      await this.start();
+    }
+
+    await this.zip.writeEntry(
+      rows
+        .map(
+          (row) =>
+            `<row>${this.columns
+              .map((column, index) =>
+                this.cell(toTableCell(row[index], column), index),
+              )
+              .join("")}</row>`,
+        )
+        .join(""),
+    );
+  }
+
+  public async end(): Promise<void> {
+    if (!this.started) {
+      await this.start();
+    }
+
+    await this.zip.writeEntry(`</sheetData></worksheet>`);
+    await this.zip.endEntry();
+    await this.zip.end();
+  }
+
+  private async start(): Promise<void> {
+    this.started = true;
+    await this.zip.addEntry("[Content_Types].xml", CONTENT_TYPES);
+    await this.zip.addEntry("_rels/.rels", RELS);
+    await this.zip.addEntry(
+      "xl/workbook.xml",
+      workbook(this.sheetName.slice(0, 31)),
+    );
+    await this.zip.addEntry("xl/_rels/workbook.xml.rels", WORKBOOK_RELS);
+    await this.zip.addEntry("xl/styles.xml", styles(this.numberFormats));
+
+    await this.zip.startEntry("xl/worksheets/sheet1.xml");
+    await this.zip.writeEntry(
+      `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData><row>${this.columns
+        .map(
+          ({ name }) =>
+            `<c t="inlineStr" s="${HEADER_STYLE}"><is><t>${escapeXml(name)}</t></is></c>`,
+        )
+        .join("")}</row>`,
+    );
+  }
+
+  private cell(value: string | number | null, index: number): string {
+    if (value === null) {
+      return "<c/>";
+    }
+    if (typeof value === "number") {
+      const style = this.columnStyles[index];
+      return `<c${style ? ` s="${style}"` : ""}><v>${value}</v></c>`;
+    }
+
+    return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+  }
+}
+
+export default XlsxTableWriter;
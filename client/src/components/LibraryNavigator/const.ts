@@ -5,6 +5,27 @@ import { l10n } from "vscode";
 export const Messages = {
   TableDeletionError: l10n.t("Unable to delete table {tableName}."),
   ViewTableCommandTitle: l10n.t("View SAS Table"),
+  TableProfileUnsupportedError: l10n.t(
+    "Tables cannot be profiled with the active connection.",
+  ),
+  TableImportUnsupportedError: l10n.t(
+    "Tables cannot be imported with the active connection.",
+  ),
+  TableImportReadOnlyError: l10n.t(
+    "Tables cannot be imported into the read-only library {libraryName}.",
+  ),
+  TableCompareUnsupportedError: l10n.t(
+    "Tables cannot be compared with the active connection.",
+  ),
+  TableCompareNoColumnsError: l10n.t(
+    "The tables have no columns with the same name and type to compare.",
+  ),
+  TableEditUnsupportedError: l10n.t(
+    "Tables cannot be edited with the active connection.",
+  ),
+  TableEditReadOnlyError: l10n.t(
+    "Tables in the read-only library {libraryName} cannot be edited.",
+  ),
 };
 
 export const Icons = {
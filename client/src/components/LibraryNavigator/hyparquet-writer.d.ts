@@ -0,0 +1,61 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+// The types shipped with hyparquet-writer need TypeScript 5.7 or later, so
+// the modules used by the parquet writer are declared here instead.
+
+declare module "hyparquet-writer/src/bytewriter.js" {
+  import { Writer } from "hyparquet-writer/src/parquet-writer.js";
+
+  export interface ByteWriter extends Writer {
+    index: number;
+  }
+
+  export const ByteWriter: new (initialSize?: number) => ByteWriter;
+}
+
+declare module "hyparquet-writer/src/parquet-writer.js" {
+  import { KeyValue, SchemaElement } from "hyparquet";
+
+  export { KeyValue, SchemaElement };
+
+  export interface Writer {
+    buffer: ArrayBuffer;
+    view: DataView;
+    offset: number;
+    ensure(size: number): void;
+    flush?(): void | Promise<void>;
+    finish(): void | Promise<void>;
+    getBuffer(): ArrayBuffer;
+    getBytes(): Uint8Array;
+    appendUint8(value: number): void;
+    appendUint32(value: number): void;
+    appendInt32(value: number): void;
+    appendInt64(value: bigint): void;
+    appendFloat32(value: number): void;
+    appendFloat64(value: number): void;
+    appendBuffer(value: ArrayBuffer): void;
+    appendBytes(value: Uint8Array): void;
+    appendVarInt(value: number): void;
+    appendVarBigInt(value: bigint): void;
+    appendZigZag(value: number | bigint): void;
+  }
+
+  export interface ColumnSource {
+    name: string;
+    data: ArrayLike<unknown>;
+  }
+
+  export class ParquetWriter {
+    constructor(options: {
+      writer: Writer;
+      schema: SchemaElement[];
+      kvMetadata?: KeyValue[];
+    });
+    write(options: {
+      columnData: ColumnSource[];
+      rowGroupSize?: number | number[];
+    }): void | Promise<void>;
+    finish(): void | Promise<void>;
+  }
+}
@@ -4,29 +4,80 @@ import {
   ConfigurationChangeEvent,
   Disposable,
   ExtensionContext,
+  ProgressLocation,
+  QuickPickItem,
   Uri,
   commands,
+  l10n,
   window,
   workspace,
 } from "vscode";
+import type { BaseLanguageClient } from "vscode-languageclient";
 
 import { createWriteStream } from "fs";
+import { basename } from "path";
 
 import { profileConfig } from "../../commands/profile";
+import { onDidChangeConnectionProviders } from "../../connection/providers";
 import { Column } from "../../connection/rest/api/compute";
 import DataViewer from "../../panels/DataViewer";
+import TableComparisonViewer from "../../panels/TableComparisonViewer";
+import TableImporter from "../../panels/TableImporter";
+import TableProfileViewer from "../../panels/TableProfileViewer";
 import { WebViewManager } from "../../panels/WebviewManager";
 import { SubscriptionProvider } from "../SubscriptionProvider";
 import LibraryAdapterFactory from "./LibraryAdapterFactory";
+import LibraryCompletionProvider from "./LibraryCompletionProvider";
 import LibraryDataProvider from "./LibraryDataProvider";
 import LibraryModel from "./LibraryModel";
 import PaginatedResultSet from "./PaginatedResultSet";
-import { LibraryAdapter, LibraryItem, TableData } from "./types";
+import {
+  TableFile,
+  getSamples,
+  importFileExtensions,
+  inferColumns,
+  readTableFile,
+  toImportRows,
+  toValidSasName,
+} from "./TableReader";
+import { Messages } from "./const";
+import {
+  ColumnComparison,
+  LibraryAdapter,
+  LibraryItem,
+  TableData,
+  TableExportFormat,
+  TableExportOptions,
+} from "./types";
+
+const exportFormats = (): (QuickPickItem & { value: TableExportFormat })[] => [
+  { label: "CSV", description: l10n.t("Comma-separated values"), value: "csv" },
+  { label: "TSV", description: l10n.t("Tab-separated values"), value: "tsv" },
+  {
+    label: "JSON Lines",
+    description: l10n.t("One JSON object for each row"),
+    value: "jsonl",
+  },
+  { label: "Excel", description: l10n.t("Excel workbook"), value: "xlsx" },
+  {
+    label: "Parquet",
+    description: l10n.t("Apache Parquet, with column types"),
+    value: "parquet",
+  },
+];
+
+const pickExportFormat = async (): Promise<TableExportFormat | undefined> =>
+  (
+    await window.showQuickPick(exportFormats(), {
+      placeHolder: l10n.t("Select the format of the file"),
+    })
+  )?.value;
 
 class LibraryNavigator implements SubscriptionProvider {
   private libraryDataProvider: LibraryDataProvider;
   private extensionUri: Uri;
   private webviewManager: WebViewManager;
+  private completionProvider: LibraryCompletionProvider;
 
   constructor(context: ExtensionContext) {
     this.extensionUri = context.extensionUri;
@@ -35,6 +86,19 @@ class LibraryNavigator implements SubscriptionProvider {
       context.extensionUri,
     );
     this.webviewManager = new WebViewManager();
+    this.completionProvider = new LibraryCompletionProvider(() =>
+      this.libraryAdapterForConnectionType(),
+    );
+  }
+
+  /**
+   * Answers the requests of the language server for the libraries, tables
+   * and columns that complete code.
+   */
+  public getLanguageClientSubscriptions(
+    client: BaseLanguageClient,
+  ): Disposable[] {
+    return this.completionProvider.getSubscriptions(client);
   }
 
   public getSubscriptions(): Disposable[] {
@@ -53,11 +117,70 @@ class LibraryNavigator implements SubscriptionProvider {
               item.uid,
               paginator,
               fetchColumns,
+              (options) =>
+                commands.executeCommand("SAS.downloadTable", item, options),
+              this.libraryDataProvider.canUpdateTable(item)
+                ? {
+                    getEditCode: (edits) =>
+                      this.libraryDataProvider.getTableEditCode(item, edits),
+                    commitEdits: async (edits) =>
+                      await window.withProgress(
+                        {
+                          location: ProgressLocation.Notification,
+                          title: l10n.t("Saving changes to {tableName}...", {
+                            tableName: item.uid,
+                          }),
+                        },
+                        () => this.libraryDataProvider.updateTable(item, edits),
+                      ),
+                  }
+                : undefined,
             ),
             item.uid,
           );
         },
       ),
+      commands.registerCommand("SAS.profileTable", (item: LibraryItem) => {
+        const title = l10n.t("{tableName} Profile", { tableName: item.uid });
+        this.webviewManager.render(
+          new TableProfileViewer(this.extensionUri, title, () =>
+            this.libraryDataProvider.getTableProfile(item),
+          ),
+          title,
+        );
+      }),
+      commands.registerCommand(
+        "SAS.compareTables",
+        async (item: LibraryItem) => await this.compareTables(item),
+      ),
+      commands.registerCommand(
+        "SAS.importTable",
+        async (item: LibraryItem, uri?: Uri) => {
+          if (item.readOnly) {
+            window.showErrorMessage(
+              l10n.t(Messages.TableImportReadOnlyError, {
+                libraryName: item.name,
+              }),
+            );
+            return;
+          }
+
+          const fileUri =
+            uri ??
+            (
+              await window.showOpenDialog({
+                canSelectMany: false,
+                filters: { [l10n.t("Data Files")]: importFileExtensions },
+                openLabel: l10n.t("Import"),
+              })
+            )?.[0];
+          if (!fileUri) {
+            return;
+          }
+
+          await this.importTable(item, fileUri);
+        },
+      ),
       commands.registerCommand("SAS.refreshLibraries", () => this.refresh()),
       commands.registerCommand("SAS.deleteTable", async (item: LibraryItem) => {
         try {
@@ -68,11 +191,21 @@ class LibraryNavigator implements SubscriptionProvider {
       }),
       commands.registerCommand(
         "SAS.downloadTable",
-        async (item: LibraryItem) => {
+        async (item: LibraryItem, options?: Partial<TableExportOptions>) => {
+          const format = options?.format ?? (await pickExportFormat());
+          if (!format) {
+            return;
+          }
+
           const uri = await window.showSaveDialog({
             defaultUri: Uri.file(
-              `${item.library}.${item.name}.csv`.toLocaleLowerCase(),
+              `${item.library}.${item.name}.${format}`.toLocaleLowerCase(),
             ),
+            filters: {
+              [exportFormats().find(({ value }) => value === format).label]: [
+                format,
+              ],
+            },
           });
 
           if (!uri) {
@@ -83,6 +216,7 @@ class LibraryNavigator implements SubscriptionProvider {
           await this.libraryDataProvider.writeTableContentsToStream(
             stream,
             item,
+            { ...options, format },
           );
         },
       ),
@@ -96,10 +230,135 @@ class LibraryNavigator implements SubscriptionProvider {
           this.refresh();
         }
       }),
+      onDidChangeConnectionProviders(() => this.refresh()),
     ];
   }
 
+  private async importTable(item: LibraryItem, fileUri: Uri): Promise<void> {
+    const fileName = basename(fileUri.path);
+    let file: TableFile;
+    try {
+      file = await readTableFile(
+        fileName,
+        await workspace.fs.readFile(fileUri),
+      );
+    } catch (error) {
+      window.showErrorMessage(
+        l10n.t("Unable to read {fileName}: {message}", {
+          fileName,
+          message: error.message,
+        }),
+      );
+      return;
+    }
+
+    const title = l10n.t("Import {fileName} into {libraryName}", {
+      fileName,
+      libraryName: item.name,
+    });
+    const preview = {
+      fileName,
+      name: toValidSasName(fileName.replace(/\.[^.]*$/, "")),
+      columns: inferColumns(file),
+      rowCount: file.rows.length,
+      samples: getSamples(file),
+    };
+    this.webviewManager.render(
+      new TableImporter(
+        this.extensionUri,
+        title,
+        preview,
+        async (name, columns) =>
+          await window.withProgress(
+            {
+              location: ProgressLocation.Notification,
+              title: l10n.t("Importing {tableName}...", {
+                tableName: `${item.name}.${name}`,
+              }),
+            },
+            () =>
+              this.libraryDataProvider.importTable(item, {
+                name,
+                columns,
+                rows: toImportRows(columns, file.rows),
+              }),
+          ),
+      ),
+      title,
+    );
+  }
+
+  private async compareTables(item: LibraryItem): Promise<void> {
+    const compare = await this.pickTable(item);
+    if (!compare) {
+      return;
+    }
+
+    let columns: ColumnComparison[];
+    try {
+      columns = await this.libraryDataProvider.compareColumns(item, compare);
+    } catch (error) {
+      window.showErrorMessage(error.message);
+      return;
+    }
+
+    const keys = await window.showQuickPick(
+      columns
+        .filter(({ base, compare }) => base && base.type === compare?.type)
+        .map(({ name }) => name),
+      {
+        canPickMany: true,
+        title: l10n.t("Select the key columns that identify the rows"),
+        placeHolder: l10n.t(
+          "Rows are compared by their position when no key is selected",
+        ),
+      },
+    );
+    if (!keys) {
+      return;
+    }
+
+    const title = l10n.t("{base} vs. {compare}", {
+      base: item.uid,
+      compare: compare.uid,
+    });
+    this.webviewManager.render(
+      new TableComparisonViewer(this.extensionUri, title, () =>
+        this.libraryDataProvider.compareTables(item, compare, columns, keys),
+      ),
+      title,
+    );
+  }
+
+  private async pickTable(item: LibraryItem): Promise<LibraryItem | undefined> {
+    const toQuickPickItem = (libraryItem: LibraryItem) => ({
+      label: libraryItem.name,
+      libraryItem,
+    });
+    const libraries = (await this.libraryDataProvider.getChildren()) ?? [];
+    const library = await window.showQuickPick(libraries.map(toQuickPickItem), {
+      title: l10n.t("Compare {tableName} with", { tableName: item.uid }),
+      placeHolder: l10n.t("Select a library"),
+    });
+    if (!library) {
+      return;
+    }
+
+    const tables =
+      (await this.libraryDataProvider.getChildren(library.libraryItem)) ?? [];
+    const table = await window.showQuickPick(
+      tables.filter((table) => table.uid !== item.uid).map(toQuickPickItem),
+      {
+        title: l10n.t("Compare {tableName} with", { tableName: item.uid }),
+        placeHolder: l10n.t("Select a table"),
+      },
+    );
+
+    return table?.libraryItem;
+  }
+
   public async refresh(): Promise<void> {
+    this.completionProvider.clear();
     this.libraryDataProvider.useAdapter(this.libraryAdapterForConnectionType());
   }
 
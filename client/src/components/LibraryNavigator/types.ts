@@ -1,6 +1,6 @@
 // Copyright © 2023, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
-import { ColumnCollection } from "../../connection/rest/api/compute";
+import { Column, ColumnCollection } from "../../connection/rest/api/compute";
 
 export const LibraryType = "library";
 export const TableType = "table";
@@ -24,7 +24,203 @@ export interface TableData {
   count: number;
 }
 
+/**
+ * A value written to or read from a file. Missing values are null.
+ */
+export type TableCell = string | number | null;
+
+export interface TableSortColumn {
+  column: string;
+  direction: "asc" | "desc";
+}
+
+/**
+ * Selects and sorts the rows of a table on the server.
+ */
+export interface TableQuery {
+  /** a WHERE expression, without the WHERE keyword */
+  where?: string;
+  orderBy?: TableSortColumn[];
+}
+
+export type TableExportFormat = "csv" | "tsv" | "jsonl" | "xlsx" | "parquet";
+
+/**
+ * Selects the rows of a table to export and the format of the file.
+ */
+export interface TableExportOptions {
+  format: TableExportFormat;
+  query?: TableQuery;
+  /** the zero-based positions of the rows to export, in the rows of the query */
+  rows?: number[];
+}
+
+export interface ColumnFrequency {
+  value: string;
+  count: number;
+  percent: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Describes the values of a column of a table.
+ */
+export interface ColumnProfile {
+  name: string;
+  type: "num" | "char";
+  length: number;
+  format: string;
+  label: string;
+  n: number;
+  missing: number;
+  distinct: number;
+  /** min, max and mean of numeric columns */
+  min?: number;
+  max?: number;
+  mean?: number;
+  /** the most frequent values of character columns */
+  topValues?: ColumnFrequency[];
+  /** the distribution of the values of numeric columns */
+  histogram?: HistogramBin[];
+}
+
+export interface TableProfile {
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+/**
+ * Describes a column of a table created from a file.
+ */
+export interface ImportColumn {
+  name: string;
+  type: "num" | "char";
+  /** the length in bytes of a character column */
+  length: number;
+  format?: string;
+  label?: string;
+}
+
+export interface TableImport {
+  name: string;
+  columns: ImportColumn[];
+  /** the values of the rows, with SAS date and datetime values as numbers */
+  rows: TableCell[][];
+}
+
+/**
+ * The table inferred from a file, shown to confirm the import.
+ */
+export interface TableImportPreview {
+  fileName: string;
+  name: string;
+  columns: ImportColumn[];
+  rowCount: number;
+  /** the first values of each column, as text */
+  samples: string[][];
+}
+
+/**
+ * The changes made to the rows of a table in the data viewer. The values are
+ * the text of the cells, and rows are identified by their one-based position
+ * in the table. The values the rows were read with are checked before the
+ * rows are changed.
+ */
+export interface TableEdits {
+  /**
+   * the new values of the changed cells of each row, and the values they
+   * were read with, by column name
+   */
+  updates: {
+    row: number;
+    original: Record<string, string>;
+    values: Record<string, string>;
+  }[];
+  /** the read values of the deleted rows, by column name */
+  deletes: { row: number; original: Record<string, string> }[];
+  /** the values of the added rows, by column name */
+  inserts: Record<string, string>[];
+}
+
+/**
+ * The attributes of a column that are compared between tables.
+ */
+export interface ColumnAttributes {
+  type: "num" | "char";
+  length: number;
+  format: string;
+  label: string;
+}
+
+/**
+ * Compares a column of two tables. Columns found in one table only have the
+ * attributes of that table.
+ */
+export interface ColumnComparison {
+  name: string;
+  base?: ColumnAttributes;
+  compare?: ColumnAttributes;
+  /** the number of matched rows with unequal values of a compared column */
+  unequalCount?: number;
+}
+
+/**
+ * Selects the rows and columns of two tables that are compared. Rows are
+ * matched by the values of the key columns, or by their position when there
+ * are none.
+ */
+export interface TableComparisonOptions {
+  keys: string[];
+  /** the columns of the base table with the same type in both tables */
+  columns: Column[];
+}
+
+/**
+ * The differences between the values of two tables.
+ */
+export interface TableDataComparison {
+  baseRowCount: number;
+  compareRowCount: number;
+  /** the number of matched rows with at least one unequal value */
+  unequalRowCount: number;
+  baseOnlyRowCount: number;
+  compareOnlyRowCount: number;
+  /** the unequal values of each compared column, by column name */
+  unequalCounts: Record<string, number>;
+  /** the first matched rows with unequal values */
+  unequalRows: {
+    base: Record<string, TableCell>;
+    compare: Record<string, TableCell>;
+  }[];
+  /** the keys of the first rows found in one table only */
+  unmatchedRows: {
+    table: "base" | "compare";
+    keys: Record<string, TableCell>;
+  }[];
+}
+
+export interface TableComparison extends TableDataComparison {
+  base: string;
+  compare: string;
+  keys: string[];
+  columns: ColumnComparison[];
+}
+
 export interface LibraryAdapter {
+  /**
+   * Compares the values of two tables with PROC COMPARE. Adapters without it
+   * cannot compare tables.
+   */
+  compareTables?(
+    base: LibraryItem,
+    compare: LibraryItem,
+    options: TableComparisonOptions,
+  ): Promise<TableDataComparison>;
   connect(): Promise<void>;
   deleteTable(item: LibraryItem): Promise<void>;
   getColumns(
@@ -39,12 +235,22 @@ export interface LibraryAdapter {
     items: LibraryItem[];
     count: number;
   }>;
-  getRows(item: LibraryItem, start: number, limit: number): Promise<TableData>;
+  getRows(
+    item: LibraryItem,
+    start: number,
+    limit: number,
+    query?: TableQuery,
+  ): Promise<TableData>;
   getRowsAsCSV(
     item: LibraryItem,
     start: number,
     limit: number,
   ): Promise<TableData>;
+  /**
+   * Computes the statistics of the columns of a table. Adapters without it
+   * cannot profile tables.
+   */
+  getTableProfile?(item: LibraryItem, columns: Column[]): Promise<TableProfile>;
   getTableRowCount(
     item: LibraryItem,
   ): Promise<{ rowCount: number; maxNumberOfRowsToRead: number }>;
@@ -56,5 +262,19 @@ export interface LibraryAdapter {
     items: LibraryItem[];
     count: number;
   }>;
+  /**
+   * Creates a table in a library from the rows of a file, replacing a table
+   * with the same name. Adapters without it cannot import tables.
+   */
+  importTable?(item: LibraryItem, table: TableImport): Promise<void>;
   setup(): Promise<void>;
+  /**
+   * Applies the changes made in the data viewer to the rows of a table.
+   * Adapters without it cannot edit tables.
+   */
+  updateTable?(
+    item: LibraryItem,
+    columns: Column[],
+    edits: TableEdits,
+  ): Promise<void>;
 }
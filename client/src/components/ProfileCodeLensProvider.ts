@@ -0,0 +1,73 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import {
+  CodeLens,
+  CodeLensProvider,
+  ConfigurationChangeEvent,
+  Disposable,
+  Event,
+  EventEmitter,
+  Range,
+  TextDocument,
+  l10n,
+  languages,
+  workspace,
+} from "vscode";
+
+import { profileConfig } from "../commands/profile";
+import { SubscriptionProvider } from "./SubscriptionProvider";
+import { ConnectionType } from "./profile";
+import { isProfileCodeLensEnabled } from "./utils/settings";
+
+/**
+ * Shows a "Run with" CodeLens at the top of SAS programs for each profile
+ * that can run code next to the active one.
+ */
+export class ProfileCodeLensProvider
+  implements CodeLensProvider, SubscriptionProvider
+{
+  private _onDidChangeCodeLenses = new EventEmitter<void>();
+
+  get onDidChangeCodeLenses(): Event<void> {
+    return this._onDidChangeCodeLenses.event;
+  }
+
+  public getSubscriptions(): Disposable[] {
+    return [
+      languages.registerCodeLensProvider({ language: "sas" }, this),
+      workspace.onDidChangeConfiguration((event: ConfigurationChangeEvent) => {
+        if (
+          event.affectsConfiguration("SAS.connectionProfiles") ||
+          event.affectsConfiguration("SAS.run.profileCodeLens")
+        ) {
+          this._onDidChangeCodeLenses.fire();
+        }
+      }),
+    ];
+  }
+
+  public provideCodeLenses(document: TextDocument): CodeLens[] {
+    if (!isProfileCodeLensEnabled()) {
+      return [];
+    }
+    const activeProfileName = profileConfig.getActiveProfile();
+    const range = new Range(0, 0, 0, 0);
+    return Object.entries(profileConfig.getAllProfiles())
+      .filter(
+        ([name, profile]) =>
+          name !== activeProfileName &&
+          // SAS Viya sessions only run with the active profile
+          profile.connectionType !== ConnectionType.Rest,
+      )
+      .map(
+        ([name]) =>
+          new CodeLens(range, {
+            title: l10n.t("$(play) Run with {profileName}", {
+              profileName: name,
+            }),
+            command: "SAS.runWithProfile",
+            arguments: [document.uri, name],
+          }),
+      );
+  }
+}
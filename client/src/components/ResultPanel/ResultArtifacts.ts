@@ -0,0 +1,223 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Uri, env, l10n, window, workspace } from "vscode";
+
+import { v4 } from "uuid";
+
+import type { RunResultArtifact } from "../../connection";
+import { getResultMediaType } from "../../connection/results";
+import { getGlobalStorageUri } from "../ExtensionContext";
+
+export interface ArtifactMessage {
+  command: "open" | "save";
+  index: number;
+}
+
+export const SCRIPT_REGEX =
+  /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Returns whether a result can be opened with the default application for
+ * its type. Only the types of the files written by ODS destinations are
+ * opened, so that a result cannot start a program or a script.
+ */
+export const canOpenArtifact = ({ name }: RunResultArtifact): boolean =>
+  getResultMediaType(name) !== undefined;
+
+const toDataUri = ({ mediaType, data }: RunResultArtifact) =>
+  `data:${mediaType};base64,${Buffer.from(data).toString("base64")}`;
+
+// the preview of an html file is under the content security policy of the
+// panel, which only loads data: images. The images of the run that the file
+// refers to are inlined, and the other files it refers to, such as style
+// sheets, are not loaded.
+const inlineImages = (html: string, artifacts: RunResultArtifact[]) =>
+  html.replace(
+    /(\ssrc=)(["'])([^"']+)\2/gi,
+    (match, attribute: string, quote: string, src: string) => {
+      const image = artifacts.find(
+        ({ name, mediaType }) =>
+          mediaType.startsWith("image/") && name === src.split("/").pop(),
+      );
+      return image ? `${attribute}${quote}${toDataUri(image)}${quote}` : match;
+    },
+  );
+
+const getPreviewHtml = (
+  artifact: RunResultArtifact,
+  artifacts: RunResultArtifact[],
+) => {
+  const { name, mediaType, data } = artifact;
+  if (mediaType === "text/html") {
+    // result files are shown without their scripts, in a sandbox that does
+    // not run scripts either
+    const html = inlineImages(
+      new TextDecoder().decode(data).replace(SCRIPT_REGEX, ""),
+      artifacts,
+    );
+    return `<iframe sandbox="" srcdoc="${escapeHtml(html)}"></iframe>`;
+  }
+  if (mediaType === "text/plain") {
+    return `<pre>${escapeHtml(new TextDecoder().decode(data))}</pre>`;
+  }
+  if (mediaType.startsWith("image/")) {
+    return `<img src="${toDataUri(artifact)}" alt="${escapeHtml(name)}">`;
+  }
+
+  return `<p>${escapeHtml(
+    canOpenArtifact(artifact)
+      ? l10n.t("{name} cannot be shown here. Open or save it to view it.", {
+          name,
+        })
+      : l10n.t("{name} cannot be shown here. Save it to view it.", { name }),
+  )}</p>`;
+};
+
+const getTabPanelHtml = (
+  artifact: RunResultArtifact,
+  index: number,
+  artifacts: RunResultArtifact[],
+) =>
+  `<div class="artifact" data-index="${index}" role="tabpanel"${index === 0 ? "" : " hidden"}>
+      <div class="actions">
+        ${canOpenArtifact(artifact) ? `<button data-command="open">${escapeHtml(l10n.t("Open"))}</button>` : ""}
+        <button data-command="save">${escapeHtml(l10n.t("Save As..."))}</button>
+      </div>
+      ${getPreviewHtml(artifact, artifacts)}
+    </div>`;
+
+/**
+ * Returns the html of a result panel that shows each result of a run in a
+ * tab, with actions to open and save it.
+ * @param artifacts the results of the run.
+ * @param panelId the id of the result panel.
+ */
+export const getArtifactsHtml = (
+  artifacts: RunResultArtifact[],
+  panelId: string,
+): string => {
+  const nonce = v4();
+  const policies = [
+    `default-src 'none';`,
+    `img-src data:;`,
+    `script-src 'nonce-${nonce}';`,
+    `style-src 'unsafe-inline';`,
+  ];
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${policies.join(" ")}">
+    <style>
+      html, body { height: 100%; margin: 0; padding: 0; }
+      body { display: flex; flex-direction: column; color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+      .tabs { display: flex; flex-wrap: wrap; border-bottom: 1px solid var(--vscode-panel-border); }
+      .tab { padding: 6px 12px; border: none; border-bottom: 2px solid transparent; background: none; color: var(--vscode-foreground); font: inherit; opacity: 0.7; cursor: pointer; }
+      .tab[aria-selected="true"] { border-bottom-color: var(--vscode-focusBorder); opacity: 1; }
+      .artifact { display: flex; flex: 1; flex-direction: column; min-height: 0; }
+      .artifact[hidden] { display: none; }
+      .actions { display: flex; gap: 8px; padding: 6px 12px; }
+      .actions button { padding: 4px 10px; border: none; background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); font: inherit; cursor: pointer; }
+      iframe { flex: 1; border: none; background: white; }
+      pre { flex: 1; margin: 0; padding: 0 12px; overflow: auto; font-family: var(--vscode-editor-font-family); }
+      img { align-self: flex-start; max-width: 100%; margin: 0 12px; }
+      p { margin: 0 12px; }
+    </style>
+  </head>
+  <body data-vscode-context='${JSON.stringify({
+    preventDefaultContextMenuItems: true,
+    panelId,
+  })}'>
+    <div class="tabs" role="tablist">
+      ${artifacts
+        .map(
+          ({ name }, index) =>
+            `<button class="tab" role="tab" data-index="${index}" aria-selected="${index === 0}">${escapeHtml(name)}</button>`,
+        )
+        .join("\n      ")}
+    </div>
+    ${artifacts.map(getTabPanelHtml).join("\n    ")}
+    <script nonce="${nonce}">
+      const vscode = acquireVsCodeApi();
+      vscode.setState({ panelId: '${panelId}' });
+      document.querySelectorAll(".tab").forEach((tab) =>
+        tab.addEventListener("click", () => {
+          document.querySelectorAll(".tab").forEach((other) =>
+            other.setAttribute("aria-selected", other === tab),
+          );
+          document.querySelectorAll(".artifact").forEach((artifact) => {
+            artifact.hidden = artifact.dataset.index !== tab.dataset.index;
+          });
+        }),
+      );
+      document.querySelectorAll(".actions button").forEach((button) =>
+        button.addEventListener("click", () =>
+          vscode.postMessage({
+            command: button.dataset.command,
+            index: Number(button.closest(".artifact").dataset.index),
+          }),
+        ),
+      );
+    </script>
+  </body>
+</html>`;
+};
+
+const getArtifactsUri = (panelId: string) =>
+  Uri.joinPath(getGlobalStorageUri(), "results", panelId);
+
+/**
+ * Opens a result with the default application for its type, or saves it to
+ * a file that the user selects. Only the results that {@link canOpenArtifact}
+ * accepts are opened.
+ */
+export const processArtifactMessage = async (
+  artifact: RunResultArtifact,
+  panelId: string,
+  { command }: ArtifactMessage,
+): Promise<void> => {
+  if (command !== "open" && command !== "save") {
+    return;
+  }
+  if (command === "save") {
+    const uri = await window.showSaveDialog({
+      defaultUri: Uri.file(artifact.name),
+    });
+    if (uri) {
+      await workspace.fs.writeFile(uri, artifact.data);
+    }
+    return;
+  }
+  if (!canOpenArtifact(artifact)) {
+    return;
+  }
+
+  // results are opened from a copy in the storage of the extension, under
+  // a name that cannot point outside of it
+  const uri = Uri.joinPath(
+    getArtifactsUri(panelId),
+    artifact.name.replace(/[\\/:]|^\.+$/g, "_"),
+  );
+  await workspace.fs.writeFile(uri, artifact.data);
+  await env.openExternal(uri);
+};
+
+/**
+ * Deletes the copies of the results of a panel that were opened.
+ */
+export const deleteArtifactCopies = async (panelId: string): Promise<void> => {
+  try {
+    await workspace.fs.delete(getArtifactsUri(panelId), { recursive: true });
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (error) {
+    // nothing was opened from the panel
+  }
+};
@@ -4,10 +4,17 @@ import { Uri, ViewColumn, WebviewPanel, l10n, window } from "vscode";
 
 import { v4 } from "uuid";
 
+import type { RunResultArtifact } from "../../connection";
 import { getContextValue, setContextValue } from "../ExtensionContext";
 import { isSideResultEnabled, isSinglePanelEnabled } from "../utils/settings";
+import {
+  ArtifactMessage,
+  SCRIPT_REGEX,
+  deleteArtifactCopies,
+  getArtifactsHtml,
+  processArtifactMessage,
+} from "./ResultArtifacts";
 
-const SCRIPT_REGEX = /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi;
 export const SAS_RESULT_PANEL = "SASResultPanel";
 
 interface ResultPanelState {
@@ -20,8 +27,20 @@ interface IdentifiableWebviewPanel {
 }
 
 let resultPanel: IdentifiableWebviewPanel | undefined;
+// the results shown in the tabs of each panel
+const panelArtifacts = new Map<string, RunResultArtifact[]>();
 
-export const showResult = (html: string, uri?: Uri, title?: string) => {
+/**
+ * Shows the html5 result of a run in a result panel. When the run has other
+ * results, each result is shown in a tab of the panel.
+ * @param artifacts the results of the run other than the html5 result.
+ */
+export const showResult = (
+  html: string,
+  uri?: Uri,
+  title?: string,
+  artifacts: RunResultArtifact[] = [],
+) => {
   const sideResult = isSideResultEnabled();
   const singlePanel = isSinglePanelEnabled();
   let panelId: string;
@@ -45,6 +64,12 @@ export const showResult = (html: string, uri?: Uri, title?: string) => {
       }, // Webview options.
     );
     webviewPanel.onDidDispose(() => disposePanel(panelId));
+    webviewPanel.webview.onDidReceiveMessage((message: ArtifactMessage) => {
+      const artifact = panelArtifacts.get(panelId)?.[message.index];
+      if (artifact) {
+        processArtifactMessage(artifact, panelId, message);
+      }
+    });
     resultPanel = { webviewPanel, panelId };
   } else {
     const editor = uri
@@ -63,7 +88,26 @@ export const showResult = (html: string, uri?: Uri, title?: string) => {
   }
 
   const panelHtml = wrapPanelHtml(html, panelId);
-  resultPanel.webviewPanel.webview.html = panelHtml;
+  if (artifacts.length > 0) {
+    const tabs: RunResultArtifact[] = [
+      ...(html
+        ? [
+            {
+              name: "results.html",
+              mediaType: "text/html",
+              data: new TextEncoder().encode(html),
+            },
+          ]
+        : []),
+      ...artifacts,
+    ];
+    panelArtifacts.set(panelId, tabs);
+    resultPanel.webviewPanel.webview.html = getArtifactsHtml(tabs, panelId);
+  } else {
+    panelArtifacts.delete(panelId);
+    resultPanel.webviewPanel.webview.html = panelHtml;
+  }
+  // only the html5 result is kept to restore the panel
   setContextValue(resultPanel.panelId, panelHtml);
 };
 
@@ -115,4 +159,6 @@ export const fetchHtmlFor = async (panelId: string) => {
 const disposePanel = (id: string) => {
   resultPanel = undefined;
   setContextValue(id, undefined);
+  panelArtifacts.delete(id);
+  deleteArtifactCopies(id);
 };
@@ -0,0 +1,122 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import {
+  Disposable,
+  Event,
+  EventEmitter,
+  MarkdownString,
+  ProviderResult,
+  ThemeColor,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  TreeView,
+  l10n,
+  window,
+} from "vscode";
+
+import { basename } from "path";
+
+import { SubscriptionProvider } from "../SubscriptionProvider";
+import RunHistoryModel from "./RunHistoryModel";
+import { Messages } from "./const";
+import { RunHistoryEntry } from "./types";
+
+const formatDuration = (duration: number): string =>
+  l10n.t("{seconds}s", { seconds: (duration / 1000).toFixed(1) });
+
+class RunHistoryDataProvider
+  implements TreeDataProvider<RunHistoryEntry>, SubscriptionProvider
+{
+  private _onDidChangeTreeData = new EventEmitter<
+    RunHistoryEntry | undefined
+  >();
+  private _treeView: TreeView<RunHistoryEntry>;
+  private _modelSubscription: Disposable;
+
+  get onDidChangeTreeData(): Event<RunHistoryEntry> {
+    return this._onDidChangeTreeData.event;
+  }
+
+  get treeView(): TreeView<RunHistoryEntry> {
+    return this._treeView;
+  }
+
+  constructor(private readonly model: RunHistoryModel) {
+    this._treeView = window.createTreeView("sasrunhistory", {
+      treeDataProvider: this,
+      canSelectMany: true,
+    });
+    this._modelSubscription = this.model.onDidChange(() =>
+      this._onDidChangeTreeData.fire(undefined),
+    );
+  }
+
+  public getSubscriptions(): Disposable[] {
+    return [this._treeView, this._modelSubscription];
+  }
+
+  public getTreeItem(entry: RunHistoryEntry): TreeItem {
+    return {
+      id: entry.id,
+      label: basename(entry.fileName),
+      description: `${new Date(entry.startTime).toLocaleString()} · ${formatDuration(entry.duration)}`,
+      tooltip: this.tooltipForEntry(entry),
+      iconPath: this.iconForEntry(entry),
+      contextValue: `runHistoryEntry${entry.hasResult ? "-result" : ""}`,
+      collapsibleState: TreeItemCollapsibleState.None,
+      command: {
+        command: "SAS.runHistory.openLog",
+        arguments: [entry],
+        title: Messages.OpenLogCommandTitle,
+      },
+    };
+  }
+
+  public getChildren(
+    entry?: RunHistoryEntry,
+  ): ProviderResult<RunHistoryEntry[]> {
+    return entry ? [] : this.model.getEntries();
+  }
+
+  private iconForEntry(entry: RunHistoryEntry): ThemeIcon {
+    if (entry.status === "cancelled") {
+      return new ThemeIcon("circle-slash");
+    }
+    if (entry.status === "failed" || entry.errorCount > 0) {
+      return new ThemeIcon("error", new ThemeColor("testing.iconFailed"));
+    }
+    if (entry.warningCount > 0) {
+      return new ThemeIcon("warning", new ThemeColor("testing.iconQueued"));
+    }
+    return new ThemeIcon("pass", new ThemeColor("testing.iconPassed"));
+  }
+
+  private tooltipForEntry(entry: RunHistoryEntry): MarkdownString {
+    const statusLabels = {
+      completed: l10n.t("Completed"),
+      failed: l10n.t("Failed"),
+      cancelled: l10n.t("Cancelled"),
+    };
+    const rows = [
+      [l10n.t("File"), entry.fileName],
+      [l10n.t("Profile"), entry.profileName],
+      [l10n.t("Started"), new Date(entry.startTime).toLocaleString()],
+      [l10n.t("Ended"), new Date(entry.endTime).toLocaleString()],
+      [l10n.t("Duration"), formatDuration(entry.duration)],
+      [l10n.t("Status"), statusLabels[entry.status]],
+      [l10n.t("Errors"), `${entry.errorCount}`],
+      [l10n.t("Warnings"), `${entry.warningCount}`],
+    ];
+    const tooltip = new MarkdownString();
+    for (const [label, value] of rows) {
+      tooltip.appendMarkdown(`**${label}:** `);
+      tooltip.appendText(value);
+      tooltip.appendMarkdown("  \n");
+    }
+    return tooltip;
+  }
+}
+
+export default RunHistoryDataProvider;
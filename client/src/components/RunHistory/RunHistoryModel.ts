@@ -0,0 +1,201 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Event, EventEmitter, FileType, Uri, workspace } from "vscode";
+
+import type { LogLine, RunResultArtifact } from "../../connection";
+import { RunHistoryFolder, RunHistoryIndexFile } from "./const";
+import { RunHistoryEntry } from "./types";
+
+/**
+ * Persists the runs in the global storage folder of the extension: an index
+ * file listing the runs, newest first, next to a log file, an optional
+ * result file and an optional folder of artifacts for each run.
+ */
+class RunHistoryModel {
+  private entries: RunHistoryEntry[] | undefined;
+  private writes: Promise<unknown> = Promise.resolve();
+  private _onDidChange = new EventEmitter<void>();
+
+  get onDidChange(): Event<void> {
+    return this._onDidChange.event;
+  }
+
+  constructor(
+    private readonly getStorageUri: () => Uri,
+    private readonly getMaxEntries: () => number,
+  ) {}
+
+  public async getEntries(): Promise<RunHistoryEntry[]> {
+    if (!this.entries) {
+      this.entries = await this.readIndex();
+    }
+    return this.entries;
+  }
+
+  public async add(
+    entry: RunHistoryEntry,
+    logs: LogLine[],
+    html?: string,
+    artifacts: RunResultArtifact[] = [],
+  ): Promise<void> {
+    const maxEntries = this.getMaxEntries();
+    if (maxEntries <= 0) {
+      return;
+    }
+
+    return this.enqueue(async () => {
+      await workspace.fs.createDirectory(this.folderUri());
+      await this.writeText(this.logUri(entry), logsToText(logs));
+      if (html) {
+        await this.writeText(this.resultUri(entry), html);
+      }
+      if (artifacts.length > 0) {
+        await workspace.fs.createDirectory(this.artifactsUri(entry));
+        for (const artifact of artifacts) {
+          await workspace.fs.writeFile(
+            Uri.joinPath(this.artifactsUri(entry), artifact.name),
+            artifact.data,
+          );
+        }
+      }
+
+      const entries = [entry, ...(await this.getEntries())];
+      await this.deleteFiles(entries.slice(maxEntries));
+      this.entries = entries.slice(0, maxEntries);
+      await this.writeIndex();
+    });
+  }
+
+  public async remove(entry: RunHistoryEntry): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.getEntries();
+      this.entries = entries.filter((item) => item.id !== entry.id);
+      await this.deleteFiles([entry]);
+      await this.writeIndex();
+    });
+  }
+
+  public async clear(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.deleteFiles(await this.getEntries());
+      this.entries = [];
+      await this.writeIndex();
+    });
+  }
+
+  public async getLogUri(entry: RunHistoryEntry): Promise<Uri | undefined> {
+    const uri = this.logUri(entry);
+    return (await this.exists(uri)) ? uri : undefined;
+  }
+
+  public async getResult(entry: RunHistoryEntry): Promise<string | undefined> {
+    const uri = this.resultUri(entry);
+    if (!entry.hasResult || !(await this.exists(uri))) {
+      return undefined;
+    }
+    return new TextDecoder().decode(await workspace.fs.readFile(uri));
+  }
+
+  public async getArtifacts(
+    entry: RunHistoryEntry,
+  ): Promise<RunResultArtifact[]> {
+    const artifacts: RunResultArtifact[] = [];
+    for (const { name, mediaType } of entry.artifacts ?? []) {
+      const uri = Uri.joinPath(this.artifactsUri(entry), name);
+      if (await this.exists(uri)) {
+        artifacts.push({
+          name,
+          mediaType,
+          data: await workspace.fs.readFile(uri),
+        });
+      }
+    }
+    return artifacts;
+  }
+
+  // the index is read and written by one change at a time, so that runs
+  // finishing together do not overwrite each other
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    // a failed change must not keep the changes after it from running
+    const result = this.writes.then(task, task);
+    this.writes = result;
+    return result;
+  }
+
+  private folderUri(): Uri {
+    return Uri.joinPath(this.getStorageUri(), RunHistoryFolder);
+  }
+
+  private logUri(entry: RunHistoryEntry): Uri {
+    return Uri.joinPath(this.folderUri(), `${entry.id}.log`);
+  }
+
+  private resultUri(entry: RunHistoryEntry): Uri {
+    return Uri.joinPath(this.folderUri(), `${entry.id}.html`);
+  }
+
+  private artifactsUri(entry: RunHistoryEntry): Uri {
+    return Uri.joinPath(this.folderUri(), entry.id);
+  }
+
+  private async readIndex(): Promise<RunHistoryEntry[]> {
+    const uri = Uri.joinPath(this.folderUri(), RunHistoryIndexFile);
+    if (!(await this.exists(uri))) {
+      return [];
+    }
+    try {
+      return JSON.parse(
+        new TextDecoder().decode(await workspace.fs.readFile(uri)),
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeIndex(): Promise<void> {
+    await workspace.fs.createDirectory(this.folderUri());
+    await this.writeText(
+      Uri.joinPath(this.folderUri(), RunHistoryIndexFile),
+      JSON.stringify(this.entries),
+    );
+    this._onDidChange.fire();
+  }
+
+  private async writeText(uri: Uri, text: string): Promise<void> {
+    await workspace.fs.writeFile(uri, new TextEncoder().encode(text));
+  }
+
+  private async deleteFiles(entries: RunHistoryEntry[]): Promise<void> {
+    for (const entry of entries) {
+      for (const uri of [this.logUri(entry), this.resultUri(entry)]) {
+        if (await this.exists(uri)) {
+          await workspace.fs.delete(uri);
+        }
+      }
+      if (await this.exists(this.artifactsUri(entry), FileType.Directory)) {
+        await workspace.fs.delete(this.artifactsUri(entry), {
+          recursive: true,
+        });
+      }
+    }
+  }
+
+  private async exists(
+    uri: Uri,
+    type: FileType = FileType.File,
+  ): Promise<boolean> {
+    try {
+      return (await workspace.fs.stat(uri)).type === type;
+    } catch {
+      return false;
+    }
+  }
+}
+
+const logsToText = (logs: LogLine[]): string =>
+  logs
+    .map((logLine) => logLine.line.trimEnd())
+    .join("\n")
+    .concat("\n");
+
+export default RunHistoryModel;
@@ -0,0 +1,91 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n, window } from "vscode";
+
+import { v4 } from "uuid";
+
+import type { LogLine, OnLogFn, RunResult } from "../../connection";
+import { parseLog } from "../logViewer/logParser";
+import { SASCodeDocument } from "../utils/SASCodeDocument";
+import RunHistoryModel from "./RunHistoryModel";
+import { RunStatus } from "./types";
+
+/**
+ * Collects the log of a single submission and adds it to the run history
+ * once the submission is over.
+ */
+export class RunRecorder {
+  private logs: LogLine[] = [];
+  private startTime = Date.now();
+
+  constructor(
+    private readonly model: RunHistoryModel,
+    private readonly codeDoc: SASCodeDocument,
+    private readonly profileName: string,
+  ) {}
+
+  // called when the code is submitted, before the session is set up
+  public start(): void {
+    this.startTime = Date.now();
+  }
+
+  public wrapLogFn(logFn?: OnLogFn): OnLogFn {
+    return (logs) => {
+      logFn?.(logs);
+      this.logs.push(...logs);
+    };
+  }
+
+  // records a submission that failed before its code ran, such as when the
+  // session could not connect, with the error as its log
+  public async fail(error: unknown): Promise<void> {
+    this.logs.push({
+      type: "error",
+      line: error instanceof Error ? error.message : String(error),
+    });
+    await this.finish("failed");
+  }
+
+  // a run that cannot be added to the history is reported, without failing
+  // the submission
+  public async finish(
+    status: RunStatus,
+    { html5, artifacts = [] }: RunResult = {},
+  ): Promise<void> {
+    const endTime = Date.now();
+    const problems = parseLog(this.logs, this.codeDoc.wrappedCodeLineAt(0));
+    try {
+      await this.model.add(
+        {
+          id: v4(),
+          fileName: this.codeDoc.getFileName(),
+          uri: this.codeDoc.getUri(),
+          parameters: this.codeDoc.getParameters(),
+          profileName: this.profileName,
+          startTime: this.startTime,
+          endTime,
+          duration: endTime - this.startTime,
+          status,
+          errorCount: problems.filter((problem) => problem.type === "error")
+            .length,
+          warningCount: problems.filter((problem) => problem.type === "warning")
+            .length,
+          hasResult: !!html5 || artifacts.length > 0,
+          artifacts: artifacts.map(({ name, mediaType }) => ({
+            name,
+            mediaType,
+          })),
+        },
+        this.logs,
+        html5,
+        artifacts,
+      );
+    } catch (error) {
+      window.showWarningMessage(
+        l10n.t("The run could not be added to the SAS run history: {error}", {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      );
+    }
+  }
+}
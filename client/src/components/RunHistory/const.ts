@@ -0,0 +1,17 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+export const Messages = {
+  ClearHistoryButtonLabel: l10n.t("Clear"),
+  ClearHistoryWarningMessage: l10n.t(
+    "Are you sure you want to clear the SAS run history?",
+  ),
+  LogNotFoundError: l10n.t("The log of this run is no longer available."),
+  OpenLogCommandTitle: l10n.t("Open Log"),
+  ResultNotFoundError: l10n.t("The result of this run is no longer available."),
+  SelectRunToCompare: l10n.t("Select a run to compare with"),
+};
+
+export const RunHistoryFolder = "runHistory";
+export const RunHistoryIndexFile = "history.json";
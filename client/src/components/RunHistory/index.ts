@@ -0,0 +1,138 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Disposable, commands, l10n, window } from "vscode";
+
+import { basename } from "path";
+
+import { getGlobalStorageUri } from "../ExtensionContext";
+import { showResult } from "../ResultPanel";
+import { SubscriptionProvider } from "../SubscriptionProvider";
+import { SASCodeDocument } from "../utils/SASCodeDocument";
+import { getRunHistoryMaxEntries } from "../utils/settings";
+import RunHistoryDataProvider from "./RunHistoryDataProvider";
+import RunHistoryModel from "./RunHistoryModel";
+import { RunRecorder } from "./RunRecorder";
+import { Messages } from "./const";
+import { RunHistoryEntry } from "./types";
+
+const runHistoryModel = new RunHistoryModel(
+  getGlobalStorageUri,
+  getRunHistoryMaxEntries,
+);
+
+export const recordRun = (
+  codeDoc: SASCodeDocument,
+  profileName: string,
+): RunRecorder => new RunRecorder(runHistoryModel, codeDoc, profileName);
+
+class RunHistoryNavigator implements SubscriptionProvider {
+  private runHistoryDataProvider: RunHistoryDataProvider;
+
+  constructor() {
+    this.runHistoryDataProvider = new RunHistoryDataProvider(runHistoryModel);
+  }
+
+  public getSubscriptions(): Disposable[] {
+    return [
+      ...this.runHistoryDataProvider.getSubscriptions(),
+      commands.registerCommand(
+        "SAS.runHistory.openLog",
+        async (entry: RunHistoryEntry) => {
+          const uri = await runHistoryModel.getLogUri(entry);
+          if (!uri) {
+            window.showErrorMessage(Messages.LogNotFoundError);
+            return;
+          }
+          await window.showTextDocument(uri, { preview: true });
+        },
+      ),
+      commands.registerCommand(
+        "SAS.runHistory.openResult",
+        async (entry: RunHistoryEntry) => {
+          const html = await runHistoryModel.getResult(entry);
+          const artifacts = await runHistoryModel.getArtifacts(entry);
+          if (!html && artifacts.length === 0) {
+            window.showErrorMessage(Messages.ResultNotFoundError);
+            return;
+          }
+          showResult(
+            html ?? "",
+            undefined,
+            l10n.t("Result: {result}", { result: basename(entry.fileName) }),
+            artifacts,
+          );
+        },
+      ),
+      commands.registerCommand(
+        "SAS.runHistory.compareLogs",
+        async (entry: RunHistoryEntry, selectedEntries?: RunHistoryEntry[]) =>
+          this.compareLogs(entry, selectedEntries),
+      ),
+      commands.registerCommand(
+        "SAS.runHistory.delete",
+        async (entry: RunHistoryEntry, selectedEntries?: RunHistoryEntry[]) => {
+          for (const item of selectedEntries ?? [entry]) {
+            await runHistoryModel.remove(item);
+          }
+        },
+      ),
+      commands.registerCommand("SAS.runHistory.clear", async () => {
+        const result = await window.showWarningMessage(
+          Messages.ClearHistoryWarningMessage,
+          { modal: true },
+          Messages.ClearHistoryButtonLabel,
+        );
+        if (result === Messages.ClearHistoryButtonLabel) {
+          await runHistoryModel.clear();
+        }
+      }),
+    ];
+  }
+
+  private async compareLogs(
+    entry: RunHistoryEntry,
+    selectedEntries?: RunHistoryEntry[],
+  ): Promise<void> {
+    let [left, right] =
+      selectedEntries?.length === 2 ? selectedEntries : [entry];
+    if (!right) {
+      const otherEntries = (await runHistoryModel.getEntries()).filter(
+        (item) => item.id !== entry.id,
+      );
+      const picked = await window.showQuickPick(
+        otherEntries.map((item) => ({
+          label: basename(item.fileName),
+          description: new Date(item.startTime).toLocaleString(),
+          entry: item,
+        })),
+        { placeHolder: Messages.SelectRunToCompare },
+      );
+      if (!picked) {
+        return;
+      }
+      right = picked.entry;
+    }
+    // the older run goes on the left
+    if (left.startTime > right.startTime) {
+      [left, right] = [right, left];
+    }
+
+    const leftUri = await runHistoryModel.getLogUri(left);
+    const rightUri = await runHistoryModel.getLogUri(right);
+    if (!leftUri || !rightUri) {
+      window.showErrorMessage(Messages.LogNotFoundError);
+      return;
+    }
+    await commands.executeCommand(
+      "vscode.diff",
+      leftUri,
+      rightUri,
+      l10n.t("{left} ↔ {right}", {
+        left: `${basename(left.fileName)} (${new Date(left.startTime).toLocaleString()})`,
+        right: `${basename(right.fileName)} (${new Date(right.startTime).toLocaleString()})`,
+      }),
+    );
+  }
+}
+
+export default RunHistoryNavigator;
@@ -0,0 +1,29 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { SASCodeDocumentParameters } from "../utils/SASCodeDocument";
+
+export type RunStatus = "completed" | "failed" | "cancelled";
+
+// a result file of a run other than its html5 result
+export interface RunHistoryArtifact {
+  name: string;
+  mediaType: string;
+}
+
+export interface RunHistoryEntry {
+  id: string;
+  fileName: string;
+  uri?: string;
+  // used to submit the same code again
+  parameters: SASCodeDocumentParameters;
+  profileName: string;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  status: RunStatus;
+  errorCount: number;
+  warningCount: number;
+  hasResult: boolean;
+  // missing for the runs recorded before their artifacts were kept
+  artifacts?: RunHistoryArtifact[];
+}
@@ -0,0 +1,71 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import {
+  Disposable,
+  Event,
+  EventEmitter,
+  ProviderResult,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  TreeView,
+  l10n,
+  window,
+} from "vscode";
+
+import { useRunStore } from "../../store";
+import { QueuedRun } from "../../store/run/initialState";
+import { runSelectors } from "../../store/run/selectors";
+import { SubscriptionProvider } from "../SubscriptionProvider";
+import { Messages } from "./const";
+
+class RunQueueDataProvider
+  implements TreeDataProvider<QueuedRun>, SubscriptionProvider
+{
+  private _onDidChangeTreeData = new EventEmitter<QueuedRun | undefined>();
+  private _treeView: TreeView<QueuedRun>;
+  private _storeSubscription: Disposable;
+
+  get onDidChangeTreeData(): Event<QueuedRun> {
+    return this._onDidChangeTreeData.event;
+  }
+
+  get treeView(): TreeView<QueuedRun> {
+    return this._treeView;
+  }
+
+  constructor() {
+    this._treeView = window.createTreeView("sasrunqueue", {
+      treeDataProvider: this,
+    });
+    const unsubscribe = useRunStore.subscribe(runSelectors.selectQueue, () =>
+      this._onDidChangeTreeData.fire(undefined),
+    );
+    this._storeSubscription = { dispose: unsubscribe };
+  }
+
+  public getSubscriptions(): Disposable[] {
+    return [this._treeView, this._storeSubscription];
+  }
+
+  public getTreeItem(run: QueuedRun): TreeItem {
+    const position = useRunStore.getState().queue.indexOf(run) + 1;
+    return {
+      id: run.id,
+      label: `${position}. ${run.label}`,
+      description: l10n.t(Messages.QueuedAt, {
+        time: new Date(run.queuedAt).toLocaleTimeString(),
+      }),
+      iconPath: new ThemeIcon("clock"),
+      contextValue: "queuedRun",
+      collapsibleState: TreeItemCollapsibleState.None,
+    };
+  }
+
+  public getChildren(run?: QueuedRun): ProviderResult<QueuedRun[]> {
+    return run ? [] : useRunStore.getState().queue;
+  }
+}
+
+export default RunQueueDataProvider;
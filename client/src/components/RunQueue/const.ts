@@ -0,0 +1,9 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+export const Messages = {
+  QueuedAt: l10n.t("Queued at {time}"),
+  QueueStatus: l10n.t("$(list-ordered) {count} queued"),
+  QueueStatusTooltip: l10n.t("Show the SAS code waiting to run"),
+};
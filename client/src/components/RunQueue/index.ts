@@ -0,0 +1,68 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import {
+  Disposable,
+  StatusBarAlignment,
+  StatusBarItem,
+  commands,
+  l10n,
+  window,
+} from "vscode";
+
+import { useRunStore } from "../../store";
+import { QueuedRun } from "../../store/run/initialState";
+import { runSelectors } from "../../store/run/selectors";
+import { SubscriptionProvider } from "../SubscriptionProvider";
+import RunQueueDataProvider from "./RunQueueDataProvider";
+import { Messages } from "./const";
+
+class RunQueueNavigator implements SubscriptionProvider {
+  private runQueueDataProvider: RunQueueDataProvider;
+  private statusBarItem: StatusBarItem;
+  private storeSubscription: Disposable;
+
+  constructor() {
+    this.runQueueDataProvider = new RunQueueDataProvider();
+    this.statusBarItem = window.createStatusBarItem(StatusBarAlignment.Left);
+    this.statusBarItem.command = "sasrunqueue.focus";
+    this.statusBarItem.tooltip = Messages.QueueStatusTooltip;
+    const unsubscribe = useRunStore.subscribe(
+      runSelectors.selectQueue,
+      (queue) => this.updateStatusBarItem(queue),
+    );
+    this.storeSubscription = { dispose: unsubscribe };
+  }
+
+  public getSubscriptions(): Disposable[] {
+    const { moveQueuedRun, cancelQueuedRun, cancelQueue } =
+      useRunStore.getState();
+    return [
+      ...this.runQueueDataProvider.getSubscriptions(),
+      this.statusBarItem,
+      this.storeSubscription,
+      commands.registerCommand("SAS.runQueue.moveUp", (run: QueuedRun) =>
+        moveQueuedRun(run.id, -1),
+      ),
+      commands.registerCommand("SAS.runQueue.moveDown", (run: QueuedRun) =>
+        moveQueuedRun(run.id, 1),
+      ),
+      commands.registerCommand("SAS.runQueue.cancel", (run: QueuedRun) =>
+        cancelQueuedRun(run.id),
+      ),
+      commands.registerCommand("SAS.runQueue.clear", () => cancelQueue()),
+    ];
+  }
+
+  private updateStatusBarItem(queue: QueuedRun[]): void {
+    if (queue.length === 0) {
+      this.statusBarItem.hide();
+      return;
+    }
+    this.statusBarItem.text = l10n.t(Messages.QueueStatus, {
+      count: queue.length,
+    });
+    this.statusBarItem.show();
+  }
+}
+
+export default RunQueueNavigator;
@@ -3,32 +3,101 @@
 import { MarkdownString, StatusBarAlignment, Uri, l10n, window } from "vscode";
 
 import { profileConfig } from "../commands/profile";
+import { getSessions } from "../connection";
+import type { Session } from "../connection/session";
+import { ProfileBinding, ProfileBindingType } from "./profile";
 
 const statusBarItem = window.createStatusBarItem(StatusBarAlignment.Left);
 statusBarItem.command = "SAS.switchProfile";
 
 export const getStatusBarItem = () => statusBarItem;
 
-export async function updateStatusBarItem(connected?: boolean) {
-  const activeProfileName = profileConfig.getActiveProfile();
-  const activeProfile = profileConfig.getProfileByName(activeProfileName);
-  if (!activeProfile) {
+const sessionIcon = (session?: Session): string => {
+  if (session?.running) {
+    return "$(loading~spin)";
+  }
+  return session?.connected ? "$(vm-active)" : "$(account)";
+};
+
+const closeSessionLink = (profileName: string): string =>
+  `[${l10n.t("Close Session")}](${Uri.parse(
+    `command:SAS.close?${encodeURIComponent(JSON.stringify([profileName]))}`,
+  )})`;
+
+const bindingDescription = (binding: ProfileBinding): string => {
+  switch (binding.type) {
+    case ProfileBindingType.Comment:
+      return l10n.t("Bound by the @sas-profile comment of the file");
+    case ProfileBindingType.File:
+      return l10n.t("Bound by the {pattern} file pattern", {
+        pattern: binding.source,
+      });
+    case ProfileBindingType.Folder:
+      return l10n.t("Bound by the {folder} workspace folder", {
+        folder: binding.source,
+      });
+  }
+};
+
+export async function updateStatusBarItem() {
+  const editor = window.activeTextEditor;
+  const binding =
+    editor?.document.languageId === "sas"
+      ? profileConfig.getBoundProfile(editor.document)
+      : undefined;
+  // the profile bound to the file being edited is shown instead of the
+  // active profile
+  const shownProfileName =
+    binding?.profileName ?? profileConfig.getActiveProfile();
+  const shownProfile = profileConfig.getProfileByName(shownProfileName);
+  if (binding && (!shownProfile || binding.error)) {
+    statusBarItem.text = `$(warning) ${shownProfileName}`;
+    statusBarItem.tooltip =
+      binding.error ??
+      l10n.t('The connection profile "{profileName}" does not exist.', {
+        profileName: shownProfileName,
+      });
+    statusBarItem.show();
+  } else if (!shownProfile) {
     resetStatusBarItem();
   } else {
-    const targetURL = profileConfig.remoteTarget(activeProfileName);
-    const closeSessionUri = Uri.parse("command:SAS.close");
-    const tooltip = new MarkdownString(
-      `#### ${l10n.t("SAS Profile")}\n\n${activeProfileName}\n\n${targetURL}${
-        connected
-          ? `\n\n---\n\n[${l10n.t("Close Session")}](${closeSessionUri})`
-          : ""
-      }`,
+    const sessions = getSessions();
+    const shownSession = sessions.find(
+      ({ profileName }) => profileName === shownProfileName,
+    )?.session;
+    // sessions of the other profiles are shown while they are connected
+    const otherSessions = sessions.filter(
+      ({ profileName, session }) =>
+        profileName !== shownProfileName && session.connected,
     );
+
+    const targetURL = profileConfig.remoteTarget(shownProfileName);
+    let tooltipText = `#### ${l10n.t("SAS Profile")}\n\n${shownProfileName}\n\n${targetURL}${
+      binding ? `\n\n$(link) ${bindingDescription(binding)}` : ""
+    }${
+      shownSession?.connected
+        ? `\n\n---\n\n${closeSessionLink(shownProfileName)}`
+        : ""
+    }`;
+    if (otherSessions.length > 0) {
+      tooltipText += `\n\n---\n\n#### ${l10n.t("Other SAS Sessions")}\n\n${otherSessions
+        .map(
+          ({ profileName, session }) =>
+            `${sessionIcon(session)} ${profileName} (${profileConfig.remoteTarget(profileName)}) ${
+              session.running ? l10n.t("Running") : l10n.t("Connected")
+            } — ${closeSessionLink(profileName)}`,
+        )
+        .join("\n\n")}`;
+    }
+    const tooltip = new MarkdownString(tooltipText, true);
     tooltip.isTrusted = true;
 
-    statusBarItem.text = `${
-      connected ? "$(vm-active)" : "$(account)"
-    } ${activeProfileName}`;
+    statusBarItem.text = [
+      `${sessionIcon(shownSession)} ${shownProfileName}${binding ? " $(link)" : ""}`,
+      ...otherSessions.map(
+        ({ profileName, session }) => `${sessionIcon(session)} ${profileName}`,
+      ),
+    ].join("  ");
     statusBarItem.tooltip = tooltip;
     statusBarItem.show();
   }
@@ -24,6 +24,8 @@ import { parseLog } from "./logParser";
 
 export const diagnosticSource = "sas log";
 
+const liveUpdateInterval = 1000;
+
 let diagnosticCollection: DiagnosticCollection;
 
 enum DiagnosticCommands {
@@ -139,14 +141,29 @@ function generateLogFn(
   }
 
   const receivedLogs = [];
+  // problems are shown while the code runs, at most once per interval,
+  // whenever errors or warnings are received.
+  let updateTimer: ReturnType<typeof setTimeout> | undefined;
   const additionalLogFn: OnLogFn = (logs) => {
     receivedLogs.push(...logs);
+
+    const hasProblems = logs.some(
+      ({ type }) => type === "error" || type === "warning",
+    );
+    if (hasProblems && updateTimer === undefined) {
+      updateTimer = setTimeout(() => {
+        updateTimer = undefined;
+        updateDiagnostics(receivedLogs, codeDoc);
+      }, liveUpdateInterval);
+    }
   };
 
   const unsubscribe = useRunStore.subscribe(
     runSelectors.selectIsExecutingCode,
     (isExecuting) => {
       if (!isExecuting) {
+        clearTimeout(updateTimer);
+        updateTimer = undefined;
         updateDiagnostics(receivedLogs, codeDoc);
         unsubscribe();
       }
@@ -0,0 +1,93 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import { LogLine, OnLogFn } from "../../connection";
+import { SASCodeDocument } from "../utils/SASCodeDocument";
+import {
+  decomposeCodeLogLine,
+  isSourceCodeLineAfterLineWrapping,
+} from "./ProblemProcessor";
+
+export type Step = {
+  // "DATA" or "PROC <procedure name>"
+  name: string;
+  // the line of the step in the code of the editor, 0 based
+  lineNumber: number;
+};
+
+/*
+  returns the name of the last step that begins in a source code log line, for example:
+    "41   data work.class; set sashelp.class; run;"     -> "DATA"
+    "42   run; proc sort data=work.class; by age; run;" -> "PROC SORT"
+*/
+export function getStepName(code: string): string | undefined {
+  let name: string | undefined;
+  code.split(";").forEach((statement) => {
+    const match = statement.match(
+      /^\s*(?:(?<data>data)(?=\s|$)|proc\s+(?<proc>[a-z_]\w*))/i,
+    );
+    if (match?.groups.data) {
+      name = "DATA";
+    } else if (match?.groups.proc) {
+      name = `PROC ${match.groups.proc.toUpperCase()}`;
+    }
+  });
+
+  return name;
+}
+
+export function getStepMessage({ name, lineNumber }: Step): string {
+  return l10n.t("{step} (line {line})", { step: name, line: lineNumber + 1 });
+}
+
+/**
+ * Calls onStep with each DATA or PROC step that begins executing, based on
+ * the source code echoed in the log of the code document.
+ */
+export function generateStepLogFn(
+  codeDoc: SASCodeDocument,
+  onStep: (step: Step) => void,
+  originLogFn?: OnLogFn,
+): OnLogFn {
+  const logStartFlag = codeDoc.wrappedCodeLineAt(0)?.trim();
+  // the line number of the log start flag in the log.
+  // source code lines before it belong to previous runs.
+  let logStartLineNumber: number | undefined;
+
+  const processLogLine = (logLine: LogLine) => {
+    if (
+      logLine.type !== "source" ||
+      isSourceCodeLineAfterLineWrapping(logLine.line)
+    ) {
+      return;
+    }
+
+    const codeInfo = decomposeCodeLogLine(logLine.line);
+    if (codeInfo === null) {
+      return;
+    }
+
+    if (codeInfo.code.trim() === logStartFlag) {
+      logStartLineNumber = codeInfo.lineNumber;
+      return;
+    }
+
+    const name = getStepName(codeInfo.code);
+    if (logStartLineNumber === undefined || name === undefined) {
+      return;
+    }
+
+    const { lineNumber } = codeDoc.getLocationInRawCode({
+      lineNumber: codeInfo.lineNumber - logStartLineNumber,
+      startColumn: 0,
+      endColumn: 0,
+    });
+    onStep({ name, lineNumber });
+  };
+
+  return (logs) => {
+    originLogFn?.(logs);
+    logs.forEach(processLogLine);
+  };
+}
@@ -2,6 +2,10 @@
 // SPDX-License-Identifier: Apache-2.0
 import * as vscode from "vscode";
 
+import { basename } from "path";
+
+import { profileConfig } from "../../commands/profile";
+import { runExclusively } from "../../commands/run";
 import { getSession } from "../../connection";
 import { SASCodeDocument } from "../utils/SASCodeDocument";
 import { getCodeDocumentConstructionParameters } from "../utils/SASCodeDocumentHelper";
@@ -16,6 +20,10 @@ export class NotebookController {
   private readonly _controller: vscode.NotebookController;
   private _executionOrder = 0;
   private _interrupted: Deferred<void> | undefined;
+  // runs of cells waiting in the run queue, by notebook
+  private _queued = new Map<string, Set<vscode.CancellationTokenSource>>();
+  // profile of the session running cells, the active profile when undefined
+  private _profileName: string | undefined;
 
   constructor() {
     this._controller = vscode.notebooks.createNotebookController(
@@ -35,10 +43,52 @@ export class NotebookController {
   }
 
   private async _execute(cells: vscode.NotebookCell[]): Promise<void> {
+    const notebookUri = cells[0].notebook.uri;
+    const binding = profileConfig.getBoundProfile(cells[0].document);
+    if (binding?.error) {
+      vscode.window.showErrorMessage(binding.error);
+      return;
+    }
+    const profileName = binding?.profileName;
+    const label = basename(notebookUri.path);
+    const queued = new vscode.CancellationTokenSource();
+    const notebookQueued =
+      this._queued.get(notebookUri.toString()) ??
+      new Set<vscode.CancellationTokenSource>();
+    notebookQueued.add(queued);
+    this._queued.set(notebookUri.toString(), notebookQueued);
+    const dequeue = () => {
+      notebookQueued.delete(queued);
+      if (
+        notebookQueued.size === 0 &&
+        this._queued.get(notebookUri.toString()) === notebookQueued
+      ) {
+        this._queued.delete(notebookUri.toString());
+      }
+    };
+    try {
+      await runExclusively(
+        profileName ? `${label} (${profileName})` : label,
+        () => {
+          dequeue();
+          this._profileName = profileName;
+          return this._executeCells(cells);
+        },
+        queued.token,
+      );
+    } catch (err) {
+      vscode.window.showErrorMessage(err.message);
+    } finally {
+      dequeue();
+      queued.dispose();
+    }
+  }
+
+  private async _executeCells(cells: vscode.NotebookCell[]): Promise<void> {
     this._interrupted = undefined;
 
     try {
-      const session = getSession();
+      const session = getSession(this._profileName);
       await session.setup();
     } catch (err) {
       vscode.window.showErrorMessage(
@@ -62,7 +112,7 @@ export class NotebookController {
     execution.start(Date.now()); // Keep track of elapsed time to execute cell.
     execution.clearOutput();
 
-    const session = getSession();
+    const session = getSession(this._profileName);
     session.onExecutionLogFn = (logLines) => {
       logs = logs.concat(logLines);
     };
@@ -107,7 +157,14 @@ export class NotebookController {
     }
   }
 
-  private _interrupt() {
+  private _interrupt(notebook: vscode.NotebookDocument) {
+    // the queued runs of the notebook are removed before the running one
+    // is interrupted
+    const queued = this._queued.get(notebook.uri.toString());
+    if (queued?.size) {
+      queued.forEach((tokenSource) => tokenSource.cancel());
+      return;
+    }
     if (this._interrupted) {
       return;
     }
@@ -119,7 +176,7 @@ export class NotebookController {
       },
       () => this._interrupted.promise,
     );
-    const session = getSession();
+    const session = getSession(this._profileName);
     session.cancel?.();
   }
 }
@@ -3,22 +3,35 @@
 import {
   ConfigurationTarget,
   QuickPickOptions,
-  commands,
+  RelativePattern,
+  TextDocument,
   l10n,
+  languages,
   window,
   workspace,
 } from "vscode";
 
 import { readFileSync } from "fs";
 
+import {
+  ConnectionProvider,
+  ConnectionProviderProfile,
+  getConnectionProvider,
+  getConnectionProviders,
+  toProviderProfile,
+} from "../connection/providers";
+
 export const EXTENSION_CONFIG_KEY = "SAS";
 export const EXTENSION_DEFINE_PROFILES_CONFIG_KEY = "connectionProfiles";
 export const EXTENSION_PROFILES_CONFIG_KEY = "profiles";
 export const EXTENSION_ACTIVE_PROFILE_CONFIG_KEY = "activeProfile";
+export const EXTENSION_FILE_BINDINGS_CONFIG_KEY = "profileBindings.files";
+export const EXTENSION_FOLDER_BINDINGS_CONFIG_KEY = "profileBindings.folders";
 
 enum ConnectionOptions {
   SAS9COM = "SAS 9.4 (local)",
   SAS9IOM = "SAS 9.4 (remote - IOM)",
+  SAS9Local = "SAS 9.4 (local - Linux)",
   SAS9SSH = "SAS 9.4 (remote - SSH)",
   SASViya = "SAS Viya",
 }
@@ -28,6 +41,7 @@ const CONNECTION_PICK_OPTS: string[] = [
   ConnectionOptions.SAS9SSH,
   ConnectionOptions.SAS9IOM,
   ConnectionOptions.SAS9COM,
+  ConnectionOptions.SAS9Local,
 ];
 
 /**
@@ -36,6 +50,7 @@ const CONNECTION_PICK_OPTS: string[] = [
 export const DEFAULT_COMPUTE_CONTEXT = "SAS Job Execution compute context";
 export const DEFAULT_SSH_PORT = "22";
 export const DEFAULT_IOM_PORT = "8591";
+export const DEFAULT_LOCAL_SAS_PATH = "sas";
 
 /**
  * Dictionary is a type that maps a generic object with a string key.
@@ -58,6 +73,7 @@ export enum AuthType {
 export enum ConnectionType {
   COM = "com",
   IOM = "iom",
+  Local = "local",
   Rest = "rest",
   SSH = "ssh",
 }
@@ -103,7 +119,17 @@ export interface IOMProfile extends BaseProfile {
   port: number;
 }
 
-export type Profile = ViyaProfile | SSHProfile | COMProfile | IOMProfile;
+export interface LocalProfile extends BaseProfile {
+  connectionType: ConnectionType.Local;
+  saspath: string;
+}
+
+export type Profile =
+  | ViyaProfile
+  | SSHProfile
+  | COMProfile
+  | IOMProfile
+  | LocalProfile;
 
 export enum AutoExecType {
   File = "file",
@@ -178,6 +204,28 @@ export interface ProfileDetail {
   profile: Profile;
 }
 
+/**
+ * Enum that represents how a profile got bound to a document.
+ */
+export enum ProfileBindingType {
+  Comment = "comment",
+  File = "file",
+  Folder = "folder",
+}
+
+/**
+ * Profile binding is an interface that represents the profile bound to a
+ * document, with the `@sas-profile` comment, the file pattern or the
+ * workspace folder that bound it.
+ */
+export interface ProfileBinding {
+  profileName: string;
+  type: ProfileBindingType;
+  source: string;
+  /** why the profile cannot be bound, such as for SAS Viya profiles */
+  error?: string;
+}
+
 /**
  * Profile validation is an interface that represents the validation
  * information from a profile needed when making a SAS connection.
@@ -308,9 +356,8 @@ export class ProfileConfig {
       activeProfile: activeProfileParam,
       profiles: profileList,
     };
-    if (activeProfileParam in profileList) {
-      commands.executeCommand("SAS.close", true);
-    } else {
+    // sessions of the other profiles stay open
+    if (!(activeProfileParam in profileList)) {
       profiles.activeProfile = "";
     }
     await workspace
@@ -363,11 +410,19 @@ export class ProfileConfig {
    * @returns Optional ProfileDetail
    */
   getActiveProfileDetail(): ProfileDetail | undefined {
-    const activeProfileName = this.getActiveProfile();
+    return this.getProfileDetail(this.getActiveProfile());
+  }
 
+  /**
+   * Retrieves the {@link ProfileDetail} of a profile by name.
+   *
+   * @param name {@link String} of the name of the profile
+   * @returns Optional ProfileDetail
+   */
+  getProfileDetail(name: string): ProfileDetail | undefined {
     const profileList = this.getAllProfiles();
-    if (activeProfileName in profileList) {
-      const profile = { ...profileList[activeProfileName] };
+    if (name in profileList) {
+      const profile = { ...profileList[name] };
       if (
         profile.connectionType === ConnectionType.Rest &&
         /\/$/.test(profile.endpoint)
@@ -375,7 +430,7 @@ export class ProfileConfig {
         profile.endpoint = profile.endpoint.replace(/\/$/, "");
       }
       const detail: ProfileDetail = {
-        name: activeProfileName,
+        name,
         profile,
       };
       return detail;
@@ -388,9 +443,12 @@ export class ProfileConfig {
    * Upsert allows for add or update the new {@link Profile} into vscode settings.
    *
    * @param name {@link String} of the name of the profile
-   * @param profile {@link Profile} object
+   * @param profile {@link Profile} or {@link ConnectionProviderProfile} object
    */
-  async upsertProfile(name: string, profile: Profile): Promise<void> {
+  async upsertProfile(
+    name: string,
+    profile: Profile | ConnectionProviderProfile,
+  ): Promise<void> {
     const profileList = this.getAllProfiles();
     // Cannot mutate VSCode Config Object, create a clone and add that to settings.json
     const newProfileList = JSON.parse(JSON.stringify(profileList));
@@ -445,7 +503,22 @@ export class ProfileConfig {
       pv.error = l10n.t("Missing connectionType in active profile.");
       return pv;
     }
-    if (profile.connectionType === ConnectionType.Rest) {
+    const provider = getConnectionProvider(profile.connectionType);
+    if (provider) {
+      const providerProfile = toProviderProfile(profile);
+      const missingPrompt = provider.prompts?.find(
+        ({ key, required }) => required && !providerProfile[key],
+      );
+      const error = missingPrompt
+        ? l10n.t("Missing {property} in active profile.", {
+            property: missingPrompt.key,
+          })
+        : provider.validateProfile?.(providerProfile);
+      if (error) {
+        pv.error = error;
+        return pv;
+      }
+    } else if (profile.connectionType === ConnectionType.Rest) {
       if (!profile.endpoint) {
         pv.error = l10n.t("Missing endpoint in active profile.");
         return pv;
@@ -469,6 +542,11 @@ export class ProfileConfig {
         pv.error = l10n.t("Missing username in active profile.");
         return pv;
       }
+    } else if (profile.connectionType === ConnectionType.Local) {
+      if (!profile.saspath) {
+        pv.error = l10n.t("Missing sas path in active profile.");
+        return pv;
+      }
     }
 
     pv.profile = profileDetail.profile;
@@ -493,13 +571,24 @@ export class ProfileConfig {
     }
 
     const inputConnectionType: string = await createInputQuickPick(
-      CONNECTION_PICK_OPTS,
+      [
+        ...CONNECTION_PICK_OPTS,
+        ...getConnectionProviders().map(({ label }) => label),
+      ],
       ProfilePromptType.ConnectionType,
     );
     if (inputConnectionType === undefined) {
       return;
     }
 
+    const provider = getConnectionProviders().find(
+      ({ label }) => label === inputConnectionType,
+    );
+    if (provider) {
+      await this.promptProviderProfile(name, profile, provider);
+      return;
+    }
+
     profileClone.connectionType = mapQuickPickToEnum(inputConnectionType);
 
     if (profileClone.connectionType === ConnectionType.Rest) {
@@ -620,18 +709,155 @@ export class ProfileConfig {
         return;
       }
 
+      await this.upsertProfile(name, profileClone);
+    } else if (profileClone.connectionType === ConnectionType.Local) {
+      profileClone.saspath = await createInputTextBox(
+        ProfilePromptType.LocalSASPath,
+        profileClone.saspath ?? DEFAULT_LOCAL_SAS_PATH,
+      );
+      if (!profileClone.saspath) {
+        return;
+      }
+
+      const sasOptions = await createInputTextBox(
+        ProfilePromptType.SASOptions,
+        profileClone.sasOptions?.join(" "),
+      );
+      if (sasOptions === undefined) {
+        return;
+      }
+      // one entry per option, such as ["-MEMSIZE 4G", "-NONEWS"]
+      profileClone.sasOptions = sasOptions.trim()
+        ? sasOptions.trim().split(/\s+(?=-)/)
+        : [];
+
       await this.upsertProfile(name, profileClone);
     }
   }
 
+  /**
+   * Requests the values of the prompts of a connection provider, and adds or
+   * updates the profile with them.
+   *
+   * @param name the {@link String} representation of the name of the profile
+   * @param profile the existing profile, if any
+   * @param provider the {@link ConnectionProvider} of the picked connection type
+   */
+  private async promptProviderProfile(
+    name: string,
+    profile: Profile | undefined,
+    provider: ConnectionProvider,
+  ): Promise<void> {
+    // the values of the profile are kept when its connection type is unchanged
+    const providerProfile: ConnectionProviderProfile =
+      profile?.connectionType === provider.connectionType
+        ? toProviderProfile(profile)
+        : { connectionType: provider.connectionType };
+
+    for (const prompt of provider.prompts ?? []) {
+      const value = await window.showInputBox({
+        title: prompt.title,
+        placeHolder: prompt.placeholder,
+        prompt: prompt.description,
+        value: `${providerProfile[prompt.key] ?? prompt.defaultValue ?? ""}`,
+        ignoreFocusOut: true,
+      });
+      if (value === undefined || (prompt.required && !value)) {
+        return;
+      }
+      if (value) {
+        providerProfile[prompt.key] = value;
+      } else {
+        delete providerProfile[prompt.key];
+      }
+    }
+
+    await this.upsertProfile(name, providerProfile);
+  }
+
+  /**
+   * Resolves the profile bound to a document, in order of precedence: a
+   * `/* @sas-profile: name *\/` comment at the top of the document, a
+   * `SAS.profileBindings.files` pattern matching the file, or a
+   * `SAS.profileBindings.folders` entry for its workspace folder. Notebook
+   * cells resolve with their notebook and its first cell.
+   *
+   * SAS Viya profiles cannot be bound, as SAS Viya sessions follow the
+   * active profile, so their bindings come with an error.
+   *
+   * @param document the {@link TextDocument} to run
+   * @returns Optional ProfileBinding, undefined when the active profile applies
+   */
+  getBoundProfile(document: TextDocument): ProfileBinding | undefined {
+    const binding = this.findBoundProfile(document);
+    if (
+      binding &&
+      this.getProfileByName(binding.profileName)?.connectionType ===
+        ConnectionType.Rest
+    ) {
+      binding.error = l10n.t(
+        'The SAS Viya profile "{profileName}" cannot be bound to files or folders. Remove the binding and make it the active profile instead.',
+        { profileName: binding.profileName },
+      );
+    }
+    return binding;
+  }
+
+  private findBoundProfile(document: TextDocument): ProfileBinding | undefined {
+    const notebook = workspace.notebookDocuments.find((notebook) =>
+      notebook.getCells().some((cell) => cell.document === document),
+    );
+    const headerDocument = notebook?.cellAt(0).document ?? document;
+    const uri = notebook?.uri ?? document.uri;
+
+    const commentProfileName = getProfileComment(headerDocument.getText());
+    if (commentProfileName) {
+      return {
+        profileName: commentProfileName,
+        type: ProfileBindingType.Comment,
+        source: "@sas-profile",
+      };
+    }
+
+    const configuration = workspace.getConfiguration(EXTENSION_CONFIG_KEY);
+    const folder = workspace.getWorkspaceFolder(uri);
+    const fileBindings: Dictionary<string> =
+      configuration.get(EXTENSION_FILE_BINDINGS_CONFIG_KEY) ?? {};
+    for (const [pattern, profileName] of Object.entries(fileBindings)) {
+      const selector = {
+        pattern: folder ? new RelativePattern(folder, pattern) : pattern,
+      };
+      if (languages.match(selector, document) > 0) {
+        return { profileName, type: ProfileBindingType.File, source: pattern };
+      }
+    }
+
+    const folderBindings: Dictionary<string> =
+      configuration.get(EXTENSION_FOLDER_BINDINGS_CONFIG_KEY) ?? {};
+    if (folder && folderBindings[folder.name]) {
+      return {
+        profileName: folderBindings[folder.name],
+        type: ProfileBindingType.Folder,
+        source: folder.name,
+      };
+    }
+
+    return undefined;
+  }
+
   /**
    * Retrieves the remote target associated with the active profile. For SSH profiles, the host
-   * value is used. For Viya, the endpoint value is used.
+   * value is used. For Viya, the endpoint value is used. For local profiles, the SAS executable
+   * path is used. For connection types of other extensions, their provider tells.
    * @param profileName - a profile name to retrieve.
    * @returns
    */
   remoteTarget(profileName: string): string {
     const activeProfile = this.getProfileByName(profileName);
+    const provider = getConnectionProvider(activeProfile.connectionType);
+    if (provider) {
+      return provider.remoteTarget?.(toProviderProfile(activeProfile)) ?? "";
+    }
     switch (activeProfile.connectionType) {
       case ConnectionType.SSH:
       case ConnectionType.COM:
@@ -639,10 +865,30 @@ export class ProfileConfig {
         return activeProfile.host;
       case ConnectionType.Rest:
         return activeProfile.endpoint;
+      case ConnectionType.Local:
+        return activeProfile.saspath;
     }
   }
 }
 
+/**
+ * Finds a `@sas-profile: name` directive in the block comments that start
+ * the code.
+ * @param code the code to look into.
+ * @returns the profile name of the directive, if any.
+ */
+const getProfileComment = (code: string): string | undefined => {
+  const commentRegex = /\s*\/\*([\s\S]*?)\*\//y;
+  let match: RegExpExecArray | null;
+  while ((match = commentRegex.exec(code))) {
+    const profileName = match[1].match(/@sas-profile:[ \t]*(.*\S)/)?.[1];
+    if (profileName) {
+      return profileName;
+    }
+  }
+  return undefined;
+};
+
 /**
  * Define an object to represent the values needed for prompting a window.showInputBox
  */
@@ -668,6 +914,8 @@ export enum ProfilePromptType {
   Port,
   Username,
   PrivateKeyFilePath,
+  LocalSASPath,
+  SASOptions,
 }
 
 /**
@@ -810,6 +1058,20 @@ const input: ProfilePromptInput = {
     placeholder: l10n.t("Enter the local private key file path"),
     description: l10n.t("To use the SSH Agent or a password, leave blank."),
   },
+  [ProfilePromptType.LocalSASPath]: {
+    title: l10n.t("SAS Executable"),
+    placeholder: l10n.t("Enter the path of the SAS executable"),
+    description: l10n.t(
+      "Enter the path of the SAS executable on this machine. An example is /opt/sasinside/SASHome/SASFoundation/9.4/bin/sas_u8.",
+    ),
+  },
+  [ProfilePromptType.SASOptions]: {
+    title: l10n.t("SAS Options (optional)"),
+    placeholder: l10n.t("Enter SAS system options"),
+    description: l10n.t(
+      "Enter the SAS system options to start SAS with. An example is -MEMSIZE 4G -NONEWS.",
+    ),
+  },
 };
 
 /**
@@ -832,6 +1094,8 @@ function mapQuickPickToEnum(connectionTypePickInput: string): ConnectionType {
       return ConnectionType.COM;
     case ConnectionOptions.SAS9IOM:
       return ConnectionType.IOM;
+    case ConnectionOptions.SAS9Local:
+      return ConnectionType.Local;
     default:
       return undefined;
   }
@@ -11,7 +11,6 @@ import {
   l10n,
 } from "vscode";
 
-import { hasRunningTask } from "../../commands/run";
 import {
   Execute,
   SAS_TASK_TYPE,
@@ -46,14 +45,7 @@ export class SasPseudoterminal implements Pseudoterminal {
   public onDidClose? = this.closeEmitter.event;
 
   public open(): void {
-    if (hasRunningTask()) {
-      this.messageEmitter.fire(
-        "There is running task, please try again after that is complete.\n",
-      );
-      this.closeEmitter.fire(1);
-    } else {
-      this.executeTask();
-    }
+    this.executeTask();
   }
 
   public close(): void {
@@ -4,6 +4,7 @@ import { EventEmitter, TaskDefinition, l10n, window, workspace } from "vscode";
 
 import { isAbsolute } from "path";
 
+import { profileConfig } from "../../commands/profile";
 import { runTask } from "../../commands/run";
 import { SASCodeDocument } from "../utils/SASCodeDocument";
 import { getCodeDocumentConstructionParameters } from "../utils/SASCodeDocumentHelper";
@@ -56,8 +57,18 @@ export async function runSasFileTask(
   });
 
   const codeDoc = new SASCodeDocument(parameters);
+  const binding = profileConfig.getBoundProfile(textDocument);
+  if (binding?.error) {
+    throw new Error(binding.error);
+  }
 
-  return runTask(codeDoc, messageEmitter, closeEmitter, label);
+  return runTask(
+    codeDoc,
+    messageEmitter,
+    closeEmitter,
+    label,
+    binding?.profileName,
+  );
 }
 
 async function getTextDocumentFromFile(file: string | undefined) {
@@ -42,6 +42,10 @@ export class SASCodeDocument {
     return this.parameters.fileName;
   }
 
+  public getParameters(): SASCodeDocumentParameters {
+    return this.parameters;
+  }
+
   public wrappedCodeLineAt(lineNumber: number) {
     return this.getWrappedCode().split("\n")[lineNumber];
   }
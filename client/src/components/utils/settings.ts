@@ -33,3 +33,15 @@ export function clearLogOnExecutionStart(): boolean {
 export function isShowProblemsFromSASLogEnabled(): boolean {
   return workspace.getConfiguration("SAS").get("problems.log.enabled");
 }
+
+export function getRunHistoryMaxEntries(): number {
+  return workspace.getConfiguration("SAS").get("runHistory.maxEntries");
+}
+
+export function getRunWhenBusy(): "queue" | "reject" | "replace" {
+  return workspace.getConfiguration("SAS").get("run.whenBusy");
+}
+
+export function isProfileCodeLensEnabled(): boolean {
+  return !!workspace.getConfiguration("SAS").get("run.profileCodeLens");
+}
@@ -0,0 +1,91 @@
+// Copyright © 2024, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import { LogLine, getSession } from ".";
+import { finishExecuting, waitInQueue } from "./queue";
+import { Session } from "./session";
+
+let wait: Promise<unknown> | undefined;
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  // a failed task must not keep the tasks after it from running
+  const result = wait ? wait.then(task, task) : task();
+  wait = result;
+  return result;
+}
+
+/**
+ * Runs code in the session of the active profile, after the code that is
+ * already running, and returns its log output.
+ * @param startTag when given with endTag, only the output between the tags
+ * is returned.
+ */
+export async function runCode(
+  code: string,
+  startTag: string = "",
+  endTag: string = "",
+): Promise<string> {
+  return runInSession((session) => _runCode(session, code, startTag, endTag));
+}
+
+/**
+ * Runs a task with the session of the active profile, after the code that
+ * is already running.
+ */
+export async function runInSession<T>(
+  task: (session: Session) => Promise<T>,
+): Promise<T> {
+  return enqueue(() => _runInSession(task));
+}
+
+async function _runCode(
+  session: Session,
+  code: string,
+  startTag: string = "",
+  endTag: string = "",
+): Promise<string> {
+  const onExecutionLogFn = session.onExecutionLogFn;
+  const outputLines = [];
+
+  const addLine = (logLines: LogLine[]) =>
+    outputLines.push(...logLines.map(({ line }) => line));
+
+  try {
+    // Lets capture output to use it on
+    session.onExecutionLogFn = addLine;
+
+    await session.run(code, true);
+
+    const logOutput = outputLines.filter((line) => line.trim()).join("");
+
+    return startTag && endTag
+      ? logOutput
+          .slice(logOutput.lastIndexOf(startTag), logOutput.lastIndexOf(endTag))
+          .replace(startTag, "")
+          .replace(endTag, "")
+      : logOutput;
+  } finally {
+    // Lets update our session to write to the log
+    session.onExecutionLogFn = onExecutionLogFn;
+  }
+}
+
+async function _runInSession<T>(
+  task: (session: Session) => Promise<T>,
+): Promise<T> {
+  // wait in the run queue with the code submitted by the user, so that
+  // a single run uses the session at a time
+  if (!(await waitInQueue(l10n.t("SAS extension query"), false))) {
+    throw new Error(l10n.t("The query was removed from the run queue."));
+  }
+  const session = getSession();
+
+  try {
+    await session.setup(true);
+
+    return await task(session);
+  } finally {
+    finishExecuting();
+  }
+}
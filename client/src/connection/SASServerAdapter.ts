@@ -0,0 +1,375 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { FileType, Uri } from "vscode";
+
+import {
+  SAS_SERVER_ROOT_FOLDER,
+  SAS_SERVER_ROOT_FOLDERS,
+  SERVER_FOLDER_ID,
+  SERVER_HOME_FOLDER_TYPE,
+} from "../components/ContentNavigator/const";
+import {
+  ContentAdapter,
+  ContentItem,
+  RootFolderMap,
+} from "../components/ContentNavigator/types";
+import {
+  getResourceId,
+  getResourceIdFromItem,
+  getSasServerUri,
+  getTypeName,
+  resourceType,
+} from "./rest/util";
+
+const SAS_FILE_SEPARATOR = "~fs~";
+
+export interface ServerFileProperties {
+  name: string;
+  isDirectory: boolean;
+  modifiedTimeStamp: number;
+  size: number;
+}
+
+/**
+ * Lists the files of a SAS 9 server in the SAS Server view. Subclasses
+ * access the file system of the server. Items are identified by their path,
+ * with `~fs~` in place of the directory separators.
+ */
+abstract class SASServerAdapter implements ContentAdapter {
+  private rootFolders: RootFolderMap = {};
+  private homeDirectory: string | undefined;
+  private separator = "/";
+
+  protected abstract getHomeDirectory(): Promise<string>;
+  protected abstract readDirectory(
+    path: string,
+  ): Promise<ServerFileProperties[]>;
+  protected abstract stat(path: string): Promise<ServerFileProperties>;
+  protected abstract readFile(path: string): Promise<Buffer>;
+  protected abstract writeFile(path: string, content: Buffer): Promise<void>;
+  protected abstract createDirectory(path: string): Promise<void>;
+  /**
+   * Deletes a file or an empty directory.
+   */
+  protected abstract deletePath(
+    path: string,
+    isDirectory: boolean,
+  ): Promise<void>;
+  protected abstract renamePath(
+    oldPath: string,
+    newPath: string,
+  ): Promise<void>;
+
+  public async connect(): Promise<void> {
+    const homeDirectory = await this.getHomeDirectory();
+    this.separator = homeDirectory.includes("\\") ? "\\" : "/";
+    this.homeDirectory = homeDirectory;
+  }
+
+  public connected(): boolean {
+    return true;
+  }
+
+  public async setup(): Promise<void> {
+    if (this.homeDirectory) {
+      return;
+    }
+
+    await this.connect();
+  }
+
+  public async addChildItem(): Promise<boolean> {
+    throw new Error("Method not implemented.");
+  }
+
+  // TODO #417 Implement favorites
+  public async addItemToFavorites(): Promise<boolean> {
+    throw new Error("Method not implemented.");
+  }
+
+  // TODO #417 Implement favorites
+  public async removeItemFromFavorites(): Promise<boolean> {
+    throw new Error("Method not implemented.");
+  }
+
+  public async createNewFolder(
+    parentItem: ContentItem,
+    folderName: string,
+  ): Promise<ContentItem | undefined> {
+    const path = this.joinPath(this.toPath(parentItem.uri), folderName);
+    try {
+      await this.createDirectory(path);
+
+      return this.toContentItem(this.toId(path), await this.stat(path));
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (error) {
+      return;
+    }
+  }
+
+  public async createNewItem(
+    parentItem: ContentItem,
+    fileName: string,
+    buffer?: ArrayBufferLike,
+  ): Promise<ContentItem | undefined> {
+    const path = this.joinPath(this.toPath(parentItem.uri), fileName);
+    try {
+      await this.writeFile(
+        path,
+        buffer ? Buffer.from(buffer) : Buffer.from(""),
+      );
+
+      return this.toContentItem(this.toId(path), await this.stat(path));
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (error) {
+      return;
+    }
+  }
+
+  public async deleteItem(item: ContentItem): Promise<boolean> {
+    try {
+      await this.deleteRecursively(
+        this.toPath(item.uri),
+        item.fileStat?.type === FileType.Directory,
+      );
+      return true;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (error) {
+      return false;
+    }
+  }
+
+  public async getChildItems(parentItem: ContentItem): Promise<ContentItem[]> {
+    // If the user is fetching child items of the root folder, give them the
+    // "home" directory
+    if (parentItem.id === SERVER_FOLDER_ID) {
+      return [
+        {
+          ...this.toContentItem(
+            this.toId(this.homeDirectory),
+            {
+              name: "Home",
+              isDirectory: true,
+              modifiedTimeStamp: 0,
+              size: 0,
+            },
+            SERVER_HOME_FOLDER_TYPE,
+          ),
+          uid: `${parentItem.uid}/0`,
+        },
+      ];
+    }
+
+    const childItems = await this.readDirectory(this.toPath(parentItem.uri));
+
+    return childItems
+      .map((fileProperties, index) => ({
+        ...this.toContentItem(
+          this.toId(
+            this.joinPath(this.toPath(parentItem.uri), fileProperties.name),
+          ),
+          fileProperties,
+        ),
+        uid: `${parentItem.uid}/${index}`,
+      }))
+      .sort((a, b) => {
+        const aIsDirectory = a.fileStat?.type === FileType.Directory;
+        const bIsDirectory = b.fileStat?.type === FileType.Directory;
+        if (aIsDirectory && !bIsDirectory) {
+          return -1;
+        } else if (!aIsDirectory && bIsDirectory) {
+          return 1;
+        } else {
+          return a.name.localeCompare(b.name);
+        }
+      });
+  }
+
+  public async getContentOfItem(item: ContentItem): Promise<string> {
+    // downloads convert the content back to a buffer as binary
+    return (await this.readFile(this.toPath(item.uri))).toString("binary");
+  }
+
+  public async getContentOfUri(uri: Uri): Promise<string> {
+    await this.setup();
+    return (await this.readFile(this.toPath(getResourceId(uri)))).toString();
+  }
+
+  public async getFolderPathForItem(): Promise<string> {
+    // This is for creating a filename statement which won't work as expected for
+    // file system files.
+    return "";
+  }
+
+  public async getItemOfUri(uri: Uri): Promise<ContentItem> {
+    await this.setup();
+    const id = getResourceId(uri);
+
+    return this.toContentItem(id, await this.stat(this.toPath(id)));
+  }
+
+  public async getParentOfItem(
+    item: ContentItem,
+  ): Promise<ContentItem | undefined> {
+    const parentPath = this.getParentPath(this.toPath(item.uri));
+    if (!parentPath) {
+      return;
+    }
+
+    return this.toContentItem(
+      this.toId(parentPath),
+      await this.stat(parentPath),
+    );
+  }
+
+  // TODO #417 Implement as part of favorites
+  public getRootFolder(): ContentItem | undefined {
+    return undefined;
+  }
+
+  public async getRootItems(): Promise<RootFolderMap> {
+    await this.setup();
+
+    SAS_SERVER_ROOT_FOLDERS.forEach((delegateFolderName, index) => {
+      this.rootFolders[delegateFolderName] = {
+        ...this.toContentItem(
+          SERVER_FOLDER_ID,
+          {
+            name: SAS_SERVER_ROOT_FOLDER.name,
+            isDirectory: true,
+            modifiedTimeStamp: 0,
+            size: 0,
+          },
+          SAS_SERVER_ROOT_FOLDER.type,
+        ),
+        uid: `${index}`,
+      };
+    });
+
+    return this.rootFolders;
+  }
+
+  public async getUriOfItem(item: ContentItem): Promise<Uri> {
+    return item.vscUri;
+  }
+
+  public async moveItem(
+    item: ContentItem,
+    targetParentFolderUri: string,
+  ): Promise<Uri | undefined> {
+    const newPath = this.joinPath(
+      this.toPath(targetParentFolderUri),
+      item.name,
+    );
+    await this.renamePath(this.toPath(item.uri), newPath);
+
+    return this.toContentItem(this.toId(newPath), await this.stat(newPath))
+      .vscUri;
+  }
+
+  public async renameItem(
+    item: ContentItem,
+    newName: string,
+  ): Promise<ContentItem | undefined> {
+    const path = this.toPath(item.uri);
+    const newPath = this.joinPath(this.getParentPath(path), newName);
+    try {
+      await this.renamePath(path, newPath);
+
+      return this.toContentItem(this.toId(newPath), await this.stat(newPath));
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (error) {
+      return;
+    }
+  }
+
+  public async updateContentOfItem(uri: Uri, content: string): Promise<void> {
+    await this.setup();
+    await this.writeFile(this.toPath(getResourceId(uri)), Buffer.from(content));
+  }
+
+  protected getParentPath(path: string): string | undefined {
+    const index = path.lastIndexOf(this.separator);
+    if (index === -1 || path === this.separator) {
+      return;
+    }
+
+    return index === 0 ? this.separator : path.slice(0, index);
+  }
+
+  protected getName(path: string): string {
+    return path.slice(path.lastIndexOf(this.separator) + 1);
+  }
+
+  protected joinPath(path: string, name: string): string {
+    return path.endsWith(this.separator)
+      ? `${path}${name}`
+      : `${path}${this.separator}${name}`;
+  }
+
+  private toId(path: string): string {
+    return path.split(this.separator).join(SAS_FILE_SEPARATOR);
+  }
+
+  private toPath(id: string): string {
+    return id.split(SAS_FILE_SEPARATOR).join(this.separator);
+  }
+
+  private async deleteRecursively(
+    path: string,
+    isDirectory: boolean,
+  ): Promise<void> {
+    if (isDirectory) {
+      for (const { name, isDirectory } of await this.readDirectory(path)) {
+        await this.deleteRecursively(this.joinPath(path, name), isDirectory);
+      }
+    }
+
+    await this.deletePath(path, isDirectory);
+  }
+
+  private toContentItem(
+    id: string,
+    fileProperties: ServerFileProperties,
+    type: string = "",
+  ): ContentItem {
+    const isRootFolder = id === SERVER_FOLDER_ID;
+    const isStaticFolder = isRootFolder || type === SERVER_HOME_FOLDER_TYPE;
+    const links = [
+      { method: "GET", rel: "self", href: id, uri: id, type: "GET" },
+    ];
+    const item = {
+      id,
+      uri: id,
+      name: fileProperties.name,
+      creationTimeStamp: 0,
+      modifiedTimeStamp: fileProperties.modifiedTimeStamp,
+      links,
+      permission: {
+        write: !isStaticFolder,
+        delete: !isStaticFolder,
+        addMember: fileProperties.isDirectory && !isRootFolder,
+      },
+      type,
+      parentFolderUri: isStaticFolder
+        ? undefined
+        : this.toId(this.getParentPath(this.toPath(id)) ?? ""),
+    };
+
+    return {
+      ...item,
+      contextValue: resourceType(item),
+      fileStat: {
+        ctime: item.creationTimeStamp,
+        mtime: item.modifiedTimeStamp,
+        size: fileProperties.size,
+        type: fileProperties.isDirectory ? FileType.Directory : FileType.File,
+      },
+      resourceId: getResourceIdFromItem(item),
+      vscUri: getSasServerUri(item),
+      typeName: getTypeName(item),
+    };
+  }
+}
+
+export default SASServerAdapter;
@@ -5,12 +5,15 @@ import { l10n } from "vscode";
 import {
   AuthType,
   ConnectionType,
+  Profile,
   ProfileConfig,
   ViyaProfile,
   toAutoExecLines,
 } from "../components/profile";
 import { getSession as getITCSession } from "./itc";
 import { ITCProtocol } from "./itc/types";
+import { getSession as getLocalSession } from "./local";
+import { getConnectionProvider, toProviderProfile } from "./providers";
 import { Config as RestConfig, getSession as getRestSession } from "./rest";
 import {
   Error2 as ComputeError,
@@ -27,9 +30,22 @@ export type LogLine = ComputeLogLine;
 export type LogLineTypeEnum = ComputeLogLineTypeEnum;
 export type OnLogFn = (logs: LogLine[]) => void;
 
+/**
+ * A file written by a run, such as an ODS PDF, RTF or Excel file, an image
+ * or the listing output.
+ */
+export interface RunResultArtifact {
+  /** the file name of the artifact, with the extension of its type */
+  name: string;
+  mediaType: string;
+  data: Uint8Array;
+}
+
 export interface RunResult {
   html5?: string;
   title?: string;
+  /** the results of the run other than the html5 result */
+  artifacts?: RunResultArtifact[];
 }
 
 export interface BaseConfig {
@@ -37,27 +53,80 @@ export interface BaseConfig {
   autoExecLines?: string[];
 }
 
-export function getSession(): Session {
+interface ProfileSession {
+  session: Session;
+  // the profile settings the session was created with
+  profile: Profile;
+}
+
+// sessions keyed by profile name
+const profileSessions: Record<string, ProfileSession> = {};
+
+/**
+ * Gets the session of a profile, creating it if needed.
+ * @param profileName name of the profile, the active profile by default.
+ * @returns the session of the profile.
+ */
+export function getSession(profileName?: string): Session {
   if (!profileConfig) {
     profileConfig = new ProfileConfig();
   }
-  // retrieve active & valid profile
-  const activeProfile = profileConfig.getActiveProfileDetail();
-  const validProfile = profileConfig.validateProfile(activeProfile);
+  const name = profileName ?? profileConfig.getActiveProfile();
+  if (profileSessions[name]) {
+    return profileSessions[name].session;
+  }
+
+  // retrieve & validate profile
+  const profileDetail = profileConfig.getProfileDetail(name);
+  if (name && !profileDetail) {
+    throw new Error(
+      l10n.t('The connection profile "{profileName}" does not exist.', {
+        profileName: name,
+      }),
+    );
+  }
+  const validProfile = profileConfig.validateProfile(profileDetail);
 
   if (validProfile.type === AuthType.Error) {
     throw new Error(validProfile.error);
   }
 
-  switch (validProfile.profile?.connectionType) {
+  // SAS Viya sign in and API settings follow the active profile
+  if (
+    validProfile.profile.connectionType === ConnectionType.Rest &&
+    name !== profileConfig.getActiveProfile()
+  ) {
+    throw new Error(
+      l10n.t(
+        "SAS Viya sessions are only available for the active profile. Switch to the {profileName} profile to use it.",
+        { profileName: name },
+      ),
+    );
+  }
+
+  // copied before the session gets to adjust it
+  const profile = { ...profileDetail.profile };
+  const session = createSession(validProfile.profile);
+  profileSessions[name] = { session, profile };
+  return session;
+}
+
+function createSession(profile: Profile): Session {
+  const provider = getConnectionProvider(profile.connectionType);
+  if (provider) {
+    return provider.createSession(toProviderProfile(profile));
+  }
+  switch (profile.connectionType) {
     case ConnectionType.Rest:
-      return getRestSession(toRestConfig(validProfile.profile));
+      return getRestSession(toRestConfig(profile));
     case ConnectionType.SSH:
-      return getSSHSession(validProfile.profile);
+      return getSSHSession(profile);
     case ConnectionType.COM:
-      return getITCSession(validProfile.profile, ITCProtocol.COM);
+      return getITCSession(profile, ITCProtocol.COM);
     case ConnectionType.IOM:
-      return getITCSession(validProfile.profile, ITCProtocol.IOMBridge);
+      return getITCSession(profile, ITCProtocol.IOMBridge);
+    case ConnectionType.Local:
+      return getLocalSession(profile);
     default:
       throw new Error(
         l10n.t("Invalid connectionType. Check Profile settings."),
@@ -65,6 +134,40 @@ export function getSession(): Session {
   }
 }
 
+/**
+ * Lists the sessions that were created, with the name of their profile.
+ */
+export function getSessions(): { profileName: string; session: Session }[] {
+  return Object.entries(profileSessions).map(([profileName, { session }]) => ({
+    profileName,
+    session,
+  }));
+}
+
+/**
+ * Closes and forgets the sessions of profiles that were deleted or changed,
+ * along with SAS Viya sessions of profiles that are no longer active.
+ */
+export async function closeStaleSessions(): Promise<void> {
+  if (!profileConfig) {
+    profileConfig = new ProfileConfig();
+  }
+  const activeProfileName = profileConfig.getActiveProfile();
+  for (const [name, { session, profile }] of Object.entries(profileSessions)) {
+    const currentProfile = profileConfig.getProfileDetail(name)?.profile;
+    if (
+      currentProfile &&
+      JSON.stringify(currentProfile) === JSON.stringify(profile) &&
+      (currentProfile.connectionType !== ConnectionType.Rest ||
+        name === activeProfileName)
+    ) {
+      continue;
+    }
+    delete profileSessions[name];
+    await session.close();
+  }
+}
+
 /**
  * Translates a {@link ViyaProfile} interface to a {@link RestConfig} interface.
  * @param profile an input {@link ViyaProfile} to translate.
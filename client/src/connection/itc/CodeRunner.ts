@@ -1,82 +1,32 @@
 // Copyright © 2024, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
-import { commands } from "vscode";
-
-import { ITCSession } from ".";
-import { LogLine, getSession } from "..";
-import { useRunStore } from "../../store";
-
-let wait: Promise<string> | undefined;
-
-export async function runCode(
-  code: string,
-  startTag: string = "",
-  endTag: string = "",
-): Promise<string> {
-  const task = () => _runCode(code, startTag, endTag);
-
-  wait = wait ? wait.then(task) : task();
-  return wait;
-}
-
-async function _runCode(
-  code: string,
-  startTag: string = "",
-  endTag: string = "",
-): Promise<string> {
-  // If we're already executing code, lets wait for it
-  // to finish up.
-  let unsubscribe;
-  if (useRunStore.getState().isExecutingCode) {
-    await new Promise((resolve) => {
-      unsubscribe = useRunStore.subscribe(
-        (state) => state.isExecutingCode,
-        (isExecutingCode) => !isExecutingCode && resolve(true),
+import { l10n } from "vscode";
+
+import type { ITCSession } from ".";
+import { runInSession } from "../CodeRunner";
+import type { Session } from "../session";
+
+const hasFileService = (
+  session: Session,
+): session is Session & Pick<ITCSession, "runFileService"> =>
+  "runFileService" in session;
+
+/**
+ * Runs a method of the SASRunner script that uses the IOM file service.
+ * @param method the name of the SASRunner method.
+ * @param args the arguments of the method.
+ * @returns the contents written by the method.
+ */
+export async function runFileService(
+  method: string,
+  ...args: string[]
+): Promise<Buffer> {
+  return runInSession((session) => {
+    if (!hasFileService(session)) {
+      throw new Error(
+        l10n.t("The SAS session does not have an IOM file service."),
       );
-    });
-  }
-
-  const { setIsExecutingCode } = useRunStore.getState();
-  setIsExecutingCode(true, false);
-  commands.executeCommand("setContext", "SAS.running", true);
-  const session = getSession();
-
-  let logText = "";
-  const onExecutionLogFn = session.onExecutionLogFn;
-  const outputLines = [];
-
-  const addLine = (logLines: LogLine[]) =>
-    outputLines.push(...logLines.map(({ line }) => line));
-
-  try {
-    await session.setup(true);
-
-    // Lets capture output to use it on
-    session.onExecutionLogFn = addLine;
-
-    // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
-    await (session as ITCSession).run(code, true);
-
-    const logOutput = outputLines.filter((line) => line.trim()).join("");
-
-    logText =
-      startTag && endTag
-        ? logOutput
-            .slice(
-              logOutput.lastIndexOf(startTag),
-              logOutput.lastIndexOf(endTag),
-            )
-            .replace(startTag, "")
-            .replace(endTag, "")
-        : logOutput;
-  } finally {
-    unsubscribe && unsubscribe();
-    // Lets update our session to write to the log
-    session.onExecutionLogFn = onExecutionLogFn;
-
-    setIsExecutingCode(false);
-    commands.executeCommand("setContext", "SAS.running", false);
-  }
-
-  return logText;
+    }
+    return session.runFileService(method, ...args);
+  });
 }
@@ -8,11 +8,45 @@ import { onRunError } from "../../commands/run";
 import {
   LibraryAdapter,
   LibraryItem,
+  TableComparisonOptions,
   TableData,
+  TableDataComparison,
+  TableEdits,
+  TableImport,
+  TableProfile,
+  TableQuery,
   TableRow,
 } from "../../components/LibraryNavigator/types";
+import { runCode } from "../CodeRunner";
 import { Column, ColumnCollection } from "../rest/api/compute";
-import { runCode } from "./CodeRunner";
+import {
+  TABLE_COMPARE_END_TAG,
+  TABLE_COMPARE_START_TAG,
+  getTableCompareCode,
+  parseTableComparison,
+} from "../tableCompare";
+import {
+  TABLE_EDIT_END_TAG,
+  TABLE_EDIT_START_TAG,
+  getTableEditCode,
+  parseTableEditResult,
+} from "../tableEdit";
+import {
+  TABLE_IMPORT_END_TAG,
+  TABLE_IMPORT_FILEREF,
+  TABLE_IMPORT_START_TAG,
+  getTableImportCode,
+  getTableImportFile,
+  parseTableImportResult,
+} from "../tableImport";
+import {
+  TABLE_PROFILE_END_TAG,
+  TABLE_PROFILE_START_TAG,
+  getTableProfileCode,
+  parseTableProfile,
+} from "../tableProfile";
+import { toSasName } from "../util";
+import { runFileService } from "./CodeRunner";
 import { Config } from "./types";
 
 class ItcLibraryAdapter implements LibraryAdapter {
@@ -24,6 +58,20 @@ class ItcLibraryAdapter implements LibraryAdapter {
   protected outputFinished: boolean = false;
   protected config: Config;
 
+  public async compareTables(
+    base: LibraryItem,
+    compare: LibraryItem,
+    options: TableComparisonOptions,
+  ): Promise<TableDataComparison> {
+    const output = await this.runCode(
+      getTableCompareCode(base, compare, options),
+      TABLE_COMPARE_START_TAG,
+      TABLE_COMPARE_END_TAG,
+    );
+
+    return parseTableComparison(output, options);
+  }
+
   public async connect(): Promise<void> {
     this.hasEstablishedConnection = true;
   }
@@ -45,33 +93,19 @@ class ItcLibraryAdapter implements LibraryAdapter {
   }
 
   public async getColumns(item: LibraryItem): Promise<ColumnCollection> {
-    const sql = `
-      %let OUTPUT;
-      proc sql;
-        select catx(',', name, type, varnum) as column into: OUTPUT separated by '~'
-        from sashelp.vcolumn
-        where libname='${item.library}' and memname='${item.name}'
-        order by varnum;
-      quit;
-      %put <COLOUTPUT> &OUTPUT; %put </COLOUTPUT>;
-    `;
+    const code = getColumnsCode(
+      item,
+      "sashelp.vcolumn",
+      "<COLOUTPUT>",
+      "</COLOUTPUT>",
+    );
 
     const columnLines = processQueryRows(
-      await this.runCode(sql, "<COLOUTPUT>", "</COLOUTPUT>"),
+      await this.runCode(code, "<COLOUTPUT>", "</COLOUTPUT>"),
     );
 
-    const columns = columnLines.map((lineText): Column => {
-      const [name, type, index] = lineText.split(",");
-
-      return {
-        name,
-        type,
-        index: parseInt(index, 10),
-      };
-    });
-
     return {
-      items: columns,
+      items: columnLines.map(toColumn),
       count: -1,
     };
   }
@@ -115,11 +149,13 @@ class ItcLibraryAdapter implements LibraryAdapter {
     item: LibraryItem,
     start: number,
     limit: number,
+    query?: TableQuery,
   ): Promise<TableData> {
     const { rows: rawRowValues, count } = await this.getDatasetInformation(
       item,
       start,
       limit,
+      query,
     );
 
     const rows = rawRowValues.map((line, idx: number): TableRow => {
@@ -157,6 +193,19 @@ class ItcLibraryAdapter implements LibraryAdapter {
     return { rows, count: -1 };
   }
 
+  public async getTableProfile(
+    item: LibraryItem,
+    columns: Column[],
+  ): Promise<TableProfile> {
+    const output = await this.runCode(
+      getTableProfileCode(item, columns),
+      TABLE_PROFILE_START_TAG,
+      TABLE_PROFILE_END_TAG,
+    );
+
+    return parseTableProfile(output, columns);
+  }
+
   public async getTableRowCount(
     item: LibraryItem,
   ): Promise<{ rowCount: number; maxNumberOfRowsToRead: number }> {
@@ -208,24 +257,90 @@ class ItcLibraryAdapter implements LibraryAdapter {
     return { items: tables, count: -1 };
   }
 
+  public async importTable(
+    item: LibraryItem,
+    table: TableImport,
+  ): Promise<void> {
+    const workPath = (
+      await this.runCode(
+        "%put <WORKPATH>%sysfunc(pathname(work))</WORKPATH>;",
+        "<WORKPATH>",
+        "</WORKPATH>",
+      )
+    ).trim();
+    if (!workPath) {
+      throw new Error(l10n.t("The table could not be imported."));
+    }
+
+    // the file is uploaded to the work library, which SAS deletes with the
+    // session if the code below cannot
+    const path = `${workPath}${workPath.includes("\\") ? "\\" : "/"}_vscimp.csv`;
+    const { content, recordLength } = getTableImportFile(table);
+    await this.writeFile(path, content);
+
+    const code = `
+      filename ${TABLE_IMPORT_FILEREF} '${path.replace(/'/g, "''")}';
+      ${getTableImportCode(item.name, table, recordLength)}
+      data _null_; rc = fdelete('${TABLE_IMPORT_FILEREF}'); run;
+      filename ${TABLE_IMPORT_FILEREF} clear;
+    `;
+
+    parseTableImportResult(
+      await this.runCode(code, TABLE_IMPORT_START_TAG, TABLE_IMPORT_END_TAG),
+    );
+  }
+
+  public async updateTable(
+    item: LibraryItem,
+    columns: Column[],
+    edits: TableEdits,
+  ): Promise<void> {
+    parseTableEditResult(
+      await this.runCode(
+        getTableEditCode(item, columns, edits),
+        TABLE_EDIT_START_TAG,
+        TABLE_EDIT_END_TAG,
+      ),
+      columns,
+      edits,
+    );
+  }
+
   protected async getDatasetInformation(
     item: LibraryItem,
     start: number,
     limit: number,
+    query?: TableQuery,
   ): Promise<{ rows: Array<string[]>; count: number }> {
     const maxTableNameLength = 32;
     const tempTable = `${item.name}${hms()}${start}`.substring(
       0,
       maxTableNameLength,
     );
+    const {
+      where,
+      createView,
+      deleteView,
+      source,
+      checkStart,
+      checkEnd,
+      putError,
+    } = getQueryView(
+      `${item.library}.${item.name}`,
+      `V${tempTable}`.substring(0, maxTableNameLength),
+      query,
+    );
     const code = `
       options nonotes nosource nodate nonumber;
-      %let COUNT;
+      %let COUNT=0;
+      ${checkStart}
       proc sql;
-        SELECT COUNT(1) into: COUNT FROM  ${item.library}.${item.name};
+        SELECT COUNT(1) into: COUNT FROM  ${item.library}.${item.name} ${where};
+        ${createView}
       quit;
+      ${checkEnd}
       data work.${tempTable};
-        set ${item.library}.${item.name};
+        set ${source};
         if ${start + 1} <= _N_ <= ${start + limit} then output;
       run;
 
@@ -233,14 +348,16 @@ class ItcLibraryAdapter implements LibraryAdapter {
       proc json nokeys out=out pretty; export work.${tempTable}; run;
 
       %put <TABLEDATA>;
+      ${putError}
       %put <Count>&COUNT</Count>;
       data _null_; infile out; input; put _infile_; run;
       %put </TABLEDATA>;
-      proc datasets library=work nolist nodetails; delete ${tempTable}; run;
+      proc datasets library=work nolist nodetails; delete ${tempTable}; ${deleteView} run;
       options notes source date number;
     `;
 
     let output = await this.runCode(code, "<TABLEDATA>", "</TABLEDATA>");
+    parseQueryError(output);
 
     // Extract result count
     const countRegex = /<Count>(.*)<\/Count>/;
@@ -263,6 +380,13 @@ class ItcLibraryAdapter implements LibraryAdapter {
     }
   }
 
+  /**
+   * Writes a file on the SAS server with the IOM file service.
+   */
+  protected async writeFile(path: string, content: Buffer): Promise<void> {
+    await runFileService("WriteFile", path, content.toString("base64"));
+  }
+
   protected async runCode(
     code: string,
     startTag: string = "",
@@ -278,7 +402,63 @@ class ItcLibraryAdapter implements LibraryAdapter {
   }
 }
 
-const processQueryRows = (response: string): string[] => {
+/**
+ * Selects the name, type, position, length, format and label of a column of
+ * dictionary.columns, separated by commas. Labels are last, and can contain
+ * commas but not the tilde that separates the columns.
+ */
+const COLUMN_SELECT =
+  "cats(name, ',', type, ',', varnum, ',', length, ',', format, ',', translate(label, ' ', '~'))";
+
+/**
+ * Returns the code that prints the columns of a table between tags, as
+ * selected by COLUMN_SELECT and separated by tildes. The columns are printed
+ * by a data step rather than from a macro variable, whose length is limited
+ * and whose labels would be resolved as macro code.
+ * @param item the table.
+ * @param columnsTable the table to read the columns from, such as
+ * sashelp.vcolumn.
+ */
+export const getColumnsCode = (
+  item: LibraryItem,
+  columnsTable: string,
+  startTag: string,
+  endTag: string,
+): string => `
+  proc sql noprint;
+    create table work.vscodecols as select ${COLUMN_SELECT} as column length=32767
+    from ${columnsTable}
+    where libname='${item.library}' and memname='${item.name}'
+    order by varnum;
+  quit;
+  data _null_;
+    put '${startTag}';
+    do i = 1 to count;
+      set work.vscodecols nobs=count point=i;
+      if i > 1 then put '~' @;
+      len = lengthn(column);
+      put column $varying32767. len;
+    end;
+    put '${endTag}';
+    stop;
+  run;
+  proc datasets library=work nolist nodetails; delete vscodecols; run;
+`;
+
+export const toColumn = (lineText: string): Column => {
+  const [name, type, index, length, format, ...label] = lineText.split(",");
+
+  return {
+    name,
+    type,
+    index: parseInt(index, 10),
+    length: parseInt(length, 10),
+    format: format ? { name: format } : undefined,
+    label: label.join(","),
+  };
+};
+
+export const processQueryRows = (response: string): string[] => {
   const processedResponse = response.trim().replace(/\n|\t/gm, "");
   if (!processedResponse) {
     return [];
@@ -289,6 +469,93 @@ const processQueryRows = (response: string): string[] => {
     .filter((value, index, array) => array.indexOf(value) === index);
 };
 
+// an invalid where expression fails the PROC SQL step, so its return code
+// and error are kept to be printed between these tags. The line mode of SSH
+// sessions drops lines that end with ">", so the tags are plain words.
+const QUERY_ERROR_START_TAG = "QUERYERROR=";
+const QUERY_ERROR_END_TAG = "QUERYERROREND";
+const QUERY_CHECK = {
+  checkStart: "%let _vscsyscc=&syscc; %let syscc=0;",
+  checkEnd: `%let _vscqueryrc=&syscc; %let _vscqueryerr=;
+    data _null_;
+      if &_vscqueryrc > 4 then call symputx('_vscqueryerr', symget('syserrortext'));
+    run;`,
+  putError: `%put ${QUERY_ERROR_START_TAG}&_vscqueryrc %superq(_vscqueryerr)${QUERY_ERROR_END_TAG}; %let syscc=&_vscsyscc;`,
+};
+
+/**
+ * Returns the PROC SQL statement that creates a view of the rows selected
+ * and sorted by a query, with the table or view to read the rows from. The
+ * PROC SQL step goes between checkStart and checkEnd, and putError prints
+ * its error for {@link parseQueryError} and restores the return code of the
+ * session.
+ * @param table the table, as library.name.
+ * @param view the name of the view in the work library.
+ * @param query the query of the rows.
+ */
+export const getQueryView = (
+  table: string,
+  view: string,
+  query?: TableQuery,
+): {
+  where: string;
+  createView: string;
+  deleteView: string;
+  source: string;
+  checkStart: string;
+  checkEnd: string;
+  putError: string;
+} => {
+  const where = query?.where?.trim() ? `where ${query.where.trim()}` : "";
+  const orderBy = query?.orderBy?.length
+    ? `order by ${query.orderBy
+        .map(
+          ({ column, direction }) =>
+            `${toSasName(column)}${direction === "desc" ? " desc" : ""}`,
+        )
+        .join(", ")}`
+    : "";
+  if (!where && !orderBy) {
+    return {
+      where,
+      createView: "",
+      deleteView: "",
+      source: table,
+      ...QUERY_CHECK,
+    };
+  }
+
+  return {
+    where,
+    createView: `create view work.${view} as select * from ${table} ${where} ${orderBy};`,
+    deleteView: `delete ${view} / memtype=view;`,
+    source: `work.${view}`,
+    ...QUERY_CHECK,
+  };
+};
+
+/**
+ * Throws the error of the PROC SQL step of a query, as printed by the
+ * putError code of {@link getQueryView}.
+ * @param output the output of the code of the query.
+ */
+export const parseQueryError = (output: string): void => {
+  const [, returnCode, message] =
+    output.match(
+      new RegExp(
+        `${QUERY_ERROR_START_TAG}(\\d+)(.*?)${QUERY_ERROR_END_TAG}`,
+        "s",
+      ),
+    ) ?? [];
+  if (returnCode === undefined || parseInt(returnCode, 10) <= 4) {
+    return;
+  }
+
+  throw new Error(
+    message.trim() || l10n.t("The rows of the table could not be selected."),
+  );
+};
+
 const hms = () => {
   const date = new Date();
   return `${date.getHours()}${date.getMinutes()}${date.getSeconds()}`;
@@ -0,0 +1,203 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import SASServerAdapter, { ServerFileProperties } from "../SASServerAdapter";
+import { runFileService } from "./CodeRunner";
+
+const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+// Describes the file or directory of the _vscmem fileref in a tab separated
+// line of its name, directory flag, modified time and size
+const MEMBER_LINE = `
+  call missing(isdir, modified, size, line);
+  did = dopen('_vscmem');
+  if did > 0 then do;
+    isdir = 1;
+    rc = dclose(did);
+  end;
+  else do;
+    fid = fopen('_vscmem');
+    if fid > 0 then do;
+      isdir = 0;
+      modified = finfo(fid, 'Last Modified');
+      size = input(finfo(fid, 'File Size (bytes)'), ?? best32.);
+      rc = fclose(fid);
+    end;
+  end;
+  if not missing(isdir) then
+    line = catt(name, '09'x, isdir, '09'x, modified, '09'x, size);
+`;
+
+/**
+ * Converts the modified time of a file, as given by SAS, to a timestamp.
+ * @param modified the modified time, e.g. `19Oct2025:10:31:00`.
+ * @returns the timestamp, or 0 when the time is unknown.
+ */
+const toTimeStamp = (modified: string): number => {
+  const sasDateTime = modified.match(
+    /^(\d{1,2})([A-Za-z]{3})(\d{4}):(\d{2}:\d{2}:\d{2})$/,
+  );
+  const timeStamp = Date.parse(
+    sasDateTime
+      ? `${sasDateTime[1]} ${sasDateTime[2]} ${sasDateTime[3]} ${sasDateTime[4]}`
+      : modified,
+  );
+
+  return isNaN(timeStamp) ? 0 : timeStamp;
+};
+
+const toFileProperties = (line: string): ServerFileProperties => {
+  const [name, isDirectory, modified, size] = line.split("\t");
+
+  return {
+    name,
+    isDirectory: isDirectory === "1",
+    modifiedTimeStamp: toTimeStamp(modified.trim()),
+    size: parseInt(size, 10) || 0,
+  };
+};
+
+/**
+ * Lists the files of a SAS 9 server with the IOM file service of an ITC
+ * session.
+ */
+class ItcSASServerAdapter extends SASServerAdapter {
+  protected async getHomeDirectory(): Promise<string> {
+    const [homeDirectory] = await this.runFileServiceCode(`
+      data _null_;
+        file _vscout;
+        length home $ 4096;
+        home = coalescec(sysget('HOME'), sysget('USERPROFILE'));
+        put '0' / home;
+      run;
+    `);
+
+    return homeDirectory.trim();
+  }
+
+  protected async readDirectory(path: string): Promise<ServerFileProperties[]> {
+    const lines = await this.runFileServiceCode(`
+      data _null_;
+        file _vscout;
+        length name $ 1024 modified $ 64 line $ 8192 msg $ 1024;
+        rc = filename('_vscdir', ${quote(path)});
+        dirid = dopen('_vscdir');
+        if dirid > 0 then do;
+          put '0';
+          do i = 1 to dnum(dirid);
+            name = dread(dirid, i);
+            rc = filename('_vscmem', ${quote(this.joinPath(path, ""))} || trim(name));
+            ${MEMBER_LINE}
+            if not missing(line) then put line;
+          end;
+          rc = dclose(dirid);
+        end;
+        else do;
+          msg = sysmsg();
+          put '1' / msg;
+        end;
+      run;
+    `);
+
+    return lines.map(toFileProperties);
+  }
+
+  protected async stat(path: string): Promise<ServerFileProperties> {
+    const [line] = await this.runFileServiceCode(`
+      data _null_;
+        file _vscout;
+        length name $ 1024 modified $ 64 line $ 8192 msg $ 1024;
+        name = ${quote(this.getName(path))};
+        rc = filename('_vscmem', ${quote(path)});
+        ${MEMBER_LINE}
+        if missing(line) then do;
+          msg = sysmsg();
+          put '1' / msg;
+        end;
+        else put '0' / line;
+      run;
+    `);
+
+    return toFileProperties(line);
+  }
+
+  protected async readFile(path: string): Promise<Buffer> {
+    return await runFileService("ReadFile", path);
+  }
+
+  protected async writeFile(path: string, content: Buffer): Promise<void> {
+    await runFileService("WriteFile", path, content.toString("base64"));
+  }
+
+  protected async createDirectory(path: string): Promise<void> {
+    await this.runFileServiceCode(`
+      data _null_;
+        file _vscout;
+        length created $ 4096 msg $ 1024;
+        created = dcreate(${quote(this.getName(path))}, ${quote(this.getParentPath(path))});
+        if missing(created) then do;
+          msg = sysmsg();
+          put '1' / msg;
+        end;
+        else put '0';
+      run;
+    `);
+  }
+
+  protected async deletePath(path: string): Promise<void> {
+    await this.runFileServiceCode(`
+      data _null_;
+        file _vscout;
+        length msg $ 1024;
+        rc = filename('_vscmem', ${quote(path)});
+        rc = fdelete('_vscmem');
+        if rc ne 0 then do;
+          msg = sysmsg();
+          put '1' / msg;
+        end;
+        else put '0';
+      run;
+    `);
+  }
+
+  protected async renamePath(oldPath: string, newPath: string): Promise<void> {
+    await this.runFileServiceCode(`
+      data _null_;
+        file _vscout;
+        length msg $ 1024;
+        rc = rename(${quote(oldPath)}, ${quote(newPath)}, 'file');
+        if rc ne 0 then do;
+          msg = sysmsg();
+          put '1' / msg;
+        end;
+        else put '0';
+      run;
+    `);
+  }
+
+  /**
+   * Runs a data step that writes its return code, followed by its output
+   * or its error message, to the _vscout fileref.
+   * @param code the SAS code to run.
+   * @returns the output lines of the code.
+   */
+  private async runFileServiceCode(code: string): Promise<string[]> {
+    const output = await runFileService(
+      "RunFileServiceCode",
+      // the SASRunner method takes the code on a single line
+      code.replace(/\s*\n\s*/g, " "),
+    );
+    const [rc, ...lines] = output.toString().split(/\r?\n/);
+    if (rc.trim() !== "0") {
+      throw new Error(
+        lines.join(" ").trim() ||
+          l10n.t("The file operation could not be completed."),
+      );
+    }
+
+    return lines.filter((line) => line.trim());
+  }
+}
+
+export default ItcSASServerAdapter;
@@ -6,3 +6,6 @@ export const ERROR_END_TAG = "</ITCError>";
 
 export const WORK_DIR_START_TAG = "<WorkDirectory>";
 export const WORK_DIR_END_TAG = "</WorkDirectory>";
+
+export const FILE_SERVICE_START_TAG = "<FileServiceOutput>";
+export const FILE_SERVICE_END_TAG = "</FileServiceOutput>";
@@ -12,18 +12,20 @@ import {
 import { ChildProcessWithoutNullStreams, spawn } from "child_process";
 import { resolve } from "path";
 
-import { LogLineTypeEnum, RunResult } from "..";
+import { LogLineTypeEnum, RunResult, RunResultArtifact } from "..";
 import {
   getGlobalStorageUri,
   getSecretStorage,
 } from "../../components/ExtensionContext";
-import { updateStatusBarItem } from "../../components/StatusBarItem";
+import { ResultFileTracker, getResultMediaType } from "../results";
 import { Session } from "../session";
-import { extractOutputHtmlFileName } from "../util";
+import { extractOutputHtmlFileName, hasHtml5Output } from "../util";
 import { LineParser } from "./LineParser";
 import {
   ERROR_END_TAG,
   ERROR_START_TAG,
+  FILE_SERVICE_END_TAG,
+  FILE_SERVICE_START_TAG,
   WORK_DIR_END_TAG,
   WORK_DIR_START_TAG,
 } from "./const";
@@ -46,8 +48,6 @@ const LogLineTypes: LogLineTypeEnum[] = [
 
 const SECRET_STORAGE_NAMESPACE = "ITC_SECRET_STORAGE";
 
-let sessionInstance: ITCSession;
-
 export class ITCSession extends Session {
   private _config: Config;
   private _shellProcess: ChildProcessWithoutNullStreams;
@@ -65,6 +65,9 @@ export class ITCSession extends Session {
     | undefined;
   private _errorParser: LineParser;
   private _workDirectoryParser: LineParser;
+  private _fileServiceParser: LineParser;
+  private _resultFiles = new ResultFileTracker();
+  private _collectArtifacts = false;
 
   constructor() {
     super();
@@ -77,6 +80,11 @@ export class ITCSession extends Session {
       WORK_DIR_END_TAG,
       false,
     );
+    this._fileServiceParser = new LineParser(
+      FILE_SERVICE_START_TAG,
+      FILE_SERVICE_END_TAG,
+      false,
+    );
   }
 
   public set config(value: Config) {
@@ -232,6 +240,8 @@ export class ITCSession extends Session {
     const codeToRun = `$code=\n@'\n${codeWithEscapeNewLine}\n'@\n`;
 
     this._html5FileName = "";
+    // the code run by the extension itself does not write result files
+    this._collectArtifacts = !skipPageHeaders;
     this._shellProcess.stdin.write(codeToRun);
     this._pollingForLogResults = true;
     this._shellProcess.stdin.write(`$runner.Run($code)\n`, async (error) => {
@@ -245,6 +255,33 @@ export class ITCSession extends Session {
     return runPromise;
   };
 
+  /**
+   * Runs a method of the SASRunner script that uses the IOM file service.
+   * @param method the name of the SASRunner method.
+   * @param args the arguments of the method.
+   * @returns A promise that resolves to the contents written by the method.
+   */
+  public runFileService = (
+    method: string,
+    ...args: string[]
+  ): Promise<Buffer> => {
+    const fileServicePromise = new Promise<string>((resolve, reject) => {
+      this._runResolve = resolve;
+      this._runReject = reject;
+    });
+
+    const methodArgs = args
+      .map((arg) => `'${arg.replace(/'/g, "''")}'`)
+      .join(",");
+    this._fileServiceParser.reset();
+    this._shellProcess.stdin.write(
+      `$runner.${method}(${methodArgs})\n`,
+      this.onWriteComplete,
+    );
+
+    return fileServicePromise.then((output) => Buffer.from(output, "base64"));
+  };
+
   /**
    * Cleans up resources for the given SAS session.
    * @returns void promise.
@@ -262,10 +299,11 @@ export class ITCSession extends Session {
         this._workDirectory = undefined;
         this._runReject = undefined;
         this._runResolve = undefined;
+        this._resultFiles.reset();
       }
       this.clearPassword();
       resolve();
-      updateStatusBarItem(false);
+      this.connected = false;
     });
   };
 
@@ -419,6 +457,16 @@ export class ITCSession extends Session {
         return;
       }
 
+      const fileServiceOutput = this._fileServiceParser.processLine(line);
+      if (fileServiceOutput !== undefined) {
+        this._runResolve(fileServiceOutput);
+        return;
+      }
+      // We don't want to output any of the file service lines
+      if (this._fileServiceParser.isCapturingLine()) {
+        return;
+      }
+
       if (!this.processLineCodes(line)) {
         if (!this._workDirectory) {
           const foundWorkDirectory = this.fetchWorkDirectory(line);
@@ -429,7 +477,7 @@ export class ITCSession extends Session {
           if (foundWorkDirectory) {
             this._workDirectory = foundWorkDirectory.trim();
             this._runResolve();
-            updateStatusBarItem(true);
+            this.connected = true;
             return;
           }
         }
@@ -509,7 +557,7 @@ export class ITCSession extends Session {
   private fetchResults = async () => {
     if (!this._html5FileName) {
       this._pollingForLogResults = false;
-      return this._runResolve({});
+      return this._runResolve({ artifacts: await this.fetchArtifacts() });
     }
 
     const globalStorageUri = getGlobalStorageUri();
@@ -525,12 +573,7 @@ export class ITCSession extends Session {
       globalStorageUri,
       `${this._html5FileName}.htm`,
     );
-    const directorySeparator =
-      this._workDirectory.lastIndexOf("/") !== -1 ? "/" : "\\";
-    const filePath =
-      this._config.protocol === ITCProtocol.COM
-        ? resolve(this._workDirectory, this._html5FileName + ".htm")
-        : `${this._workDirectory}${directorySeparator}${this._html5FileName}.htm`;
+    const filePath = this.getWorkFilePath(`${this._html5FileName}.htm`);
     this._shellProcess.stdin.write(
       `$filePath = "${filePath}"
 $outputFile = "${outputFileUri.fsPath}"
@@ -552,13 +595,100 @@ $runner.FetchResultsFile($filePath, $outputFile)\n`,
       workspace.fs.delete(outputFileUri);
     }
 
-    const runResult: RunResult = {};
-    if (htmlResults.search('<*id="IDX*.+">') !== -1) {
+    const runResult: RunResult = { artifacts: await this.fetchArtifacts() };
+    if (hasHtml5Output(htmlResults)) {
       runResult.html5 = htmlResults;
       runResult.title = "Result";
     }
     this._runResolve(runResult);
   };
+
+  private getWorkFilePath = (name: string): string => {
+    const directorySeparator =
+      this._workDirectory.lastIndexOf("/") !== -1 ? "/" : "\\";
+    return this._config.protocol === ITCProtocol.COM
+      ? resolve(this._workDirectory, name)
+      : `${this._workDirectory}${directorySeparator}${name}`;
+  };
+
+  /**
+   * Reads the result files that the last run added to or changed in the work
+   * directory, other than the html5 result, with the IOM file service.
+   */
+  private fetchArtifacts = async (): Promise<RunResultArtifact[]> => {
+    if (!this._collectArtifacts) {
+      return [];
+    }
+
+    // the file service resolves the promise of the run with its output, so
+    // the promise is restored once the files are read
+    const runResolve = this._runResolve;
+    const runReject = this._runReject;
+    try {
+      const workDirectory = `'${this._workDirectory.replace(/'/g, "''")}'`;
+      const output = await this.runFileService(
+        "RunFileServiceCode",
+        `data _null_;
+          file _vscout;
+          length name $ 1024 line $ 2048;
+          rc = filename('_vscdir', ${workDirectory});
+          did = dopen('_vscdir');
+          if did > 0 then do;
+            do i = 1 to dnum(did);
+              name = dread(did, i);
+              fid = mopen(did, name);
+              if fid > 0 then do;
+                line = catt(name, '09'x, finfo(fid, 'Last Modified'), ' ', finfo(fid, 'File Size (bytes)'));
+                put line;
+                rc = fclose(fid);
+              end;
+            end;
+            rc = dclose(did);
+          end;
+        run;`.replace(/\s*\n\s*/g, " "),
+      );
+      const names = this._resultFiles
+        .update(
+          output
+            .toString()
+            .split(/\r?\n/)
+            .filter((line) => line.includes("\t"))
+            .map((line) => {
+              const [name, version] = line.split("\t");
+              return { name, version: version.trim() };
+            }),
+        )
+        .filter((name) => name !== `${this._html5FileName}.htm`);
+
+      const artifacts: RunResultArtifact[] = [];
+      for (const name of names) {
+        artifacts.push({
+          name,
+          mediaType: getResultMediaType(name),
+          data: await this.runFileService(
+            "ReadFile",
+            this.getWorkFilePath(name),
+          ),
+        });
+      }
+
+      return artifacts;
+    } catch (err) {
+      // the html5 result is returned without the other results
+      this._onExecutionLogFn?.([
+        {
+          type: "warning",
+          line: l10n.t("Failed to read the result files: {error}", {
+            error: err instanceof Error ? err.message : String(err),
+          }),
+        },
+      ]);
+      return [];
+    } finally {
+      this._runResolve = runResolve;
+      this._runReject = runReject;
+    }
+  };
 }
 
 /**
@@ -577,9 +707,7 @@ export const getSession = (
     protocol,
   };
 
-  if (!sessionInstance) {
-    sessionInstance = new ITCSession();
-  }
-  sessionInstance.config = { ...defaults, ...c };
-  return sessionInstance;
+  const session = new ITCSession();
+  session.config = { ...defaults, ...c };
+  return session;
 };
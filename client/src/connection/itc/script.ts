@@ -3,6 +3,8 @@
 import {
   ERROR_END_TAG,
   ERROR_START_TAG,
+  FILE_SERVICE_END_TAG,
+  FILE_SERVICE_START_TAG,
   WORK_DIR_END_TAG,
   WORK_DIR_START_TAG,
 } from "./const";
@@ -186,5 +188,81 @@ class SASRunner{
 
     Write-Host "${LineCodes.ResultsFetchedCode}"
   }
+
+  [void]WriteFileServiceOutput([byte[]]$bytes) {
+    Write-Host "${FILE_SERVICE_START_TAG}"
+    Write-Host ([Convert]::ToBase64String($bytes))
+    Write-Host "${FILE_SERVICE_END_TAG}"
+  }
+
+  [byte[]]ReadFileref($objFile) {
+    $objStream = $objFile.OpenBinaryStream(1)
+    [Byte[]] $bytes = 0x0
+    $content = New-Object System.IO.MemoryStream
+    try {
+      do
+      {
+        $objStream.Read(8192, [ref] $bytes)
+        $content.Write($bytes, 0, $bytes.Length)
+      } while ($bytes.Length -eq 8192)
+    } finally {
+      $objStream.Close()
+    }
+    return $content.ToArray()
+  }
+
+  [void]RunFileServiceCode([string]$code) {
+    try {
+      $this.objSAS.LanguageService.Async = $false
+      $this.objSAS.LanguageService.Submit("options nonotes nosource; filename _vscout temp; $code options notes source;")
+      # the log of the file service code is not shown to the user
+      do {
+        $log = $this.objSAS.LanguageService.FlushLog(32768)
+      } while ($log.Length -gt 0)
+
+      $objFile = $this.objSAS.FileService.UseFileref("_vscout")
+      try {
+        $this.WriteFileServiceOutput($this.ReadFileref($objFile))
+      } finally {
+        $this.objSAS.FileService.DeassignFileref("_vscout")
+      }
+    } catch {
+      Write-Error "${ERROR_START_TAG}File service error: $_${ERROR_END_TAG}"
+    }
+  }
+
+  [void]ReadFile([string]$filePath) {
+    try {
+      $fileRef = ""
+      $objFile = $this.objSAS.FileService.AssignFileref("", "DISK", $filePath, "", [ref] $fileRef)
+      try {
+        $this.WriteFileServiceOutput($this.ReadFileref($objFile))
+      } finally {
+        $this.objSAS.FileService.DeassignFileref($objFile.FilerefName)
+      }
+    } catch {
+      Write-Error "${ERROR_START_TAG}File service error: $_${ERROR_END_TAG}"
+    }
+  }
+
+  [void]WriteFile([string]$filePath, [string]$content) {
+    try {
+      $fileRef = ""
+      $objFile = $this.objSAS.FileService.AssignFileref("", "DISK", $filePath, "", [ref] $fileRef)
+      $objStream = $objFile.OpenBinaryStream(2)
+      try {
+        [Byte[]] $bytes = [Convert]::FromBase64String($content)
+        if ($bytes.Length -gt 0) {
+          $objStream.Write($bytes)
+        }
+      } finally {
+        $objStream.Close()
+        $this.objSAS.FileService.DeassignFileref($objFile.FilerefName)
+      }
+      $this.WriteFileServiceOutput([byte[]]@())
+    } catch {
+      Write-Error "${ERROR_START_TAG}File service error: $_${ERROR_END_TAG}"
+    }
+  }
 }
 `;
@@ -0,0 +1,215 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import { ChildProcessWithoutNullStreams, spawn } from "child_process";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { createInterface } from "readline";
+
+import { BaseConfig, RunResult } from "..";
+import { Session } from "../session";
+import { WORK_DIR_END_TAG, WORK_DIR_START_TAG } from "../ssh/const";
+import { LineCodes } from "../ssh/types";
+import {
+  extractOutputHtmlFileName,
+  getWorkDirectoryCode,
+  hasHtml5Output,
+} from "../util";
+
+export interface Config extends BaseConfig {
+  saspath: string;
+}
+
+/**
+ * Creates a new local SAS session.
+ * @param c Instance denoting configuration parameters for this connection profile.
+ * @returns created local SAS session.
+ */
+export function getSession(c: Config): Session {
+  return new LocalSession(c);
+}
+
+/**
+ * Splits the SAS options of a profile into process arguments. An option may
+ * hold its value, as in `-MEMSIZE 4G`, and values may be quoted.
+ * @param sasOptions the SAS options of the profile.
+ * @returns the arguments to pass to the SAS executable.
+ */
+export const toSasArgs = (sasOptions: string[] = []): string[] =>
+  sasOptions.flatMap((option) =>
+    (option.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map((arg) =>
+      arg.replace(/^(["'])(.*)\1$/, "$2"),
+    ),
+  );
+
+export class LocalSession extends Session {
+  private _process: ChildProcessWithoutNullStreams | undefined;
+  private _config: Config;
+  private _resolve: ((value?) => void) | undefined;
+  private _reject: ((reason?) => void) | undefined;
+  private _html5FileName = "";
+  private _sessionReady = false;
+  private _workDirectory: string | undefined;
+  private _spawn: typeof spawn;
+
+  constructor(c?: Config, spawnFn: typeof spawn = spawn) {
+    super();
+    this._config = c;
+    this._spawn = spawnFn;
+  }
+
+  public sessionId? = (): string => {
+    throw new Error(l10n.t("Method not implemented."));
+  };
+
+  set config(newValue: Config) {
+    this._config = newValue;
+  }
+
+  protected establishConnection = (): Promise<void> => {
+    return new Promise((pResolve, pReject) => {
+      this._resolve = pResolve;
+      this._reject = pReject;
+
+      if (this._process) {
+        this._resolve?.({});
+        return;
+      }
+
+      this._process = this._spawn(
+        this._config.saspath,
+        [
+          "-nodms",
+          "-stdio",
+          "-nosyntaxcheck",
+          ...toSasArgs(this._config.sasOptions),
+        ],
+        { env: { ...process.env, _JAVA_OPTIONS: "-Djava.awt.headless=true" } },
+      );
+      this._process.on("error", this.onProcessError);
+      // the output streams may stay open after the process exits, so that
+      // the pending run is rejected on exit
+      this._process.on("exit", this.onProcessClose);
+      this._process.on("close", this.onProcessClose);
+      // writing to a process that has exited fails with EPIPE
+      this._process.stdin.on("error", this.onProcessError);
+      // with -stdio, the log goes to stderr and the listing to stdout
+      createInterface({ input: this._process.stderr }).on(
+        "line",
+        this.onProcessLine,
+      );
+      createInterface({ input: this._process.stdout }).on(
+        "line",
+        this.onProcessLine,
+      );
+
+      this.resolveSystemVars();
+    });
+  };
+
+  protected _run = (code: string): Promise<RunResult> => {
+    this._html5FileName = "";
+
+    return new Promise((_resolve, _reject) => {
+      if (!this._process?.stdin.writable) {
+        _reject(new Error(l10n.t("The SAS session has closed.")));
+        return;
+      }
+      this._resolve = _resolve;
+      this._reject = _reject;
+
+      this._process.stdin.write(`${code}\n`);
+      this._process.stdin.write(`%put ${LineCodes.RunEndCode};\n`);
+    });
+  };
+
+  protected _close = (): void | Promise<void> => {
+    if (!this._process) {
+      this.disposeResources();
+      return;
+    }
+    this._process.stdin.write("endsas;\n");
+    this._process.stdin.end();
+  };
+
+  private onProcessError = (err: Error) => {
+    this._reject?.(err);
+    this.disposeResources();
+  };
+
+  private onProcessClose = () => {
+    this._reject?.(
+      new Error(
+        this._sessionReady
+          ? l10n.t("The SAS session has closed.")
+          : l10n.t("Could not start the SAS process."),
+      ),
+    );
+    this.disposeResources();
+  };
+
+  private disposeResources = () => {
+    this._process = undefined;
+    this._resolve = undefined;
+    this._reject = undefined;
+    this._html5FileName = "";
+    this._sessionReady = false;
+    this._workDirectory = undefined;
+    this.connected = false;
+  };
+
+  private resolveSystemVars = (): void => {
+    this._process.stdin.write(
+      getWorkDirectoryCode(WORK_DIR_START_TAG, WORK_DIR_END_TAG),
+    );
+  };
+
+  private getResult = async (): Promise<void> => {
+    const runResult: RunResult = {};
+    if (!this._html5FileName || !this._workDirectory) {
+      this._resolve?.(runResult);
+      return;
+    }
+    try {
+      const fileContents = await readFile(
+        join(this._workDirectory, `${this._html5FileName}.htm`),
+        "utf8",
+      );
+      if (hasHtml5Output(fileContents)) {
+        runResult.html5 = fileContents;
+        runResult.title = l10n.t("Result");
+      }
+    } catch {
+      // the run did not produce a result file
+    }
+    this._resolve?.(runResult);
+  };
+
+  private onProcessLine = (line: string): void => {
+    const trimmedLine = line.trimEnd();
+    if (!this._sessionReady) {
+      // the session is ready once SAS wrote out its work directory
+      const match = trimmedLine.match(
+        `${WORK_DIR_START_TAG}(/.*?)${WORK_DIR_END_TAG}`,
+      );
+      if (match) {
+        this._workDirectory = match[1].trimEnd();
+        this._sessionReady = true;
+        this.connected = true;
+        this._resolve?.();
+      }
+      return;
+    }
+    if (!trimmedLine) {
+      return;
+    }
+    if (trimmedLine.endsWith(LineCodes.RunEndCode)) {
+      // run completed
+      this.getResult();
+      return;
+    }
+    this._html5FileName = extractOutputHtmlFileName(line, this._html5FileName);
+    this._onExecutionLogFn?.([{ type: "normal", line }]);
+  };
+}
@@ -0,0 +1,96 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Disposable, EventEmitter, l10n } from "vscode";
+
+import type { ContentAdapter } from "../components/ContentNavigator/types";
+import type { LibraryAdapter } from "../components/LibraryNavigator/types";
+import type { BaseProfile, Profile } from "../components/profile";
+import type { Session } from "./session";
+
+/**
+ * A connection profile of a connection type registered by another extension.
+ * It holds the values entered for the prompts of its connection provider.
+ */
+export interface ConnectionProviderProfile extends BaseProfile {
+  connectionType: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A value to prompt for when adding or updating a connection profile.
+ */
+export interface ConnectionProviderPrompt {
+  /** the profile property that stores the value */
+  key: string;
+  title: string;
+  placeholder: string;
+  description: string;
+  defaultValue?: string;
+  required?: boolean;
+}
+
+/**
+ * Connects profiles of a connection type that is not built into the
+ * extension.
+ */
+export interface ConnectionProvider {
+  /** the `connectionType` of the profiles handled by the provider */
+  connectionType: string;
+  /** the connection type shown when adding a connection profile */
+  label: string;
+  prompts?: ConnectionProviderPrompt[];
+  createSession(profile: ConnectionProviderProfile): Session;
+  /** lists the libraries of the profile in the Libraries view */
+  createLibraryAdapter?(): LibraryAdapter;
+  /** lists the content of the profile in the Explorer view */
+  createContentAdapter?(): ContentAdapter;
+  /** returns an error message when the profile cannot be used */
+  validateProfile?(profile: ConnectionProviderProfile): string | undefined;
+  /** returns what the profile connects to, as shown in the status bar */
+  remoteTarget?(profile: ConnectionProviderProfile): string;
+}
+
+const providers = new Map<string, ConnectionProvider>();
+const onDidChangeConnectionProvidersEmitter = new EventEmitter<void>();
+
+export const onDidChangeConnectionProviders =
+  onDidChangeConnectionProvidersEmitter.event;
+
+/**
+ * Registers a provider for a new connection type.
+ * @param provider the connection provider.
+ * @returns a disposable that unregisters the provider.
+ */
+export function registerConnectionProvider(
+  provider: ConnectionProvider,
+): Disposable {
+  if (providers.has(provider.connectionType)) {
+    throw new Error(
+      l10n.t(
+        'A connection provider is already registered for the "{connectionType}" connection type.',
+        { connectionType: provider.connectionType },
+      ),
+    );
+  }
+  providers.set(provider.connectionType, provider);
+  onDidChangeConnectionProvidersEmitter.fire();
+
+  return new Disposable(() => {
+    if (providers.get(provider.connectionType) === provider) {
+      providers.delete(provider.connectionType);
+      onDidChangeConnectionProvidersEmitter.fire();
+    }
+  });
+}
+
+export const getConnectionProvider = (
+  connectionType: string,
+): ConnectionProvider | undefined => providers.get(connectionType);
+
+export const getConnectionProviders = (): ConnectionProvider[] => [
+  ...providers.values(),
+];
+
+export const toProviderProfile = (
+  profile: Profile,
+): ConnectionProviderProfile => ({ ...profile });
@@ -0,0 +1,76 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { CancellationToken, commands } from "vscode";
+
+import { v4 } from "uuid";
+
+import { useRunStore } from "../store";
+import { runSelectors } from "../store/selectors";
+
+const { setIsExecutingCode, enqueueRun, dequeueRun, cancelQueuedRun } =
+  useRunStore.getState();
+
+// a queued run that was started, but is not executing yet
+let starting = false;
+
+// start the next queued run whenever the running code completes
+useRunStore.subscribe(runSelectors.selectIsExecutingCode, (isExecuting) => {
+  if (isExecuting) {
+    return;
+  }
+  const run = dequeueRun();
+  if (run) {
+    starting = true;
+    run.start();
+  }
+});
+
+const startExecuting = (isUserExecuting: boolean) => {
+  starting = false;
+  setIsExecutingCode(true, isUserExecuting);
+  commands.executeCommand("setContext", "SAS.running", true);
+};
+
+/**
+ * Waits in the run queue until no other SAS code is running, and marks the
+ * code as executing. Everything that submits code to a SAS session waits
+ * here, so that one of them resumes whenever the running code completes.
+ * @param label name of the run in the run queue.
+ * @param isUserExecuting false for code run by the extension itself.
+ * @param token removes the run from the run queue when cancelled.
+ * @returns false if the run was removed from the queue before its turn.
+ */
+export async function waitInQueue(
+  label: string,
+  isUserExecuting = true,
+  token?: CancellationToken,
+): Promise<boolean> {
+  if (!useRunStore.getState().isExecutingCode && !starting) {
+    startExecuting(isUserExecuting);
+    return true;
+  }
+  const id = v4();
+  token?.onCancellationRequested(() => cancelQueuedRun(id));
+  const started = await new Promise<boolean>((resolve) =>
+    enqueueRun({
+      id,
+      label,
+      queuedAt: Date.now(),
+      start: () => resolve(true),
+      cancel: () => resolve(false),
+    }),
+  );
+  if (started) {
+    startExecuting(isUserExecuting);
+  }
+  return started;
+}
+
+/**
+ * Marks the code that waited in the run queue as completed, which starts the
+ * next queued run.
+ */
+export function finishExecuting(): void {
+  setIsExecutingCode(false);
+  commands.executeCommand("setContext", "SAS.running", false);
+}
@@ -6,10 +6,50 @@ import { getSession } from "..";
 import {
   LibraryAdapter,
   LibraryItem,
+  TableComparisonOptions,
   TableData,
+  TableDataComparison,
+  TableEdits,
+  TableImport,
+  TableProfile,
+  TableQuery,
 } from "../../components/LibraryNavigator/types";
 import { appendSessionLogFn } from "../../components/logViewer";
-import { ColumnCollection, DataAccessApi, RowCollection } from "./api/compute";
+import { runCode } from "../CodeRunner";
+import { getQueryView, parseQueryError } from "../itc/ItcLibraryAdapter";
+import {
+  TABLE_COMPARE_END_TAG,
+  TABLE_COMPARE_START_TAG,
+  getTableCompareCode,
+  parseTableComparison,
+} from "../tableCompare";
+import {
+  TABLE_EDIT_END_TAG,
+  TABLE_EDIT_START_TAG,
+  getTableEditCode,
+  parseTableEditResult,
+} from "../tableEdit";
+import {
+  TABLE_IMPORT_END_TAG,
+  TABLE_IMPORT_FILEREF,
+  TABLE_IMPORT_START_TAG,
+  getTableImportCode,
+  getTableImportFile,
+  parseTableImportResult,
+} from "../tableImport";
+import {
+  TABLE_PROFILE_END_TAG,
+  TABLE_PROFILE_START_TAG,
+  getTableProfileCode,
+  parseTableProfile,
+} from "../tableProfile";
+import {
+  Column,
+  ColumnCollection,
+  DataAccessApi,
+  FilesApi,
+  RowCollection,
+} from "./api/compute";
 import { getApiConfig } from "./common";
 
 const requestOptions = {
@@ -40,11 +80,32 @@ class RestLibraryAdapter implements LibraryAdapter {
     await this.connect();
   }
 
+  public async compareTables(
+    base: LibraryItem,
+    compare: LibraryItem,
+    options: TableComparisonOptions,
+  ): Promise<TableDataComparison> {
+    await this.setup();
+    // PROC COMPARE runs in the compute session
+    const output = await runCode(
+      getTableCompareCode(base, compare, options),
+      TABLE_COMPARE_START_TAG,
+      TABLE_COMPARE_END_TAG,
+    );
+
+    return parseTableComparison(output, options);
+  }
+
   public async getRows(
     item: LibraryItem,
     start: number,
     limit: number,
+    query?: TableQuery,
   ): Promise<TableData> {
+    if (query?.orderBy?.length) {
+      return await this.getSortedRows(item, start, limit, query);
+    }
+
     const { data } = await this.retryOnFail<RowCollection>(
       async () =>
         await this.dataAccessApi.getRows(
@@ -55,6 +116,7 @@ class RestLibraryAdapter implements LibraryAdapter {
             includeIndex: true,
             start,
             limit,
+            where: query?.where || undefined,
           },
           requestOptions,
         ),
@@ -66,6 +128,51 @@ class RestLibraryAdapter implements LibraryAdapter {
     };
   }
 
+  // The data tables API cannot sort rows, so the rows are read from a view
+  // that selects and sorts them, created in the compute session
+  private async getSortedRows(
+    item: LibraryItem,
+    start: number,
+    limit: number,
+    query: TableQuery,
+  ): Promise<TableData> {
+    await this.setup();
+    const view = `V${start}_${item.name}`.substring(0, 32);
+    const { createView, deleteView, checkStart, checkEnd, putError } =
+      getQueryView(`${item.library}.${item.name}`, view, query);
+    parseQueryError(
+      await runCode(
+        `${checkStart} proc sql; ${createView} quit; ${checkEnd} ${putError}`,
+      ),
+    );
+
+    try {
+      const { data } = await this.retryOnFail<RowCollection>(
+        async () =>
+          await this.dataAccessApi.getRows(
+            {
+              sessionId: this.sessionId,
+              libref: "WORK",
+              tableName: view,
+              includeIndex: true,
+              start,
+              limit,
+            },
+            requestOptions,
+          ),
+      );
+
+      return {
+        rows: data.items,
+        count: data.count,
+      };
+    } finally {
+      await runCode(
+        `proc datasets library=work nolist nodetails; ${deleteView} run;`,
+      );
+    }
+  }
+
   public async getRowsAsCSV(
     item: LibraryItem,
     start: number,
@@ -118,6 +225,22 @@ class RestLibraryAdapter implements LibraryAdapter {
     return data;
   }
 
+  public async getTableProfile(
+    item: LibraryItem,
+    columns: Column[],
+  ): Promise<TableProfile> {
+    await this.setup();
+    // The data tables API has no statistics, so they are computed by
+    // running code in the compute session
+    const output = await runCode(
+      getTableProfileCode(item, columns),
+      TABLE_PROFILE_START_TAG,
+      TABLE_PROFILE_END_TAG,
+    );
+
+    return parseTableProfile(output, columns);
+  }
+
   public async getTableRowCount(
     item: LibraryItem,
   ): Promise<{ rowCount: number; maxNumberOfRowsToRead: number }> {
@@ -137,6 +260,69 @@ class RestLibraryAdapter implements LibraryAdapter {
     return { rowCount: response.data.rowCount, maxNumberOfRowsToRead: 1000 };
   }
 
+  public async importTable(
+    item: LibraryItem,
+    table: TableImport,
+  ): Promise<void> {
+    await this.setup();
+    // The file is uploaded to a temporary fileref of the compute session,
+    // and read by a data step
+    const filesApi = FilesApi(getApiConfig());
+    const { headers } = await filesApi.assignFileref({
+      sessionId: this.sessionId,
+      filerefRequest: {
+        name: TABLE_IMPORT_FILEREF,
+        path: "",
+        accessMethod: "TEMP",
+      },
+    });
+
+    try {
+      const { content, recordLength } = getTableImportFile(table);
+      await filesApi.updateFileContent({
+        sessionId: this.sessionId,
+        fileref: TABLE_IMPORT_FILEREF,
+        ifMatch: headers.etag,
+        // updateFileContent requires body to be a File type. However, the
+        // underlying code sends a buffer as is.
+        // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+        body: content as unknown as File,
+      });
+
+      parseTableImportResult(
+        await runCode(
+          getTableImportCode(item.name, table, recordLength),
+          TABLE_IMPORT_START_TAG,
+          TABLE_IMPORT_END_TAG,
+        ),
+      );
+    } finally {
+      await filesApi.deleteFileref({
+        sessionId: this.sessionId,
+        fileref: TABLE_IMPORT_FILEREF,
+      });
+    }
+  }
+
+  public async updateTable(
+    item: LibraryItem,
+    columns: Column[],
+    edits: TableEdits,
+  ): Promise<void> {
+    await this.setup();
+    // The data tables API cannot change rows, so the changes are applied by
+    // running code in the compute session
+    parseTableEditResult(
+      await runCode(
+        getTableEditCode(item, columns, edits),
+        TABLE_EDIT_START_TAG,
+        TABLE_EDIT_END_TAG,
+      ),
+      columns,
+      edits,
+    );
+  }
+
   private async retryOnFail<T>(
     callbackFn: () => Promise<AxiosResponse<T>>,
   ): Promise<AxiosResponse<T>> {
@@ -8,16 +8,15 @@ import {
   getContextValue,
   setContextValue,
 } from "../../components/ExtensionContext";
-import { updateStatusBarItem } from "../../components/StatusBarItem";
+import { getResultFileName } from "../results";
 import { Session } from "../session";
+import { hasHtml5Output } from "../util";
 import { ContextsApi, SessionsApi } from "./api/compute";
 import { ComputeState, getApiConfig } from "./common";
 import { ComputeJob } from "./job";
 import { ComputeServer } from "./server";
 import { ComputeSession } from "./session";
 
-let sessionInstance: RestSession;
-
 export interface Config extends BaseConfig {
   endpoint: string;
   clientId?: string;
@@ -86,7 +85,7 @@ class RestSession extends Session {
     if (this._computeSession) {
       //reconnected to a running session, so just return
       await this.printSessionLog(this._computeSession);
-      updateStatusBarItem(true);
+      this.connected = true;
       return;
     }
 
@@ -135,7 +134,7 @@ class RestSession extends Session {
 
     //Save the current sessionId
     setContextValue("SAS.sessionId", this._computeSession.sessionId);
-    updateStatusBarItem(true);
+    this.connected = true;
   };
 
   protected _run = async (code: string) => {
@@ -163,27 +162,51 @@ class RestSession extends Session {
     const res: RunResult = {
       html5: "",
       title: "",
+      artifacts: [],
     };
 
     /*
-      We can return more than just html, but for right now we are only returning
-      the last HTML file that we get.
-      The last one is returned so that the one created from the vscode injected ods statement is
-      always returned.
+      The last HTML file is the html5 result, so that the one created from the
+      vscode injected ods statement is always returned. The other results are
+      returned as artifacts.
     */
-    for (const result of results.reverse()) {
+    const html5Result = [...results]
+      .reverse()
+      .find((result) => result.links[0]?.type === "text/html");
+    for (const result of results) {
       const link = result.links[0];
-      if (link?.type === "text/html") {
+      if (!link) {
+        continue;
+      }
+
+      if (result === html5Result) {
         const html5 = (await job.requestLink<string>(link)).data;
 
-        //Make sure that the html has a valid body
-        if (html5.search('<*id="IDX*.+">') !== -1) {
+        if (hasHtml5Output(html5)) {
           res.html5 = html5;
           res.title = result.name;
         }
-
-        break;
+        continue;
       }
+
+      const { data } = await job.requestLink<ArrayBuffer>(link, {
+        responseType: "arraybuffer",
+      });
+      res.artifacts.push({
+        name: getResultFileName(result.name ?? result.id, link.type),
+        mediaType: link.type,
+        data: new Uint8Array(data),
+      });
+    }
+
+    // the listing is not needed to show the other results
+    const listing = await job.listing().catch(() => "");
+    if (listing.trim()) {
+      res.artifacts.push({
+        name: "listing.lst",
+        mediaType: "text/plain",
+        data: new TextEncoder().encode(listing),
+      });
     }
 
     return res;
@@ -196,7 +219,7 @@ class RestSession extends Session {
 
       //Since the session is being closed, remove the cached session id
       setContextValue("SAS.sessionId", undefined);
-      updateStatusBarItem(false);
+      this.connected = false;
     }
   };
 
@@ -315,10 +338,8 @@ class RestSession extends Session {
 export function getSession(c: Config): Session {
   getApiConfig().basePath = c.endpoint + "/compute";
 
-  if (!sessionInstance) {
-    sessionInstance = new RestSession();
-  }
-  sessionInstance.config = c;
+  const session = new RestSession();
+  session.config = c;
 
-  return sessionInstance;
+  return session;
 }
@@ -10,6 +10,7 @@ import {
   JobsApi,
   JobsApiGetJobStateRequest,
   Link,
+  ListingsApi,
   LogLine,
   LogsApi,
   Result,
@@ -20,6 +21,7 @@ import { Compute, getApiConfig, stateOptions } from "./common";
 export class ComputeJob extends Compute {
   api: ReturnType<typeof JobsApi>;
   logs: ReturnType<typeof LogsApi>;
+  listings: ReturnType<typeof ListingsApi>;
   _self: Job;
 
   constructor(id: string) {
@@ -31,6 +33,7 @@ export class ComputeJob extends Compute {
     //Get the apis I need
     this.api = JobsApi(getApiConfig());
     this.logs = LogsApi(getApiConfig());
+    this.listings = ListingsApi(getApiConfig());
   }
 
   get id(): string {
@@ -169,6 +172,19 @@ export class ComputeJob extends Compute {
     return doneStates.indexOf(state || (await this.getState())) === -1;
   }
 
+  /*
+  Return the listing output of the job as text
+  */
+  async listing(): Promise<string> {
+    const resp = await this.listings.getJobListingAsText(
+      { sessionId: this._self.sessionId, jobId: this.id },
+      { headers: { Accept: "text/plain" }, responseType: "text" },
+    );
+    const listing: unknown = resp.data;
+
+    return typeof listing === "string" ? listing : "";
+  }
+
   /*
   Return job results
   */
@@ -0,0 +1,75 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+// The types of the files written by ODS destinations, by their extension
+const RESULT_MEDIA_TYPES: Record<string, string> = {
+  htm: "text/html",
+  html: "text/html",
+  pdf: "application/pdf",
+  rtf: "application/rtf",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  png: "image/png",
+  gif: "image/gif",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  svg: "image/svg+xml",
+  lst: "text/plain",
+};
+
+/**
+ * Returns the media type of a result file, or undefined when the file is not
+ * a result file.
+ */
+export const getResultMediaType = (fileName: string): string | undefined =>
+  RESULT_MEDIA_TYPES[fileName.match(/\.([^.]+)$/)?.[1].toLowerCase() ?? ""];
+
+/**
+ * Returns the file name of a result, with the extension of its media type.
+ * @param name the name of the result, with or without an extension.
+ * @param mediaType the media type of the result.
+ */
+export const getResultFileName = (name: string, mediaType: string): string => {
+  // the characters that are not valid in file names are replaced
+  const fileName = name.replace(/[\\/:*?"<>|]/g, "_");
+  const type = mediaType.split(";")[0].trim();
+  if (getResultMediaType(fileName) === type) {
+    return fileName;
+  }
+
+  const extension = Object.keys(RESULT_MEDIA_TYPES).find(
+    (key) => RESULT_MEDIA_TYPES[key] === type,
+  );
+  return extension ? `${fileName}.${extension}` : fileName;
+};
+
+/**
+ * Keeps the versions of the result files of a work directory, to find the
+ * files written by each run.
+ */
+export class ResultFileTracker {
+  private versions = new Map<string, string>();
+
+  /**
+   * Returns the result files that were added or changed since the last
+   * update.
+   * @param files the files of the work directory, with a version that
+   *   changes when a file is written, such as its modified time and size.
+   */
+  public update(files: { name: string; version: string }[]): string[] {
+    const resultFiles = files.filter(({ name }) => getResultMediaType(name));
+    const changedFiles = resultFiles
+      .filter(({ name, version }) => this.versions.get(name) !== version)
+      .map(({ name }) => name);
+
+    this.versions = new Map(
+      resultFiles.map(({ name, version }) => [name, version]),
+    );
+
+    return changedFiles;
+  }
+
+  public reset(): void {
+    this.versions.clear();
+  }
+}
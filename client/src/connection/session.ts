@@ -3,6 +3,7 @@
 import { ProgressLocation, l10n, window } from "vscode";
 
 import type { OnLogFn, RunResult } from ".";
+import { updateStatusBarItem } from "../components/StatusBarItem";
 
 export abstract class Session {
   protected _rejectRun: (reason?: unknown) => void | undefined;
@@ -17,6 +18,20 @@ export abstract class Session {
     this._onExecutionLogFn = value;
   }
 
+  private _connected = false;
+  public get connected(): boolean {
+    return this._connected;
+  }
+  protected set connected(value: boolean) {
+    this._connected = value;
+    updateStatusBarItem();
+  }
+
+  private _running = false;
+  public get running(): boolean {
+    return this._running;
+  }
+
   async setup(silent?: boolean): Promise<void> {
     if (silent) {
       return await this.establishConnection();
@@ -34,12 +49,18 @@ export abstract class Session {
   protected abstract establishConnection(): Promise<void>;
 
   run(code: string, ...args): Promise<RunResult> {
-    return new Promise((resolve, reject) => {
+    this.setRunning(true);
+    return new Promise<RunResult>((resolve, reject) => {
       this._rejectRun = reject;
       this._run(code, ...args)
         .then(resolve, reject)
         .finally(() => (this._rejectRun = undefined));
-    });
+    }).finally(() => this.setRunning(false));
+  }
+
+  private setRunning(running: boolean): void {
+    this._running = running;
+    updateStatusBarItem();
   }
   protected abstract _run(code: string, ...args): Promise<RunResult>;
 
@@ -0,0 +1,208 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import { SSHSession } from ".";
+import { getSession } from "..";
+import {
+  LibraryItem,
+  TableQuery,
+} from "../../components/LibraryNavigator/types";
+import ItcLibraryAdapter, {
+  getColumnsCode,
+  getQueryView,
+  parseQueryError,
+  processQueryRows,
+  toColumn,
+} from "../itc/ItcLibraryAdapter";
+import { ColumnCollection } from "../rest/api/compute";
+import { OUTPUT_END_TAG, OUTPUT_START_TAG } from "./const";
+
+const TEMP_TABLE = "VSCODEROWS";
+const TEMP_VIEW = "VSCODEVIEW";
+
+/**
+ * Lists the libraries of a SAS 9 server over SSH. The queries of the
+ * dictionary tables run in the SSH session and print their results to the
+ * log between tags.
+ */
+class SSHLibraryAdapter extends ItcLibraryAdapter {
+  public async getColumns(item: LibraryItem): Promise<ColumnCollection> {
+    const code = getColumnsCode(
+      item,
+      "dictionary.columns",
+      OUTPUT_START_TAG,
+      OUTPUT_END_TAG,
+    );
+
+    const columnLines = processQueryRows(await this.runQuery(code));
+
+    return {
+      items: columnLines.map(toColumn),
+      count: -1,
+    };
+  }
+
+  public async getLibraries(): Promise<{
+    items: LibraryItem[];
+    count: number;
+  }> {
+    const sql = `
+      %let OUTPUT;
+      proc sql noprint;
+        select catx(',', libname, readonly) as libname_target into: OUTPUT separated by '~'
+        from dictionary.libnames order by libname asc;
+      quit;
+      %put ${OUTPUT_START_TAG} &OUTPUT; %put ${OUTPUT_END_TAG};
+    `;
+
+    const libNames = processQueryRows(await this.runQuery(sql));
+
+    const libraries = libNames.map((lineText): LibraryItem => {
+      const [libName, readOnlyValue] = lineText.split(",");
+
+      return {
+        type: "library",
+        uid: libName,
+        id: libName,
+        name: libName,
+        readOnly: readOnlyValue === "yes",
+      };
+    });
+
+    return {
+      items: libraries,
+      count: -1,
+    };
+  }
+
+  public async getTableRowCount(
+    item: LibraryItem,
+  ): Promise<{ rowCount: number; maxNumberOfRowsToRead: number }> {
+    const code = `
+      %let COUNT;
+      proc sql noprint;
+        select count(1) into: COUNT trimmed from ${item.library}.${item.name};
+      quit;
+      %put ${OUTPUT_START_TAG} &COUNT; %put ${OUTPUT_END_TAG};
+    `;
+
+    const output = await this.runQuery(code);
+    const rowCount = parseInt(output.replace(/[^0-9]/g, ""), 10);
+
+    return { rowCount, maxNumberOfRowsToRead: 100 };
+  }
+
+  public async getTables(item: LibraryItem): Promise<{
+    items: LibraryItem[];
+    count: number;
+  }> {
+    const sql = `
+      %let OUTPUT;
+      proc sql noprint;
+        select memname into: OUTPUT separated by '~'
+        from dictionary.tables
+        where libname='${item.name!}'
+        order by memname asc;
+      quit;
+      %put ${OUTPUT_START_TAG} &OUTPUT; %put ${OUTPUT_END_TAG};
+    `;
+
+    const tableNames = processQueryRows(await this.runQuery(sql));
+
+    const tables = tableNames.map(
+      (table): LibraryItem => ({
+        type: "table",
+        uid: `${item.name!}.${table}`,
+        id: table,
+        name: table,
+        library: item.name,
+        readOnly: item.readOnly,
+      }),
+    );
+
+    return { items: tables, count: -1 };
+  }
+
+  protected async getDatasetInformation(
+    item: LibraryItem,
+    start: number,
+    limit: number,
+    query?: TableQuery,
+  ): Promise<{ rows: Array<string[]>; count: number }> {
+    const {
+      where,
+      createView,
+      deleteView,
+      source,
+      checkStart,
+      checkEnd,
+      putError,
+    } = getQueryView(`${item.library}.${item.name}`, TEMP_VIEW, query);
+    const code = `
+      %let COUNT=0;
+      ${checkStart}
+      proc sql noprint;
+        select count(1) into: COUNT trimmed from ${item.library}.${item.name} ${where};
+        ${createView}
+      quit;
+      ${checkEnd}
+      data work.${TEMP_TABLE};
+        set ${source}(firstobs=${start + 1} obs=${start + limit});
+      run;
+
+      filename out temp;
+      proc json nokeys out=out pretty; export work.${TEMP_TABLE}; run;
+
+      %put ${OUTPUT_START_TAG};
+      ${putError}
+      %put COUNT=&COUNT;
+      data _null_; infile out; input; put _infile_; run;
+      %put ${OUTPUT_END_TAG};
+      proc datasets library=work nolist nodetails; delete ${TEMP_TABLE}; ${deleteView} run;
+    `;
+
+    const output = await this.runQuery(code);
+    parseQueryError(output);
+    const count = parseInt(output.match(/COUNT=(\d+)/)?.[1], 10);
+
+    const json = output.replace(/\n|\t/gm, "");
+    const rows = json.slice(json.indexOf("{"));
+    try {
+      const tableData = JSON.parse(rows);
+      return { rows: tableData[`SASTableData+${TEMP_TABLE}`], count };
+    } catch (e) {
+      console.warn("Failed to load table data with error", e);
+      console.warn("Raw output", rows);
+      throw new Error(
+        l10n.t(
+          "An error was encountered when loading table data. This usually happens when a table is too large or the data couldn't be processed. See console for more details.",
+        ),
+      );
+    }
+  }
+
+  /**
+   * Writes a file on the SAS server over SFTP.
+   */
+  protected async writeFile(path: string, content: Buffer): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+    const sftp = await (getSession() as SSHSession).sftp();
+    await new Promise<void>((resolve, reject) =>
+      sftp.writeFile(path, content, (err) => (err ? reject(err) : resolve())),
+    );
+  }
+
+  private runQuery(code: string): Promise<string> {
+    // the notes and source lines are not needed to read the output, and the
+    // options of the session are restored after the query
+    return this.runCode(
+      `%let _vscopts=%sysfunc(getoption(notes)) %sysfunc(getoption(source));
+options nonotes nosource;${code}options &_vscopts;`,
+      OUTPUT_START_TAG,
+      OUTPUT_END_TAG,
+    );
+  }
+}
+
+export default SSHLibraryAdapter;
@@ -0,0 +1,94 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { FileEntryWithStats, SFTPWrapper, Stats } from "ssh2";
+
+import { SSHSession } from ".";
+import { getSession } from "..";
+import SASServerAdapter, { ServerFileProperties } from "../SASServerAdapter";
+
+const toFileProperties = (
+  name: string,
+  attrs: Stats,
+): ServerFileProperties => ({
+  name,
+  isDirectory: attrs.isDirectory(),
+  modifiedTimeStamp: attrs.mtime * 1000,
+  size: attrs.size,
+});
+
+/**
+ * Lists the files of a SAS 9 server over SFTP, on the connection of the SSH
+ * session.
+ */
+class SSHSASServerAdapter extends SASServerAdapter {
+  protected async getHomeDirectory(): Promise<string> {
+    const sftp = await this.sftp();
+    return await call<string>((callback) => sftp.realpath(".", callback));
+  }
+
+  protected async readDirectory(path: string): Promise<ServerFileProperties[]> {
+    const sftp = await this.sftp();
+    const fileEntries = await call<FileEntryWithStats[]>((callback) =>
+      sftp.readdir(path, callback),
+    );
+
+    return fileEntries.map(({ filename, attrs }) =>
+      toFileProperties(filename, attrs),
+    );
+  }
+
+  protected async stat(path: string): Promise<ServerFileProperties> {
+    const sftp = await this.sftp();
+    const attrs = await call<Stats>((callback) => sftp.stat(path, callback));
+
+    return toFileProperties(this.getName(path), attrs);
+  }
+
+  protected async readFile(path: string): Promise<Buffer> {
+    const sftp = await this.sftp();
+    return await call<Buffer>((callback) => sftp.readFile(path, callback));
+  }
+
+  protected async writeFile(path: string, content: Buffer): Promise<void> {
+    const sftp = await this.sftp();
+    await call((callback) => sftp.writeFile(path, content, callback));
+  }
+
+  protected async createDirectory(path: string): Promise<void> {
+    const sftp = await this.sftp();
+    await call((callback) => sftp.mkdir(path, callback));
+  }
+
+  protected async deletePath(
+    path: string,
+    isDirectory: boolean,
+  ): Promise<void> {
+    const sftp = await this.sftp();
+    await call((callback) =>
+      isDirectory ? sftp.rmdir(path, callback) : sftp.unlink(path, callback),
+    );
+  }
+
+  protected async renamePath(oldPath: string, newPath: string): Promise<void> {
+    const sftp = await this.sftp();
+    await call((callback) => sftp.rename(oldPath, newPath, callback));
+  }
+
+  private async sftp(): Promise<SFTPWrapper> {
+    // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+    const session = getSession() as SSHSession;
+    await session.setup(true);
+
+    return await session.sftp();
+  }
+}
+
+function call<T = void>(
+  fn: (callback: (err: Error | undefined | null, result?: T) => void) => void,
+): Promise<T> {
+  return new Promise((resolve, reject) =>
+    fn((err, result) => (err ? reject(err) : resolve(result))),
+  );
+}
+
+export default SSHSASServerAdapter;
@@ -8,4 +8,8 @@ export const KEEPALIVE_UNANSWERED_THRESHOLD =
   (15 * MINUTE) / KEEPALIVE_INTERVAL; //How many consecutive, unanswered SSH-level keepalive packets that can be sent to the server before disconnection.
 export const WORK_DIR_START_TAG = "WORKDIR";
 export const WORK_DIR_END_TAG = "WORKDIREND";
+// the line mode session drops output lines ending with "?" or ">", so the
+// library queries tag their output with plain words
+export const OUTPUT_START_TAG = "OUTPUTSTART";
+export const OUTPUT_END_TAG = "OUTPUTEND";
 export const CONNECT_READY_TIMEOUT = 5 * MINUTE; //allow extra time due to possible prompting
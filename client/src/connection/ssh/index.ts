@@ -9,16 +9,22 @@ import {
   Client,
   ClientChannel,
   ConnectConfig,
+  FileEntryWithStats,
   KeyboardInteractiveAuthMethod,
   NextAuthHandler,
   PasswordAuthMethod,
   PublicKeyAuthMethod,
+  SFTPWrapper,
 } from "ssh2";
 
-import { BaseConfig, RunResult } from "..";
-import { updateStatusBarItem } from "../../components/StatusBarItem";
+import { BaseConfig, RunResult, RunResultArtifact } from "..";
+import { ResultFileTracker, getResultMediaType } from "../results";
 import { Session } from "../session";
-import { extractOutputHtmlFileName } from "../util";
+import {
+  extractOutputHtmlFileName,
+  getWorkDirectoryCode,
+  hasHtml5Output,
+} from "../util";
 import { AuthHandler } from "./auth";
 import {
   CONNECT_READY_TIMEOUT,
@@ -29,8 +35,6 @@ import {
 } from "./const";
 import { LineCodes } from "./types";
 
-let sessionInstance: SSHSession;
-
 export interface Config extends BaseConfig {
   host: string;
   username: string;
@@ -39,11 +43,13 @@ export interface Config extends BaseConfig {
   privateKeyFilePath?: string;
 }
 
+/**
+ * Creates a new SSH session.
+ * @param c Instance denoting configuration parameters for this connection profile.
+ * @returns created SSH session.
+ */
 export function getSession(c: Config): Session {
-  if (!sessionInstance) {
-    sessionInstance = new SSHSession(c, new Client());
-  }
-  return sessionInstance;
+  return new SSHSession(c, new Client());
 }
 export class SSHSession extends Session {
   private _conn: Client;
@@ -56,6 +62,9 @@ export class SSHSession extends Session {
   private _authHandler: AuthHandler;
   private _workDirectory: string;
   private _authsLeft: AuthenticationType[];
+  private _sftp: Promise<SFTPWrapper> | undefined;
+  private _resultFiles = new ResultFileTracker();
+  private _collectArtifacts = false;
 
   constructor(c?: Config, client?: Client) {
     super();
@@ -112,8 +121,34 @@ export class SSHSession extends Session {
     });
   };
 
-  protected _run = (code: string): Promise<RunResult> => {
+  /**
+   * Opens an SFTP channel on the connection of the session.
+   * @returns A promise that resolves to the SFTP channel.
+   */
+  public sftp = (): Promise<SFTPWrapper> => {
+    if (!this._sftp) {
+      this._sftp = new Promise((resolve, reject) => {
+        this._conn.sftp((err, sftp) => {
+          if (err) {
+            this._sftp = undefined;
+            reject(err);
+            return;
+          }
+          sftp.on("close", () => {
+            this._sftp = undefined;
+          });
+          resolve(sftp);
+        });
+      });
+    }
+
+    return this._sftp;
+  };
+
+  protected _run = (code: string, internal?: boolean): Promise<RunResult> => {
     this._html5FileName = "";
+    // the code run by the extension itself does not write result files
+    this._collectArtifacts = !internal;
 
     return new Promise((_resolve, _reject) => {
       this._resolve = _resolve;
@@ -147,8 +182,11 @@ export class SSHSession extends Session {
     this._reject = undefined;
     this._html5FileName = "";
     this._workDirectory = undefined;
+    this._sftp = undefined;
+    this._resultFiles.reset();
     this.clearAuthState();
-    sessionInstance = undefined;
+    // a closed client cannot connect again
+    this._conn = undefined;
     this._authsLeft = [];
   };
 
@@ -157,8 +195,62 @@ export class SSHSession extends Session {
     this._reject?.(err);
   };
 
-  private getResult = (): void => {
-    const runResult: RunResult = {};
+  /**
+   * Reads the result files that the last run added to or changed in the work
+   * directory, other than the html5 result.
+   */
+  private fetchArtifacts = async (): Promise<RunResultArtifact[]> => {
+    if (!this._collectArtifacts || !this._workDirectory) {
+      return [];
+    }
+
+    try {
+      const sftp = await this.sftp();
+      const fileEntries = await new Promise<FileEntryWithStats[]>(
+        (resolve, reject) =>
+          sftp.readdir(this._workDirectory, (err, list) =>
+            err ? reject(err) : resolve(list),
+          ),
+      );
+      const names = this._resultFiles
+        .update(
+          fileEntries.map(({ filename, attrs }) => ({
+            name: filename,
+            version: `${attrs.mtime}:${attrs.size}`,
+          })),
+        )
+        .filter((name) => name !== `${this._html5FileName}.htm`);
+
+      const artifacts: RunResultArtifact[] = [];
+      for (const name of names) {
+        artifacts.push({
+          name,
+          mediaType: getResultMediaType(name),
+          data: await new Promise<Buffer>((resolve, reject) =>
+            sftp.readFile(`${this._workDirectory}/${name}`, (err, data) =>
+              err ? reject(err) : resolve(data),
+            ),
+          ),
+        });
+      }
+
+      return artifacts;
+    } catch (err) {
+      // the html5 result is returned without the other results
+      this._onExecutionLogFn?.([
+        {
+          type: "warning",
+          line: l10n.t("Failed to read the result files: {error}", {
+            error: err instanceof Error ? err.message : String(err),
+          }),
+        },
+      ]);
+      return [];
+    }
+  };
+
+  private getResult = async (): Promise<void> => {
+    const runResult: RunResult = { artifacts: await this.fetchArtifacts() };
     if (!this._html5FileName) {
       this._resolve?.(runResult);
       return;
@@ -178,9 +270,7 @@ export class SSHSession extends Session {
           const rc: number = code;
 
           if (rc === 0) {
-            //Make sure that the html has a valid body
-            //TODO #185: should this be refactored into a shared location?
-            if (fileContents.search('<*id="IDX*.+">') !== -1) {
+            if (hasHtml5Output(fileContents)) {
               runResult.html5 = fileContents;
               runResult.title = l10n.t("Result");
             }
@@ -193,19 +283,13 @@ export class SSHSession extends Session {
 
   private onStreamClose = (): void => {
     this._conn.end();
-    updateStatusBarItem(false);
+    this.connected = false;
   };
 
   private resolveSystemVars = (): void => {
-    const code = `%let wd = %sysfunc(pathname(work));
-  %let rc = %sysfunc(dlgcdir("&wd"));
-  data _null_; length x $ 4096;
-    file STDERR;
-    x = resolve('&wd');  put '${WORK_DIR_START_TAG}' x '${WORK_DIR_END_TAG}';
-  run;
-
-  `;
-    this._stream.write(code);
+    this._stream.write(
+      getWorkDirectoryCode(WORK_DIR_START_TAG, WORK_DIR_END_TAG),
+    );
   };
 
   private onStreamData = (data: Buffer): void => {
@@ -215,7 +299,7 @@ export class SSHSession extends Session {
       this._sessionReady = true;
       this._resolve?.();
       this.resolveSystemVars();
-      updateStatusBarItem(true);
+      this.connected = true;
       return;
     }
 
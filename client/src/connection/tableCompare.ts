@@ -0,0 +1,273 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import {
+  ColumnAttributes,
+  ColumnComparison,
+  LibraryItem,
+  TableCell,
+  TableComparisonOptions,
+  TableDataComparison,
+} from "../components/LibraryNavigator/types";
+import { Column } from "./rest/api/compute";
+import { toSasName } from "./util";
+
+export const TABLE_COMPARE_START_TAG = "<TABLECOMPARE>";
+export const TABLE_COMPARE_END_TAG = "</TABLECOMPARE>";
+
+const MAX_ROW_COUNT = 100;
+// PROC COMPARE sets this bit of SYSINFO when it cannot compare the tables
+const FATAL_ERROR = 32768;
+
+const isCharacter = (column: Column) => column.type?.toLowerCase() === "char";
+
+const toFormatText = (format: Column["format"]) =>
+  !format?.name || format.name.includes(".")
+    ? (format?.name ?? "")
+    : `${format.name}${format.length || ""}.${format.decimals || ""}`;
+
+const toColumnAttributes = (column: Column): ColumnAttributes => ({
+  type: isCharacter(column) ? "char" : "num",
+  length: column.length,
+  format: toFormatText(column.format),
+  label: column.label ?? "",
+});
+
+/**
+ * Compares the type, length, format and label of the columns of two tables,
+ * which are matched by name.
+ * @param baseColumns the columns of the base table.
+ * @param compareColumns the columns of the table compared with it.
+ */
+export const compareColumns = (
+  baseColumns: Column[],
+  compareColumns: Column[],
+): ColumnComparison[] => {
+  const findColumn = (columns: Column[], name: string) =>
+    columns.find((column) => column.name.toUpperCase() === name.toUpperCase());
+
+  return [
+    ...baseColumns.map((column): ColumnComparison => {
+      const compareColumn = findColumn(compareColumns, column.name);
+      return {
+        name: column.name,
+        base: toColumnAttributes(column),
+        compare: compareColumn && toColumnAttributes(compareColumn),
+      };
+    }),
+    ...compareColumns
+      .filter((column) => !findColumn(baseColumns, column.name))
+      .map(
+        (column): ColumnComparison => ({
+          name: column.name,
+          compare: toColumnAttributes(column),
+        }),
+      ),
+  ];
+};
+
+/**
+ * Returns the SAS code that compares the values of two tables with PROC
+ * COMPARE, and writes the number of unequal values of each column, the
+ * first rows with unequal values and the first rows found in one table only
+ * to the log as JSON, between the table compare tags.
+ * @param base the base table.
+ * @param compare the table compared with it.
+ * @param options the key columns and the compared columns.
+ */
+export const getTableCompareCode = (
+  base: LibraryItem,
+  compare: LibraryItem,
+  { keys, columns }: TableComparisonOptions,
+): string => {
+  const baseTable = `${base.library}.${base.name}`;
+  const compareTable = `${compare.library}.${compare.name}`;
+  const keyNames = keys.map(toSasName).join(" ");
+  const names = columns.map((column) => toSasName(column.name));
+  const characterValues = columns
+    .map((column, index) =>
+      isCharacter(column) ? `_vscb${index} $ 32767` : "",
+    )
+    .filter(Boolean);
+
+  // the rows are sorted by their keys to be matched
+  const sortedTables = keys.length
+    ? `
+      proc sort data=${baseTable} out=work._vsccmp_b; by ${keyNames}; run;
+      proc sort data=${compareTable} out=work._vsccmp_c; by ${keyNames}; run;
+      data work._vsccmp_u(keep=_vsctable ${keyNames});
+        length _vsctable $ 7;
+        merge work._vsccmp_b(in=_vscinb keep=${keyNames}) work._vsccmp_c(in=_vscinc keep=${keyNames});
+        by ${keyNames};
+        if not _vscinc then _vsctable = 'base';
+        else if not _vscinb then _vsctable = 'compare';
+        else delete;
+      run;
+    `
+    : "";
+
+  return `
+    options nonotes nosource nodate nonumber;
+    %let _vscinfo=${FATAL_ERROR};
+    ${sortedTables}
+    proc compare base=${keys.length ? "work._vsccmp_b" : baseTable} compare=${keys.length ? "work._vsccmp_c" : compareTable}
+        out=work._vsccmp_out outbase outcomp outnoequal method=exact noprint;
+      ${keys.length ? `id ${keyNames};` : ""}
+      var ${names.join(" ")};
+    run;
+    %let _vscinfo=&SYSINFO;
+
+    data work._vsccmp_n(keep=_vscrows _vscneq:);
+      set work._vsccmp_out end=_vsclast;
+      ${characterValues.length ? `length ${characterValues.join(" ")};` : ""}
+      retain _vscrows ${names.map((_name, index) => `_vscneq${index}`).join(" ")} 0
+        ${names.map((_name, index) => `_vscb${index}`).join(" ")};
+      if _type_ = 'BASE' then do;
+        ${names.map((name, index) => `_vscb${index} = ${name};`).join(" ")}
+      end;
+      else do;
+        _vscrows + 1;
+        ${names
+          .map(
+            (name, index) =>
+              `if _vscb${index} ne ${name} then _vscneq${index} + 1;`,
+          )
+          .join("\n        ")}
+      end;
+      if _vsclast then output;
+    run;
+
+    %let _vscbase=0;
+    %let _vsccompare=0;
+    proc sql noprint;
+      select count(*) into: _vscbase trimmed from ${baseTable};
+      select count(*) into: _vsccompare trimmed from ${compareTable};
+      ${
+        keys.length
+          ? `select count(*) into: _vscbaseonly trimmed from work._vsccmp_u where _vsctable = 'base';
+      select count(*) into: _vsccompareonly trimmed from work._vsccmp_u where _vsctable = 'compare';`
+          : ""
+      }
+    quit;
+
+    filename _vsccmp temp;
+    proc json out=_vsccmp nosastags pretty;
+      write open object;
+      write values "sysinfo" &_vscinfo;
+      write values "baseRowCount" &_vscbase;
+      write values "compareRowCount" &_vsccompare;
+      write values "unequal"; export work._vsccmp_n;
+      write values "unequalRows"; export work._vsccmp_out(obs=${MAX_ROW_COUNT * 2});
+      ${
+        keys.length
+          ? `write values "baseOnlyRowCount" &_vscbaseonly;
+      write values "compareOnlyRowCount" &_vsccompareonly;
+      write values "unmatchedRows"; export work._vsccmp_u(obs=${MAX_ROW_COUNT});`
+          : ""
+      }
+      write close;
+    run;
+
+    %put ${TABLE_COMPARE_START_TAG};
+    data _null_; infile _vsccmp; input; put _infile_; run;
+    %put ${TABLE_COMPARE_END_TAG};
+    filename _vsccmp clear;
+    proc datasets library=work nolist nodetails; delete _vsccmp_:; run;
+    options notes source date number;
+  `;
+};
+
+type OutputRow = Record<string, TableCell>;
+
+interface TableCompareOutput {
+  sysinfo: number;
+  baseRowCount: number;
+  compareRowCount: number;
+  baseOnlyRowCount?: number;
+  compareOnlyRowCount?: number;
+  unequal: OutputRow[];
+  unequalRows: OutputRow[];
+  unmatchedRows?: OutputRow[];
+}
+
+// The names of the variables written by SAS can differ in case from the
+// names of the columns
+const toUpperCaseKeys = (row: OutputRow): OutputRow =>
+  Object.fromEntries(
+    Object.entries(row).map(([name, value]) => [name.toUpperCase(), value]),
+  );
+
+const pick = (row: OutputRow, names: string[]): OutputRow =>
+  Object.fromEntries(
+    names.map((name) => [name, row[name.toUpperCase()] ?? null]),
+  );
+
+/**
+ * Reads the comparison written by the table compare code.
+ * @param output the output of the code, between the table compare tags.
+ * @param options the key columns and the compared columns.
+ */
+export const parseTableComparison = (
+  output: string,
+  { keys, columns }: TableComparisonOptions,
+): TableDataComparison => {
+  let comparison: TableCompareOutput;
+  try {
+    comparison = JSON.parse(
+      output.slice(output.indexOf("{"), output.lastIndexOf("}") + 1),
+    );
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (error) {
+    throw new Error(
+      l10n.t("An error was encountered when comparing the tables."),
+    );
+  }
+  if (comparison.sysinfo & FATAL_ERROR) {
+    throw new Error(
+      l10n.t("An error was encountered when comparing the tables."),
+    );
+  }
+
+  const names = [...keys, ...columns.map(({ name }) => name)];
+  const unequal = toUpperCaseKeys(comparison.unequal[0] ?? {});
+  const unequalRows: TableDataComparison["unequalRows"] = [];
+  let baseRow: OutputRow | undefined;
+  for (const row of comparison.unequalRows.map(toUpperCaseKeys)) {
+    if (row._TYPE_ === "BASE") {
+      baseRow = row;
+    } else if (baseRow) {
+      unequalRows.push({
+        base: pick(baseRow, names),
+        compare: pick(row, names),
+      });
+      baseRow = undefined;
+    }
+  }
+
+  return {
+    baseRowCount: comparison.baseRowCount,
+    compareRowCount: comparison.compareRowCount,
+    unequalRowCount: Number(unequal._VSCROWS ?? 0),
+    // rows are matched by their position when there are no keys
+    baseOnlyRowCount:
+      comparison.baseOnlyRowCount ??
+      Math.max(comparison.baseRowCount - comparison.compareRowCount, 0),
+    compareOnlyRowCount:
+      comparison.compareOnlyRowCount ??
+      Math.max(comparison.compareRowCount - comparison.baseRowCount, 0),
+    unequalCounts: Object.fromEntries(
+      columns.map(({ name }, index) => [
+        name,
+        Number(unequal[`_VSCNEQ${index}`] ?? 0),
+      ]),
+    ),
+    unequalRows,
+    unmatchedRows: (comparison.unmatchedRows ?? [])
+      .map(toUpperCaseKeys)
+      .map((row) => ({
+        table: row._VSCTABLE === "base" ? "base" : "compare",
+        keys: pick(row, keys),
+      })),
+  };
+};
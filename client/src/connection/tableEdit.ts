@@ -0,0 +1,247 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import { LibraryItem, TableEdits } from "../components/LibraryNavigator/types";
+import { Column } from "./rest/api/compute";
+import { toSasName } from "./util";
+
+export const TABLE_EDIT_START_TAG = "<TABLEEDIT>";
+export const TABLE_EDIT_END_TAG = "</TABLEEDIT>";
+
+const NUMBER_REGEX = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const MISSING_REGEX = /^\.?$|^\.[A-Z_]$/i;
+
+const quote = (value: string) =>
+  `'${value.replace(/[\r\n]+/g, " ").replace(/'/g, "''")}'`;
+
+const isCharacter = (column: Column) => column.type?.toLowerCase() === "char";
+
+const isFormatted = (column: Column, value: string) =>
+  !isCharacter(column) &&
+  !MISSING_REGEX.test(value.trim()) &&
+  !NUMBER_REGEX.test(value.trim());
+
+// Numeric values that are not numbers are shown with the format of their
+// column, and are read with an informat for the category of the format
+const informat = (name: string) => {
+  const category = `fmtinfo(vformatn(${name}), 'cat')`;
+  return `ifc(${category} = 'date', 'anydtdte32.', ifc(${category} = 'datetime', 'anydtdtm32.', ifc(${category} = 'time', 'anydttme32.', 'comma32.')))`;
+};
+
+const toValue = (column: Column, value: string = "") => {
+  if (isCharacter(column)) {
+    return quote(value);
+  }
+
+  const text = value.trim();
+  if (isFormatted(column, text)) {
+    return `inputn(${quote(text)}, ${informat(toSasName(column.name))})`;
+  }
+
+  return text || ".";
+};
+
+const assignments = (columns: Column[], values: Record<string, string>) =>
+  columns
+    .map(
+      (column) =>
+        `${toSasName(column.name)} = ${toValue(column, values[column.name])};`,
+    )
+    .join(" ");
+
+// the condition that a value of a row is still the value read from it
+const isUnchanged = (column: Column, value: string = "") => {
+  const name = toSasName(column.name);
+  if (isCharacter(column)) {
+    return `${name} = ${quote(value)}`;
+  }
+
+  const text = value.trim();
+  if (MISSING_REGEX.test(text)) {
+    return `missing(${name})`;
+  }
+  if (NUMBER_REGEX.test(text)) {
+    // the numbers read may have been rounded
+    return `abs(${name} - (${text})) <= 1e-8 * abs(${text})`;
+  }
+  return `(strip(vvalue(${name})) = ${quote(text)} or ${name} = inputn(${quote(text)}, ${informat(name)}))`;
+};
+
+const conditions = (columns: Column[], values: Record<string, string>) =>
+  columns
+    .filter((column) => column.name in values)
+    .map((column) => isUnchanged(column, values[column.name]))
+    .join(" and ") || "1";
+
+const getUpdates = ({ updates, deletes }: TableEdits) =>
+  updates.filter(({ row }) => !deletes.some((item) => item.row === row));
+
+// the rows to change, with the values they were read with, by position
+const getReadRows = (edits: TableEdits) =>
+  [...getUpdates(edits), ...edits.deletes].sort((a, b) => a.row - b.row);
+
+/**
+ * Returns the numeric values of the changes that are read with the format
+ * of their column, in the order they are checked.
+ */
+const getFormattedValues = (
+  columns: Column[],
+  edits: TableEdits,
+): { column: string; value: string }[] =>
+  [...getUpdates(edits).map(({ values }) => values), ...edits.inserts].flatMap(
+    (values) =>
+      columns
+        .filter((column) => isFormatted(column, values[column.name] ?? ""))
+        .map((column) => ({
+          column: column.name,
+          value: values[column.name].trim(),
+        })),
+  );
+
+/**
+ * Returns the SAS code that applies the changes made to the rows of a table,
+ * and writes its return code, the number of the first value that cannot be
+ * read, the first row that changed since it was read and the error message
+ * to the log, between the table edit tags.
+ * Changed rows are replaced and deleted rows are removed by a data step with
+ * a MODIFY statement, which keeps the indexes and constraints of the table,
+ * and added rows are appended to it. No row is changed when a value cannot
+ * be read, or when the rows at the positions of the changes no longer have
+ * the values they were read with. The SYSCC of the session is kept.
+ * @param item the table.
+ * @param columns the columns of the table.
+ * @param edits the changes to apply.
+ */
+export const getTableEditCode = (
+  item: LibraryItem,
+  columns: Column[],
+  edits: TableEdits,
+): string => {
+  const table = `${item.library}.${item.name}`;
+  const updates = getUpdates(edits);
+  const checks = getFormattedValues(columns, edits).map(
+    ({ column, value }, index) =>
+      `  if missing(inputn(${quote(value)}, ${informat(toSasName(column))})) then do; call symputx('_vscbad', ${index + 1}); stop; end;`,
+  );
+
+  const lines = [
+    "%let _vscsyscc=&syscc;",
+    "%let syscc=0;",
+    "%let _vscbad=0;",
+    "%let _vscrow=0;",
+  ];
+  if (checks.length) {
+    lines.push(
+      "data _null_;",
+      `  if 0 then set ${table};`,
+      ...checks,
+      "  stop;",
+      "run;",
+    );
+  }
+  const readRows = getReadRows(edits);
+  if (readRows.length) {
+    // the rows are counted as the MODIFY statement counts them
+    const lastRow = readRows[readRows.length - 1].row;
+    lines.push(
+      "data _null_;",
+      "  if &_vscbad then stop;",
+      `  do _vscn = 1 to ${lastRow};`,
+      `    if _vscend then do; call symputx('_vscrow', ${lastRow}); stop; end;`,
+      `    set ${table} end=_vscend;`,
+      "    select (_vscn);",
+      ...readRows.map(
+        ({ row, original }) =>
+          `      when (${row}) if not (${conditions(columns, original)}) then do; call symputx('_vscrow', ${row}); stop; end;`,
+      ),
+      "      otherwise;",
+      "    end;",
+      "  end;",
+      "  stop;",
+      "run;",
+      `data ${table};`,
+      "  if &_vscbad or &_vscrow then stop;",
+      `  modify ${table};`,
+      "  select (_n_);",
+      ...updates.map(
+        ({ row, values }) =>
+          `    when (${row}) do; ${assignments(
+            columns.filter((column) => column.name in values),
+            values,
+          )} replace; end;`,
+      ),
+      ...(edits.deletes.length
+        ? [
+            `    when (${edits.deletes.map(({ row }) => row).join(", ")}) remove;`,
+          ]
+        : []),
+      "    otherwise;",
+      "  end;",
+      "run;",
+    );
+  }
+  if (edits.inserts.length) {
+    lines.push(
+      "data work._vscins;",
+      "  if &_vscbad or &_vscrow or &syscc > 4 then stop;",
+      `  if 0 then set ${table};`,
+      ...edits.inserts.map(
+        (values) => `  ${assignments(columns, values)} output;`,
+      ),
+      "  stop;",
+      "run;",
+      `proc append base=${table} data=work._vscins; run;`,
+      "proc datasets library=work nolist nodetails; delete _vscins; run;",
+    );
+  }
+  lines.push(
+    `%put ${TABLE_EDIT_START_TAG}&SYSCC &_vscbad &_vscrow %superq(SYSERRORTEXT)${TABLE_EDIT_END_TAG};`,
+    "%let syscc=&_vscsyscc;",
+  );
+
+  return lines.join("\n");
+};
+
+/**
+ * Reads the result written by the table edit code.
+ * @param output the output of the code, between the table edit tags.
+ * @param columns the columns of the table.
+ * @param edits the changes that were applied.
+ * @throws an error with the value that cannot be read, with the row that
+ * changed since it was read, or with the message of SAS, when the changes
+ * were not applied.
+ */
+export const parseTableEditResult = (
+  output: string,
+  columns: Column[],
+  edits: TableEdits,
+): void => {
+  const [, returnCode, invalidValue, changedRow, message] =
+    output.trim().match(/^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/s) ?? [];
+
+  const invalid =
+    invalidValue &&
+    getFormattedValues(columns, edits)[parseInt(invalidValue, 10) - 1];
+  if (invalid) {
+    throw new Error(
+      l10n.t("{value} is not a valid value of {column}.", invalid),
+    );
+  }
+
+  if (changedRow && changedRow !== "0") {
+    throw new Error(
+      l10n.t(
+        "Row {row} was changed after it was read. Refresh the table and make the changes again.",
+        { row: changedRow },
+      ),
+    );
+  }
+
+  // a return code of 4 means the changes were applied with warnings
+  if (returnCode !== undefined && parseInt(returnCode, 10) <= 4) {
+    return;
+  }
+
+  throw new Error(message?.trim() || l10n.t("The changes could not be saved."));
+};
@@ -0,0 +1,111 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import { TableImport } from "../components/LibraryNavigator/types";
+import { toSasName } from "./util";
+
+export const TABLE_IMPORT_START_TAG = "<TABLEIMPORT>";
+export const TABLE_IMPORT_END_TAG = "</TABLEIMPORT>";
+export const TABLE_IMPORT_FILEREF = "_vscimp";
+
+const MIN_RECORD_LENGTH = 256;
+
+const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const toLine = (cells: TableImport["rows"][number]) =>
+  cells
+    .map((cell) =>
+      typeof cell === "number"
+        ? `${cell}`
+        : cell === null
+          ? ""
+          : // the data step reads a line for each row
+            `"${cell.replace(/[\r\n]+/g, " ").replace(/"/g, '""')}"`,
+    )
+    .join(",");
+
+/**
+ * Writes the rows of a table to import as the CSV file read by the import
+ * code, without a header.
+ * @returns the contents of the file, and the length of its longest line.
+ */
+export const getTableImportFile = (
+  table: TableImport,
+): { content: Buffer; recordLength: number } => {
+  let recordLength = MIN_RECORD_LENGTH;
+  const lines = table.rows.map((row) => {
+    const line = toLine(row);
+    recordLength = Math.max(recordLength, Buffer.byteLength(line));
+    return line;
+  });
+
+  return {
+    content: Buffer.from(lines.join("\n") + "\n", "utf8"),
+    recordLength,
+  };
+};
+
+/**
+ * Returns the data step that creates a table from the file of the import
+ * fileref, and writes its return code and error message to the log,
+ * between the table import tags.
+ * @param library the library of the table.
+ * @param table the table to import.
+ * @param recordLength the length of the longest line of the file.
+ */
+export const getTableImportCode = (
+  library: string,
+  { name, columns }: TableImport,
+  recordLength: number,
+): string => {
+  const names = columns.map((column) => toSasName(column.name));
+  const formats = columns
+    .map((column, index) =>
+      column.format ? `${names[index]} ${column.format}` : "",
+    )
+    .filter(Boolean);
+  const labels = columns
+    .map((column, index) =>
+      column.label ? `${names[index]}=${quote(column.label)}` : "",
+    )
+    .filter(Boolean);
+
+  return `
+    data ${library}.${toSasName(name)};
+      infile ${TABLE_IMPORT_FILEREF} dsd truncover termstr=lf encoding='utf-8' lrecl=${recordLength};
+      length ${columns
+        .map(
+          (column, index) =>
+            `${names[index]} ${column.type === "char" ? `$ ${column.length}` : 8}`,
+        )
+        .join(" ")};
+      ${formats.length ? `format ${formats.join(" ")};` : ""}
+      ${labels.length ? `label ${labels.join(" ")};` : ""}
+      input ${columns
+        .map(
+          (column, index) =>
+            `${names[index]}${column.type === "char" ? " $" : ""}`,
+        )
+        .join(" ")};
+    run;
+    %put ${TABLE_IMPORT_START_TAG}&SYSERR %superq(SYSERRORTEXT)${TABLE_IMPORT_END_TAG};
+  `;
+};
+
+/**
+ * Reads the return code written by the table import code.
+ * @param output the output of the code, between the table import tags.
+ * @throws an error with the message of SAS when the table was not created.
+ */
+export const parseTableImportResult = (output: string): void => {
+  const [, returnCode, message] = output.trim().match(/^(\d+)\s*(.*)$/s) ?? [];
+  // a return code of 4 means the table was created with warnings
+  if (returnCode !== undefined && parseInt(returnCode, 10) <= 4) {
+    return;
+  }
+
+  throw new Error(
+    message?.trim() || l10n.t("The table could not be imported."),
+  );
+};
@@ -0,0 +1,247 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { l10n } from "vscode";
+
+import {
+  ColumnProfile,
+  HistogramBin,
+  LibraryItem,
+  TableProfile,
+} from "../components/LibraryNavigator/types";
+import { Column } from "./rest/api/compute";
+import { toSasName } from "./util";
+
+export const TABLE_PROFILE_START_TAG = "<TABLEPROFILE>";
+export const TABLE_PROFILE_END_TAG = "</TABLEPROFILE>";
+
+const TOP_VALUE_COUNT = 10;
+const HISTOGRAM_BIN_COUNT = 10;
+
+interface ProfileColumn {
+  name: string;
+  index: number;
+}
+
+const isCharacter = (column: Column) => column.type?.toLowerCase() === "char";
+
+const histogramCode = (table: string, { name, index }: ProfileColumn) => `
+  proc sql;
+    create table work._vscprf_h${index} as
+      select case when m.max${index} > m.min${index}
+          then min(floor((t.${name} - m.min${index}) / (m.max${index} - m.min${index}) * ${HISTOGRAM_BIN_COUNT}), ${HISTOGRAM_BIN_COUNT - 1})
+          else 0 end as bin,
+        count(*) as count
+      from ${table} as t, work._vscprf_means as m
+      where t.${name} is not missing
+      group by 1;
+  quit;
+`;
+
+/**
+ * Returns the SAS code that computes the statistics of the columns of a
+ * table with PROC MEANS, PROC FREQ and PROC SQL, and writes them to the
+ * log as JSON, between the table profile tags.
+ * @param item the table.
+ * @param columns the columns of the table.
+ */
+export const getTableProfileCode = (
+  item: LibraryItem,
+  columns: Column[],
+): string => {
+  const table = `${item.library}.${item.name}`;
+  const profileColumns = columns.map(
+    (column, index): ProfileColumn & { isCharacter: boolean } => ({
+      name: toSasName(column.name),
+      index,
+      isCharacter: isCharacter(column),
+    }),
+  );
+  const numericColumns = profileColumns.filter((column) => !column.isCharacter);
+  const characterColumns = profileColumns.filter(
+    (column) => column.isCharacter,
+  );
+  const names = (prefix: string) =>
+    numericColumns.map(({ index }) => `${prefix}${index}`).join(" ");
+
+  const means = numericColumns.length
+    ? `
+      proc means data=${table} noprint;
+        var ${numericColumns.map(({ name }) => name).join(" ")};
+        output out=work._vscprf_means(drop=_type_ _freq_)
+          min=${names("min")} max=${names("max")} mean=${names("mean")};
+      run;
+      ${numericColumns.map((column) => histogramCode(table, column)).join("")}
+    `
+    : "";
+  const frequencies = characterColumns.length
+    ? `
+      proc freq data=${table} order=freq noprint;
+        ${characterColumns
+          .map(
+            ({ name, index }) =>
+              `tables ${name} / missing out=work._vscprf_f${index};`,
+          )
+          .join("\n")}
+      run;
+    `
+    : "";
+
+  return `
+    options nonotes nosource nodate nonumber;
+    proc sql;
+      create table work._vscprf_columns as
+        select name, type, length, format, label from dictionary.columns
+        where libname = upcase("${item.library}") and memname = upcase("${item.name}")
+        order by varnum;
+      create table work._vscprf_counts as
+        select count(*) as rows
+          ${profileColumns
+            .map(
+              ({ name, index }) =>
+                `, count(distinct ${name}) as distinct${index}, sum(missing(${name})) as missing${index}`,
+            )
+            .join("\n")}
+        from ${table};
+    quit;
+    ${means}
+    ${frequencies}
+
+    filename _vscprf temp;
+    proc json out=_vscprf nosastags pretty;
+      write open object;
+      write values "columns"; export work._vscprf_columns;
+      write values "counts"; export work._vscprf_counts;
+      ${numericColumns.length ? `write values "means"; export work._vscprf_means;` : ""}
+      write values "frequencies"; write open object;
+      ${characterColumns
+        .map(
+          ({ name, index }) =>
+            `write values "${index}"; export work._vscprf_f${index}(obs=${TOP_VALUE_COUNT} rename=(${name}=value));`,
+        )
+        .join("\n")}
+      write close;
+      write values "histograms"; write open object;
+      ${numericColumns
+        .map(
+          ({ index }) =>
+            `write values "${index}"; export work._vscprf_h${index};`,
+        )
+        .join("\n")}
+      write close;
+      write close;
+    run;
+
+    %put ${TABLE_PROFILE_START_TAG};
+    data _null_; infile _vscprf; input; put _infile_; run;
+    %put ${TABLE_PROFILE_END_TAG};
+    filename _vscprf clear;
+    proc datasets library=work nolist nodetails; delete _vscprf_:; run;
+    options notes source date number;
+  `;
+};
+
+interface TableProfileOutput {
+  columns: {
+    name: string;
+    type: string;
+    length: number;
+    format: string;
+    label: string;
+  }[];
+  counts: Record<string, number>[];
+  means?: Record<string, number | null>[];
+  frequencies: Record<
+    string,
+    { value: string | number; COUNT: number; PERCENT: number }[]
+  >;
+  histograms: Record<string, { bin: number; count: number }[]>;
+}
+
+const toHistogram = (
+  bins: { bin: number; count: number }[],
+  min: number | undefined,
+  max: number | undefined,
+): HistogramBin[] => {
+  if (min === undefined || max === undefined) {
+    return [];
+  }
+  if (min === max) {
+    return [{ start: min, end: max, count: bins[0]?.count ?? 0 }];
+  }
+
+  const width = (max - min) / HISTOGRAM_BIN_COUNT;
+  return Array.from({ length: HISTOGRAM_BIN_COUNT }, (_, index) => ({
+    start: min + index * width,
+    end: index === HISTOGRAM_BIN_COUNT - 1 ? max : min + (index + 1) * width,
+    count: bins.find(({ bin }) => bin === index)?.count ?? 0,
+  }));
+};
+
+/**
+ * Reads the statistics written by the table profile code.
+ * @param output the output of the code, between the table profile tags.
+ * @param columns the columns that were profiled.
+ */
+export const parseTableProfile = (
+  output: string,
+  columns: Column[],
+): TableProfile => {
+  let profile: TableProfileOutput;
+  try {
+    profile = JSON.parse(
+      output.slice(output.indexOf("{"), output.lastIndexOf("}") + 1),
+    );
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (error) {
+    throw new Error(
+      l10n.t("An error was encountered when computing the table profile."),
+    );
+  }
+
+  const [counts] = profile.counts;
+  const [means] = profile.means ?? [];
+  const rowCount = counts?.rows ?? 0;
+
+  return {
+    rowCount,
+    columns: columns.map((column, index): ColumnProfile => {
+      const metadata = profile.columns.find(
+        ({ name }) => name.toUpperCase() === column.name.toUpperCase(),
+      );
+      const missing = counts?.[`missing${index}`] ?? 0;
+      const columnProfile: ColumnProfile = {
+        name: column.name,
+        type: isCharacter(column) ? "char" : "num",
+        length: metadata?.length ?? column.length,
+        format: metadata?.format ?? "",
+        label: metadata?.label ?? column.label ?? "",
+        n: rowCount - missing,
+        missing,
+        distinct: counts?.[`distinct${index}`] ?? 0,
+      };
+
+      if (columnProfile.type === "char") {
+        return {
+          ...columnProfile,
+          topValues: (profile.frequencies[index] ?? []).map(
+            ({ value, COUNT, PERCENT }) => ({
+              value: `${value ?? ""}`,
+              count: COUNT,
+              percent: PERCENT,
+            }),
+          ),
+        };
+      }
+
+      const min = means?.[`min${index}`] ?? undefined;
+      const max = means?.[`max${index}`] ?? undefined;
+      return {
+        ...columnProfile,
+        min,
+        max,
+        mean: means?.[`mean${index}`] ?? undefined,
+        histogram: toHistogram(profile.histograms[index] ?? [], min, max),
+      };
+    }),
+  };
+};
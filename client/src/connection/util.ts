@@ -9,3 +9,35 @@ export function extractOutputHtmlFileName(
     line.match(/body="(.{8}-.{4}-.{4}-.{4}-.{12}).htm"/)?.[1] ?? defaultValue
   );
 }
+
+/**
+ * Returns the name of a column as it is written in SAS code, with a name
+ * literal for names that are not valid SAS names.
+ */
+export function toSasName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name)
+    ? name
+    : `'${name.replace(/'/g, "''")}'n`;
+}
+
+/**
+ * Returns the code that makes the work library the current directory of the
+ * session and writes its path to the log between the given tags.
+ */
+export function getWorkDirectoryCode(startTag: string, endTag: string): string {
+  return `%let wd = %sysfunc(pathname(work));
+  %let rc = %sysfunc(dlgcdir("&wd"));
+  data _null_; length x $ 4096;
+    file STDERR;
+    x = resolve('&wd');  put '${startTag}' x '${endTag}';
+  run;
+
+  `;
+}
+
+/**
+ * Returns whether an html5 result file has a body with output in it.
+ */
+export function hasHtml5Output(html5: string): boolean {
+  return html5.search('<*id="IDX*.+">') !== -1;
+}
@@ -0,0 +1,60 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Disposable, l10n } from "vscode";
+
+import { ConnectionType } from "../components/profile";
+import {
+  ConnectionProvider,
+  registerConnectionProvider,
+} from "../connection/providers";
+import { Session } from "../connection/session";
+
+export type { RunResult, RunResultArtifact } from "../connection";
+export type {
+  ConnectionProvider,
+  ConnectionProviderProfile,
+  ConnectionProviderPrompt,
+} from "../connection/providers";
+export type {
+  ContentAdapter,
+  ContentItem,
+} from "../components/ContentNavigator/types";
+export type {
+  ColumnProfile,
+  LibraryAdapter,
+  LibraryItem,
+  TableProfile,
+  TableQuery,
+} from "../components/LibraryNavigator/types";
+
+/**
+ * The API returned by the activation of the extension, for other extensions
+ * to add connection types.
+ */
+export interface SASExtensionAPI {
+  /** the class to extend for the sessions of a connection provider */
+  Session: typeof Session;
+  /**
+   * Registers a provider for a new connection type. The connection types
+   * built into the extension cannot be replaced.
+   * @returns a disposable that unregisters the provider.
+   */
+  registerConnectionProvider(provider: ConnectionProvider): Disposable;
+}
+
+export const api: SASExtensionAPI = {
+  Session,
+  registerConnectionProvider: (provider) => {
+    if (
+      Object.values<string>(ConnectionType).includes(provider.connectionType)
+    ) {
+      throw new Error(
+        l10n.t(
+          'The "{connectionType}" connection type is built into the SAS extension.',
+          { connectionType: provider.connectionType },
+        ),
+      );
+    }
+    return registerConnectionProvider(provider);
+  },
+};
@@ -31,18 +31,28 @@ import {
   switchProfile,
   updateProfile,
 } from "../commands/profile";
-import { run, runRegion, runSelected } from "../commands/run";
+import {
+  rerun,
+  run,
+  runRegion,
+  runSelected,
+  runWithProfile,
+} from "../commands/run";
 import { SASAuthProvider } from "../components/AuthProvider";
 import { installCAs } from "../components/CAHelper";
 import ContentNavigator from "../components/ContentNavigator";
 import { ContentSourceType } from "../components/ContentNavigator/types";
 import { setContext } from "../components/ExtensionContext";
 import LibraryNavigator from "../components/LibraryNavigator";
+import { ProfileCodeLensProvider } from "../components/ProfileCodeLensProvider";
 import {
   ResultPanelSubscriptionProvider,
   SAS_RESULT_PANEL,
   deserializeWebviewPanel,
 } from "../components/ResultPanel";
+import RunHistoryNavigator from "../components/RunHistory";
+import { RunHistoryEntry } from "../components/RunHistory/types";
+import RunQueueNavigator from "../components/RunQueue";
 import {
   getStatusBarItem,
   resetStatusBarItem,
@@ -56,12 +66,18 @@ import { NotebookSerializer } from "../components/notebook/Serializer";
 import { ConnectionType } from "../components/profile";
 import { SasTaskProvider } from "../components/tasks/SasTaskProvider";
 import { SAS_TASK_TYPE } from "../components/tasks/SasTasks";
+import { closeStaleSessions } from "../connection";
+import {
+  getConnectionProvider,
+  onDidChangeConnectionProviders,
+} from "../connection/providers";
+import { SASExtensionAPI, api } from "./api";
 
 let client: LanguageClient;
 
 export let extensionContext: ExtensionContext | undefined;
 
-export function activate(context: ExtensionContext): void {
+export function activate(context: ExtensionContext): SASExtensionAPI {
   // The server is implemented in node
   extensionContext = context;
   const serverModule = context.asAbsolutePath(
@@ -86,6 +102,12 @@ export function activate(context: ExtensionContext): void {
   const clientOptions: LanguageClientOptions = {
     // Register the server for sas file
     documentSelector: [{ language: "sas" }],
+    // librefs, tables and columns are completed from the session of the
+    // active profile
+    initializationOptions: {
+      supportSASGetLibList: true,
+      supportSASGetColumnList: true,
+    },
   };
 
   // Create the language client and start the client.
@@ -111,7 +133,8 @@ export function activate(context: ExtensionContext): void {
   // like this:
   // - rest connection w/ sourceType="sasContent" uses a SASContentAdapter
   // - rest connection w/ sourceType="sasServer" uses a RestSASServerAdapter
-  // - itc/iom connection w/ sourceType="sasServer" uses ITCSASServerAdapter
+  // - itc/iom/com connection w/ sourceType="sasServer" uses ItcSASServerAdapter
+  // - ssh connection w/ sourceType="sasServer" uses SSHSASServerAdapter
   const sasContentNavigator = new ContentNavigator(context, {
     mimeType: "application/vnd.code.tree.contentdataprovider",
     sourceType: ContentSourceType.SASContent,
@@ -135,6 +158,8 @@ export function activate(context: ExtensionContext): void {
   };
 
   const resultPanelSubscriptionProvider = new ResultPanelSubscriptionProvider();
+  const runHistoryNavigator = new RunHistoryNavigator();
+  const runQueueNavigator = new RunQueueNavigator();
 
   window.registerWebviewPanelSerializer(SAS_RESULT_PANEL, {
     deserializeWebviewPanel,
@@ -153,9 +178,27 @@ export function activate(context: ExtensionContext): void {
       await runRegion(client);
       await libraryNavigator.refresh();
     }),
-    commands.registerCommand("SAS.close", (silent) => {
+    commands.registerCommand(
+      "SAS.runWithProfile",
+      async (uri?: Uri, profileName?: string) => {
+        await runWithProfile(uri, profileName);
+      },
+    ),
+    commands.registerCommand(
+      "SAS.runHistory.rerun",
+      async (entry: RunHistoryEntry) => {
+        await rerun(entry.parameters, entry.profileName);
+        await libraryNavigator.refresh();
+      },
+    ),
+    commands.registerCommand("SAS.close", (silentOrProfileName) => {
       closeSession(
-        silent === true ? undefined : l10n.t("The SAS session has closed."),
+        silentOrProfileName === true
+          ? undefined
+          : l10n.t("The SAS session has closed."),
+        typeof silentOrProfileName === "string"
+          ? silentOrProfileName
+          : undefined,
       );
     }),
     commands.registerCommand("SAS.switchProfile", switchProfile),
@@ -178,9 +221,13 @@ export function activate(context: ExtensionContext): void {
     ),
     getStatusBarItem(),
     ...libraryNavigator.getSubscriptions(),
+    ...libraryNavigator.getLanguageClientSubscriptions(client),
     ...sasContentNavigator.getSubscriptions(),
     ...sasServerNavigator.getSubscriptions(),
     ...resultPanelSubscriptionProvider.getSubscriptions(),
+    ...runHistoryNavigator.getSubscriptions(),
+    ...runQueueNavigator.getSubscriptions(),
+    ...new ProfileCodeLensProvider().getSubscriptions(),
     sasContentNavigator.onDidManipulateFile(handleFileUpdated),
     sasServerNavigator.onDidManipulateFile(handleFileUpdated),
     // If configFile setting is changed, update watcher to watch new configuration file
@@ -188,8 +235,13 @@ export function activate(context: ExtensionContext): void {
       if (event.affectsConfiguration("SAS.connectionProfiles")) {
         triggerProfileUpdate();
         updateViewSettings();
+      } else if (event.affectsConfiguration("SAS.profileBindings")) {
+        updateStatusBarItem();
       }
     }),
+    // the profile bound to the file being edited shows in the status bar
+    window.onDidChangeActiveTextEditor(() => updateStatusBarItem()),
+    workspace.onDidSaveTextDocument(() => updateStatusBarItem()),
     workspace.registerNotebookSerializer(
       "sas-notebook",
       new NotebookSerializer(),
@@ -200,6 +252,11 @@ export function activate(context: ExtensionContext): void {
     commands.registerCommand("SAS.notebook.export", exportNotebook),
     tasks.registerTaskProvider(SAS_TASK_TYPE, new SasTaskProvider()),
     ...sasDiagnostic.getSubscriptions(),
+    // connection providers can be registered once the extension is active
+    onDidChangeConnectionProviders(() => {
+      updateViewSettings();
+      updateStatusBarItem();
+    }),
   );
 
   // Reset first to set "No Active Profiles"
@@ -210,6 +267,8 @@ export function activate(context: ExtensionContext): void {
   profileConfig.migrateLegacyProfiles();
   triggerProfileUpdate();
   updateViewSettings();
+
+  return api;
 }
 
 function updateViewSettings(): void {
@@ -217,18 +276,28 @@ function updateViewSettings(): void {
     profileConfig.getActiveProfile(),
   );
 
+  const provider =
+    activeProfile && getConnectionProvider(activeProfile.connectionType);
+  // local sessions only run code, as do connection providers without
+  // adapters
+  const runOnly = provider
+    ? !provider.createLibraryAdapter && !provider.createContentAdapter
+    : activeProfile?.connectionType === ConnectionType.Local;
   const settings = {
-    canSignIn:
-      !activeProfile || activeProfile.connectionType !== ConnectionType.SSH,
+    canSignIn: !runOnly,
     librariesEnabled: false,
     contentEnabled: false,
+    serverEnabled: false,
     librariesDisplayed: false,
   };
   if (activeProfile) {
-    settings.librariesEnabled =
-      activeProfile.connectionType !== ConnectionType.SSH;
-    settings.contentEnabled =
-      activeProfile.connectionType === ConnectionType.Rest;
+    settings.librariesEnabled = provider
+      ? !!provider.createLibraryAdapter
+      : !runOnly;
+    settings.contentEnabled = provider
+      ? !!provider.createContentAdapter
+      : activeProfile.connectionType === ConnectionType.Rest;
+    settings.serverEnabled = !provider && !runOnly;
   }
 
   Object.entries(settings).forEach(([key, value]) =>
@@ -237,7 +306,7 @@ function updateViewSettings(): void {
 }
 
 function triggerProfileUpdate(): void {
-  commands.executeCommand("SAS.close", true);
+  closeStaleSessions();
   const profileList = profileConfig.getAllProfiles();
   const activeProfileName = profileConfig.getActiveProfile();
   if (profileList[activeProfileName]) {
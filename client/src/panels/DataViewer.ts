@@ -3,27 +3,47 @@
 import { Uri, window } from "vscode";
 
 import PaginatedResultSet from "../components/LibraryNavigator/PaginatedResultSet";
-import { TableData } from "../components/LibraryNavigator/types";
+import {
+  TableData,
+  TableEdits,
+  TableExportOptions,
+  TableQuery,
+} from "../components/LibraryNavigator/types";
 import { Column } from "../connection/rest/api/compute";
 import { WebView } from "./WebviewManager";
 
+/**
+ * Reviews and applies the changes made to the rows of a table. Tables that
+ * cannot be edited have none.
+ */
+export interface TableEditor {
+  getEditCode: (edits: TableEdits) => Promise<string>;
+  commitEdits: (edits: TableEdits) => Promise<void>;
+}
+
 class DataViewer extends WebView {
   private _uid: string;
   private _extensionUri: Uri;
   private _paginator: PaginatedResultSet<{ data: TableData; error?: Error }>;
   private _fetchColumns: () => Column[];
+  private _exportRows: (options: Omit<TableExportOptions, "format">) => void;
+  private _editor?: TableEditor;
 
   public constructor(
     extensionUri: Uri,
     uid: string,
     paginator: PaginatedResultSet<{ data: TableData; error?: Error }>,
     fetchColumns: () => Column[],
+    exportRows: (options: Omit<TableExportOptions, "format">) => void,
+    editor?: TableEditor,
   ) {
     super();
     this._uid = uid;
     this._extensionUri = extensionUri;
     this._paginator = paginator;
     this._fetchColumns = fetchColumns;
+    this._exportRows = exportRows;
+    this._editor = editor;
   }
 
   public render(): WebView {
@@ -66,7 +86,13 @@ class DataViewer extends WebView {
     event: Event & {
       key: string;
       command: string;
-      data?: { start?: number; end?: number };
+      data?: {
+        start?: number;
+        end?: number;
+        query?: TableQuery;
+        rows?: number[];
+        edits?: TableEdits;
+      };
     },
   ): Promise<void> {
     switch (event.command) {
@@ -74,6 +100,7 @@ class DataViewer extends WebView {
         const { data, error } = await this._paginator.getData(
           event.data!.start!,
           event.data!.end!,
+          event.data!.query,
         );
         if (error) {
           await window.showErrorMessage(error.message);
@@ -85,6 +112,29 @@ class DataViewer extends WebView {
         });
         break;
       }
+      case "request:export":
+        this._exportRows({
+          query: event.data?.query,
+          rows: event.data?.rows,
+        });
+        break;
+      case "request:loadEditable":
+        this.panel.webview.postMessage({
+          key: event.key,
+          command: "response:loadEditable",
+          data: !!this._editor,
+        });
+        break;
+      case "request:previewEdits":
+        await this.respond(event.key, "response:previewEdits", () =>
+          this._editor!.getEditCode(event.data!.edits!),
+        );
+        break;
+      case "request:commitEdits":
+        await this.respond(event.key, "response:commitEdits", () =>
+          this._editor!.commitEdits(event.data!.edits!),
+        );
+        break;
       case "request:loadColumns":
         this.panel.webview.postMessage({
           key: event.key,
@@ -96,6 +146,20 @@ class DataViewer extends WebView {
         break;
     }
   }
+
+  // Posts the result of a request to the webview, or the message of its error
+  private async respond(
+    key: string,
+    command: string,
+    request: () => Promise<unknown>,
+  ): Promise<void> {
+    try {
+      const data = await request();
+      this.panel.webview.postMessage({ command, key, data });
+    } catch (error) {
+      this.panel.webview.postMessage({ command, key, error: error.message });
+    }
+  }
 }
 
 export default DataViewer;
@@ -0,0 +1,89 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Uri } from "vscode";
+
+import { TableComparison } from "../components/LibraryNavigator/types";
+import { WebView } from "./WebviewManager";
+
+class TableComparisonViewer extends WebView {
+  private _title: string;
+  private _extensionUri: Uri;
+  private _fetchComparison: () => Promise<TableComparison>;
+
+  public constructor(
+    extensionUri: Uri,
+    title: string,
+    fetchComparison: () => Promise<TableComparison>,
+  ) {
+    super();
+    this._title = title;
+    this._extensionUri = extensionUri;
+    this._fetchComparison = fetchComparison;
+  }
+
+  public render(): WebView {
+    const policies = [
+      `default-src 'none';`,
+      `font-src ${this.panel.webview.cspSource} data:;`,
+      `img-src ${this.panel.webview.cspSource} data:;`,
+      `script-src ${this.panel.webview.cspSource};`,
+      `style-src ${this.panel.webview.cspSource};`,
+    ];
+    this.panel.webview.html = `
+      <!DOCTYPE html>
+      <html lang="en">
+        <head>
+          <meta charset="UTF-8" />
+          <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+          <meta http-equiv="Content-Security-Policy" content="${policies.join(
+            " ",
+          )}" />
+          <link rel="stylesheet" href="${this.webviewUri(
+            this._extensionUri,
+            "TableCompare.css",
+          )}">
+          <title>${this._title}</title>
+        </head>
+        <body>
+          <div class="table-compare"></div>
+          <script type="module" src="${this.webviewUri(
+            this._extensionUri,
+            "TableCompare.js",
+          )}"></script>
+        </body>
+      </html>
+    `;
+
+    return this;
+  }
+
+  public async processMessage(
+    event: Event & {
+      key: string;
+      command: string;
+    },
+  ): Promise<void> {
+    switch (event.command) {
+      case "request:loadComparison": {
+        try {
+          this.panel.webview.postMessage({
+            command: "response:loadComparison",
+            key: event.key,
+            data: await this._fetchComparison(),
+          });
+        } catch (error) {
+          this.panel.webview.postMessage({
+            command: "response:loadComparison",
+            key: event.key,
+            error: error.message,
+          });
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+}
+
+export default TableComparisonViewer;
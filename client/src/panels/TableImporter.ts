@@ -0,0 +1,106 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Uri } from "vscode";
+
+import {
+  ImportColumn,
+  TableImportPreview,
+} from "../components/LibraryNavigator/types";
+import { WebView } from "./WebviewManager";
+
+class TableImporter extends WebView {
+  private _title: string;
+  private _extensionUri: Uri;
+  private _preview: TableImportPreview;
+  private _importTable: (
+    name: string,
+    columns: ImportColumn[],
+  ) => Promise<void>;
+
+  public constructor(
+    extensionUri: Uri,
+    title: string,
+    preview: TableImportPreview,
+    importTable: (name: string, columns: ImportColumn[]) => Promise<void>,
+  ) {
+    super();
+    this._title = title;
+    this._extensionUri = extensionUri;
+    this._preview = preview;
+    this._importTable = importTable;
+  }
+
+  public render(): WebView {
+    const policies = [
+      `default-src 'none';`,
+      `font-src ${this.panel.webview.cspSource} data:;`,
+      `img-src ${this.panel.webview.cspSource} data:;`,
+      `script-src ${this.panel.webview.cspSource};`,
+      `style-src ${this.panel.webview.cspSource};`,
+    ];
+    this.panel.webview.html = `
+      <!DOCTYPE html>
+      <html lang="en">
+        <head>
+          <meta charset="UTF-8" />
+          <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+          <meta http-equiv="Content-Security-Policy" content="${policies.join(
+            " ",
+          )}" />
+          <link rel="stylesheet" href="${this.webviewUri(
+            this._extensionUri,
+            "TableImport.css",
+          )}">
+          <title>${this._title}</title>
+        </head>
+        <body>
+          <div class="table-import"></div>
+          <script type="module" src="${this.webviewUri(
+            this._extensionUri,
+            "TableImport.js",
+          )}"></script>
+        </body>
+      </html>
+    `;
+
+    return this;
+  }
+
+  public async processMessage(
+    event: Event & {
+      key: string;
+      command: string;
+      data?: { name: string; columns: ImportColumn[] };
+    },
+  ): Promise<void> {
+    switch (event.command) {
+      case "request:loadPreview":
+        this.panel.webview.postMessage({
+          command: "response:loadPreview",
+          key: event.key,
+          data: this._preview,
+        });
+        break;
+      case "request:import": {
+        try {
+          await this._importTable(event.data.name, event.data.columns);
+          this.dispose();
+        } catch (error) {
+          this.panel.webview.postMessage({
+            command: "response:import",
+            key: event.key,
+            error: error.message,
+          });
+        }
+        break;
+      }
+      case "request:cancel":
+        this.dispose();
+        break;
+      default:
+        break;
+    }
+  }
+}
+
+export default TableImporter;
@@ -2,14 +2,21 @@
 // SPDX-License-Identifier: Apache-2.0
 import { StateCreator } from "zustand/vanilla";
 
+import { QueuedRun } from "./initialState";
 import { type Store } from "./store";
 
 export interface RunActions {
   setIsExecutingCode: (isExecuting: boolean, isUserExecuting?: boolean) => void;
+  enqueueRun: (run: QueuedRun) => void;
+  dequeueRun: () => QueuedRun | undefined;
+  moveQueuedRun: (id: string, offset: number) => void;
+  cancelQueuedRun: (id: string) => void;
+  cancelQueue: () => void;
 }
 
 export const createRunActions: StateCreator<Store, [], [], RunActions> = (
   set,
+  get,
 ) => ({
   setIsExecutingCode: (isExecutingCode, isUserExecuting = true) => {
     set({
@@ -17,4 +24,35 @@ export const createRunActions: StateCreator<Store, [], [], RunActions> = (
       isUserExecuting,
     });
   },
+  enqueueRun: (run) => {
+    set({ queue: [...get().queue, run] });
+  },
+  dequeueRun: () => {
+    const [run, ...queue] = get().queue;
+    set({ queue });
+    return run;
+  },
+  moveQueuedRun: (id, offset) => {
+    const queue = [...get().queue];
+    const index = queue.findIndex((run) => run.id === id);
+    const newIndex = Math.min(Math.max(index + offset, 0), queue.length - 1);
+    if (index === -1 || newIndex === index) {
+      return;
+    }
+    queue.splice(newIndex, 0, ...queue.splice(index, 1));
+    set({ queue });
+  },
+  cancelQueuedRun: (id) => {
+    const run = get().queue.find((run) => run.id === id);
+    if (!run) {
+      return;
+    }
+    set({ queue: get().queue.filter((item) => item !== run) });
+    run.cancel();
+  },
+  cancelQueue: () => {
+    const queue = get().queue;
+    set({ queue: [] });
+    queue.forEach((run) => run.cancel());
+  },
 });
@@ -1,11 +1,23 @@
 // Copyright © 2022-2024, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
+export interface QueuedRun {
+  id: string;
+  label: string;
+  queuedAt: number;
+  // called when it is the turn of the run
+  start: () => void;
+  // called when the run is removed from the queue without running
+  cancel: () => void;
+}
+
 export interface RunState {
   isExecutingCode: boolean;
   isUserExecuting: boolean;
+  queue: QueuedRun[];
 }
 
 export const initialState: RunState = {
   isExecutingCode: false,
   isUserExecuting: false,
+  queue: [],
 };
@@ -6,6 +6,11 @@ const selectIsExecutingCode = (store: RunState) => {
   return store.isExecutingCode;
 };
 
+const selectQueue = (store: RunState) => {
+  return store.queue;
+};
+
 export const runSelectors = {
   selectIsExecutingCode,
+  selectQueue,
 };
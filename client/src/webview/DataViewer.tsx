@@ -1,12 +1,12 @@
 // Copyright © 2023, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { createRoot } from "react-dom/client";
 
 import { AgGridReact } from "ag-grid-react";
 
 import ".";
-import useDataViewer from "./useDataViewer";
+import useDataViewer, { TableChange } from "./useDataViewer";
 
 import "./DataViewer.css";
 import "ag-grid-community/styles/ag-grid.css";
@@ -19,8 +19,177 @@ const gridStyles = {
   width: "100%",
 };
 
+const FilterBar = ({
+  where,
+  onApply,
+  disabled,
+  selectedRowCount,
+  onExport,
+}: {
+  where: string;
+  onApply: (where: string) => void;
+  disabled: boolean;
+  selectedRowCount: number;
+  onExport: () => void;
+}) => {
+  const [value, setValue] = useState(where);
+  useEffect(() => setValue(where), [where]);
+
+  return (
+    <form
+      className="filter-bar"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onApply(value);
+      }}
+    >
+      <input
+        aria-label="WHERE expression"
+        className="filter-input"
+        onChange={(event) => setValue(event.target.value)}
+        disabled={disabled}
+        placeholder="Filter rows with a WHERE expression, e.g. age > 12 and sex = 'F'"
+        spellCheck={false}
+        type="text"
+        value={value}
+      />
+      <button disabled={disabled} type="submit">
+        Apply
+      </button>
+      <button
+        disabled={disabled || (!where && !value)}
+        onClick={() => onApply("")}
+        type="button"
+      >
+        Clear
+      </button>
+      <button onClick={onExport} type="button">
+        {selectedRowCount > 0
+          ? `Export ${selectedRowCount} Selected Rows…`
+          : "Export…"}
+      </button>
+    </form>
+  );
+};
+
+const EditBar = ({
+  canEditRows,
+  changeCount,
+  selectedRowCount,
+  onAddRow,
+  onDeleteRows,
+  onDiscard,
+  onReview,
+}: {
+  canEditRows: boolean;
+  changeCount: number;
+  selectedRowCount: number;
+  onAddRow: () => void;
+  onDeleteRows: () => void;
+  onDiscard: () => void;
+  onReview: () => void;
+}) => (
+  <div className="edit-bar">
+    <button disabled={!canEditRows} onClick={onAddRow} type="button">
+      Add Row
+    </button>
+    <button
+      disabled={!canEditRows || selectedRowCount === 0}
+      onClick={onDeleteRows}
+      type="button"
+    >
+      Delete Selected Rows
+    </button>
+    <button disabled={changeCount === 0} onClick={onDiscard} type="button">
+      Discard Changes
+    </button>
+    <button disabled={changeCount === 0} onClick={onReview} type="button">
+      {changeCount > 0 ? `Review ${changeCount} Changes…` : "Review Changes…"}
+    </button>
+    <span className="edit-message">
+      {canEditRows
+        ? "Double-click a cell to change its value."
+        : "Clear the filter and the sort order to edit rows."}
+    </span>
+  </div>
+);
+
+const ChangeReview = ({
+  changes,
+  code,
+  error,
+  saving,
+  onSave,
+  onCancel,
+}: {
+  changes: TableChange[];
+  code: string;
+  error: string;
+  saving: boolean;
+  onSave: () => void;
+  onCancel: () => void;
+}) => (
+  <div className="change-review">
+    <table className="changes">
+      <thead>
+        <tr>
+          <th>Row</th>
+          <th>Column</th>
+          <th>Before</th>
+          <th>After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map(({ row, column, before, after }, index) => (
+          <tr key={index}>
+            <td>{row ?? "New"}</td>
+            <td>{column || (row ? "Deleted" : "Added")}</td>
+            <td className="before">{before}</td>
+            <td className="after">{after}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <details>
+      <summary>SAS code</summary>
+      <pre>{code}</pre>
+    </details>
+    {error && <p className="error">{error}</p>}
+    <div className="edit-bar">
+      <button disabled={saving} onClick={onSave} type="button">
+        {saving ? "Saving…" : "Save Changes"}
+      </button>
+      <button disabled={saving} onClick={onCancel} type="button">
+        Back
+      </button>
+    </div>
+  </div>
+);
+
 const DataViewer = () => {
-  const { columns, onGridReady } = useDataViewer();
+  const {
+    columns,
+    onGridReady,
+    where,
+    applyWhere,
+    selectedRowCount,
+    exportRows,
+    editable,
+    canEditRows,
+    changeCount,
+    onCellValueChanged,
+    rowClassRules,
+    addRow,
+    deleteRows,
+    clearChanges,
+    reviewChanges,
+    commitChanges,
+  } = useDataViewer();
+  const [review, setReview] = useState<
+    { changes: TableChange[]; code: string } | undefined
+  >();
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
   const theme = useMemo(() => {
     const themeKind = document
       .querySelector("[data-vscode-theme-kind]")
@@ -41,19 +210,74 @@ const DataViewer = () => {
   }
 
   return (
-    <div className={`ag-grid-wrapper ${theme}`} style={gridStyles}>
-      <AgGridReact
-        cacheBlockSize={100}
-        columnDefs={columns}
-        defaultColDef={{
-          sortable: false,
-        }}
-        infiniteInitialRowCount={100}
-        maxBlocksInCache={10}
-        onGridReady={onGridReady}
-        rowModelType="infinite"
-        theme="legacy"
+    <div className="data-viewer-container">
+      <FilterBar
+        where={where}
+        onApply={applyWhere}
+        disabled={changeCount > 0}
+        selectedRowCount={selectedRowCount}
+        onExport={exportRows}
       />
+      {editable && (
+        <EditBar
+          canEditRows={canEditRows}
+          changeCount={changeCount}
+          selectedRowCount={selectedRowCount}
+          onAddRow={addRow}
+          onDeleteRows={deleteRows}
+          onDiscard={clearChanges}
+          onReview={() => {
+            setError("");
+            reviewChanges()
+              .then(setReview)
+              .catch((error) => setError(error.message));
+          }}
+        />
+      )}
+      {!review && error && <p className="error">{error}</p>}
+      {review && (
+        <ChangeReview
+          {...review}
+          error={error}
+          saving={saving}
+          onSave={() => {
+            setSaving(true);
+            setError("");
+            commitChanges()
+              .then(() => setReview(undefined))
+              .catch((error) => setError(error.message))
+              .finally(() => setSaving(false));
+          }}
+          onCancel={() => setReview(undefined)}
+        />
+      )}
+      <div
+        className={`ag-grid-wrapper ${theme}${review ? " hidden" : ""}`}
+        style={gridStyles}
+      >
+        <AgGridReact
+          cacheBlockSize={100}
+          columnDefs={columns}
+          defaultColDef={{
+            // the changes are made to rows by their position
+            sortable: changeCount === 0,
+          }}
+          infiniteInitialRowCount={100}
+          maxBlocksInCache={10}
+          onCellValueChanged={onCellValueChanged}
+          onGridReady={onGridReady}
+          rowClassRules={rowClassRules}
+          rowModelType="infinite"
+          rowSelection={{
+            mode: "multiRow",
+            checkboxes: false,
+            headerCheckbox: false,
+            enableClickSelection: true,
+          }}
+          stopEditingWhenCellsLoseFocus
+          theme="legacy"
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,318 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { useEffect, useState } from "react";
+import { createRoot } from "react-dom/client";
+
+import { v4 } from "uuid";
+
+import ".";
+import {
+  ColumnAttributes,
+  ColumnComparison,
+  TableCell,
+  TableComparison,
+} from "../components/LibraryNavigator/types";
+
+import "./TableCompare.css";
+
+declare const acquireVsCodeApi;
+const vscode = acquireVsCodeApi();
+
+const ATTRIBUTES: (keyof ColumnAttributes)[] = [
+  "type",
+  "length",
+  "format",
+  "label",
+];
+
+const fetchComparison = (): Promise<TableComparison> => {
+  const requestKey = v4();
+  vscode.postMessage({ command: "request:loadComparison", key: requestKey });
+
+  return new Promise((resolve, reject) => {
+    const commandHandler = (event) => {
+      if (
+        event.data.key !== requestKey ||
+        event.data.command !== "response:loadComparison"
+      ) {
+        return;
+      }
+      window.removeEventListener("message", commandHandler);
+      if (event.data.error) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.data);
+      }
+    };
+
+    window.addEventListener("message", commandHandler);
+  });
+};
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+const formatValue = (value: TableCell) => (value === null ? "." : `${value}`);
+
+const isDifferent = ({ base, compare }: ColumnComparison) =>
+  !base ||
+  !compare ||
+  ATTRIBUTES.some((attribute) => base[attribute] !== compare[attribute]);
+
+const Attributes = ({
+  attributes,
+  other,
+}: {
+  attributes?: ColumnAttributes;
+  other?: ColumnAttributes;
+}) => {
+  if (!attributes) {
+    return <td className="missing">Not in table</td>;
+  }
+
+  return (
+    <td>
+      {ATTRIBUTES.filter((attribute) => attributes[attribute] !== "").map(
+        (attribute) => (
+          <span
+            className={
+              other && other[attribute] !== attributes[attribute]
+                ? "attribute different"
+                : "attribute"
+            }
+            key={attribute}
+            title={attribute}
+          >
+            {attribute === "type"
+              ? attributes.type === "char"
+                ? "Character"
+                : "Numeric"
+              : attributes[attribute]}
+          </span>
+        ),
+      )}
+    </td>
+  );
+};
+
+const Columns = ({
+  comparison,
+  selectedColumn,
+  onSelectColumn,
+}: {
+  comparison: TableComparison;
+  selectedColumn: string;
+  onSelectColumn: (column: string) => void;
+}) => (
+  <table className="comparison">
+    <thead>
+      <tr>
+        <th>Column</th>
+        <th>{comparison.base}</th>
+        <th>{comparison.compare}</th>
+        <th className="number">Unequal values</th>
+      </tr>
+    </thead>
+    <tbody>
+      {comparison.columns.map((column) => (
+        <tr
+          className={isDifferent(column) ? "different-row" : ""}
+          key={column.name}
+        >
+          <td>{column.name}</td>
+          <Attributes attributes={column.base} other={column.compare} />
+          <Attributes attributes={column.compare} other={column.base} />
+          <td className="number">
+            {column.unequalCount > 0 ? (
+              <button
+                className={
+                  selectedColumn === column.name ? "link selected" : "link"
+                }
+                onClick={() =>
+                  onSelectColumn(
+                    selectedColumn === column.name ? "" : column.name,
+                  )
+                }
+                title="Show the rows with unequal values of this column"
+                type="button"
+              >
+                {formatNumber(column.unequalCount)}
+              </button>
+            ) : column.unequalCount === 0 ? (
+              "0"
+            ) : (
+              "–"
+            )}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const UnequalRows = ({
+  comparison,
+  selectedColumn,
+}: {
+  comparison: TableComparison;
+  selectedColumn: string;
+}) => {
+  const rows = comparison.unequalRows.filter(
+    ({ base, compare }) =>
+      !selectedColumn || base[selectedColumn] !== compare[selectedColumn],
+  );
+  const columns = comparison.columns
+    .filter(({ unequalCount }) => unequalCount > 0)
+    .map(({ name }) => name)
+    .filter((name) => !selectedColumn || name === selectedColumn);
+
+  return (
+    <table className="comparison">
+      <thead>
+        <tr>
+          {comparison.keys.map((key) => (
+            <th className="key" key={key}>
+              {key}
+            </th>
+          ))}
+          {columns.map((column) => (
+            <th key={column}>{column}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ base, compare }, index) => (
+          <tr key={index}>
+            {comparison.keys.map((key) => (
+              <td className="key" key={key}>
+                {formatValue(base[key])}
+              </td>
+            ))}
+            {columns.map((column) =>
+              base[column] === compare[column] ? (
+                <td key={column}>{formatValue(base[column])}</td>
+              ) : (
+                <td key={column}>
+                  <span className="before">{formatValue(base[column])}</span>{" "}
+                  <span className="after">{formatValue(compare[column])}</span>
+                </td>
+              ),
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const UnmatchedRows = ({ comparison }: { comparison: TableComparison }) => (
+  <table className="comparison">
+    <thead>
+      <tr>
+        <th>Table</th>
+        {comparison.keys.map((key) => (
+          <th className="key" key={key}>
+            {key}
+          </th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {comparison.unmatchedRows.map(({ table, keys }, index) => (
+        <tr key={index}>
+          <td>{table === "base" ? comparison.base : comparison.compare}</td>
+          {comparison.keys.map((key) => (
+            <td className="key" key={key}>
+              {formatValue(keys[key])}
+            </td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const TableCompare = () => {
+  const [comparison, setComparison] = useState<TableComparison | undefined>();
+  const [error, setError] = useState("");
+  const [selectedColumn, setSelectedColumn] = useState("");
+
+  useEffect(() => {
+    fetchComparison().then(setComparison, (error) => setError(error.message));
+  }, []);
+
+  if (error) {
+    return <p className="message">{error}</p>;
+  }
+  if (!comparison) {
+    return <p className="message">Comparing the tables…</p>;
+  }
+
+  const differentColumns = comparison.columns.filter(isDifferent).length;
+  const unmatchedRowCount =
+    comparison.baseOnlyRowCount + comparison.compareOnlyRowCount;
+  const identical =
+    differentColumns === 0 &&
+    comparison.unequalRowCount === 0 &&
+    unmatchedRowCount === 0;
+
+  return (
+    <>
+      <p className={identical ? "summary" : "summary different"}>
+        {identical
+          ? "The tables have the same columns and values."
+          : `${differentColumns} columns with different attributes, ${formatNumber(comparison.unequalRowCount)} rows with unequal values and ${formatNumber(unmatchedRowCount)} rows in one table only.`}
+      </p>
+      <p className="message">
+        {formatNumber(comparison.baseRowCount)} rows in {comparison.base} and{" "}
+        {formatNumber(comparison.compareRowCount)} rows in {comparison.compare},
+        matched{" "}
+        {comparison.keys.length
+          ? `by ${comparison.keys.join(", ")}`
+          : "by their position"}
+        .
+      </p>
+
+      <h2>Columns</h2>
+      <Columns
+        comparison={comparison}
+        onSelectColumn={setSelectedColumn}
+        selectedColumn={selectedColumn}
+      />
+
+      {comparison.unequalRowCount > 0 && (
+        <>
+          <h2>
+            Rows with unequal values
+            {selectedColumn && ` of ${selectedColumn}`}
+          </h2>
+          {comparison.unequalRowCount > comparison.unequalRows.length && (
+            <p className="message">
+              The first {formatNumber(comparison.unequalRows.length)} of{" "}
+              {formatNumber(comparison.unequalRowCount)} rows.
+            </p>
+          )}
+          <UnequalRows
+            comparison={comparison}
+            selectedColumn={selectedColumn}
+          />
+        </>
+      )}
+
+      {comparison.unmatchedRows.length > 0 && (
+        <>
+          <h2>Rows in one table only</h2>
+          {unmatchedRowCount > comparison.unmatchedRows.length && (
+            <p className="message">
+              The first {formatNumber(comparison.unmatchedRows.length)} of{" "}
+              {formatNumber(unmatchedRowCount)} rows.
+            </p>
+          )}
+          <UnmatchedRows comparison={comparison} />
+        </>
+      )}
+    </>
+  );
+};
+
+const root = createRoot(document.querySelector(".table-compare"));
+root.render(<TableCompare />);
@@ -0,0 +1,255 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { useEffect, useState } from "react";
+import { createRoot } from "react-dom/client";
+
+import { v4 } from "uuid";
+
+import ".";
+import {
+  ImportColumn,
+  TableImportPreview,
+} from "../components/LibraryNavigator/types";
+
+import "./TableImport.css";
+
+declare const acquireVsCodeApi;
+const vscode = acquireVsCodeApi();
+
+const NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]{0,31}$/;
+const FORMAT_REGEX = /^\$?([A-Za-z_][A-Za-z0-9_]*?)?\d*\.\d*$/;
+const MAX_CHARACTER_LENGTH = 32767;
+const DEFAULT_CHARACTER_LENGTH = 32;
+
+const sendRequest = <T,>(command: string, data?: unknown): Promise<T> => {
+  const requestKey = v4();
+  vscode.postMessage({ command: `request:${command}`, key: requestKey, data });
+
+  return new Promise((resolve, reject) => {
+    const commandHandler = (event) => {
+      if (
+        event.data.key !== requestKey ||
+        event.data.command !== `response:${command}`
+      ) {
+        return;
+      }
+      window.removeEventListener("message", commandHandler);
+      if (event.data.error) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.data);
+      }
+    };
+
+    window.addEventListener("message", commandHandler);
+  });
+};
+
+/**
+ * Returns the first problem of the table name and column definitions, or
+ * an empty string when they can be imported.
+ */
+const validate = (name: string, columns: ImportColumn[]): string => {
+  if (!NAME_REGEX.test(name)) {
+    return "The table name must start with a letter or an underscore, and have up to 32 letters, digits and underscores.";
+  }
+
+  const names: string[] = [];
+  for (const column of columns) {
+    if (!NAME_REGEX.test(column.name)) {
+      return `The column name "${column.name}" must start with a letter or an underscore, and have up to 32 letters, digits and underscores.`;
+    }
+    if (names.includes(column.name.toUpperCase())) {
+      return `There is more than one column named ${column.name}.`;
+    }
+    names.push(column.name.toUpperCase());
+
+    if (
+      column.type === "char" &&
+      !(
+        Number.isInteger(column.length) &&
+        column.length >= 1 &&
+        column.length <= MAX_CHARACTER_LENGTH
+      )
+    ) {
+      return `The length of ${column.name} must be a whole number from 1 to ${MAX_CHARACTER_LENGTH}.`;
+    }
+    if (column.format && !FORMAT_REGEX.test(column.format)) {
+      return `The format of ${column.name} is not a SAS format, e.g. DATE9. or COMMA12.2.`;
+    }
+  }
+
+  return "";
+};
+
+const ColumnRow = ({
+  column,
+  samples,
+  onChange,
+}: {
+  column: ImportColumn;
+  samples: string[];
+  onChange: (column: ImportColumn) => void;
+}) => (
+  <tr>
+    <td>
+      <input
+        aria-label="Name"
+        onChange={(event) => onChange({ ...column, name: event.target.value })}
+        spellCheck={false}
+        type="text"
+        value={column.name}
+      />
+    </td>
+    <td>
+      <select
+        aria-label="Type"
+        onChange={(event) =>
+          onChange(
+            event.target.value === "char"
+              ? { ...column, type: "char", length: DEFAULT_CHARACTER_LENGTH }
+              : { ...column, type: "num", length: 8 },
+          )
+        }
+        value={column.type}
+      >
+        <option value="char">Character</option>
+        <option value="num">Numeric</option>
+      </select>
+    </td>
+    <td>
+      <input
+        aria-label="Length"
+        className="length"
+        disabled={column.type === "num"}
+        max={MAX_CHARACTER_LENGTH}
+        min={1}
+        onChange={(event) =>
+          onChange({ ...column, length: Number(event.target.value) })
+        }
+        type="number"
+        value={column.length}
+      />
+    </td>
+    <td>
+      <input
+        aria-label="Format"
+        onChange={(event) =>
+          onChange({ ...column, format: event.target.value.trim() })
+        }
+        placeholder={column.type === "char" ? "$CHAR." : "BEST12."}
+        spellCheck={false}
+        type="text"
+        value={column.format ?? ""}
+      />
+    </td>
+    <td>
+      <input
+        aria-label="Label"
+        onChange={(event) => onChange({ ...column, label: event.target.value })}
+        type="text"
+        value={column.label ?? ""}
+      />
+    </td>
+    <td className="samples" title={samples.join("\n")}>
+      {samples.join(", ")}
+    </td>
+  </tr>
+);
+
+const TableImport = () => {
+  const [preview, setPreview] = useState<TableImportPreview | undefined>();
+  const [name, setName] = useState("");
+  const [columns, setColumns] = useState<ImportColumn[]>([]);
+  const [error, setError] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    sendRequest<TableImportPreview>("loadPreview").then((preview) => {
+      setPreview(preview);
+      setName(preview.name);
+      setColumns(preview.columns);
+    });
+  }, []);
+
+  if (!preview) {
+    return <p className="message">Reading the file…</p>;
+  }
+
+  const problem = validate(name, columns);
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        setImporting(true);
+        setError("");
+        // the panel closes when the table is created
+        sendRequest("import", { name, columns }).catch((error) => {
+          setError(error.message);
+          setImporting(false);
+        });
+      }}
+    >
+      <p className="message">
+        {preview.rowCount.toLocaleString()} rows and {columns.length} columns
+        from {preview.fileName}. An existing table with the same name is
+        replaced.
+      </p>
+      <label className="table-name">
+        Table name
+        <input
+          onChange={(event) => setName(event.target.value)}
+          spellCheck={false}
+          type="text"
+          value={name}
+        />
+      </label>
+      <table className="columns">
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Type</th>
+            <th>Length</th>
+            <th>Format</th>
+            <th>Label</th>
+            <th>Values</th>
+          </tr>
+        </thead>
+        <tbody>
+          {columns.map((column, index) => (
+            <ColumnRow
+              column={column}
+              key={index}
+              onChange={(changedColumn) =>
+                setColumns(
+                  columns.map((column, columnIndex) =>
+                    columnIndex === index ? changedColumn : column,
+                  ),
+                )
+              }
+              samples={preview.samples[index] ?? []}
+            />
+          ))}
+        </tbody>
+      </table>
+      {(error || problem) && <p className="error">{error || problem}</p>}
+      <div className="actions">
+        <button disabled={!!problem || importing} type="submit">
+          {importing ? "Importing…" : "Import"}
+        </button>
+        <button
+          className="secondary"
+          disabled={importing}
+          onClick={() => vscode.postMessage({ command: "request:cancel" })}
+          type="button"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const root = createRoot(document.querySelector(".table-import"));
+root.render(<TableImport />);
@@ -0,0 +1,160 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { useEffect, useState } from "react";
+import { createRoot } from "react-dom/client";
+
+import { v4 } from "uuid";
+
+import ".";
+import {
+  ColumnProfile,
+  TableProfile as TableProfileData,
+} from "../components/LibraryNavigator/types";
+
+import "./TableProfile.css";
+
+declare const acquireVsCodeApi;
+const vscode = acquireVsCodeApi();
+
+const fetchProfile = (): Promise<TableProfileData> => {
+  const requestKey = v4();
+  vscode.postMessage({ command: "request:loadProfile", key: requestKey });
+
+  return new Promise((resolve, reject) => {
+    const commandHandler = (event) => {
+      if (
+        event.data.key !== requestKey ||
+        event.data.command !== "response:loadProfile"
+      ) {
+        return;
+      }
+      window.removeEventListener("message", commandHandler);
+      if (event.data.error) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.data);
+      }
+    };
+
+    window.addEventListener("message", commandHandler);
+  });
+};
+
+const formatNumber = (value: number | undefined) =>
+  value === undefined || value === null
+    ? "."
+    : Number.isInteger(value)
+      ? value.toLocaleString()
+      : value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const Histogram = ({ histogram }: Pick<ColumnProfile, "histogram">) => {
+  const maxCount = Math.max(...histogram.map(({ count }) => count), 1);
+
+  return (
+    <div className="histogram">
+      {histogram.map(({ start, end, count }) => (
+        <div
+          className="histogram-bin"
+          key={start}
+          title={`${formatNumber(start)} – ${formatNumber(end)}: ${formatNumber(count)}`}
+        >
+          <div
+            className="histogram-bar"
+            style={{ height: `${(count / maxCount) * 100}%` }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const TopValues = ({ topValues }: Pick<ColumnProfile, "topValues">) => (
+  <table className="top-values">
+    <tbody>
+      {topValues.map(({ value, count, percent }) => (
+        <tr key={value}>
+          <td className="top-value">{value === "" ? "." : value}</td>
+          <td className="top-value-bar">
+            <div style={{ width: `${percent}%` }} />
+          </td>
+          <td className="number">{formatNumber(count)}</td>
+          <td className="number">{formatNumber(percent)}%</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const ColumnCard = ({ column }: { column: ColumnProfile }) => {
+  const stats: [string, string][] = [
+    ["Type", column.type === "char" ? "Character" : "Numeric"],
+    ["Length", formatNumber(column.length)],
+    ["Format", column.format || "–"],
+    ["N", formatNumber(column.n)],
+    ["Missing", formatNumber(column.missing)],
+    ["Distinct", formatNumber(column.distinct)],
+  ];
+  if (column.type === "num") {
+    stats.push(
+      ["Min", formatNumber(column.min)],
+      ["Max", formatNumber(column.max)],
+      ["Mean", formatNumber(column.mean)],
+    );
+  }
+
+  return (
+    <section className="column-card">
+      <h2>
+        <span className={`header-icon ${column.type}`} />
+        {column.name}
+      </h2>
+      {column.label && <p className="column-label">{column.label}</p>}
+      <dl className="column-stats">
+        {stats.map(([name, value]) => (
+          <div key={name}>
+            <dt>{name}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {column.histogram?.length > 0 && (
+        <Histogram histogram={column.histogram} />
+      )}
+      {column.topValues?.length > 0 && (
+        <TopValues topValues={column.topValues} />
+      )}
+    </section>
+  );
+};
+
+const TableProfile = () => {
+  const [profile, setProfile] = useState<TableProfileData | undefined>();
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchProfile().then(setProfile, (error) => setError(error.message));
+  }, []);
+
+  if (error) {
+    return <p className="message">{error}</p>;
+  }
+  if (!profile) {
+    return <p className="message">Computing column statistics…</p>;
+  }
+
+  return (
+    <>
+      <p className="row-count">
+        {formatNumber(profile.rowCount)} rows, {profile.columns.length} columns
+      </p>
+      <div className="column-cards">
+        {profile.columns.map((column) => (
+          <ColumnCard column={column} key={column.name} />
+        ))}
+      </div>
+    </>
+  );
+};
+
+const root = createRoot(document.querySelector(".table-profile"));
+root.render(<TableProfile />);
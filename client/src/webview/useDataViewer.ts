@@ -1,17 +1,25 @@
 // Copyright © 2023, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import {
   AllCommunityModule,
+  CellClassParams,
+  CellValueChangedEvent,
   ColDef,
+  GridApi,
   GridReadyEvent,
   IGetRowsParams,
   ModuleRegistry,
+  RowClassParams,
 } from "ag-grid-community";
 import { v4 } from "uuid";
 
-import { TableData } from "../components/LibraryNavigator/types";
+import {
+  TableData,
+  TableEdits,
+  TableQuery,
+} from "../components/LibraryNavigator/types";
 import { Column } from "../connection/rest/api/compute";
 import columnHeaderTemplate from "./columnHeaderTemplate";
 
@@ -34,12 +42,16 @@ const clearQueryTimeout = (): void => {
   clearTimeout(queryTableDataTimeoutId);
   queryTableDataTimeoutId = null;
 };
-const queryTableData = (start: number, end: number): Promise<TableData> => {
+const queryTableData = (
+  start: number,
+  end: number,
+  query: TableQuery,
+): Promise<TableData> => {
   const requestKey = v4();
   vscode.postMessage({
     command: "request:loadData",
     key: requestKey,
-    data: { start, end },
+    data: { start, end, query },
   });
 
   return new Promise((resolve, reject) => {
@@ -95,15 +107,102 @@ const fetchColumns = (): Promise<Column[]> => {
   });
 };
 
+// Sends a request to the panel, and resolves with its response. Changes to
+// tables can take longer than a page of rows, so there is no timeout.
+const sendRequest = <T>(command: string, data?: unknown): Promise<T> => {
+  const requestKey = v4();
+  vscode.postMessage({ command: `request:${command}`, key: requestKey, data });
+
+  return new Promise((resolve, reject) => {
+    const commandHandler = (event) => {
+      if (
+        event.data.key !== requestKey ||
+        event.data.command !== `response:${command}`
+      ) {
+        return;
+      }
+      window.removeEventListener("message", commandHandler);
+      if (event.data.error) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.data);
+      }
+    };
+
+    window.addEventListener("message", commandHandler);
+  });
+};
+
+type RowValues = Record<string, string>;
+
+/**
+ * A change to review before it is saved. Added rows have no row number.
+ */
+export interface TableChange {
+  row?: number;
+  column: string;
+  before: string;
+  after: string;
+}
+
+const INSERTED_ROW_INDEX = "+";
+
+const toText = (value: unknown): string =>
+  value === null || value === undefined ? "" : `${value}`;
+
 const useDataViewer = () => {
   const [columns, setColumns] = useState<ColDef[]>([]);
+  const [where, setWhere] = useState("");
+  const [selectedRowCount, setSelectedRowCount] = useState(0);
+  const [editable, setEditable] = useState(false);
+  const [sorted, setSorted] = useState(false);
+  const [changeCount, setChangeCount] = useState(0);
+  const whereRef = useRef("");
+  const queryRef = useRef<TableQuery>({});
+  const gridApiRef = useRef<GridApi | null>(null);
+  const editableRef = useRef(false);
+  // the rows of the table, without the added rows
+  const rowCountRef = useRef(0);
+  // the changes, by the zero-based position of the rows in the table
+  const updatesRef = useRef(
+    new Map<number, { original: RowValues; values: RowValues }>(),
+  );
+  const deletesRef = useRef(new Map<number, RowValues>());
+  const insertsRef = useRef<RowValues[]>([]);
+
+  const updateChangeCount = () => {
+    setChangeCount(
+      [...updatesRef.current.values()].reduce(
+        (count, { values }) => count + Object.keys(values).length,
+        deletesRef.current.size + insertsRef.current.length,
+      ),
+    );
+    gridApiRef.current?.redrawRows();
+  };
 
   const onGridReady = useCallback(
     (event: GridReadyEvent) => {
+      gridApiRef.current = event.api;
+      // the selected rows are positions in the sorted rows
+      event.api.addEventListener("sortChanged", () => {
+        event.api.deselectAll();
+        setSorted(event.api.getColumnState().some(({ sort }) => sort !== null));
+      });
+      event.api.addEventListener("selectionChanged", () =>
+        setSelectedRowCount(event.api.getSelectedNodes().length),
+      );
       const dataSource = {
         rowCount: undefined,
         getRows: async (params: IGetRowsParams) => {
-          await queryTableData(params.startRow, params.endRow).then(
+          const query: TableQuery = {
+            where: whereRef.current,
+            orderBy: params.sortModel.map(({ colId, sort }) => ({
+              column: colId,
+              direction: sort,
+            })),
+          };
+          queryRef.current = query;
+          await queryTableData(params.startRow, params.endRow, query).then(
             ({ rows, count }: TableData) => {
               const rowData = rows.map(({ cells }) => {
                 const row = cells.reduce(
@@ -117,7 +216,27 @@ const useDataViewer = () => {
                 return row;
               });
 
-              params.successCallback(rowData, count);
+              // the changed values and the added rows are shown in place of
+              // the values of the table until they are saved
+              rowCountRef.current = count;
+              const inserts = insertsRef.current;
+              const lastRow = Math.min(params.endRow, count + inserts.length);
+              const pageData = [];
+              for (let index = params.startRow; index < lastRow; index++) {
+                pageData.push(
+                  index < count
+                    ? {
+                        ...rowData[index - params.startRow],
+                        ...updatesRef.current.get(index)?.values,
+                      }
+                    : {
+                        ...inserts[index - count],
+                        "#": INSERTED_ROW_INDEX,
+                      },
+                );
+              }
+
+              params.successCallback(pageData, count + inserts.length);
             },
           );
         },
@@ -128,6 +247,193 @@ const useDataViewer = () => {
     [columns],
   );
 
+  const onCellValueChanged = useCallback(
+    ({
+      rowIndex,
+      colDef: { field },
+      oldValue,
+      newValue,
+    }: CellValueChangedEvent) => {
+      const value = toText(newValue);
+      if (rowIndex >= rowCountRef.current) {
+        insertsRef.current[rowIndex - rowCountRef.current][field] = value;
+        updateChangeCount();
+        return;
+      }
+
+      const update = updatesRef.current.get(rowIndex) ?? {
+        original: {},
+        values: {},
+      };
+      if (!(field in update.values)) {
+        update.original[field] = toText(oldValue);
+      }
+      if (value === update.original[field]) {
+        delete update.values[field];
+        delete update.original[field];
+      } else {
+        update.values[field] = value;
+      }
+
+      if (Object.keys(update.values).length) {
+        updatesRef.current.set(rowIndex, update);
+      } else {
+        updatesRef.current.delete(rowIndex);
+      }
+      updateChangeCount();
+    },
+    [],
+  );
+
+  const rowClassRules = useMemo(
+    () => ({
+      "deleted-row": ({ node: { rowIndex } }: RowClassParams) =>
+        deletesRef.current.has(rowIndex),
+      "inserted-row": ({ node: { rowIndex } }: RowClassParams) =>
+        rowIndex >= rowCountRef.current,
+    }),
+    [],
+  );
+
+  // Adds an empty row after the rows of the table
+  const addRow = useCallback(() => {
+    const values = columns
+      .filter(({ field }) => field !== "#")
+      .reduce<RowValues>((row, { field }) => ({ ...row, [field]: "" }), {});
+    insertsRef.current.push(values);
+    updateChangeCount();
+    gridApiRef.current?.refreshInfiniteCache();
+    gridApiRef.current?.ensureIndexVisible(
+      rowCountRef.current + insertsRef.current.length - 1,
+      "bottom",
+    );
+  }, [columns]);
+
+  // Marks the selected rows of the table to be deleted, and removes the
+  // selected added rows. Selected rows that are already marked are kept.
+  const deleteRows = useCallback(() => {
+    const nodes = gridApiRef.current?.getSelectedNodes() ?? [];
+    const restore = nodes.every(({ rowIndex }) =>
+      deletesRef.current.has(rowIndex),
+    );
+    const inserted: number[] = [];
+    for (const { rowIndex, data } of nodes) {
+      if (rowIndex >= rowCountRef.current) {
+        inserted.push(rowIndex - rowCountRef.current);
+      } else if (restore) {
+        deletesRef.current.delete(rowIndex);
+      } else {
+        deletesRef.current.set(rowIndex, data);
+        updatesRef.current.delete(rowIndex);
+      }
+    }
+
+    insertsRef.current = insertsRef.current.filter(
+      (_values, index) => !inserted.includes(index),
+    );
+    gridApiRef.current?.deselectAll();
+    updateChangeCount();
+    if (inserted.length) {
+      gridApiRef.current?.refreshInfiniteCache();
+    }
+  }, []);
+
+  const clearChanges = useCallback(() => {
+    updatesRef.current.clear();
+    deletesRef.current.clear();
+    insertsRef.current = [];
+    updateChangeCount();
+    gridApiRef.current?.deselectAll();
+    gridApiRef.current?.refreshInfiniteCache();
+  }, []);
+
+  const getEdits = (): TableEdits => ({
+    updates: [...updatesRef.current].map(([index, { original, values }]) => ({
+      row: index + 1,
+      original,
+      values,
+    })),
+    deletes: [...deletesRef.current]
+      .sort(([a], [b]) => a - b)
+      .map(([index, data]) => ({
+        row: index + 1,
+        original: Object.fromEntries(
+          Object.entries(data)
+            .filter(([field]) => field !== "#")
+            .map(([field, value]) => [field, toText(value)]),
+        ),
+      })),
+    inserts: insertsRef.current,
+  });
+
+  // Lists the changes, and the SAS code that saves them
+  const reviewChanges = useCallback(async (): Promise<{
+    changes: TableChange[];
+    code: string;
+  }> => {
+    const changes: TableChange[] = [];
+    for (const [index, { original, values }] of updatesRef.current) {
+      for (const column of Object.keys(values)) {
+        changes.push({
+          row: index + 1,
+          column,
+          before: original[column],
+          after: values[column],
+        });
+      }
+    }
+    for (const index of [...deletesRef.current.keys()].sort((a, b) => a - b)) {
+      changes.push({
+        row: index + 1,
+        column: "",
+        before: Object.entries(deletesRef.current.get(index))
+          .filter(([field]) => field !== "#")
+          .map(([, value]) => toText(value))
+          .join(", "),
+        after: "",
+      });
+    }
+    for (const values of insertsRef.current) {
+      changes.push({
+        column: "",
+        before: "",
+        after: Object.values(values).join(", "),
+      });
+    }
+
+    return {
+      changes,
+      code: await sendRequest<string>("previewEdits", { edits: getEdits() }),
+    };
+  }, []);
+
+  const commitChanges = useCallback(async () => {
+    await sendRequest("commitEdits", { edits: getEdits() });
+    clearChanges();
+  }, [clearChanges]);
+
+  // Reloads the rows of the table with the given WHERE expression
+  const applyWhere = useCallback((newWhere: string) => {
+    whereRef.current = newWhere.trim();
+    setWhere(whereRef.current);
+    gridApiRef.current?.deselectAll();
+    gridApiRef.current?.purgeInfiniteCache();
+  }, []);
+
+  // Exports the selected rows, or all of the rows of the query
+  const exportRows = useCallback(() => {
+    const rows = gridApiRef.current
+      ?.getSelectedNodes()
+      .map(({ rowIndex }) => rowIndex);
+    vscode.postMessage({
+      command: "request:export",
+      data: {
+        query: queryRef.current,
+        rows: rows?.length ? rows : undefined,
+      },
+    });
+  }, []);
+
   useEffect(() => {
     if (columns.length > 0) {
       return;
@@ -140,9 +446,21 @@ const useDataViewer = () => {
         headerComponentParams: {
           template: columnHeaderTemplate(column.type),
         },
+        // rows are edited by their position in the table, so they cannot
+        // be edited while they are filtered or sorted
+        editable: ({ node: { rowIndex } }) =>
+          editableRef.current &&
+          !whereRef.current &&
+          !queryRef.current.orderBy?.length &&
+          !deletesRef.current.has(rowIndex),
+        cellClassRules: {
+          "edited-cell": ({ node: { rowIndex } }: CellClassParams) =>
+            column.name in (updatesRef.current.get(rowIndex)?.values ?? {}),
+        },
       }));
       columns.unshift({
         field: "#",
+        sortable: false,
         suppressMovable: true,
       });
 
@@ -150,6 +468,13 @@ const useDataViewer = () => {
     });
   }, [columns.length]);
 
+  useEffect(() => {
+    sendRequest<boolean>("loadEditable").then((editable) => {
+      editableRef.current = editable;
+      setEditable(editable);
+    });
+  }, []);
+
   useEffect(() => {
     window.addEventListener("contextmenu", contextMenuHandler, true);
 
@@ -158,7 +483,24 @@ const useDataViewer = () => {
     };
   }, []);
 
-  return { columns, onGridReady };
+  return {
+    columns,
+    onGridReady,
+    where,
+    applyWhere,
+    selectedRowCount,
+    exportRows,
+    editable,
+    canEditRows: editable && !where && !sorted,
+    changeCount,
+    onCellValueChanged,
+    rowClassRules,
+    addRow,
+    deleteRows,
+    clearChanges,
+    reviewChanges,
+    commitChanges,
+  };
 };
 
 export default useDataViewer;
@@ -0,0 +1,209 @@
+import { l10n } from "vscode";
+
+import { expect } from "chai";
+import { PassThrough } from "stream";
+
+import {
+  getSamples,
+  inferColumns,
+  parseDelimited,
+  readTableFile,
+  toImportRows,
+  toValidSasName,
+} from "../../../src/components/LibraryNavigator/TableReader";
+import XlsxTableWriter from "../../../src/components/LibraryNavigator/XlsxTableWriter";
+
+const toBytes = (text: string) => new Uint8Array(Buffer.from(text));
+
+describe("TableReader", function () {
+  it("parses quoted values of delimited files", () => {
+    expect(
+      parseDelimited(
+        'name,note\r\nAlfred,"says ""hi"", twice"\n"A\nB",\n',
+        ",",
+      ),
+    ).to.eql([
+      ["name", "note"],
+      ["Alfred", 'says "hi", twice'],
+      ["A\nB", ""],
+    ]);
+  });
+
+  it("reads csv files with a header", async () => {
+    const file = await readTableFile(
+      "class.csv",
+      toBytes("\uFEFFName,Age\nAlfred,14\nAlice,13"),
+    );
+
+    expect(file).to.eql({
+      columns: [{ name: "Name" }, { name: "Age" }],
+      rows: [
+        ["Alfred", "14"],
+        ["Alice", "13"],
+      ],
+    });
+  });
+
+  it("reads arrays of objects and json lines", async () => {
+    const expected = {
+      columns: [{ name: "name" }, { name: "age" }, { name: "tags" }],
+      rows: [
+        ["Alfred", 14, undefined],
+        ["Alice", null, '["a"]'],
+      ],
+    };
+
+    expect(
+      await readTableFile(
+        "class.json",
+        toBytes(
+          '[{"name":"Alfred","age":14},{"name":"Alice","age":null,"tags":["a"]}]',
+        ),
+      ),
+    ).to.eql(expected);
+    expect(
+      await readTableFile(
+        "class.jsonl",
+        toBytes(
+          '{"name":"Alfred","age":14}\n{"name":"Alice","age":null,"tags":["a"]}\n',
+        ),
+      ),
+    ).to.eql(expected);
+  });
+
+  it("reads the first sheet of excel workbooks", async () => {
+    const stream = new PassThrough();
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk) => chunks.push(chunk));
+    const writer = new XlsxTableWriter(
+      stream,
+      [
+        { name: "Name", type: "char" },
+        { name: "Amount", type: "num", format: { name: "DOLLAR10.2" } },
+      ],
+      "CLASS",
+    );
+    await writer.writeRows([
+      ["Tom & Jerry", "12.5"],
+      ["<Alice>", "."],
+    ]);
+    await writer.end();
+
+    const file = await readTableFile(
+      "class.xlsx",
+      new Uint8Array(Buffer.concat(chunks)),
+    );
+
+    expect(file.columns).to.eql([{ name: "Name" }, { name: "Amount" }]);
+    expect(file.rows).to.eql([
+      ["Tom & Jerry", 12.5],
+      ["<Alice>", null],
+    ]);
+  });
+
+  it("rejects files it cannot read", async () => {
+    let error: Error | undefined;
+    try {
+      await readTableFile("class.sas7bdat", new Uint8Array());
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error?.message).to.equal(
+      l10n.t("Files with the extension {extension} cannot be imported.", {
+        extension: "sas7bdat",
+      }),
+    );
+  });
+
+  it("converts names to valid SAS names", () => {
+    expect(toValidSasName("Total Sales ($)")).to.equal("Total_Sales_");
+    expect(toValidSasName("2024")).to.equal("_2024");
+    expect(toValidSasName("name", ["NAME", "NAME2"])).to.equal("name3");
+    expect(toValidSasName("a".repeat(40), ["A".repeat(32)])).to.equal(
+      `${"a".repeat(31)}2`,
+    );
+  });
+
+  it("infers the types, lengths and formats of columns", () => {
+    const columns = inferColumns({
+      columns: [
+        { name: "name" },
+        { name: "age" },
+        { name: "born" },
+        { name: "updated at" },
+        { name: "empty" },
+        { name: "amount", format: "DOLLAR10.2", label: "Amount" },
+      ],
+      rows: [
+        ["Zoë", "14", "2010-05-01", "2024-01-31T10:15:00Z", "", 12.5],
+        [
+          "Al",
+          "",
+          new Date("2011-02-03T00:00:00Z"),
+          "2024-02-01 08:00",
+          null,
+          3,
+        ],
+      ],
+    });
+
+    expect(columns).to.eql([
+      { name: "name", type: "char", length: 4, format: undefined, label: "" },
+      { name: "age", type: "num", length: 8, format: undefined, label: "" },
+      { name: "born", type: "num", length: 8, format: "DATE9.", label: "" },
+      {
+        name: "updated_at",
+        type: "num",
+        length: 8,
+        format: "DATETIME19.",
+        label: "updated at",
+      },
+      { name: "empty", type: "char", length: 1, format: undefined, label: "" },
+      {
+        name: "amount",
+        type: "num",
+        length: 8,
+        format: "DOLLAR10.2",
+        label: "Amount",
+      },
+    ]);
+  });
+
+  it("converts values to the types of the columns", () => {
+    const rows = toImportRows(
+      [
+        { name: "name", type: "char", length: 8 },
+        { name: "age", type: "num", length: 8 },
+        { name: "born", type: "num", length: 8, format: "DATE9." },
+        { name: "updated", type: "num", length: 8, format: "DATETIME19." },
+        { name: "born_text", type: "char", length: 10 },
+      ],
+      [
+        [14, "14", "1960-01-02", "1960-01-01T00:01:00", new Date(0)],
+        ["", "n/a", new Date("1959-12-31T00:00:00Z"), true, null],
+      ],
+    );
+
+    expect(rows).to.eql([
+      ["14", 14, 1, 60, "1970-01-01"],
+      [null, null, -1, 1, null],
+    ]);
+  });
+
+  it("returns the first distinct values of each column", () => {
+    expect(
+      getSamples(
+        {
+          columns: [{ name: "sex" }, { name: "born" }],
+          rows: [
+            ["M", new Date("2010-05-01T00:00:00Z")],
+            ["M", null],
+            ["F", null],
+          ],
+        },
+        2,
+      ),
+    ).to.eql([["M", "F"], ["2010-05-01"]]);
+  });
+});
@@ -0,0 +1,220 @@
+import { expect } from "chai";
+import { PassThrough } from "stream";
+import { inflateRawSync } from "zlib";
+
+import ParquetTableWriter from "../../../src/components/LibraryNavigator/ParquetTableWriter";
+import { readTableFile } from "../../../src/components/LibraryNavigator/TableReader";
+import {
+  DelimitedTableWriter,
+  JsonLinesTableWriter,
+  TableWriter,
+  toTableCell,
+} from "../../../src/components/LibraryNavigator/TableWriter";
+import XlsxTableWriter, {
+  toExcelNumberFormat,
+} from "../../../src/components/LibraryNavigator/XlsxTableWriter";
+import { Column } from "../../../src/connection/rest/api/compute";
+
+const columns: Column[] = [
+  { name: "name", type: "char" },
+  { name: "age", type: "num" },
+];
+
+const writeFile = async (
+  createWriter: (stream: PassThrough) => TableWriter,
+  rows: unknown[][],
+): Promise<Buffer> => {
+  const stream = new PassThrough();
+  const chunks: Buffer[] = [];
+  stream.on("data", (chunk) => chunks.push(chunk));
+
+  const writer = createWriter(stream);
+  await writer.writeRows(rows);
+  await writer.end();
+
+  return Buffer.concat(chunks);
+};
+
+const writeTable = async (
+  createWriter: (stream: PassThrough) => TableWriter,
+  rows: unknown[][],
+): Promise<string> => (await writeFile(createWriter, rows)).toString();
+
+// computed bit by bit, unlike the table lookup of the writer
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return ~crc >>> 0;
+};
+
+/**
+ * Reads the entries of the central directory of a zip file, with their
+ * uncompressed contents.
+ */
+const readZipEntries = (buffer: Buffer) => {
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entries: { name: string; crc: number; data: Buffer }[] = [];
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < buffer.readUInt16LE(end + 10); i++) {
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const headerOffset = buffer.readUInt32LE(offset + 42);
+    const dataOffset =
+      headerOffset +
+      30 +
+      buffer.readUInt16LE(headerOffset + 26) +
+      buffer.readUInt16LE(headerOffset + 28);
+    const data = inflateRawSync(
+      buffer.subarray(dataOffset, dataOffset + compressedSize),
+    );
+    expect(data.length).to.equal(buffer.readUInt32LE(offset + 24));
+    entries.push({
+      name: buffer.toString("utf8", offset + 46, offset + 46 + nameLength),
+      crc: buffer.readUInt32LE(offset + 16),
+      data,
+    });
+    offset +=
+      46 +
+      nameLength +
+      buffer.readUInt16LE(offset + 30) +
+      buffer.readUInt16LE(offset + 32);
+  }
+  return entries;
+};
+
+describe("TableWriter", function () {
+  it("reads the values of numeric columns as numbers", () => {
+    expect(toTableCell("42", columns[1])).to.equal(42);
+    expect(toTableCell(" 1.5e3", columns[1])).to.equal(1500);
+    expect(toTableCell(".", columns[1])).to.equal(null);
+    expect(toTableCell("01JAN2024", columns[1])).to.equal("01JAN2024");
+    expect(toTableCell(42, columns[0])).to.equal("42");
+    expect(toTableCell(undefined, columns[0])).to.equal(null);
+  });
+
+  it("writes csv with quoted values", async () => {
+    const text = await writeTable(
+      (stream) => new DelimitedTableWriter(stream, columns, "csv"),
+      [
+        ['Alfred "Al"', "14"],
+        ["Alice", null],
+      ],
+    );
+
+    expect(text).to.equal('"name","age"\n"Alfred ""Al""","14"\n"Alice",""');
+  });
+
+  it("writes tsv without tabs or line breaks in its values", async () => {
+    const text = await writeTable(
+      (stream) => new DelimitedTableWriter(stream, columns, "tsv"),
+      [["Alfred\tE.\nNeuman", "14"]],
+    );
+
+    expect(text).to.equal("name\tage\nAlfred E. Neuman\t14");
+  });
+
+  it("writes a header for a table without rows", async () => {
+    const text = await writeTable(
+      (stream) => new DelimitedTableWriter(stream, columns, "csv"),
+      [],
+    );
+
+    expect(text).to.equal('"name","age"');
+  });
+
+  it("writes json lines with typed values", async () => {
+    const text = await writeTable(
+      (stream) => new JsonLinesTableWriter(stream, columns),
+      [
+        ["Alfred", "14"],
+        ["Alice", "."],
+      ],
+    );
+
+    expect(text).to.equal(
+      '{"name":"Alfred","age":14}\n{"name":"Alice","age":null}',
+    );
+  });
+
+  it("writes excel workbooks that can be read back", async () => {
+    const rows = Array.from({ length: 3000 }, (_, index) => [
+      index % 2 ? `Zoë <${index}> & "friends"` : `Alfred ${index}`,
+      index % 3 ? `${index}` : ".",
+      `${index / 4}`,
+    ]);
+    const content = await writeFile(
+      (stream) =>
+        new XlsxTableWriter(
+          stream,
+          [
+            ...columns,
+            { name: "amount", type: "num", format: { name: "DOLLAR10.2" } },
+          ],
+          "CLASS",
+        ),
+      rows,
+    );
+
+    const entries = readZipEntries(content);
+    expect(entries.map(({ name }) => name)).to.include(
+      "xl/worksheets/sheet1.xml",
+    );
+    for (const { crc, data } of entries) {
+      expect(crc).to.equal(crc32(data));
+    }
+
+    const file = await readTableFile("class.xlsx", new Uint8Array(content));
+    expect(file.columns).to.eql([
+      { name: "name" },
+      { name: "age" },
+      { name: "amount" },
+    ]);
+    expect(file.rows).to.eql(
+      rows.map(([name, age, amount]) => [
+        name,
+        age === "." ? null : Number(age),
+        Number(amount),
+      ]),
+    );
+  });
+
+  it("writes parquet files that can be read back", async () => {
+    // more rows than fit in one row group
+    const rows = Array.from({ length: 10001 }, (_, index) => [
+      index % 2 ? "Zoë" : `Alfred ${index}`,
+      index % 3 ? `${index}` : ".",
+    ]);
+    const content = await writeFile(
+      (stream) =>
+        new ParquetTableWriter(stream, [
+          { ...columns[0], label: "Name" },
+          { ...columns[1], format: { name: "BEST12." } },
+        ]),
+      rows,
+    );
+
+    const file = await readTableFile("class.parquet", new Uint8Array(content));
+    expect(file.columns).to.eql([
+      { name: "name", format: undefined, label: "Name" },
+      { name: "age", format: "BEST12.", label: undefined },
+    ]);
+    expect(file.rows).to.eql(
+      rows.map(([name, age]) => [name, age === "." ? null : Number(age)]),
+    );
+  });
+
+  it("converts SAS formats to Excel number formats", () => {
+    expect(toExcelNumberFormat("8.2")).to.equal("0.00");
+    expect(toExcelNumberFormat("BEST12.")).to.equal(undefined);
+    expect(toExcelNumberFormat("COMMA10.")).to.equal("#,##0");
+    expect(toExcelNumberFormat("DOLLAR12.2")).to.equal('"$"#,##0.00');
+    expect(toExcelNumberFormat("PERCENT8.1")).to.equal("0.0%");
+    expect(toExcelNumberFormat("DATE9.")).to.equal(undefined);
+    expect(toExcelNumberFormat(undefined)).to.equal(undefined);
+  });
+});
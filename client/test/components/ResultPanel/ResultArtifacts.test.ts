@@ -0,0 +1,61 @@
+import { expect } from "chai";
+
+import {
+  canOpenArtifact,
+  getArtifactsHtml,
+} from "../../../src/components/ResultPanel/ResultArtifacts";
+
+const createArtifact = (name: string, mediaType: string, text = "") => ({
+  name,
+  mediaType,
+  data: new TextEncoder().encode(text),
+});
+
+describe("ResultArtifacts", () => {
+  it("opens only the types of the files written by ODS destinations", () => {
+    expect(canOpenArtifact(createArtifact("report.pdf", "application/pdf"))).to
+      .be.true;
+    expect(canOpenArtifact(createArtifact("graph.PNG", "image/png"))).to.be
+      .true;
+    expect(
+      canOpenArtifact(createArtifact("run.bat", "application/x-msdownload")),
+    ).to.be.false;
+    expect(canOpenArtifact(createArtifact("run.js", "text/javascript"))).to.be
+      .false;
+  });
+
+  it("offers to save the results that cannot be opened", () => {
+    const html = getArtifactsHtml(
+      [
+        createArtifact("report.pdf", "application/pdf"),
+        createArtifact("run.bat", "application/x-msdownload"),
+      ],
+      "panel",
+    );
+    const [, pdfPanel, batPanel] = html.split('role="tabpanel"');
+
+    expect(pdfPanel).to.contain('data-command="open"');
+    expect(pdfPanel).to.contain('data-command="save"');
+    expect(batPanel).not.to.contain('data-command="open"');
+    expect(batPanel).to.contain('data-command="save"');
+  });
+
+  it("inlines the images of the run in html results", () => {
+    const html = getArtifactsHtml(
+      [
+        createArtifact(
+          "report.htm",
+          "text/html",
+          '<img src="graph.png"><img src="other.png">',
+        ),
+        createArtifact("graph.png", "image/png", "png"),
+      ],
+      "panel",
+    );
+
+    expect(html).to.contain(
+      "&lt;img src=&quot;data:image/png;base64,cG5n&quot;&gt;",
+    );
+    expect(html).to.contain("&lt;img src=&quot;other.png&quot;&gt;");
+  });
+});
@@ -0,0 +1,153 @@
+import { Uri, workspace } from "vscode";
+
+import { expect } from "chai";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+
+import RunHistoryModel from "../../../src/components/RunHistory/RunHistoryModel";
+import { RunHistoryEntry } from "../../../src/components/RunHistory/types";
+
+const createEntry = (id: string, startTime: number): RunHistoryEntry => ({
+  id,
+  fileName: "/tmp/program.sas",
+  uri: "file:///tmp/program.sas",
+  parameters: {
+    languageId: "sas",
+    code: "proc print data=sashelp.class; run;",
+    selectedCode: "",
+  },
+  profileName: "viya",
+  startTime,
+  endTime: startTime + 1000,
+  duration: 1000,
+  status: "completed",
+  errorCount: 0,
+  warningCount: 1,
+  hasResult: id === "first",
+});
+
+describe("RunHistoryModel", () => {
+  let storagePath: string;
+  let maxEntries: number;
+  let model: RunHistoryModel;
+
+  beforeEach(() => {
+    storagePath = mkdtempSync(path.join(tmpdir(), "sas-run-history-"));
+    maxEntries = 50;
+    model = new RunHistoryModel(
+      () => Uri.file(storagePath),
+      () => maxEntries,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it("add - stores the log and result of a run", async () => {
+    const entry = createEntry("first", 1);
+    await model.add(
+      entry,
+      [
+        { type: "normal", line: "1    proc print data=sashelp.class; run;" },
+        { type: "warning", line: "WARNING: Something happened." },
+      ],
+      "<html></html>",
+    );
+
+    expect(await model.getEntries()).to.deep.equal([entry]);
+    const logUri = await model.getLogUri(entry);
+    expect(
+      new TextDecoder().decode(await workspace.fs.readFile(logUri)),
+    ).to.equal(
+      "1    proc print data=sashelp.class; run;\nWARNING: Something happened.\n",
+    );
+    expect(await model.getResult(entry)).to.equal("<html></html>");
+  });
+
+  it("add - stores the artifacts of a run", async () => {
+    const entry = {
+      ...createEntry("first", 1),
+      artifacts: [{ name: "report.pdf", mediaType: "application/pdf" }],
+    };
+    const data = new TextEncoder().encode("%PDF-1.4");
+    await model.add(entry, [], undefined, [
+      { name: "report.pdf", mediaType: "application/pdf", data },
+    ]);
+
+    expect(await model.getResult(entry)).to.equal(undefined);
+    expect(await model.getArtifacts(entry)).to.deep.equal([
+      { name: "report.pdf", mediaType: "application/pdf", data },
+    ]);
+
+    await model.remove(entry);
+    expect(await model.getArtifacts(entry)).to.deep.equal([]);
+    expect(readdirSync(path.join(storagePath, "runHistory"))).to.deep.equal([
+      "history.json",
+    ]);
+  });
+
+  it("add - lists the newest run first and persists the history", async () => {
+    await model.add(createEntry("first", 1), []);
+    await model.add(createEntry("second", 2), []);
+
+    const reloadedModel = new RunHistoryModel(
+      () => Uri.file(storagePath),
+      () => maxEntries,
+    );
+    expect(
+      (await reloadedModel.getEntries()).map((entry) => entry.id),
+    ).to.deep.equal(["second", "first"]);
+  });
+
+  it("add - keeps the runs that finish at the same time", async () => {
+    const ids = Array.from({ length: 10 }, (_, index) => `run${index}`);
+    await Promise.all(
+      ids.map((id, index) => model.add(createEntry(id, index), [])),
+    );
+
+    const reloadedModel = new RunHistoryModel(
+      () => Uri.file(storagePath),
+      () => maxEntries,
+    );
+    expect(
+      (await reloadedModel.getEntries()).map((entry) => entry.id),
+    ).to.deep.equal([...ids].reverse());
+  });
+
+  it("add - drops the oldest runs over the retention limit", async () => {
+    maxEntries = 1;
+    const first = createEntry("first", 1);
+    await model.add(first, [], "<html></html>");
+    await model.add(createEntry("second", 2), []);
+
+    expect((await model.getEntries()).map((entry) => entry.id)).to.deep.equal([
+      "second",
+    ]);
+    expect(await model.getLogUri(first)).to.equal(undefined);
+    expect(await model.getResult(first)).to.equal(undefined);
+  });
+
+  it("add - does not record runs when the limit is 0", async () => {
+    maxEntries = 0;
+    await model.add(createEntry("first", 1), []);
+
+    expect(await model.getEntries()).to.deep.equal([]);
+  });
+
+  it("remove and clear - delete runs from the history", async () => {
+    const first = createEntry("first", 1);
+    await model.add(first, []);
+    await model.add(createEntry("second", 2), []);
+
+    await model.remove(first);
+    expect((await model.getEntries()).map((entry) => entry.id)).to.deep.equal([
+      "second",
+    ]);
+    expect(await model.getLogUri(first)).to.equal(undefined);
+
+    await model.clear();
+    expect(await model.getEntries()).to.deep.equal([]);
+  });
+});
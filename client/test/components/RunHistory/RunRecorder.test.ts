@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import RunHistoryModel from "../../../src/components/RunHistory/RunHistoryModel";
+import { RunRecorder } from "../../../src/components/RunHistory/RunRecorder";
+import { SASCodeDocument } from "../../../src/components/utils/SASCodeDocument";
+
+describe("RunRecorder", () => {
+  let add: sinon.SinonStub;
+  let recorder: RunRecorder;
+
+  beforeEach(() => {
+    add = sinon.stub().resolves();
+    recorder = new RunRecorder(
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      { add } as unknown as RunHistoryModel,
+      new SASCodeDocument({
+        languageId: "sas",
+        code: "proc print data=sashelp.class; run;",
+        selectedCode: "",
+        fileName: "/tmp/program.sas",
+      }),
+      "viya",
+    );
+  });
+
+  it("fail - records a submission that could not connect", async () => {
+    recorder.start();
+    await recorder.fail(new Error("The user could not be signed in."));
+
+    const [entry, logs, html, artifacts] = add.firstCall.args;
+    expect(entry).to.include({
+      fileName: "/tmp/program.sas",
+      profileName: "viya",
+      status: "failed",
+      hasResult: false,
+    });
+    expect(logs).to.deep.equal([
+      { type: "error", line: "The user could not be signed in." },
+    ]);
+    expect(html).to.equal(undefined);
+    expect(artifacts).to.deep.equal([]);
+  });
+
+  it("finish - records the html5 result and the artifacts of a run", async () => {
+    const artifact = {
+      name: "report.pdf",
+      mediaType: "application/pdf",
+      data: new Uint8Array([1]),
+    };
+    recorder.start();
+    await recorder.finish("completed", {
+      html5: "<html></html>",
+      artifacts: [artifact],
+    });
+
+    const [entry, , html, artifacts] = add.firstCall.args;
+    expect(entry).to.deep.include({
+      status: "completed",
+      hasResult: true,
+      artifacts: [{ name: "report.pdf", mediaType: "application/pdf" }],
+    });
+    expect(html).to.equal("<html></html>");
+    expect(artifacts).to.deep.equal([artifact]);
+  });
+});
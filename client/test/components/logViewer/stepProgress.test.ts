@@ -0,0 +1,73 @@
+import { expect } from "chai";
+
+import {
+  Step,
+  generateStepLogFn,
+  getStepName,
+} from "../../../src/components/logViewer/stepProgress";
+import { SASCodeDocument } from "../../../src/components/utils/SASCodeDocument";
+import { LogLine } from "../../../src/connection";
+
+const code = `data work.class;
+  set sashelp.class;
+run;
+
+proc sort data=work.class;
+  by age;
+run;`;
+
+const codeDoc = new SASCodeDocument({
+  languageId: "sas",
+  code,
+  selectedCode: "",
+  selections: [
+    { start: { line: 0, character: 0 }, end: { line: 6, character: 4 } },
+  ],
+});
+
+const source = (line: string): LogLine => ({
+  line,
+  type: "source",
+  version: 1,
+});
+
+describe("step progress", () => {
+  it("gets the name of the last step beginning in a line of code", () => {
+    expect(getStepName("data work.class;")).to.equal("DATA");
+    expect(getStepName("  data;")).to.equal("DATA");
+    expect(getStepName("run; proc sort data=work.class; by age;")).to.equal(
+      "PROC SORT",
+    );
+    expect(getStepName("data=work.class out=sorted;")).to.be.undefined;
+    expect(getStepName("  set sashelp.class;")).to.be.undefined;
+  });
+
+  it("calls back with the steps echoed in the log of the code", () => {
+    const steps: Step[] = [];
+    const logs: LogLine[][] = [];
+    const logFn = generateStepLogFn(
+      codeDoc,
+      (step) => steps.push(step),
+      (received) => logs.push(received),
+    );
+
+    logFn([
+      source("10   proc print data=work.old; run;"),
+      source("11   /** LOG_START_INDICATOR **/"),
+      source("12   data work.class;"),
+      source("13     set sashelp.class;"),
+    ]);
+    logFn([
+      { line: "NOTE: DATA statement used.", type: "note", version: 1 },
+      source("14   run;"),
+      source("15   "),
+      source("16   proc sort data=work.class;"),
+    ]);
+
+    expect(logs).to.have.length(2);
+    expect(steps).to.eql([
+      { name: "DATA", lineNumber: 0 },
+      { name: "PROC SORT", lineNumber: 4 },
+    ]);
+  });
+});
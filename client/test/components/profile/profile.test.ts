@@ -8,12 +8,15 @@ import {
   ConnectionType,
   EXTENSION_CONFIG_KEY,
   EXTENSION_DEFINE_PROFILES_CONFIG_KEY,
+  EXTENSION_FILE_BINDINGS_CONFIG_KEY,
+  ProfileBindingType,
   ProfileConfig,
   ProfilePromptType,
   SSHProfile,
   ViyaProfile,
   getProfilePrompt,
 } from "../../../src/components/profile";
+import { getUri } from "../../utils";
 
 let testProfileName: string;
 let testProfileNewName: string;
@@ -934,6 +937,24 @@ describe("Profiles", async function () {
     });
   });
 
+  describe("Local Input Prompts", async function () {
+    it("Valid SAS Executable Input", function () {
+      const foundPrompt = getProfilePrompt(ProfilePromptType.LocalSASPath);
+
+      expect(foundPrompt.title).to.equal("SAS Executable");
+      expect(foundPrompt.placeholder).to.equal(
+        "Enter the path of the SAS executable",
+      );
+    });
+
+    it("Valid SAS Options Input", function () {
+      const foundPrompt = getProfilePrompt(ProfilePromptType.SASOptions);
+
+      expect(foundPrompt.title).to.equal("SAS Options (optional)");
+      expect(foundPrompt.placeholder).to.equal("Enter SAS system options");
+    });
+  });
+
   describe("SSH Input Prompts", async function () {
     interface testCase {
       name: string;
@@ -1000,4 +1021,91 @@ describe("Profiles", async function () {
       });
     });
   });
+
+  describe("Profile Bindings", function () {
+    const sampleUri = getUri("SampleCode.sas");
+
+    beforeEach(async () => {
+      await initProfile();
+      await workspace
+        .getConfiguration(EXTENSION_CONFIG_KEY)
+        .update(
+          EXTENSION_FILE_BINDINGS_CONFIG_KEY,
+          { "**/SampleCode.sas": "sas9" },
+          ConfigurationTarget.Global,
+        );
+    });
+
+    afterEach(async () => {
+      await workspace
+        .getConfiguration(EXTENSION_CONFIG_KEY)
+        .update(
+          EXTENSION_FILE_BINDINGS_CONFIG_KEY,
+          undefined,
+          ConfigurationTarget.Global,
+        );
+    });
+
+    it("binds the profile of a @sas-profile comment", async () => {
+      const document = await workspace.openTextDocument({
+        language: "sas",
+        content:
+          "/* Monthly report */\n/* @sas-profile: prod viya */\nproc print data=sashelp.class; run;",
+      });
+
+      expect(profileConfig.getBoundProfile(document)).to.deep.equal({
+        profileName: "prod viya",
+        type: ProfileBindingType.Comment,
+        source: "@sas-profile",
+      });
+    });
+
+    it("ignores @sas-profile comments after the code starts", async () => {
+      const document = await workspace.openTextDocument({
+        language: "sas",
+        content:
+          "proc print data=sashelp.class; run;\n/* @sas-profile: sas9 */",
+      });
+
+      expect(profileConfig.getBoundProfile(document)).to.equal(undefined);
+    });
+
+    it("binds the profile of a matching file pattern", async () => {
+      const document = await workspace.openTextDocument(sampleUri);
+
+      expect(profileConfig.getBoundProfile(document)).to.deep.equal({
+        profileName: "sas9",
+        type: ProfileBindingType.File,
+        source: "**/SampleCode.sas",
+      });
+    });
+
+    it("rejects the bindings of SAS Viya profiles", async () => {
+      await workspace
+        .getConfiguration(EXTENSION_CONFIG_KEY)
+        .update(
+          EXTENSION_DEFINE_PROFILES_CONFIG_KEY,
+          testProfileClientId,
+          ConfigurationTarget.Global,
+        );
+      const document = await workspace.openTextDocument({
+        language: "sas",
+        content: "/* @sas-profile: testProfile */\nproc print; run;",
+      });
+
+      try {
+        expect(profileConfig.getBoundProfile(document)?.error).to.equal(
+          'The SAS Viya profile "testProfile" cannot be bound to files or folders. Remove the binding and make it the active profile instead.',
+        );
+      } finally {
+        await workspace
+          .getConfiguration(EXTENSION_CONFIG_KEY)
+          .update(
+            EXTENSION_DEFINE_PROFILES_CONFIG_KEY,
+            undefined,
+            ConfigurationTarget.Global,
+          );
+      }
+    });
+  });
 });
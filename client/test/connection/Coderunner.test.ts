@@ -1,9 +1,12 @@
 import { expect } from "chai";
 import sinon from "sinon";
 
-import * as connection from "../../../src/connection";
-import { runCode } from "../../../src/connection/itc/CodeRunner";
-import { Session } from "../../../src/connection/session";
+import { runExclusively } from "../../src/commands/run";
+import * as connection from "../../src/connection";
+import { runCode } from "../../src/connection/CodeRunner";
+import { finishExecuting } from "../../src/connection/queue";
+import { Session } from "../../src/connection/session";
+import { useRunStore } from "../../src/store";
 
 export class MockSession extends Session {
   private _logFn;
@@ -54,9 +57,11 @@ export class MockSession extends Session {
 
 describe("CodeRunner tests", () => {
   let sessionStub;
+  let session: MockSession;
   before(() => {
+    session = new MockSession();
     sessionStub = sinon.stub(connection, "getSession");
-    sessionStub.returns(new MockSession());
+    sessionStub.returns(session);
   });
 
   after(() => {
@@ -91,4 +96,39 @@ describe("CodeRunner tests", () => {
         .join(""),
     );
   });
+
+  it("waits in the run queue with the runs of the user", async () => {
+    const events: string[] = [];
+    const runStub = sinon.stub(session, "run").callsFake(async () => {
+      events.push("query");
+      return {};
+    });
+    let finishUserRun: () => void;
+    useRunStore.getState().setIsExecutingCode(true);
+
+    const userRun = runExclusively("user.sas", async () => {
+      events.push("user run started");
+      await new Promise<void>((resolve) => (finishUserRun = resolve));
+      events.push("user run finished");
+    });
+    const query = runCode("proc sql; quit;");
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(useRunStore.getState().queue).to.have.length(2);
+
+    // the running code completes, and only the first queued run resumes
+    finishExecuting();
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(events).to.deep.equal(["user run started"]);
+
+    finishUserRun();
+    await Promise.all([userRun, query]);
+    runStub.restore();
+
+    expect(events).to.deep.equal([
+      "user run started",
+      "user run finished",
+      "query",
+    ]);
+    expect(useRunStore.getState().isExecutingCode).to.equal(false);
+  });
 });
@@ -0,0 +1,86 @@
+import { ConfigurationTarget, workspace } from "vscode";
+
+import { expect } from "chai";
+
+import {
+  EXTENSION_CONFIG_KEY,
+  EXTENSION_DEFINE_PROFILES_CONFIG_KEY,
+} from "../../src/components/profile";
+import {
+  closeStaleSessions,
+  getSession,
+  getSessions,
+} from "../../src/connection";
+
+const sshProfile = (host: string) => ({
+  connectionType: "ssh",
+  host,
+  username: "username",
+  saspath: "/opt/sas/sas",
+  port: 22,
+});
+
+const updateProfiles = (value) =>
+  workspace
+    .getConfiguration(EXTENSION_CONFIG_KEY)
+    .update(
+      EXTENSION_DEFINE_PROFILES_CONFIG_KEY,
+      value,
+      ConfigurationTarget.Global,
+    );
+
+describe("getSession", () => {
+  beforeEach(async () => {
+    await updateProfiles({
+      activeProfile: "first",
+      profiles: {
+        first: sshProfile("first-host"),
+        second: sshProfile("second-host"),
+        viya: {
+          connectionType: "rest",
+          endpoint: "https://viya.example.com",
+        },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await updateProfiles({ activeProfile: "", profiles: {} });
+    await closeStaleSessions();
+  });
+
+  it("keeps one session per profile", () => {
+    const activeSession = getSession();
+    const otherSession = getSession("second");
+
+    expect(getSession("first")).to.equal(activeSession);
+    expect(getSession("second")).to.equal(otherSession);
+    expect(otherSession).to.not.equal(activeSession);
+    expect(
+      getSessions().map(({ profileName }) => profileName),
+    ).to.include.members(["first", "second"]);
+  });
+
+  it("only creates SAS Viya sessions for the active profile", () => {
+    expect(() => getSession("viya")).to.throw(
+      "SAS Viya sessions are only available for the active profile.",
+    );
+  });
+
+  it("closes the sessions of changed profiles", async () => {
+    const firstSession = getSession("first");
+    const secondSession = getSession("second");
+
+    await updateProfiles({
+      activeProfile: "first",
+      profiles: {
+        first: sshProfile("first-host"),
+        second: sshProfile("new-host"),
+      },
+    });
+    await closeStaleSessions();
+
+    expect(getSession("first")).to.equal(firstSession);
+    expect(getSession("second")).to.not.equal(secondSession);
+  });
+});
@@ -1,3 +1,5 @@
+import { l10n } from "vscode";
+
 import { expect } from "chai";
 import sinon from "sinon";
 
@@ -6,13 +8,18 @@ import {
   TableData,
 } from "../../../src/components/LibraryNavigator/types";
 import * as connection from "../../../src/connection";
-import ItcLibraryAdapter from "../../../src/connection/itc/ItcLibraryAdapter";
-import { MockSession } from "./Coderunner.test";
+import ItcLibraryAdapter, {
+  getColumnsCode,
+  getQueryView,
+  parseQueryError,
+} from "../../../src/connection/itc/ItcLibraryAdapter";
+import { MockSession } from "../Coderunner.test";
 
 const mockOutput = (now) => ({
   COLOUTPUT: `
 <COLOUTPUT>
-first,char,1~last,char,2
+first,char,1,8,,First, name & 50%; see &OUTPUT
+~last,char,2,16,$16.,
 </COLOUTPUT>`,
   LIBOUTPUT: `
 <LIBOUTPUT>
@@ -25,6 +32,18 @@ test1,yes~test2,no
 {"SASTableData+TEST${now.getHours()}${now.getMinutes()}${now.getSeconds()}0": [["Peter","Parker"],["Tony","Stark"]]}
 </TABLEDATA>`,
   "SELECT COUNT(1)": `<Count>1234</Count>`,
+  TABLEPROFILE: `
+<TABLEPROFILE>
+{"columns": [{"name": "Name", "type": "char", "length": 8, "format": "", "label": ""},
+{"name": "Age", "type": "num", "length": 8, "format": "BEST12.", "label": "Age in years"}],
+"counts": [{"rows": 4, "distinct0": 3, "missing0": 0, "distinct1": 2, "missing1": 1}],
+"means": [{"min1": 12, "max1": 14, "mean1": 13.333333}],
+"frequencies": {"0": [{"value": "Alfred", "COUNT": 2, "PERCENT": 50}, {"value": "Alice", "COUNT": 1, "PERCENT": 25}]},
+"histograms": {"1": [{"bin": 0, "count": 1}, {"bin": 9, "count": 2}]}}
+</TABLEPROFILE>`,
+  WORKPATH: `<WORKPATH>/saswork/TD123</WORKPATH>`,
+  TABLEIMPORT: `<TABLEIMPORT>0 </TABLEIMPORT>`,
+  TABLEEDIT: `<TABLEEDIT>0 1 0 </TABLEEDIT>`,
   TABLEOUTPUT: `
   <TABLEOUTPUT>
 test1~test2
@@ -62,11 +81,17 @@ describe("ItcLibraryAdapter tests", () => {
         name: "first",
         type: "char",
         index: 1,
+        length: 8,
+        format: undefined,
+        label: "First, name & 50%; see &OUTPUT",
       },
       {
         name: "last",
         type: "char",
         index: 2,
+        length: 16,
+        format: { name: "$16." },
+        label: "",
       },
     ];
 
@@ -124,6 +149,90 @@ describe("ItcLibraryAdapter tests", () => {
     expect(tableData).to.eql(expectedTableData);
   });
 
+  it("loads filtered and sorted table data", async () => {
+    const item: LibraryItem = {
+      uid: "test",
+      type: "table",
+      id: "test",
+      name: "TEST",
+      readOnly: true,
+    };
+
+    const libraryAdapter = new ItcLibraryAdapter();
+    const tableData = await libraryAdapter.getRows(item, 0, 100, {
+      where: "last = 'Stark'",
+      orderBy: [{ column: "first", direction: "desc" }],
+    });
+
+    expect(tableData.count).to.equal(1234);
+  });
+
+  it("prints the columns without a macro variable", () => {
+    const code = getColumnsCode(
+      {
+        uid: "lib.test",
+        type: "table",
+        id: "test",
+        name: "TEST",
+        library: "LIB",
+        readOnly: true,
+      },
+      "sashelp.vcolumn",
+      "<COLOUTPUT>",
+      "</COLOUTPUT>",
+    );
+
+    expect(code).to.not.include("&OUTPUT");
+    expect(code).to.include("where libname='LIB' and memname='TEST'");
+    expect(code).to.include("put column $varying32767. len;");
+  });
+
+  it("creates a view for a query", () => {
+    expect(
+      getQueryView("SASHELP.CLASS", "VCLASS", {
+        where: " age > 12 ",
+        orderBy: [
+          { column: "Name", direction: "asc" },
+          { column: "Body Weight", direction: "desc" },
+        ],
+      }),
+    ).to.deep.include({
+      where: "where age > 12",
+      createView:
+        "create view work.VCLASS as select * from SASHELP.CLASS where age > 12 order by Name, 'Body Weight'n desc;",
+      deleteView: "delete VCLASS / memtype=view;",
+      source: "work.VCLASS",
+    });
+    expect(
+      getQueryView("SASHELP.CLASS", "VCLASS", { where: "" }),
+    ).to.deep.include({
+      where: "",
+      createView: "",
+      deleteView: "",
+      source: "SASHELP.CLASS",
+    });
+  });
+
+  it("reports the error of a query that failed", () => {
+    const { checkStart, checkEnd, putError } = getQueryView(
+      "SASHELP.CLASS",
+      "VCLASS",
+      { where: "age > 'a'" },
+    );
+    expect(checkStart).to.contain("%let syscc=0;");
+    expect(checkEnd).to.contain("symget('syserrortext')");
+    expect(putError).to.contain("%let syscc=&_vscsyscc;");
+
+    expect(() =>
+      parseQueryError(
+        "QUERYERROR=1012 ERROR: Expression using greater than (>) has components that are of different data types.QUERYERROREND<Count>0</Count>",
+      ),
+    ).to.throw(
+      "ERROR: Expression using greater than (>) has components that are of different data types.",
+    );
+    expect(() => parseQueryError("QUERYERROR=4 QUERYERROREND")).not.to.throw();
+  });
+
   it("loads table data for csv output", async () => {
     const item: LibraryItem = {
       uid: "test",
@@ -163,6 +272,59 @@ describe("ItcLibraryAdapter tests", () => {
     expect(response.rowCount).to.equal(1234);
   });
 
+  it("profiles the columns of a table", async () => {
+    const item: LibraryItem = {
+      uid: "test",
+      type: "table",
+      id: "test",
+      name: "TEST",
+      library: "WORK",
+      readOnly: false,
+    };
+
+    const libraryAdapter = new ItcLibraryAdapter();
+    const profile = await libraryAdapter.getTableProfile(item, [
+      { name: "Name", type: "char", index: 1 },
+      { name: "Age", type: "num", index: 2 },
+    ]);
+
+    expect(profile.rowCount).to.equal(4);
+    expect(profile.columns[0]).to.eql({
+      name: "Name",
+      type: "char",
+      length: 8,
+      format: "",
+      label: "",
+      n: 4,
+      missing: 0,
+      distinct: 3,
+      topValues: [
+        { value: "Alfred", count: 2, percent: 50 },
+        { value: "Alice", count: 1, percent: 25 },
+      ],
+    });
+    expect(profile.columns[1]).to.include({
+      format: "BEST12.",
+      label: "Age in years",
+      n: 3,
+      missing: 1,
+      min: 12,
+      max: 14,
+      mean: 13.333333,
+    });
+    expect(profile.columns[1].histogram).to.have.length(10);
+    expect(profile.columns[1].histogram[0]).to.eql({
+      start: 12,
+      end: 12.2,
+      count: 1,
+    });
+    expect(profile.columns[1].histogram[9]).to.eql({
+      start: 13.8,
+      end: 14,
+      count: 2,
+    });
+  });
+
   it("loads a list of tables", async () => {
     const library: LibraryItem = {
       uid: "lib",
@@ -196,4 +358,71 @@ describe("ItcLibraryAdapter tests", () => {
     expect(response.items).to.eql(expectedTables);
     expect(response.count).to.equal(-1);
   });
+
+  it("imports a table from a file written to the work library", async () => {
+    const files: Record<string, string> = {};
+    class FileWritingLibraryAdapter extends ItcLibraryAdapter {
+      protected async writeFile(path: string, content: Buffer) {
+        files[path] = content.toString();
+      }
+    }
+    const library: LibraryItem = {
+      uid: "WORK",
+      id: "WORK",
+      name: "WORK",
+      type: "library",
+      readOnly: false,
+    };
+
+    await new FileWritingLibraryAdapter().importTable(library, {
+      name: "class",
+      columns: [
+        { name: "Name", type: "char", length: 12 },
+        { name: "Age", type: "num", length: 8 },
+      ],
+      rows: [
+        ["Alfred", 14],
+        ['Al "Junior"', null],
+      ],
+    });
+
+    expect(files).to.eql({
+      "/saswork/TD123/_vscimp.csv": '"Alfred",14\n"Al ""Junior""",\n',
+    });
+  });
+
+  it("rejects changes with values that cannot be read", async () => {
+    const item: LibraryItem = {
+      uid: "SASUSER.EVENTS",
+      id: "EVENTS",
+      name: "EVENTS",
+      type: "table",
+      library: "SASUSER",
+      readOnly: false,
+    };
+
+    let error: Error | undefined;
+    try {
+      await new ItcLibraryAdapter().updateTable(
+        item,
+        [{ name: "Date", type: "num" }],
+        {
+          updates: [
+            { row: 4, original: { Date: "" }, values: { Date: "31FEB2024" } },
+          ],
+          deletes: [],
+          inserts: [],
+        },
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error?.message).to.equal(
+      l10n.t("{value} is not a valid value of {column}.", {
+        column: "Date",
+        value: "31FEB2024",
+      }),
+    );
+  });
 });
@@ -0,0 +1,108 @@
+import { FileType, Uri } from "vscode";
+
+import { expect } from "chai";
+import sinon from "sinon";
+
+import { SERVER_HOME_FOLDER_TYPE } from "../../../src/components/ContentNavigator/const";
+import * as connection from "../../../src/connection";
+import ItcSASServerAdapter from "../../../src/connection/itc/ItcSASServerAdapter";
+import { MockSession } from "../Coderunner.test";
+
+const mockOutput = {
+  "sysget('HOME')": "0\n/home/user",
+  "filename('_vscdir', '/home/user')":
+    "0\ntest.sas\t0\t19Oct2025:10:31:00\t42\nsasprogs\t1\t\t.",
+  "name = 'test.sas'": "0\ntest.sas\t0\t19Oct2025:10:31:00\t42",
+  "dcreate('new', '/home/user')":
+    "1\nERROR: Insufficient authorization to access /home/user/new.",
+};
+
+class MockFileServiceSession extends MockSession {
+  public calls: string[][] = [];
+
+  public async runFileService(
+    method: string,
+    ...args: string[]
+  ): Promise<Buffer> {
+    this.calls.push([method, ...args]);
+    if (method === "ReadFile") {
+      return Buffer.from("proc print data=sashelp.class; run;");
+    }
+    if (method === "WriteFile") {
+      return Buffer.from("");
+    }
+
+    const [, output] = Object.entries(mockOutput).find(([code]) =>
+      args[0].includes(code),
+    );
+    return Buffer.from(output);
+  }
+}
+
+describe("ItcSASServerAdapter tests", () => {
+  let session: MockFileServiceSession;
+  let sessionStub;
+  beforeEach(() => {
+    session = new MockFileServiceSession();
+    sessionStub = sinon.stub(connection, "getSession");
+    sessionStub.returns(session);
+  });
+
+  afterEach(() => {
+    sessionStub.restore();
+  });
+
+  it("lists the home directory of the server", async () => {
+    const adapter = new ItcSASServerAdapter();
+    const rootItems = await adapter.getRootItems();
+
+    const [homeFolder] = await adapter.getChildItems(
+      rootItems["@sasServerRoot"],
+    );
+    const childItems = await adapter.getChildItems(homeFolder);
+
+    expect(homeFolder.name).to.equal("Home");
+    expect(homeFolder.type).to.equal(SERVER_HOME_FOLDER_TYPE);
+    expect(homeFolder.uri).to.equal("~fs~home~fs~user");
+    expect(childItems.map(({ name }) => name)).to.eql(["sasprogs", "test.sas"]);
+    expect(childItems[0].fileStat.type).to.equal(FileType.Directory);
+    expect(childItems[1].uri).to.equal("~fs~home~fs~user~fs~test.sas");
+    expect(childItems[1].parentFolderUri).to.equal("~fs~home~fs~user");
+    expect(childItems[1].fileStat.size).to.equal(42);
+    expect(childItems[1].fileStat.mtime).to.equal(
+      new Date(2025, 9, 19, 10, 31).getTime(),
+    );
+  });
+
+  it("reads and writes files with the file service", async () => {
+    const adapter = new ItcSASServerAdapter();
+    const uri = Uri.parse(
+      "sasServer:/test.sas?id=~fs~home~fs~user~fs~test.sas",
+    );
+
+    const content = await adapter.getContentOfUri(uri);
+    await adapter.updateContentOfItem(uri, "proc means; run;");
+
+    expect(content).to.equal("proc print data=sashelp.class; run;");
+    expect(session.calls.slice(-2)).to.eql([
+      ["ReadFile", "/home/user/test.sas"],
+      [
+        "WriteFile",
+        "/home/user/test.sas",
+        Buffer.from("proc means; run;").toString("base64"),
+      ],
+    ]);
+  });
+
+  it("does not create a folder when SAS reports an error", async () => {
+    const adapter = new ItcSASServerAdapter();
+    const rootItems = await adapter.getRootItems();
+    const [homeFolder] = await adapter.getChildItems(
+      rootItems["@sasServerRoot"],
+    );
+
+    const folder = await adapter.createNewFolder(homeFolder, "new");
+
+    expect(folder).to.equal(undefined);
+  });
+});
@@ -11,6 +11,8 @@ import { v4 } from "uuid";
 import { setContext } from "../../../src/components/ExtensionContext";
 import { getSession } from "../../../src/connection/itc";
 import {
+  FILE_SERVICE_END_TAG,
+  FILE_SERVICE_START_TAG,
   WORK_DIR_END_TAG,
   WORK_DIR_START_TAG,
 } from "../../../src/connection/itc/const";
@@ -151,6 +153,22 @@ describe("ITC connection", () => {
       }
     });
     it("calls run function from script", async () => {
+      const sendFileServiceOutput = (output: string) => {
+        onDataCallback(Buffer.from(FILE_SERVICE_START_TAG));
+        onDataCallback(Buffer.from(Buffer.from(output).toString("base64")));
+        onDataCallback(Buffer.from(FILE_SERVICE_END_TAG));
+      };
+      stdinStub.callsFake((chunk: string) => {
+        if (chunk.startsWith("$runner.RunFileServiceCode(")) {
+          sendFileServiceOutput(
+            `${htmlLocation}.htm\t19Oct2025:10:31:00 120\nreport.pdf\t19Oct2025:10:31:00 4\nclass.sas7bdat\t19Oct2025:10:31:00 8\n`,
+          );
+        }
+        if (chunk.startsWith("$runner.ReadFile(")) {
+          sendFileServiceOutput("%PDF");
+        }
+      });
+
       const runPromise = session.run(
         `ods html5(id=vscode);\nproc print data=sashelp.cars;\nrun;`,
       );
@@ -164,6 +182,13 @@ describe("ITC connection", () => {
       const runResult = await runPromise;
       expect(runResult.html5).to.equal(html5);
       expect(runResult.title).to.equal("Result");
+      expect(runResult.artifacts).to.eql([
+        {
+          name: "report.pdf",
+          mediaType: "application/pdf",
+          data: Buffer.from("%PDF"),
+        },
+      ]);
 
       expect(stdinStub.args[13][0]).to.deep.equal(
         `$code=
@@ -183,6 +208,9 @@ run;
       expect(stdinStub.args[15][0]).to.contain(`$outputFile = "${tempHtmlPath}"
 $runner.FetchResultsFile($filePath, $outputFile)
 `);
+      expect(stdinStub.args[17][0]).to.equal(
+        "$runner.ReadFile('/work/dir/report.pdf')\n",
+      );
     });
   });
 
@@ -0,0 +1,156 @@
+import { expect } from "chai";
+import { EventEmitter } from "events";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import * as sinon from "sinon";
+import { PassThrough } from "stream";
+
+import { LocalSession, toSasArgs } from "../../../src/connection/local";
+import { assertThrowsAsync } from "../../utils";
+
+class FakeProcess extends EventEmitter {
+  public stdin = new PassThrough();
+  public stdout = new PassThrough();
+  public stderr = new PassThrough();
+}
+
+describe("local connection", () => {
+  let workDirectory: string;
+  let sasProcess: FakeProcess;
+  let spawnStub: sinon.SinonStub;
+  let session: LocalSession;
+
+  const setupSession = async () => {
+    const setupPromise = session.setup(true);
+    sasProcess.stderr.write(`WORKDIR${workDirectory}WORKDIREND\n`);
+    await setupPromise;
+  };
+
+  beforeEach(() => {
+    workDirectory = mkdtempSync(path.join(tmpdir(), "sas-work-"));
+    sasProcess = new FakeProcess();
+    spawnStub = sinon.stub().returns(sasProcess);
+
+    session = new LocalSession(
+      {
+        saspath: "/path/to/sas",
+        sasOptions: ["-MEMSIZE 4G", "-NONEWS"],
+      },
+      spawnStub,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(workDirectory, { recursive: true, force: true });
+  });
+
+  describe("setup", () => {
+    it("spawns sas with the profile options", async () => {
+      await setupSession();
+
+      expect(spawnStub.calledOnce).to.equal(true);
+      expect(spawnStub.firstCall.args[0]).to.equal("/path/to/sas");
+      expect(spawnStub.firstCall.args[1]).to.deep.equal([
+        "-nodms",
+        "-stdio",
+        "-nosyntaxcheck",
+        "-MEMSIZE",
+        "4G",
+        "-NONEWS",
+      ]);
+      expect(session.connected).to.equal(true);
+    });
+
+    it("rejects when the sas executable cannot be started", async () => {
+      const setupPromise = session.setup(true);
+      sasProcess.emit("error", new Error("spawn /path/to/sas ENOENT"));
+
+      await assertThrowsAsync(
+        async () => await setupPromise,
+        "spawn /path/to/sas ENOENT",
+      );
+    });
+
+    it("rejects when sas exits before it is ready", async () => {
+      const setupPromise = session.setup(true);
+      sasProcess.emit("close", 1);
+
+      await assertThrowsAsync(
+        async () => await setupPromise,
+        "Could not start the SAS process.",
+      );
+    });
+  });
+
+  describe("run", () => {
+    it("streams the log and reads the html5 result", async () => {
+      const html5 = '<html><body><div id="IDX1">result</div></body></html>';
+      writeFileSync(
+        path.join(workDirectory, "d1b2c3d4-e5f6-a7b8-c9d0-e1f2a3b4c5d6.htm"),
+        html5,
+      );
+      const logLines: string[] = [];
+      session.onExecutionLogFn = (logs) =>
+        logLines.push(...logs.map(({ line }) => line));
+      await setupSession();
+
+      const runPromise = session.run("proc print data=sashelp.class; run;");
+      sasProcess.stderr.write(
+        'NOTE: Writing HTML5 Body file: ods body="d1b2c3d4-e5f6-a7b8-c9d0-e1f2a3b4c5d6.htm"\n',
+      );
+      sasProcess.stderr.write("NOTE: PROCEDURE PRINT used");
+      sasProcess.stderr.write(
+        " (Total process time):\n--vscode-sas-extension-submit-end--\n",
+      );
+      const result = await runPromise;
+
+      expect(logLines).to.deep.equal([
+        'NOTE: Writing HTML5 Body file: ods body="d1b2c3d4-e5f6-a7b8-c9d0-e1f2a3b4c5d6.htm"',
+        "NOTE: PROCEDURE PRINT used (Total process time):",
+      ]);
+      expect(result).to.deep.equal({ html5, title: "Result" });
+    });
+
+    it("rejects when the code cannot be written to sas", async () => {
+      await setupSession();
+
+      const runPromise = session.run("proc print data=sashelp.class; run;");
+      sasProcess.stdin.emit("error", new Error("write EPIPE"));
+
+      await assertThrowsAsync(async () => await runPromise, "write EPIPE");
+      expect(session.connected).to.equal(false);
+    });
+
+    it("rejects the running code when sas exits", async () => {
+      await setupSession();
+
+      const runPromise = session.run("endsas;");
+      sasProcess.emit("exit", 0);
+
+      await assertThrowsAsync(
+        async () => await runPromise,
+        "The SAS session has closed.",
+      );
+      expect(session.connected).to.equal(false);
+    });
+
+    it("rejects code when sas has exited", async () => {
+      await setupSession();
+      sasProcess.stdin.end();
+
+      await assertThrowsAsync(
+        async () => await session.run("proc print data=sashelp.class; run;"),
+        "The SAS session has closed.",
+      );
+    });
+  });
+
+  describe("toSasArgs", () => {
+    it("splits options and their quoted values", () => {
+      expect(
+        toSasArgs(["-MEMSIZE 4G", '-SASUSER "/home/my user/sasuser"']),
+      ).to.deep.equal(["-MEMSIZE", "4G", "-SASUSER", "/home/my user/sasuser"]);
+    });
+  });
+});
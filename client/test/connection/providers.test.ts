@@ -0,0 +1,107 @@
+import { ConfigurationTarget, Disposable, workspace } from "vscode";
+
+import { expect } from "chai";
+
+import {
+  EXTENSION_CONFIG_KEY,
+  EXTENSION_DEFINE_PROFILES_CONFIG_KEY,
+} from "../../src/components/profile";
+import { closeStaleSessions, getSession } from "../../src/connection";
+import {
+  ConnectionProvider,
+  getConnectionProvider,
+  registerConnectionProvider,
+} from "../../src/connection/providers";
+import { Session } from "../../src/connection/session";
+import { api } from "../../src/node/api";
+
+class GatewaySession extends Session {
+  constructor(public readonly gateway: string) {
+    super();
+  }
+  public sessionId? = () => undefined;
+  protected establishConnection = async () => {};
+  protected _run = async () => ({});
+  protected _close = () => {};
+}
+
+const gatewayProvider: ConnectionProvider = {
+  connectionType: "gateway",
+  label: "Job Gateway",
+  prompts: [
+    {
+      key: "gateway",
+      title: "Gateway",
+      placeholder: "Enter the gateway URL",
+      description: "Enter the URL of the job gateway.",
+      required: true,
+    },
+  ],
+  createSession: (profile) => new GatewaySession(`${profile.gateway}`),
+};
+
+const updateProfiles = (value) =>
+  workspace
+    .getConfiguration(EXTENSION_CONFIG_KEY)
+    .update(
+      EXTENSION_DEFINE_PROFILES_CONFIG_KEY,
+      value,
+      ConfigurationTarget.Global,
+    );
+
+describe("connection providers", () => {
+  let registration: Disposable;
+
+  beforeEach(() => {
+    registration = registerConnectionProvider(gatewayProvider);
+  });
+
+  afterEach(async () => {
+    registration.dispose();
+    await updateProfiles({ activeProfile: "", profiles: {} });
+    await closeStaleSessions();
+  });
+
+  it("creates sessions with the provider of the connection type", async () => {
+    await updateProfiles({
+      activeProfile: "jobs",
+      profiles: {
+        jobs: { connectionType: "gateway", gateway: "https://jobs.example" },
+      },
+    });
+
+    const session = getSession();
+    expect(session).to.be.instanceOf(GatewaySession);
+    expect(session).to.have.property("gateway", "https://jobs.example");
+  });
+
+  it("validates the required prompts of the provider", async () => {
+    await updateProfiles({
+      activeProfile: "jobs",
+      profiles: { jobs: { connectionType: "gateway" } },
+    });
+
+    expect(() => getSession()).to.throw("Missing gateway in active profile.");
+  });
+
+  it("rejects a second provider for the same connection type", () => {
+    expect(() => registerConnectionProvider(gatewayProvider)).to.throw(
+      'A connection provider is already registered for the "gateway" connection type.',
+    );
+  });
+
+  it("unregisters the provider when disposed", () => {
+    registration.dispose();
+
+    expect(getConnectionProvider("gateway")).to.equal(undefined);
+  });
+
+  it("does not replace the built-in connection types", () => {
+    expect(() =>
+      api.registerConnectionProvider({
+        ...gatewayProvider,
+        connectionType: "ssh",
+      }),
+    ).to.throw('The "ssh" connection type is built into the SAS extension.');
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import sinon from "sinon";
+
+import { LibraryItem } from "../../../src/components/LibraryNavigator/types";
+import * as connection from "../../../src/connection";
+import RestLibraryAdapter from "../../../src/connection/rest/RestLibraryAdapter";
+import { DataAccessApi } from "../../../src/connection/rest/api/compute";
+import { MockSession } from "../Coderunner.test";
+
+class TestRestLibraryAdapter extends RestLibraryAdapter {
+  public constructor(dataAccessApi: ReturnType<typeof DataAccessApi>) {
+    super();
+    this.dataAccessApi = dataAccessApi;
+    this.sessionId = "session";
+  }
+}
+
+const item: LibraryItem = {
+  uid: "SASHELP.CLASS",
+  id: "CLASS",
+  name: "CLASS",
+  type: "table",
+  library: "SASHELP",
+  readOnly: true,
+};
+
+describe("RestLibraryAdapter tests", () => {
+  let session: MockSession;
+  let sessionStub: sinon.SinonStub;
+  let getRows: sinon.SinonStub;
+  let adapter: TestRestLibraryAdapter;
+
+  beforeEach(() => {
+    session = new MockSession();
+    sessionStub = sinon.stub(connection, "getSession").returns(session);
+    getRows = sinon.stub().resolves({
+      data: { items: [{ index: 0, cells: ["Alfred", "14"] }], count: 19 },
+    });
+    adapter = new TestRestLibraryAdapter(
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      { getRows } as unknown as ReturnType<typeof DataAccessApi>,
+    );
+  });
+
+  afterEach(() => {
+    sessionStub.restore();
+  });
+
+  it("loads filtered table data with the data tables API", async () => {
+    const runSpy = sinon.spy(session, "run");
+
+    const data = await adapter.getRows(item, 100, 50, { where: "age > 12" });
+
+    expect(data).to.eql({
+      rows: [{ index: 0, cells: ["Alfred", "14"] }],
+      count: 19,
+    });
+    expect(getRows.firstCall.args[0]).to.include({
+      libref: "SASHELP",
+      tableName: "CLASS",
+      start: 100,
+      limit: 50,
+      where: "age > 12",
+    });
+    expect(getRows.firstCall.args[1]).not.to.have.property("params");
+    expect(runSpy.called).to.equal(false);
+  });
+
+  it("loads sorted table data from a view", async () => {
+    const runSpy = sinon.spy(session, "run");
+
+    const data = await adapter.getRows(item, 100, 50, {
+      where: "age > 12",
+      orderBy: [{ column: "Name", direction: "desc" }],
+    });
+
+    expect(data.count).to.equal(19);
+    expect(runSpy.firstCall.args[0]).to.contain(
+      "create view work.V100_CLASS as select * from SASHELP.CLASS where age > 12 order by Name desc;",
+    );
+    expect(getRows.firstCall.args[0]).to.include({
+      libref: "WORK",
+      tableName: "V100_CLASS",
+      start: 100,
+      limit: 50,
+    });
+    expect(getRows.firstCall.args[0]).not.to.have.property("where");
+    expect(runSpy.secondCall.args[0]).to.contain(
+      "delete V100_CLASS / memtype=view;",
+    );
+  });
+});
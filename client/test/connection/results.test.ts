@@ -0,0 +1,59 @@
+import { expect } from "chai";
+
+import {
+  ResultFileTracker,
+  getResultFileName,
+  getResultMediaType,
+} from "../../src/connection/results";
+
+describe("results", () => {
+  it("returns the media types of result files", () => {
+    expect(getResultMediaType("report.PDF")).to.equal("application/pdf");
+    expect(getResultMediaType("sgplot1.png")).to.equal("image/png");
+    expect(getResultMediaType("class.sas7bdat")).to.be.undefined;
+    expect(getResultMediaType("png")).to.be.undefined;
+  });
+
+  it("adds the extension of their media type to result names", () => {
+    expect(
+      getResultFileName("Results: program.sas", "application/pdf"),
+    ).to.equal("Results_ program.sas.pdf");
+    expect(getResultFileName("report.rtf", "application/rtf")).to.equal(
+      "report.rtf",
+    );
+    expect(getResultFileName("listing", "text/plain;charset=utf-8")).to.equal(
+      "listing.lst",
+    );
+    expect(getResultFileName("data", "application/octet-stream")).to.equal(
+      "data",
+    );
+  });
+
+  it("tracks the result files that are added or changed", () => {
+    const tracker = new ResultFileTracker();
+
+    expect(
+      tracker.update([
+        { name: "report.pdf", version: "1" },
+        { name: "class.sas7bdat", version: "1" },
+      ]),
+    ).to.eql(["report.pdf"]);
+    expect(
+      tracker.update([
+        { name: "report.pdf", version: "1" },
+        { name: "sgplot1.png", version: "1" },
+      ]),
+    ).to.eql(["sgplot1.png"]);
+    expect(
+      tracker.update([
+        { name: "report.pdf", version: "2" },
+        { name: "sgplot1.png", version: "1" },
+      ]),
+    ).to.eql(["report.pdf"]);
+
+    tracker.reset();
+    expect(tracker.update([{ name: "sgplot1.png", version: "1" }])).to.eql([
+      "sgplot1.png",
+    ]);
+  });
+});
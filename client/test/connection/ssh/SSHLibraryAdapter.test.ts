@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import sinon from "sinon";
+
+import {
+  LibraryItem,
+  TableData,
+} from "../../../src/components/LibraryNavigator/types";
+import * as connection from "../../../src/connection";
+import SSHLibraryAdapter from "../../../src/connection/ssh/SSHLibraryAdapter";
+import { assertThrowsAsync } from "../../utils";
+import { MockSession } from "../Coderunner.test";
+
+const mockOutput = {
+  "dictionary.columns": `
+OUTPUTSTART
+first,char,1,8,,First name
+~last,char,2,16,$16.,
+OUTPUTEND`,
+  "dictionary.libnames": `
+OUTPUTSTART test1,yes~test2,no
+OUTPUTEND`,
+  "dictionary.tables": `
+OUTPUTSTART test1~test2
+OUTPUTEND`,
+  "proc json": `
+OUTPUTSTART COUNT=1234
+{
+  "SASJSONExport": "1.0 PRETTY NOKEYS",
+  "SASTableData+VSCODEROWS": [
+    ["Peter","Parker"],
+    ["Tony","Stark"]
+  ]
+}
+OUTPUTEND`,
+  "count(1)": `
+OUTPUTSTART 1234
+OUTPUTEND`,
+};
+
+describe("SSHLibraryAdapter tests", () => {
+  let session: MockSession;
+  let sessionStub;
+  before(() => {
+    session = new MockSession(mockOutput);
+    sessionStub = sinon.stub(connection, "getSession");
+    sessionStub.returns(session);
+  });
+
+  after(() => {
+    sessionStub.restore();
+  });
+
+  const table: LibraryItem = {
+    uid: "lib.test",
+    type: "table",
+    id: "test",
+    name: "TEST",
+    library: "LIB",
+    readOnly: true,
+  };
+
+  it("fetches columns", async () => {
+    const libraryAdapter = new SSHLibraryAdapter();
+
+    const response = await libraryAdapter.getColumns(table);
+
+    expect(response.items).to.eql([
+      {
+        name: "first",
+        type: "char",
+        index: 1,
+        length: 8,
+        format: undefined,
+        label: "First name",
+      },
+      {
+        name: "last",
+        type: "char",
+        index: 2,
+        length: 16,
+        format: { name: "$16." },
+        label: "",
+      },
+    ]);
+    expect(response.count).to.equal(-1);
+  });
+
+  it("loads libraries", async () => {
+    const libraryAdapter = new SSHLibraryAdapter();
+
+    const response = await libraryAdapter.getLibraries();
+
+    expect(response.items).to.eql([
+      {
+        uid: "test1",
+        id: "test1",
+        name: "test1",
+        type: "library",
+        readOnly: true,
+      },
+      {
+        uid: "test2",
+        id: "test2",
+        name: "test2",
+        type: "library",
+        readOnly: false,
+      },
+    ]);
+  });
+
+  it("loads a list of tables", async () => {
+    const library: LibraryItem = {
+      uid: "lib",
+      id: "lib",
+      name: "lib",
+      type: "library",
+      readOnly: true,
+    };
+    const libraryAdapter = new SSHLibraryAdapter();
+
+    const response = await libraryAdapter.getTables(library);
+
+    expect(response.items.map(({ uid }) => uid)).to.eql([
+      "lib.test1",
+      "lib.test2",
+    ]);
+    expect(response.items[0].library).to.equal("lib");
+  });
+
+  it("loads table data", async () => {
+    const libraryAdapter = new SSHLibraryAdapter();
+    const expectedTableData: TableData = {
+      rows: [
+        { cells: ["1", "Peter", "Parker"] },
+        { cells: ["2", "Tony", "Stark"] },
+      ],
+      count: 1234,
+    };
+
+    const tableData = await libraryAdapter.getRows(table, 0, 100);
+
+    expect(tableData).to.eql(expectedTableData);
+  });
+
+  it("reports the error of an invalid filter", async () => {
+    sessionStub.returns(
+      new MockSession({
+        "proc json": `
+OUTPUTSTART
+QUERYERROR=1012 ERROR: The following columns were not found in the contributing tables: height.QUERYERROREND
+COUNT=0
+OUTPUTEND`,
+      }),
+    );
+    try {
+      await assertThrowsAsync(
+        () =>
+          new SSHLibraryAdapter().getRows(table, 0, 100, {
+            where: "height > 60",
+          }),
+        "ERROR: The following columns were not found in the contributing tables: height.",
+      );
+    } finally {
+      sessionStub.returns(session);
+    }
+  });
+
+  it("gets table row count", async () => {
+    const libraryAdapter = new SSHLibraryAdapter();
+
+    const response = await libraryAdapter.getTableRowCount(table);
+
+    expect(response.rowCount).to.equal(1234);
+  });
+
+  it("restores the notes and source options after a query", async () => {
+    const runSpy = sinon.spy(session, "run");
+    try {
+      await new SSHLibraryAdapter().getTableRowCount(table);
+    } finally {
+      runSpy.restore();
+    }
+
+    const code: string = runSpy.firstCall.args[0];
+    expect(code).to.match(
+      /^%let _vscopts=%sysfunc\(getoption\(notes\)\) %sysfunc\(getoption\(source\)\);\s*options nonotes nosource;/,
+    );
+    expect(code).to.match(/options &_vscopts;$/);
+    expect(code).not.to.contain("options notes source;");
+  });
+});
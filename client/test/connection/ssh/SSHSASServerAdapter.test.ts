@@ -0,0 +1,152 @@
+import { FileType } from "vscode";
+
+import { expect } from "chai";
+import sinon from "sinon";
+
+import * as connection from "../../../src/connection";
+import SSHSASServerAdapter from "../../../src/connection/ssh/SSHSASServerAdapter";
+import { MockSession } from "../Coderunner.test";
+
+const stats = (isDirectory: boolean, size = 0) => ({
+  isDirectory: () => isDirectory,
+  mtime: 1700000000,
+  size,
+});
+
+class MockSFTPSession extends MockSession {
+  public files: Record<string, Buffer | undefined> = {
+    "/home/user": undefined,
+    "/home/user/sasprogs": undefined,
+    "/home/user/sasprogs/test.sas": Buffer.from("proc print; run;"),
+    "/home/user/autoexec.sas": Buffer.from(""),
+  };
+
+  public async sftp() {
+    const files = this.files;
+    const children = (path: string) =>
+      Object.keys(files).filter(
+        (file) => file.slice(0, file.lastIndexOf("/")) === path,
+      );
+
+    return {
+      realpath: (path, callback) => callback(undefined, "/home/user"),
+      readdir: (path, callback) =>
+        callback(
+          undefined,
+          children(path).map((file) => ({
+            filename: file.slice(path.length + 1),
+            attrs: stats(!files[file], files[file]?.length),
+          })),
+        ),
+      stat: (path, callback) =>
+        path in files
+          ? callback(undefined, stats(!files[path], files[path]?.length))
+          : callback(new Error("No such file")),
+      readFile: (path, callback) => callback(undefined, files[path]),
+      writeFile: (path, content, callback) => {
+        files[path] = content;
+        callback();
+      },
+      mkdir: (path, callback) => {
+        files[path] = undefined;
+        callback();
+      },
+      rename: (oldPath, newPath, callback) => {
+        files[newPath] = files[oldPath];
+        delete files[oldPath];
+        callback();
+      },
+      unlink: (path, callback) => {
+        delete files[path];
+        callback();
+      },
+      rmdir: (path, callback) => {
+        if (children(path).length) {
+          callback(new Error("Directory not empty"));
+          return;
+        }
+        delete files[path];
+        callback();
+      },
+    };
+  }
+}
+
+describe("SSHSASServerAdapter tests", () => {
+  let session: MockSFTPSession;
+  let sessionStub;
+  beforeEach(() => {
+    session = new MockSFTPSession();
+    sessionStub = sinon.stub(connection, "getSession");
+    sessionStub.returns(session);
+  });
+
+  afterEach(() => {
+    sessionStub.restore();
+  });
+
+  const getHomeFolder = async (adapter: SSHSASServerAdapter) => {
+    const rootItems = await adapter.getRootItems();
+    const [homeFolder] = await adapter.getChildItems(
+      rootItems["@sasServerRoot"],
+    );
+    return homeFolder;
+  };
+
+  it("lists the home directory over SFTP", async () => {
+    const adapter = new SSHSASServerAdapter();
+
+    const childItems = await adapter.getChildItems(
+      await getHomeFolder(adapter),
+    );
+
+    expect(childItems.map(({ name }) => name)).to.eql([
+      "sasprogs",
+      "autoexec.sas",
+    ]);
+    expect(childItems[0].fileStat.type).to.equal(FileType.Directory);
+    expect(childItems[1].fileStat.mtime).to.equal(1700000000000);
+  });
+
+  it("creates files and folders", async () => {
+    const adapter = new SSHSASServerAdapter();
+    const homeFolder = await getHomeFolder(adapter);
+
+    const folder = await adapter.createNewFolder(homeFolder, "macros");
+    const file = await adapter.createNewItem(
+      folder,
+      "util.sas",
+      new TextEncoder().encode("%macro util; %mend;").buffer,
+    );
+
+    expect(folder.uri).to.equal("~fs~home~fs~user~fs~macros");
+    expect(file.name).to.equal("util.sas");
+    expect(session.files["/home/user/macros/util.sas"].toString()).to.equal(
+      "%macro util; %mend;",
+    );
+  });
+
+  it("renames files", async () => {
+    const adapter = new SSHSASServerAdapter();
+    const [, file] = await adapter.getChildItems(await getHomeFolder(adapter));
+
+    const renamedFile = await adapter.renameItem(file, "init.sas");
+
+    expect(renamedFile.uri).to.equal("~fs~home~fs~user~fs~init.sas");
+    expect(session.files).to.have.property("/home/user/init.sas");
+    expect(session.files).not.to.have.property("/home/user/autoexec.sas");
+  });
+
+  it("deletes folders with their contents", async () => {
+    const adapter = new SSHSASServerAdapter();
+    const [folder] = await adapter.getChildItems(await getHomeFolder(adapter));
+
+    const deleted = await adapter.deleteItem(folder);
+
+    expect(deleted).to.equal(true);
+    expect(Object.keys(session.files)).to.eql([
+      "/home/user",
+      "/home/user/autoexec.sas",
+    ]);
+  });
+});
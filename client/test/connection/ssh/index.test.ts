@@ -1,6 +1,6 @@
 import { assert, expect } from "chai";
 import * as sinon from "sinon";
-import { Client, ClientChannel } from "ssh2";
+import { Client, ClientChannel, SFTPWrapper } from "ssh2";
 import { StubbedInstance, stubInterface } from "ts-sinon";
 
 import { SSHSession, getSession } from "../../../src/connection/ssh";
@@ -247,6 +247,44 @@ describe("ssh connection", () => {
       });
       await session.run("test code").catch((err) => assert.fail(err));
     });
+
+    it("reads the result files of user code only", async () => {
+      const session = new SSHSession(config);
+      session.onExecutionLogFn = () => {
+        return;
+      };
+      let onDataListener;
+      streamStub.on.callsFake((event, callback) => {
+        if (event === "data") {
+          onDataListener = callback;
+          onDataListener("?");
+        }
+        return this;
+      });
+      streamStub.write.callsFake((chunk) => {
+        if (chunk === "%put --vscode-sas-extension-submit-end--;\n") {
+          onDataListener("--vscode-sas-extension-submit-end--\n");
+        }
+        return true;
+      });
+      const sftpStub = stubInterface<SFTPWrapper>();
+      sftpStub.readdir.callsFake((path, callback) => callback(undefined, []));
+      const sftp = sandbox
+        .stub(Client.prototype, "sftp")
+        .callsFake((callback) => {
+          callback(undefined, sftpStub);
+          return undefined;
+        });
+
+      await session.setup();
+      onDataListener("WORKDIR/saswork WORKDIREND\n");
+
+      await session.run("proc sql; quit;", true);
+      expect(sftp.called).to.be.false;
+
+      await session.run("proc print data=sashelp.class; run;");
+      expect(sftpStub.readdir.calledWith("/saswork")).to.be.true;
+    });
   });
 
   describe("close", () => {
@@ -0,0 +1,155 @@
+import { l10n } from "vscode";
+
+import { expect } from "chai";
+
+import { LibraryItem } from "../../src/components/LibraryNavigator/types";
+import {
+  compareColumns,
+  getTableCompareCode,
+  parseTableComparison,
+} from "../../src/connection/tableCompare";
+
+const base: LibraryItem = {
+  uid: "WORK.SALES",
+  id: "SALES",
+  name: "SALES",
+  type: "table",
+  library: "WORK",
+  readOnly: false,
+};
+
+const compare: LibraryItem = {
+  ...base,
+  uid: "SASUSER.SALES",
+  library: "SASUSER",
+};
+
+const columns = [
+  { name: "Region", type: "char" },
+  { name: "Sales Total", type: "num" },
+];
+
+describe("tableCompare", () => {
+  it("compares the attributes of columns matched by name", () => {
+    expect(
+      compareColumns(
+        [
+          { name: "id", type: "num", length: 8, format: { name: "BEST12." } },
+          { name: "Region", type: "char", length: 8, label: "Region" },
+          { name: "Old", type: "num", length: 8 },
+        ],
+        [
+          {
+            name: "ID",
+            type: "num",
+            length: 8,
+            format: { name: "BEST", length: 12 },
+          },
+          { name: "region", type: "char", length: 16, label: "Region" },
+          { name: "New", type: "char", length: 1 },
+        ],
+      ),
+    ).to.eql([
+      {
+        name: "id",
+        base: { type: "num", length: 8, format: "BEST12.", label: "" },
+        compare: { type: "num", length: 8, format: "BEST12.", label: "" },
+      },
+      {
+        name: "Region",
+        base: { type: "char", length: 8, format: "", label: "Region" },
+        compare: { type: "char", length: 16, format: "", label: "Region" },
+      },
+      {
+        name: "Old",
+        base: { type: "num", length: 8, format: "", label: "" },
+        compare: undefined,
+      },
+      {
+        name: "New",
+        compare: { type: "char", length: 1, format: "", label: "" },
+      },
+    ]);
+  });
+
+  it("compares sorted tables by their keys", () => {
+    const code = getTableCompareCode(base, compare, {
+      keys: ["id"],
+      columns,
+    });
+
+    expect(code).to.contain(
+      "proc sort data=WORK.SALES out=work._vsccmp_b; by id; run;",
+    );
+    expect(code).to.contain(
+      "proc sort data=SASUSER.SALES out=work._vsccmp_c; by id; run;",
+    );
+    expect(code).to.contain(
+      "proc compare base=work._vsccmp_b compare=work._vsccmp_c",
+    );
+    expect(code).to.contain("id id;");
+    expect(code).to.contain("var Region 'Sales Total'n;");
+    expect(code).to.contain("length _vscb0 $ 32767;");
+    expect(code).to.contain('write values "unmatchedRows"');
+  });
+
+  it("compares tables by the position of their rows without keys", () => {
+    const code = getTableCompareCode(base, compare, { keys: [], columns });
+
+    expect(code).not.to.contain("proc sort");
+    expect(code).to.contain(
+      "proc compare base=WORK.SALES compare=SASUSER.SALES",
+    );
+    expect(code).not.to.contain('write values "unmatchedRows"');
+  });
+
+  it("reads the comparison", () => {
+    const comparison = parseTableComparison(
+      `{
+        "sysinfo": 4096,
+        "baseRowCount": 3,
+        "compareRowCount": 3,
+        "unequal": [{ "_vscrows": 1, "_vscneq0": 0, "_vscneq1": 1 }],
+        "unequalRows": [
+          { "_TYPE_": "BASE", "_OBS_": 2, "ID": 2, "REGION": "North", "Sales Total": 10 },
+          { "_TYPE_": "COMPARE", "_OBS_": 2, "ID": 2, "REGION": "North", "Sales Total": null }
+        ],
+        "baseOnlyRowCount": 1,
+        "compareOnlyRowCount": 1,
+        "unmatchedRows": [
+          { "_vsctable": "base", "id": 1 },
+          { "_vsctable": "compare", "id": 4 }
+        ]
+      }`,
+      { keys: ["id"], columns },
+    );
+
+    expect(comparison).to.eql({
+      baseRowCount: 3,
+      compareRowCount: 3,
+      unequalRowCount: 1,
+      baseOnlyRowCount: 1,
+      compareOnlyRowCount: 1,
+      unequalCounts: { Region: 0, "Sales Total": 1 },
+      unequalRows: [
+        {
+          base: { id: 2, Region: "North", "Sales Total": 10 },
+          compare: { id: 2, Region: "North", "Sales Total": null },
+        },
+      ],
+      unmatchedRows: [
+        { table: "base", keys: { id: 1 } },
+        { table: "compare", keys: { id: 4 } },
+      ],
+    });
+  });
+
+  it("rejects comparisons that could not be made", () => {
+    expect(() =>
+      parseTableComparison(
+        '{ "sysinfo": 32768, "baseRowCount": 0, "compareRowCount": 0 }',
+        { keys: [], columns },
+      ),
+    ).to.throw(l10n.t("An error was encountered when comparing the tables."));
+  });
+});
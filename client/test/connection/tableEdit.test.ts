@@ -0,0 +1,158 @@
+import { l10n } from "vscode";
+
+import { expect } from "chai";
+
+import { LibraryItem } from "../../src/components/LibraryNavigator/types";
+import {
+  getTableEditCode,
+  parseTableEditResult,
+} from "../../src/connection/tableEdit";
+
+const item: LibraryItem = {
+  uid: "SASUSER.REGIONS",
+  id: "REGIONS",
+  name: "REGIONS",
+  type: "table",
+  library: "SASUSER",
+  readOnly: false,
+};
+
+const columns = [
+  { name: "Region", type: "char" },
+  { name: "Opened", type: "num" },
+  { name: "Sales Total", type: "num" },
+];
+
+describe("tableEdit", () => {
+  it("replaces and removes rows by their position, and appends added rows", () => {
+    const code = getTableEditCode(item, columns, {
+      updates: [
+        {
+          row: 2,
+          original: { Region: "Chicago", "Sales Total": "10" },
+          values: { Region: "O'Hare", "Sales Total": "12.5" },
+        },
+        { row: 3, original: { Region: "Here" }, values: { Region: "Gone" } },
+      ],
+      deletes: [
+        {
+          row: 3,
+          original: { Region: "Here", Opened: "", "Sales Total": "1" },
+        },
+        { row: 5, original: { Region: "There" } },
+      ],
+      inserts: [{ Region: "North", Opened: "", "Sales Total": "-3" }],
+    });
+
+    expect(code).not.to.contain("call symputx('_vscbad'");
+    expect(code).to.contain("data SASUSER.REGIONS;");
+    expect(code).to.contain("modify SASUSER.REGIONS;");
+    expect(code).to.contain(
+      "when (2) do; Region = 'O''Hare'; 'Sales Total'n = 12.5; replace; end;",
+    );
+    expect(code).not.to.contain("when (3) do;");
+    expect(code).to.contain("when (3, 5) remove;");
+    expect(code).to.contain(
+      "Region = 'North'; Opened = .; 'Sales Total'n = -3; output;",
+    );
+    expect(code).to.contain(
+      "proc append base=SASUSER.REGIONS data=work._vscins; run;",
+    );
+  });
+
+  it("checks the values the rows were read with before changing them", () => {
+    const code = getTableEditCode(item, columns, {
+      updates: [
+        {
+          row: 4,
+          original: { Opened: "31DEC2023", "Sales Total": "-1.5" },
+          values: { "Sales Total": "2" },
+        },
+      ],
+      deletes: [{ row: 2, original: { Region: "O'Hare", Opened: "." } }],
+      inserts: [],
+    });
+
+    expect(code).to.contain("do _vscn = 1 to 4;");
+    expect(code).to.contain("set SASUSER.REGIONS end=_vscend;");
+    expect(code).to.contain(
+      "when (2) if not (Region = 'O''Hare' and missing(Opened)) then do; call symputx('_vscrow', 2); stop; end;",
+    );
+    expect(code).to.contain(
+      "when (4) if not ((strip(vvalue(Opened)) = '31DEC2023' or Opened = inputn('31DEC2023', ",
+    );
+    expect(code).to.contain(
+      "and abs('Sales Total'n - (-1.5)) <= 1e-8 * abs(-1.5)) then do;",
+    );
+    expect(code.indexOf("set SASUSER.REGIONS end=_vscend;")).to.be.below(
+      code.indexOf("modify SASUSER.REGIONS;"),
+    );
+    expect(code).to.contain("if &_vscbad or &_vscrow then stop;");
+  });
+
+  it("keeps the SYSCC of the session", () => {
+    const lines = getTableEditCode(item, columns, {
+      updates: [],
+      deletes: [],
+      inserts: [{ Region: "North" }],
+    }).split("\n");
+
+    expect(lines.slice(0, 2)).to.eql([
+      "%let _vscsyscc=&syscc;",
+      "%let syscc=0;",
+    ]);
+    expect(lines[lines.length - 1]).to.equal("%let syscc=&_vscsyscc;");
+  });
+
+  it("reads formatted values with the informat of their column", () => {
+    const code = getTableEditCode(item, columns, {
+      updates: [
+        {
+          row: 1,
+          original: { Opened: "31DEC2023" },
+          values: { Opened: "01JAN2024" },
+        },
+      ],
+      deletes: [],
+      inserts: [],
+    });
+
+    expect(code).to.contain("data _null_;");
+    expect(code).to.contain(
+      "if missing(inputn('01JAN2024', ifc(fmtinfo(vformatn(Opened), 'cat') = 'date', 'anydtdte32.',",
+    );
+    expect(code).to.contain("call symputx('_vscbad', 1); stop;");
+    expect(code).to.contain("when (1) do; Opened = inputn('01JAN2024', ");
+    expect(code).not.to.contain("proc append");
+  });
+
+  it("throws the error of failed changes", () => {
+    const edits = {
+      updates: [
+        { row: 1, original: { Opened: "" }, values: { Opened: "someday" } },
+      ],
+      deletes: [],
+      inserts: [],
+    };
+
+    expect(() => parseTableEditResult("0 0 0 ", columns, edits)).not.to.throw();
+    expect(() =>
+      parseTableEditResult("1012 0 0 ERROR: Table is locked.", columns, edits),
+    ).to.throw("ERROR: Table is locked.");
+    expect(() => parseTableEditResult("0 0 1 ", columns, edits)).to.throw(
+      l10n.t(
+        "Row {row} was changed after it was read. Refresh the table and make the changes again.",
+        { row: "1" },
+      ),
+    );
+    expect(() => parseTableEditResult("0 1 0 ", columns, edits)).to.throw(
+      l10n.t("{value} is not a valid value of {column}.", {
+        value: "someday",
+        column: "Opened",
+      }),
+    );
+    expect(() => parseTableEditResult("", columns, edits)).to.throw(
+      "The changes could not be saved.",
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { expect } from "chai";
+
+import {
+  getTableImportCode,
+  parseTableImportResult,
+} from "../../src/connection/tableImport";
+
+describe("tableImport", () => {
+  it("reads the columns of a table with their lengths, formats and labels", () => {
+    const code = getTableImportCode(
+      "WORK",
+      {
+        name: "sales",
+        columns: [
+          { name: "Region", type: "char", length: 20, label: "Sales region" },
+          { name: "Date", type: "num", length: 8, format: "DATE9." },
+          { name: "Total", type: "num", length: 8, label: "Owner's total" },
+        ],
+        rows: [],
+      },
+      512,
+    );
+
+    expect(code).to.contain("data WORK.sales;");
+    expect(code).to.contain("lrecl=512");
+    expect(code).to.contain("length Region $ 20 Date 8 Total 8;");
+    expect(code).to.contain("format Date DATE9.;");
+    expect(code).to.contain(
+      "label Region='Sales region' Total='Owner''s total';",
+    );
+    expect(code).to.contain("input Region $ Date Total;");
+  });
+
+  it("throws the error of a failed import", () => {
+    expect(() => parseTableImportResult("0 ")).not.to.throw();
+    expect(() => parseTableImportResult("4 WARNING: Truncated")).not.to.throw();
+    expect(() =>
+      parseTableImportResult("1012 ERROR: Library X does not exist."),
+    ).to.throw("ERROR: Library X does not exist.");
+    expect(() => parseTableImportResult("")).to.throw(
+      "The table could not be imported.",
+    );
+  });
+});
@@ -1,7 +1,24 @@
 import { expect } from "chai";
+import * as sinon from "sinon";
 
 import { useRunStore } from "../../../src/store";
-import { RunState, initialState } from "../../../src/store/run/initialState";
+import {
+  QueuedRun,
+  RunState,
+  initialState,
+} from "../../../src/store/run/initialState";
+
+const createRun = (
+  id: string,
+): QueuedRun & { start: sinon.SinonStub; cancel: sinon.SinonStub } => ({
+  id,
+  label: `${id}.sas`,
+  queuedAt: 0,
+  start: sinon.stub(),
+  cancel: sinon.stub(),
+});
+
+const queuedIds = () => useRunStore.getState().queue.map((run) => run.id);
 
 describe("run actions", () => {
   beforeEach(() => {
@@ -13,10 +30,51 @@ describe("run actions", () => {
     const expectedState: RunState = {
       isExecutingCode: true,
       isUserExecuting: true,
+      queue: [],
     };
 
     setIsExecutingCode(true);
 
     expect(useRunStore.getState()).to.deep.include(expectedState);
   });
+
+  it("enqueueRun and dequeueRun - runs in submission order", () => {
+    const { enqueueRun, dequeueRun } = useRunStore.getState();
+    enqueueRun(createRun("first"));
+    enqueueRun(createRun("second"));
+
+    expect(dequeueRun().id).to.equal("first");
+    expect(queuedIds()).to.deep.equal(["second"]);
+    expect(dequeueRun().id).to.equal("second");
+    expect(dequeueRun()).to.equal(undefined);
+  });
+
+  it("moveQueuedRun - reorders the queue within its bounds", () => {
+    const { enqueueRun, moveQueuedRun } = useRunStore.getState();
+    ["first", "second", "third"].forEach((id) => enqueueRun(createRun(id)));
+
+    moveQueuedRun("third", -1);
+    expect(queuedIds()).to.deep.equal(["first", "third", "second"]);
+
+    moveQueuedRun("first", -1);
+    moveQueuedRun("second", 1);
+    expect(queuedIds()).to.deep.equal(["first", "third", "second"]);
+  });
+
+  it("cancelQueuedRun and cancelQueue - remove runs without starting them", () => {
+    const { enqueueRun, cancelQueuedRun, cancelQueue } = useRunStore.getState();
+    const runs = ["first", "second", "third"].map(createRun);
+    runs.forEach((run) => enqueueRun(run));
+
+    cancelQueuedRun("second");
+    expect(queuedIds()).to.deep.equal(["first", "third"]);
+    expect(runs[1].cancel.calledOnce).to.be.true;
+
+    cancelQueue();
+    expect(queuedIds()).to.deep.equal([]);
+    runs.forEach((run) => {
+      expect(run.cancel.calledOnce).to.be.true;
+      expect(run.start.called).to.be.false;
+    });
+  });
 });
@@ -0,0 +1,26 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+// There is no file system access in the browser, only open documents are used
+export const FileLoader = {
+  findFiles: function (
+    folderUris: string[],
+    extensions: string[],
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    recursive = true,
+  ): string[] {
+    return [];
+  },
+  resolvePath: function (
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    filePath: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    folderUris: string[],
+  ): string | undefined {
+    return undefined;
+  },
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  readFile: function (uri: string): string | undefined {
+    return undefined;
+  },
+};
@@ -0,0 +1,70 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { existsSync, readFileSync, readdirSync } from "fs";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+
+const ignoredFolders = ["node_modules", ".git", ".vscode-test"];
+const maxFileCount = 5000;
+
+export const FileLoader = {
+  /**
+   * Lists the files with one of the given extensions under the given folder
+   * uris, returned as file uris.
+   */
+  findFiles: function (
+    folderUris: string[],
+    extensions: string[],
+    recursive = true,
+  ): string[] {
+    const result: string[] = [];
+    const stack = folderUris
+      .filter((uri) => uri.startsWith("file:"))
+      .map((uri) => fileURLToPath(uri));
+    while (stack.length > 0 && result.length < maxFileCount) {
+      const folder = stack.pop()!;
+      let entries;
+      try {
+        entries = readdirSync(folder, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        const fullPath = path.join(folder, entry.name);
+        if (entry.isDirectory()) {
+          if (recursive && !ignoredFolders.includes(entry.name)) {
+            stack.push(fullPath);
+          }
+        } else if (
+          extensions.includes(path.extname(entry.name).toLowerCase())
+        ) {
+          result.push(pathToFileURL(fullPath).toString());
+        }
+      }
+    }
+    return result;
+  },
+  /**
+   * Returns the uri of the given path if it exists, a relative path is tried
+   * against each of the given folder uris in turn.
+   */
+  resolvePath: function (
+    filePath: string,
+    folderUris: string[],
+  ): string | undefined {
+    const candidates = path.isAbsolute(filePath)
+      ? [filePath]
+      : folderUris
+          .filter((uri) => uri.startsWith("file:"))
+          .map((uri) => path.resolve(fileURLToPath(uri), filePath));
+    const found = candidates.find((candidate) => existsSync(candidate));
+    return found ? pathToFileURL(found).toString() : undefined;
+  },
+  readFile: function (uri: string): string | undefined {
+    try {
+      return readFileSync(fileURLToPath(uri)).toString();
+    } catch {
+      return undefined;
+    }
+  },
+};
@@ -0,0 +1,380 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { statSync, writeFileSync } from "fs";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+
+import { readConfigFile } from "../sas/ConfigFile";
+import { LanguageServiceProvider } from "../sas/LanguageServiceProvider";
+import { LintConfig, toLintConfig } from "../sas/LintProvider";
+import {
+  defaultFormatOptions,
+  toFormatOptions,
+} from "../sas/formatter/options";
+import { getText } from "../sas/utils";
+import { FileLoader } from "./FileLoader";
+import { FileResult, ReporterName, report, reporterNames } from "./reporters";
+
+const usage = `Usage: sas-tools <command> [options] <files or folders...>
+
+Commands:
+  format              Check that SAS files and notebooks are formatted
+  lint                Report the problems and lint rule violations of SAS files and notebooks
+
+Options:
+  --check             Report the files that are not formatted (format, default)
+  --write             Format the files in place (format)
+  --reporter <name>   The output format: text, json or sarif (default: text)
+  --fail-on <level>   The lowest severity that fails a lint: error, warning, information or hint (default: warning)
+  --tab-width <n>     The number of spaces of an indent (format, default: 2)
+  --use-tabs          Indent with tabs (format)
+  --help              Show this help
+
+The .sasformatrc and .saslintrc files of the current folder, or of the folder
+of a file up to the current folder, configure the formatter and the lint rules.
+
+Exits with 0 when there are no problems, 1 when there are problems and 2 when
+the arguments are invalid or a file cannot be checked.`;
+
+const extensions = [".sas", ".sasnb"];
+const severities: Record<string, DiagnosticSeverity> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  information: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+};
+
+export const FORMAT_SOURCE = "sasformat";
+
+interface Output {
+  log: (text: string) => void;
+  error: (text: string) => void;
+}
+
+interface CliOptions {
+  command: "format" | "lint";
+  write: boolean;
+  reporter: ReporterName;
+  failOn: DiagnosticSeverity;
+  tabWidth: number;
+  useTabs: boolean;
+  paths: string[];
+}
+
+interface NotebookCell {
+  language: string;
+  value: string;
+}
+
+const isNotebookCell = (value: unknown): value is NotebookCell =>
+  typeof value === "object" &&
+  value !== null &&
+  "language" in value &&
+  "value" in value &&
+  typeof value.language === "string" &&
+  typeof value.value === "string";
+
+const isOneOf = <T extends string>(
+  values: readonly T[],
+  value: unknown,
+): value is T => values.some((item) => item === value);
+
+const parseArgs = (args: string[]): CliOptions | string => {
+  const [command, ...rest] = args;
+  if (command !== "format" && command !== "lint") {
+    return command ? `Unknown command: ${command}` : "Missing command";
+  }
+  const options: CliOptions = {
+    command,
+    write: false,
+    reporter: "text",
+    failOn: DiagnosticSeverity.Warning,
+    tabWidth: 2,
+    useTabs: false,
+    paths: [],
+  };
+  for (let index = 0; index < rest.length; index++) {
+    const arg = rest[index];
+    const value = rest[index + 1];
+    switch (arg) {
+      case "--check":
+        options.write = false;
+        break;
+      case "--write":
+        options.write = true;
+        break;
+      case "--reporter":
+        if (!isOneOf(reporterNames, value)) {
+          return `Invalid reporter: ${value}`;
+        }
+        options.reporter = value;
+        index++;
+        break;
+      case "--fail-on":
+        if (!Object.keys(severities).includes(value)) {
+          return `Invalid severity: ${value}`;
+        }
+        options.failOn = severities[value];
+        index++;
+        break;
+      case "--tab-width":
+        if (!/^[1-9]\d*$/.test(value ?? "")) {
+          return `Invalid tab width: ${value}`;
+        }
+        options.tabWidth = Number(value);
+        index++;
+        break;
+      case "--use-tabs":
+        options.useTabs = true;
+        break;
+      default:
+        if (arg.startsWith("-")) {
+          return `Unknown option: ${arg}`;
+        }
+        options.paths.push(arg);
+    }
+  }
+  if (options.paths.length === 0) {
+    return "Missing files or folders";
+  }
+  return options;
+};
+
+// the SAS files and notebooks of the given paths, as file uris
+const findFiles = (paths: string[]): string[] => {
+  const uris: string[] = [];
+  for (const filePath of paths) {
+    const fullPath = path.resolve(filePath);
+    const uri = pathToFileURL(fullPath).toString();
+    let isDirectory;
+    try {
+      isDirectory = statSync(fullPath).isDirectory();
+    } catch {
+      throw new Error(`Cannot read ${filePath}`);
+    }
+    if (isDirectory) {
+      uris.push(...FileLoader.findFiles([uri], extensions).sort());
+    } else {
+      uris.push(uri);
+    }
+  }
+  return uris.filter((uri, index) => uris.indexOf(uri) === index);
+};
+
+// orders problems by where they start, then by where they end
+const compareRanges = (a: Diagnostic, b: Diagnostic): number =>
+  a.range.start.line - b.range.start.line ||
+  a.range.start.character - b.range.start.character ||
+  a.range.end.line - b.range.end.line ||
+  a.range.end.character - b.range.end.character;
+
+/**
+ * Checks the formatting or the problems of the code of a file or of a
+ * notebook cell, with the same language service as the editor.
+ */
+const checkCode = async (
+  uri: string,
+  text: string,
+  options: CliOptions,
+  config: { formatOptions: object; lintConfig: LintConfig },
+  isNotebookCell: boolean,
+): Promise<{ diagnostics: Diagnostic[]; formattedText: string }> => {
+  const document = TextDocument.create(uri, "sas", 1, text);
+  const languageService = new LanguageServiceProvider(document);
+  if (options.command === "lint") {
+    return {
+      diagnostics: languageService
+        .getDiagnostics({
+          // notebook cells can use macro variables defined in other cells
+          checkMacroVariables: !isNotebookCell,
+          lintConfig: config.lintConfig,
+        })
+        .sort(compareRanges),
+      formattedText: text,
+    };
+  }
+  const edits = await languageService.formatter.format({
+    tabWidth: options.tabWidth,
+    useTabs: options.useTabs,
+    ...config.formatOptions,
+  });
+  return {
+    diagnostics: edits
+      .map(
+        (edit): Diagnostic => ({
+          range: edit.range,
+          severity: DiagnosticSeverity.Warning,
+          code: "format",
+          source: FORMAT_SOURCE,
+          message: getText("ce_fm_not_formatted.fmt"),
+        }),
+      )
+      .sort(compareRanges),
+    formattedText: TextDocument.applyEdits(document, edits),
+  };
+};
+
+/**
+ * Checks a SAS file, or the SAS cells of a notebook, and formats them in
+ * place when writing.
+ * @returns the problems of the file or of its cells, unless writing.
+ */
+const checkFile = async (
+  uri: string,
+  filePath: string,
+  options: CliOptions,
+  config: { formatOptions: object; lintConfig: LintConfig },
+): Promise<FileResult[]> => {
+  const text = FileLoader.readFile(uri);
+  if (text === undefined) {
+    throw new Error("the file cannot be read");
+  }
+
+  if (path.extname(filePath).toLowerCase() !== ".sasnb") {
+    const { diagnostics, formattedText } = await checkCode(
+      uri,
+      text,
+      options,
+      config,
+      false,
+    );
+    if (!options.write) {
+      return [{ path: filePath, diagnostics }];
+    }
+    if (formattedText !== text) {
+      writeFileSync(fileURLToPath(uri), formattedText);
+    }
+    return [];
+  }
+
+  let cells: unknown;
+  try {
+    cells = JSON.parse(text);
+  } catch {
+    cells = undefined;
+  }
+  if (!Array.isArray(cells)) {
+    throw new Error("not a SAS notebook");
+  }
+  const results: FileResult[] = [];
+  let changed = false;
+  for (let index = 0; index < cells.length; index++) {
+    const cell: unknown = cells[index];
+    if (!isNotebookCell(cell) || cell.language !== "sas") {
+      continue;
+    }
+    const { diagnostics, formattedText } = await checkCode(
+      uri,
+      cell.value,
+      options,
+      config,
+      true,
+    );
+    if (options.write) {
+      changed ||= formattedText !== cell.value;
+      cell.value = formattedText;
+    } else {
+      results.push({ path: filePath, cell: index + 1, diagnostics });
+    }
+  }
+  if (changed) {
+    // the notebook is saved the way the editor saves it
+    writeFileSync(fileURLToPath(uri), JSON.stringify(cells));
+  }
+  return results;
+};
+
+/**
+ * Runs the CLI with the given arguments, after the node and script paths,
+ * and returns its exit code.
+ */
+export const run = async (
+  args: string[],
+  output: Output = console,
+): Promise<number> => {
+  if (args.includes("--help")) {
+    output.log(usage);
+    return 0;
+  }
+  const options = parseArgs(args);
+  if (typeof options === "string") {
+    output.error(`${options}\n\n${usage}`);
+    return 2;
+  }
+
+  let uris: string[];
+  try {
+    uris = findFiles(options.paths);
+  } catch (e) {
+    output.error(e instanceof Error ? e.message : String(e));
+    return 2;
+  }
+
+  const folderUris = [pathToFileURL(process.cwd()).toString()];
+  const readConfig = (uri: string, fileName: string) => {
+    try {
+      return readConfigFile(uri, fileName, folderUris);
+    } catch (e) {
+      output.error(
+        `Ignoring ${fileName}: ${e instanceof Error ? e.message : e}`,
+      );
+      return undefined;
+    }
+  };
+
+  const results: FileResult[] = [];
+  let exitCode = 0;
+  for (const uri of uris) {
+    const filePath = path
+      .relative(process.cwd(), fileURLToPath(uri))
+      .split(path.sep)
+      .join("/");
+    // a file that cannot be checked does not stop the others
+    try {
+      const config = {
+        formatOptions: {
+          ...defaultFormatOptions,
+          ...toFormatOptions(readConfig(uri, ".sasformatrc")),
+        },
+        lintConfig: toLintConfig(readConfig(uri, ".saslintrc")),
+      };
+      results.push(...(await checkFile(uri, filePath, options, config)));
+    } catch (e) {
+      output.error(
+        `Cannot check ${filePath}: ${e instanceof Error ? e.message : e}`,
+      );
+      exitCode = 2;
+    }
+  }
+
+  if (options.write) {
+    return exitCode;
+  }
+  const text = report(results, options.reporter);
+  if (text) {
+    output.log(text);
+  }
+  const failed = results.some((result) =>
+    result.diagnostics.some(
+      (diagnostic) =>
+        options.command === "format" ||
+        (diagnostic.severity ?? DiagnosticSeverity.Error) <= options.failOn,
+    ),
+  );
+  return Math.max(exitCode, failed ? 1 : 0);
+};
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then(
+    (exitCode) => {
+      process.exitCode = exitCode;
+    },
+    (e) => {
+      console.error(e instanceof Error ? e.message : e);
+      process.exitCode = 2;
+    },
+  );
+}
@@ -0,0 +1,142 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver";
+
+export type ReporterName = "text" | "json" | "sarif";
+
+export const reporterNames: ReporterName[] = ["text", "json", "sarif"];
+
+/**
+ * The problems of a file, or of a SAS cell of a notebook.
+ */
+export interface FileResult {
+  // the path of the file, relative to the current folder
+  path: string;
+  // the number of the cell in a notebook, from 1
+  cell?: number;
+  diagnostics: Diagnostic[];
+}
+
+const severityNames = ["error", "warning", "information", "hint"];
+
+const getSeverityName = (diagnostic: Diagnostic): string =>
+  severityNames[(diagnostic.severity ?? DiagnosticSeverity.Error) - 1];
+
+const getRuleId = (diagnostic: Diagnostic): string =>
+  String(diagnostic.code ?? diagnostic.source ?? "");
+
+const reportText = (results: FileResult[]): string => {
+  const lines: string[] = [];
+  let count = 0;
+  for (const result of results) {
+    const location =
+      result.cell === undefined
+        ? result.path
+        : `${result.path}#cell${result.cell}`;
+    for (const diagnostic of result.diagnostics) {
+      const { line, character } = diagnostic.range.start;
+      lines.push(
+        `${location}:${line + 1}:${character + 1} ${getSeverityName(diagnostic)} ${diagnostic.message} (${getRuleId(diagnostic)})`,
+      );
+      count++;
+    }
+  }
+  if (count > 0) {
+    lines.push("", `${count} ${count === 1 ? "problem" : "problems"}`);
+  }
+  return lines.join("\n");
+};
+
+const reportJson = (results: FileResult[]): string =>
+  JSON.stringify(
+    results.flatMap((result) =>
+      result.diagnostics.map((diagnostic) => ({
+        file: result.path,
+        cell: result.cell,
+        line: diagnostic.range.start.line + 1,
+        column: diagnostic.range.start.character + 1,
+        endLine: diagnostic.range.end.line + 1,
+        endColumn: diagnostic.range.end.character + 1,
+        severity: getSeverityName(diagnostic),
+        code: getRuleId(diagnostic),
+        source: diagnostic.source,
+        message: diagnostic.message,
+      })),
+    ),
+    null,
+    2,
+  );
+
+const sarifLevels = ["error", "warning", "note", "note"];
+
+// https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+const reportSarif = (results: FileResult[]): string => {
+  const ruleIds: string[] = [];
+  const sarifResults = results.flatMap((result) =>
+    result.diagnostics.map((diagnostic) => {
+      const ruleId = getRuleId(diagnostic);
+      if (!ruleIds.includes(ruleId)) {
+        ruleIds.push(ruleId);
+      }
+      return {
+        ruleId,
+        ruleIndex: ruleIds.indexOf(ruleId),
+        level:
+          sarifLevels[(diagnostic.severity ?? DiagnosticSeverity.Error) - 1],
+        message: { text: diagnostic.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: result.path },
+              region: {
+                startLine: diagnostic.range.start.line + 1,
+                startColumn: diagnostic.range.start.character + 1,
+                endLine: diagnostic.range.end.line + 1,
+                endColumn: diagnostic.range.end.character + 1,
+              },
+            },
+          },
+        ],
+        // the lines of a notebook cell are counted from the start of the cell
+        ...(result.cell === undefined
+          ? {}
+          : { properties: { cell: result.cell } }),
+      };
+    }),
+  );
+  return JSON.stringify(
+    {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "sas-tools",
+              informationUri:
+                "https://github.com/sassoftware/vscode-sas-extension",
+              rules: ruleIds.map((id) => ({ id })),
+            },
+          },
+          results: sarifResults,
+        },
+      ],
+    },
+    null,
+    2,
+  );
+};
+
+/**
+ * Prints the problems of the files in the format of the given reporter.
+ */
+export const report = (results: FileResult[], reporter: ReporterName) => {
+  switch (reporter) {
+    case "json":
+      return reportJson(results);
+    case "sarif":
+      return reportSarif(results);
+    default:
+      return reportText(results);
+  }
+};
@@ -0,0 +1,265 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import {
+  CompletionItem,
+  CompletionItemKind,
+  Position,
+} from "vscode-languageserver";
+
+import type { Token } from "./Lexer";
+import { normalizeDatasetName } from "./ReferenceProvider";
+
+export interface ColumnCompleteItem {
+  name: string;
+  // "num" or "char"
+  type: string;
+  label?: string;
+}
+
+export interface TableReference {
+  libId: string;
+  tableId: string;
+}
+
+export type ColumnService = (
+  table: TableReference,
+) => Promise<ColumnCompleteItem[]>;
+
+// statements whose arguments are columns of the data sets read by the step
+const COLUMN_STATEMENTS = [
+  "VAR",
+  "WHERE",
+  "BY",
+  "CLASS",
+  "ID",
+  "KEEP",
+  "DROP",
+  "FREQ",
+  "WEIGHT",
+  "TABLES",
+];
+// data set options whose values are columns of the data set
+const COLUMN_OPTIONS = ["KEEP", "DROP", "WHERE", "RENAME"];
+const DATASET_STATEMENTS = ["SET", "MERGE", "UPDATE", "MODIFY"];
+
+const isSep = (token: Token | undefined, text: string) =>
+  token?.type === "sep" && token.text === text;
+
+const isBefore = (
+  a: { line: number; column: number },
+  b: { line: number; column: number },
+) => a.line < b.line || (a.line === b.line && a.column < b.column);
+
+const isDatasetName = (text: string) =>
+  /^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)?$/i.test(text) &&
+  !/^_(null|data|last)_$/i.test(text);
+
+const toTableReference = (name: string): TableReference => {
+  const [libId, tableId] = normalizeDatasetName(name).split(".");
+  return { libId, tableId };
+};
+
+/**
+ * Finds the data sets whose columns can be used at a position, such as in
+ * the VAR statement of a procedure or the KEEP= option of a data set, and
+ * offers their columns in code completion.
+ */
+export class ColumnProvider {
+  constructor(private tokens: Token[]) {}
+
+  getTables(position: Position): TableReference[] {
+    const offset = { line: position.line, column: position.character };
+    const tokens = this.tokens.filter(
+      (token) =>
+        token.type !== "comment" &&
+        token.type !== "macro-comment" &&
+        token.type !== "blank",
+    );
+    const current = this.tokens.find(
+      (token) => isBefore(token.start, offset) && isBefore(offset, token.end),
+    );
+    if (
+      current &&
+      ["comment", "macro-comment", "string", "cards-data"].includes(
+        current.type,
+      )
+    ) {
+      return [];
+    }
+
+    // the data sets read by the current step
+    let stepTables: string[] = [];
+    let statement: Token | undefined;
+    let parenDepth = 0;
+    let afterSlash = false;
+    // the option list of a data set being read, such as (keep=a b)
+    let optionList:
+      | { table: string; depth: number; option?: string }
+      | undefined;
+    let inputDataset: string | undefined;
+    // the state of the statement at the position
+    let context:
+      | {
+          statement?: Token;
+          afterSlash: boolean;
+          optionList?: typeof optionList;
+        }
+      | undefined;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const word = token.text.toUpperCase();
+      const prev = tokens[i - 1];
+
+      if (!context && !isBefore(token.start, offset)) {
+        context = {
+          statement,
+          afterSlash,
+          optionList: optionList && { ...optionList },
+        };
+      }
+      if (!context && !isBefore(token.end, offset) && token.type === "text") {
+        // the partial word being completed
+        if (statement === undefined) {
+          // the name of a statement is being typed
+          return [];
+        }
+        context = {
+          statement,
+          afterSlash,
+          optionList: optionList && { ...optionList },
+        };
+      }
+
+      const previousDataset = inputDataset;
+      inputDataset = undefined;
+
+      if (isSep(token, ";")) {
+        statement = undefined;
+        parenDepth = 0;
+        afterSlash = false;
+        optionList = undefined;
+        continue;
+      }
+      if (isSep(token, "(")) {
+        parenDepth++;
+        if (previousDataset) {
+          optionList = { table: previousDataset, depth: parenDepth };
+        }
+        continue;
+      }
+      if (isSep(token, ")")) {
+        if (optionList?.depth === parenDepth) {
+          optionList = undefined;
+        }
+        parenDepth = Math.max(parenDepth - 1, 0);
+        continue;
+      }
+      if (isSep(token, "/") && parenDepth === 0) {
+        afterSlash = true;
+        continue;
+      }
+      if (isSep(token, "=")) {
+        if (optionList?.depth === parenDepth && prev && prev.type !== "sep") {
+          optionList.option = prev.text.toUpperCase();
+        }
+        continue;
+      }
+
+      if (!statement) {
+        statement = token;
+        if (
+          token.type === "sec-keyword" &&
+          (word === "PROC" || word === "DATA")
+        ) {
+          if (context) {
+            // the end of the step containing the position
+            break;
+          }
+          stepTables = [];
+        }
+        continue;
+      }
+
+      if (token.type !== "text" || !isDatasetName(token.text)) {
+        continue;
+      }
+      const statementWord = statement.text.toUpperCase();
+      const isInput =
+        (DATASET_STATEMENTS.includes(statementWord) &&
+          parenDepth === 0 &&
+          !isSep(prev, "=")) ||
+        (statement.type === "sec-keyword" &&
+          statementWord === "PROC" &&
+          isSep(prev, "=") &&
+          tokens[i - 2]?.text.toUpperCase() === "DATA");
+      if (isInput) {
+        inputDataset = token.text;
+        stepTables.push(token.text);
+      }
+    }
+
+    if (!context) {
+      context = { statement, afterSlash, optionList };
+    }
+    if (context.optionList) {
+      return COLUMN_OPTIONS.includes(context.optionList.option ?? "")
+        ? [toTableReference(context.optionList.table)]
+        : [];
+    }
+    if (
+      !context.statement ||
+      context.afterSlash ||
+      !COLUMN_STATEMENTS.includes(context.statement.text.toUpperCase())
+    ) {
+      return [];
+    }
+
+    return stepTables
+      .map(toTableReference)
+      .filter(
+        (table, index, tables) =>
+          tables.findIndex(
+            ({ libId, tableId }) =>
+              libId === table.libId && tableId === table.tableId,
+          ) === index,
+      );
+  }
+
+  async getCompletionItems(
+    position: Position,
+    columnService: ColumnService,
+  ): Promise<CompletionItem[]> {
+    const tables = this.getTables(position);
+    const columnLists = await Promise.all(
+      tables.map((table) => columnService(table).catch(() => [])),
+    );
+    const names = new Set<string>();
+    const items: CompletionItem[] = [];
+    columnLists.forEach((columns, index) =>
+      columns.forEach((column) => {
+        if (names.has(column.name.toUpperCase())) {
+          return;
+        }
+        names.add(column.name.toUpperCase());
+        const { libId, tableId } = tables[index];
+        items.push({
+          label: column.name,
+          kind: CompletionItemKind.Field,
+          labelDetails: { description: column.type },
+          detail: column.label
+            ? `${column.label} (${libId}.${tableId})`
+            : `${libId}.${tableId}`,
+          insertText: /^[a-z_][a-z0-9_]*$/i.test(column.name)
+            ? undefined
+            : `'${column.name.replace(/'/g, "''")}'n`,
+          // columns are listed before the other completion items
+          sortText: `0${column.name}`,
+          data: { _column: true },
+        });
+      }),
+    );
+
+    return items;
+  }
+}
@@ -682,6 +682,11 @@ export class CompletionProvider {
     });
   }
 
+  // whether the last completion listed librefs or the data sets of a libref
+  isLibraryCompletion(): boolean {
+    return this.popupContext.zone === ZONE_TYPE.LIB;
+  }
+
   getCompleteItemHelp(item: CompletionItem): Promise<CompletionItem> {
     return new Promise((resolve) => {
       if (["endsubmit", "endinteractive"].includes(item.label?.toLowerCase())) {
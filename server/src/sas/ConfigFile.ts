@@ -0,0 +1,35 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { FileLoader } from "../node/FileLoader";
+
+const getFolderUri = (uri: string) => uri.slice(0, uri.lastIndexOf("/"));
+
+/**
+ * Reads the JSON config file with the given name, such as .sasformatrc, in the
+ * folder of a document or in the closest of its parent folders up to its
+ * workspace folder. Returns undefined when there is no such file and throws
+ * when the file is not valid JSON.
+ */
+export const readConfigFile = (
+  uri: string,
+  fileName: string,
+  folderUris: string[],
+): unknown => {
+  const workspaceFolderUri = folderUris
+    .map((folderUri) => folderUri.replace(/\/$/, ""))
+    .find((folderUri) => uri.startsWith(`${folderUri}/`));
+  for (
+    let folderUri = getFolderUri(uri);
+    folderUri.includes("/");
+    folderUri = getFolderUri(folderUri)
+  ) {
+    const text = FileLoader.readFile(`${folderUri}/${fileName}`);
+    if (text !== undefined) {
+      return JSON.parse(text);
+    }
+    if (!workspaceFolderUri || folderUri.length <= workspaceFolderUri.length) {
+      break;
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,353 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+
+import type { Token } from "./Lexer";
+import type { Model } from "./Model";
+import type { ReferenceProvider } from "./ReferenceProvider";
+import type { SyntaxDataProvider } from "./SyntaxDataProvider";
+import { getText } from "./utils";
+
+export const DIAGNOSTIC_SOURCE = "SAS";
+
+export type DiagnosticCode =
+  | "unclosed-macro"
+  | "unmatched-mend"
+  | "unclosed-do"
+  | "unmatched-end"
+  | "unclosed-string"
+  | "unclosed-comment"
+  | "missing-run"
+  | "unknown-proc"
+  | "unknown-statement"
+  | "undefined-macro-variable";
+
+// procedures whose statements are a programming language of their own
+const FREE_FORM_PROCEDURES = [
+  "CAS",
+  "DS2",
+  "FCMP",
+  "FEDSQL",
+  "GROOVY",
+  "IML",
+  "LUA",
+  "OPTMODEL",
+  "PROTO",
+  "PYTHON",
+];
+
+const toRange = (start: Token, end: Token = start): Range => ({
+  start: { line: start.start.line, character: start.start.column },
+  end: { line: end.end.line, character: end.end.column },
+});
+
+/**
+ * Reports the mistakes that can be found without running the code:
+ * unbalanced macro blocks, unclosed strings and comments, steps without
+ * RUN/QUIT, unknown procedures and statements, and undefined macro variables.
+ */
+export class DiagnosticProvider {
+  constructor(
+    private model: Model,
+    private tokens: Token[],
+    private referenceProvider: ReferenceProvider,
+    private syntaxDb: SyntaxDataProvider,
+  ) {}
+
+  getDiagnostics(options?: { checkMacroVariables?: boolean }): Diagnostic[] {
+    const tokens = this.tokens.filter(
+      (token) => token.type !== "comment" && token.type !== "macro-comment",
+    );
+    return [
+      ...this._checkMacroBlocks(tokens),
+      ...this._checkUnclosedTokens(),
+      ...this._checkSteps(tokens),
+      ...(options?.checkMacroVariables === false
+        ? []
+        : this._checkMacroVariables()),
+    ];
+  }
+
+  private _createDiagnostic(
+    range: Range,
+    code: DiagnosticCode,
+    severity: DiagnosticSeverity,
+    arg?: string,
+  ): Diagnostic {
+    return {
+      range,
+      severity,
+      code,
+      source: DIAGNOSTIC_SOURCE,
+      message: getText(`ce_dg_${code.replace(/-/g, "_")}.fmt`, arg),
+    };
+  }
+
+  private _checkMacroBlocks(tokens: Token[]): Diagnostic[] {
+    const result: Diagnostic[] = [];
+    const stack: Token[] = [];
+    for (const token of tokens) {
+      if (
+        token.type !== "macro-sec-keyword" &&
+        token.type !== "macro-keyword"
+      ) {
+        continue;
+      }
+      // an unmatched %MEND is lexed as a macro keyword
+      const word = token.text.toUpperCase();
+      if (word === "%MACRO" || word === "%DO") {
+        stack.push(token);
+      } else if (word === "%END") {
+        if (stack[stack.length - 1]?.text.toUpperCase() === "%DO") {
+          stack.pop();
+        } else {
+          result.push(
+            this._createDiagnostic(
+              toRange(token),
+              "unmatched-end",
+              DiagnosticSeverity.Error,
+            ),
+          );
+        }
+      } else if (word === "%MEND") {
+        if (!stack.some((item) => item.text.toUpperCase() === "%MACRO")) {
+          result.push(
+            this._createDiagnostic(
+              toRange(token),
+              "unmatched-mend",
+              DiagnosticSeverity.Error,
+            ),
+          );
+          continue;
+        }
+        for (
+          let item = stack.pop();
+          item && item.text.toUpperCase() !== "%MACRO";
+          item = stack.pop()
+        ) {
+          result.push(
+            this._createDiagnostic(
+              toRange(item),
+              "unclosed-do",
+              DiagnosticSeverity.Error,
+            ),
+          );
+        }
+      }
+    }
+    for (const item of stack) {
+      result.push(
+        this._createDiagnostic(
+          toRange(item),
+          item.text.toUpperCase() === "%MACRO"
+            ? "unclosed-macro"
+            : "unclosed-do",
+          DiagnosticSeverity.Error,
+        ),
+      );
+    }
+    return result;
+  }
+
+  private _checkUnclosedTokens(): Diagnostic[] {
+    const result: Diagnostic[] = [];
+    for (const token of this.tokens) {
+      if (token.type === "string") {
+        const quote = token.text[0];
+        if (token.text.length < 2 || !token.text.endsWith(quote)) {
+          result.push(
+            this._createDiagnostic(
+              this._getFirstLineRange(token),
+              "unclosed-string",
+              DiagnosticSeverity.Error,
+            ),
+          );
+        }
+      } else if (
+        token.type === "comment" &&
+        token.text.startsWith("/*") &&
+        (token.text.length < 4 || !token.text.endsWith("*/"))
+      ) {
+        result.push(
+          this._createDiagnostic(
+            this._getFirstLineRange(token),
+            "unclosed-comment",
+            DiagnosticSeverity.Error,
+          ),
+        );
+      }
+    }
+    return result;
+  }
+
+  // unclosed tokens run to the end of the document, only mark where they start
+  private _getFirstLineRange(token: Token): Range {
+    return {
+      start: { line: token.start.line, character: token.start.column },
+      end: {
+        line: token.start.line,
+        character: this.model.getColumnCount(token.start.line),
+      },
+    };
+  }
+
+  private _checkSteps(tokens: Token[]): Diagnostic[] {
+    const result: Diagnostic[] = [];
+    const procedures = (this.syntaxDb.getProcedures() ?? []).map(
+      (name: string) => name.toUpperCase(),
+    );
+    let step: { start: Token; name?: Token; endedByData: boolean } | undefined;
+    let isStatementStart = true;
+
+    const endStep = () => {
+      if (step && !step.endedByData) {
+        result.push(
+          this._createDiagnostic(
+            toRange(step.start, step.name),
+            "missing-run",
+            DiagnosticSeverity.Warning,
+          ),
+        );
+      }
+      step = undefined;
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const word = token.text.toUpperCase();
+      const next = tokens[i + 1];
+
+      if (
+        token.type === "macro-sec-keyword" ||
+        (token.type === "sec-keyword" && (word === "DATA" || word === "PROC"))
+      ) {
+        endStep();
+        if (token.type === "sec-keyword") {
+          step = {
+            start: token,
+            name: word === "PROC" ? next : undefined,
+            endedByData: false,
+          };
+          if (
+            word === "PROC" &&
+            next?.type === "proc-name" &&
+            !procedures.includes(next.text.toUpperCase())
+          ) {
+            result.push(
+              this._createDiagnostic(
+                toRange(next),
+                "unknown-proc",
+                DiagnosticSeverity.Warning,
+                next.text,
+              ),
+            );
+          }
+        }
+        isStatementStart = false;
+        continue;
+      }
+      if (token.type === "sec-keyword" && (word === "RUN" || word === "QUIT")) {
+        step = undefined;
+        isStatementStart = false;
+        continue;
+      }
+      if (token.type === "cards-data") {
+        // DATALINES ends the step
+        if (step) {
+          step.endedByData = true;
+        }
+        continue;
+      }
+      if (token.type === "sep" && token.text === ";") {
+        isStatementStart = true;
+        continue;
+      }
+      if (!isStatementStart) {
+        continue;
+      }
+      isStatementStart = false;
+      if (
+        step?.name &&
+        token.type === "text" &&
+        next?.text !== "=" &&
+        next?.text !== "(" &&
+        next?.text !== "[" &&
+        this._isUnknownStatement(step.name.text.toUpperCase(), word)
+      ) {
+        result.push(
+          this._createDiagnostic(
+            toRange(token),
+            "unknown-statement",
+            DiagnosticSeverity.Warning,
+            token.text,
+          ),
+        );
+      }
+    }
+    endStep();
+    return result;
+  }
+
+  private _isUnknownStatement(procName: string, statement: string): boolean {
+    if (
+      FREE_FORM_PROCEDURES.includes(procName) ||
+      !this.syntaxDb.getProcedureStatements(procName, true)
+    ) {
+      return false;
+    }
+    return (
+      !this.syntaxDb.isProcedureStatementKeyword(procName, statement) &&
+      // programming statements are allowed by many procedures
+      !this.syntaxDb.isProcedureStatementKeyword("DATA", statement)
+    );
+  }
+
+  private _checkMacroVariables(): Diagnostic[] {
+    const result: Diagnostic[] = [];
+    const autoVariables = (this.syntaxDb.getAutoVariables() ?? []).map(
+      (name: string) => name.toUpperCase(),
+    );
+    const occurrences = this.referenceProvider.getOccurrences();
+    const definedNames = occurrences
+      .filter(
+        (occurrence) =>
+          occurrence.kind === "macro-variable" && occurrence.isDefinition,
+      )
+      .map((occurrence) => occurrence.name);
+    for (const occurrence of occurrences) {
+      if (
+        occurrence.kind !== "macro-variable" ||
+        occurrence.isDefinition ||
+        definedNames.includes(occurrence.name) ||
+        autoVariables.includes(occurrence.name) ||
+        this._isIndirectReference(occurrence.range)
+      ) {
+        continue;
+      }
+      result.push(
+        this._createDiagnostic(
+          occurrence.range,
+          "undefined-macro-variable",
+          DiagnosticSeverity.Information,
+          this.model.getText({
+            start: {
+              line: occurrence.range.start.line,
+              column: occurrence.range.start.character,
+            },
+            end: {
+              line: occurrence.range.end.line,
+              column: occurrence.range.end.character,
+            },
+          }),
+        ),
+      );
+    }
+    return result;
+  }
+
+  // &&name&i resolves to another macro variable
+  private _isIndirectReference(range: Range): boolean {
+    const line = this.model.getLine(range.start.line);
+    return line.slice(0, range.start.character).endsWith("&&");
+  }
+}
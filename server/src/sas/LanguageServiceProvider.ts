@@ -1,6 +1,7 @@
 // Copyright © 2022-2023, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 import {
+  Diagnostic,
   DocumentSymbol,
   FoldingRange,
   SymbolKind,
@@ -8,12 +9,19 @@ import {
 import { Range, TextDocument } from "vscode-languageserver-textdocument";
 
 import { CodeZoneManager } from "./CodeZoneManager";
+import { ColumnProvider } from "./ColumnProvider";
 import { CompletionProvider } from "./CompletionProvider";
+import { DiagnosticProvider } from "./DiagnosticProvider";
 import { FormatOnTypeProvider } from "./FormatOnTypeProvider";
+import type { Token } from "./Lexer";
 import { FoldingBlock } from "./LexerEx";
+import { LintConfig, LintProvider } from "./LintProvider";
 import { Model } from "./Model";
+import { ReferenceProvider } from "./ReferenceProvider";
+import { RenameProvider } from "./RenameProvider";
 import type { LibService } from "./SyntaxDataProvider";
 import { SyntaxProvider } from "./SyntaxProvider";
+import { UserMacroProvider } from "./UserMacroProvider";
 import { Formatter } from "./formatter";
 
 export const legend = {
@@ -60,10 +68,18 @@ export class LanguageServiceProvider {
   public completionProvider;
   public formatOnTypeProvider;
   public formatter;
+  public referenceProvider;
+  public renameProvider;
+  public diagnosticProvider;
+  public lintProvider;
+  public userMacroProvider;
+  public columnProvider;
+  private tokens: Token[] = [];
 
   constructor(doc: TextDocument) {
     this.model = new Model(doc);
     this.syntaxProvider = new SyntaxProvider(this.model);
+    this.syntaxProvider.setTokenCallback(this.tokens.push.bind(this.tokens));
     this.completionProvider = new CompletionProvider(
       this.model,
       this.syntaxProvider,
@@ -72,7 +88,29 @@ export class LanguageServiceProvider {
       this.model,
       this.syntaxProvider,
     );
-    this.formatter = new Formatter(this.model, this.syntaxProvider);
+    this.formatter = new Formatter(
+      this.model,
+      this.syntaxProvider,
+      this.tokens,
+    );
+    this.referenceProvider = new ReferenceProvider(this.model, this.tokens);
+    this.renameProvider = new RenameProvider(
+      this.referenceProvider,
+      this.syntaxProvider.lexer.syntaxDb,
+    );
+    this.diagnosticProvider = new DiagnosticProvider(
+      this.model,
+      this.tokens,
+      this.referenceProvider,
+      this.syntaxProvider.lexer.syntaxDb,
+    );
+    this.lintProvider = new LintProvider(
+      this.model,
+      this.tokens,
+      this.syntaxProvider,
+    );
+    this.userMacroProvider = new UserMacroProvider(this.model, this.tokens);
+    this.columnProvider = new ColumnProvider(this.tokens);
 
     const lineCount = this.model.getLineCount();
 
@@ -106,6 +144,22 @@ export class LanguageServiceProvider {
     return this.completionProvider.getCodeZoneManager();
   }
 
+  /**
+   * The problems found in the code, followed by those of the lint rules
+   * enabled by the given config.
+   */
+  getDiagnostics(options: {
+    checkMacroVariables?: boolean;
+    lintConfig?: LintConfig;
+  }): Diagnostic[] {
+    return [
+      ...this.diagnosticProvider.getDiagnostics({
+        checkMacroVariables: options.checkMacroVariables,
+      }),
+      ...this.lintProvider.getDiagnostics(options.lintConfig),
+    ];
+  }
+
   getTokens(): number[] {
     const lineCount = this.model.getLineCount();
 
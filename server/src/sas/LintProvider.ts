@@ -0,0 +1,504 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import {
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  DiagnosticSeverity,
+  Position,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+
+import type { Token } from "./Lexer";
+import type { Model } from "./Model";
+import type { SyntaxProvider } from "./SyntaxProvider";
+import { getText } from "./utils";
+
+export const LINT_SOURCE = "saslint";
+
+export type LintRuleId =
+  | "no-absolute-path"
+  | "no-options-nonotes"
+  | "data-step-run"
+  | "no-goto"
+  | "implicit-conversion"
+  | "max-macro-nesting"
+  | "header-comment";
+
+export type LintSeverity = "off" | "error" | "warning" | "information" | "hint";
+
+export interface LintRuleConfig {
+  severity: LintSeverity;
+  options: Record<string, unknown>;
+}
+
+// the rules of a .saslintrc file, by rule id
+export type LintConfig = Partial<Record<LintRuleId, LintRuleConfig>>;
+
+interface Problem {
+  range: Range;
+  arg?: string;
+  fix?: TextEdit;
+}
+
+interface RuleContext {
+  model: Model;
+  syntaxProvider: SyntaxProvider;
+  // the tokens without blanks and comments
+  tokens: Token[];
+  // the tokens without blanks
+  allTokens: Token[];
+  options: Record<string, unknown>;
+}
+
+interface LintRule {
+  defaultSeverity: LintSeverity;
+  check: (context: RuleContext) => Problem[];
+}
+
+// the regular expression of a pattern option, undefined when it is invalid
+const toPattern = (value: unknown): RegExp | undefined => {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  try {
+    return new RegExp(value, "i");
+  } catch {
+    return undefined;
+  }
+};
+
+interface Directive {
+  type: "disable" | "enable" | "disable-next-line";
+  rules: string[];
+  token: Token;
+}
+
+const SEVERITIES: Record<LintSeverity, DiagnosticSeverity | undefined> = {
+  off: undefined,
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  information: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+};
+
+const ARITHMETIC_OPERATORS = ["+", "-", "*", "/"];
+const CONCATENATION_OPERATORS = ["||", "!!"];
+
+const toRange = (start: Token, end: Token = start): Range => ({
+  start: { line: start.start.line, character: start.start.column },
+  end: { line: end.end.line, character: end.end.column },
+});
+
+const toPosition = ({ line, column }: Token["end"]): Position => ({
+  line,
+  character: column,
+});
+
+const isBefore = (a: Position, b: Position) =>
+  a.line < b.line || (a.line === b.line && a.character < b.character);
+
+const isSep = (token: Token | undefined, text: string) =>
+  token?.type === "sep" && token.text === text;
+
+// splits the tokens into statements, each ending with its semicolon
+const getStatements = (tokens: Token[]) => {
+  const statements: Token[][] = [];
+  let statement: Token[] = [];
+  for (const token of tokens) {
+    statement.push(token);
+    if (isSep(token, ";")) {
+      statements.push(statement);
+      statement = [];
+    }
+  }
+  if (statement.length > 0) {
+    statements.push(statement);
+  }
+  return statements;
+};
+
+// keeps the case of the replaced word
+const matchCase = (word: string, replacement: string) =>
+  word === word.toUpperCase() ? replacement.toUpperCase() : replacement;
+
+const rules: Record<LintRuleId, LintRule> = {
+  "no-absolute-path": {
+    defaultSeverity: "warning",
+    check: ({ tokens }) =>
+      getStatements(tokens)
+        .filter(([first]) => /^(libname|filename)$/i.test(first.text))
+        .flatMap((statement) =>
+          statement.filter(
+            (token) =>
+              token.type === "string" &&
+              /^(\/|~|[a-z]:[\\/]|\\\\)/i.test(token.text.slice(1)),
+          ),
+        )
+        .map((token) => ({ range: toRange(token), arg: token.text })),
+  },
+  "no-options-nonotes": {
+    defaultSeverity: "warning",
+    check: ({ tokens }) =>
+      getStatements(tokens)
+        .filter(([first]) => /^options$/i.test(first.text))
+        .flatMap((statement) =>
+          statement.filter((token) => /^nonotes$/i.test(token.text)),
+        )
+        .map((token) => ({
+          range: toRange(token),
+          fix: TextEdit.replace(toRange(token), matchCase(token.text, "notes")),
+        })),
+  },
+  "data-step-run": {
+    defaultSeverity: "warning",
+    check: ({ tokens, syntaxProvider }) => {
+      const problems: Problem[] = [];
+      tokens.forEach((token, index) => {
+        if (token.type !== "sec-keyword" || !/^data$/i.test(token.text)) {
+          return;
+        }
+        const block = syntaxProvider.getFoldingBlock(
+          token.start.line,
+          token.start.column,
+          true,
+          true,
+          true,
+        );
+        if (
+          !block ||
+          block.startLine !== token.start.line ||
+          block.startCol !== token.start.column
+        ) {
+          return;
+        }
+        const end = { line: block.endLine, character: block.endCol };
+        let last = index;
+        while (
+          last + 1 < tokens.length &&
+          !isBefore(end, toPosition(tokens[last + 1].end))
+        ) {
+          last++;
+        }
+        const range = toRange(token, tokens[index + 1]);
+        const data = tokens
+          .slice(index, last + 1)
+          .findIndex((item) => item.type === "cards-data");
+        if (data >= 0) {
+          // the DATALINES data ends the step, RUN is expected right after it
+          const dataEnd = tokens[index + data + 1] ?? tokens[index + data];
+          if (!/^run$/i.test(tokens[index + data + 2]?.text ?? "")) {
+            problems.push({
+              range,
+              fix: TextEdit.insert(toPosition(dataEnd.end), "\nrun;"),
+            });
+          }
+          return;
+        }
+        // the first token of the last statement of the step, a step without
+        // RUN or QUIT is reported as missing-run
+        let first = last;
+        while (first > index && !isSep(tokens[first - 1], ";")) {
+          first--;
+        }
+        if (/^quit$/i.test(tokens[first].text)) {
+          problems.push({
+            range,
+            fix: TextEdit.replace(
+              toRange(tokens[first]),
+              matchCase(tokens[first].text, "run"),
+            ),
+          });
+        }
+      });
+      return problems;
+    },
+  },
+  "no-goto": {
+    defaultSeverity: "information",
+    check: ({ tokens }) =>
+      tokens
+        .filter((token) => /^%goto$/i.test(token.text))
+        .map((token) => ({ range: toRange(token) })),
+  },
+  "implicit-conversion": {
+    defaultSeverity: "information",
+    check: ({ tokens }) =>
+      getStatements(tokens)
+        .filter(
+          ([first, second]) =>
+            /^(if|where)$/i.test(first.text) ||
+            (first.type !== "sep" && isSep(second, "=")),
+        )
+        .flatMap((statement) =>
+          statement.flatMap((token, index): Problem[] => {
+            const operators = [statement[index - 1], statement[index + 1]]
+              .filter((item) => item?.type === "sep")
+              .map((item) => item.text);
+            const value = token.text.slice(1, -1);
+            if (
+              token.type === "string" &&
+              operators.some((item) => ARITHMETIC_OPERATORS.includes(item))
+            ) {
+              return [
+                {
+                  range: toRange(token),
+                  arg: token.text,
+                  fix: /^\s*[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?\s*$/i.test(value)
+                    ? TextEdit.replace(toRange(token), value.trim())
+                    : undefined,
+                },
+              ];
+            }
+            if (
+              token.type === "numeric" &&
+              operators.some((item) => CONCATENATION_OPERATORS.includes(item))
+            ) {
+              return [
+                {
+                  range: toRange(token),
+                  arg: token.text,
+                  fix: TextEdit.replace(toRange(token), `'${token.text}'`),
+                },
+              ];
+            }
+            return [];
+          }),
+        ),
+  },
+  "max-macro-nesting": {
+    defaultSeverity: "warning",
+    check: ({ tokens, options }) => {
+      const max =
+        typeof options.max === "number" && options.max >= 0 ? options.max : 3;
+      const problems: Problem[] = [];
+      const stack: string[] = [];
+      for (const token of tokens) {
+        if (
+          token.type !== "macro-sec-keyword" &&
+          token.type !== "macro-keyword"
+        ) {
+          continue;
+        }
+        const word = token.text.toUpperCase();
+        if (word === "%MACRO" || word === "%DO") {
+          stack.push(word);
+          if (stack.length === max + 1) {
+            problems.push({ range: toRange(token), arg: String(max) });
+          }
+        } else if (word === "%END" && stack[stack.length - 1] === "%DO") {
+          stack.pop();
+        } else if (word === "%MEND" && stack.includes("%MACRO")) {
+          // with the %DO blocks left open in the macro
+          stack.splice(stack.lastIndexOf("%MACRO"));
+        }
+      }
+      return problems;
+    },
+  },
+  "header-comment": {
+    defaultSeverity: "off",
+    check: ({ allTokens, options }) => {
+      const [first] = allTokens;
+      if (!first) {
+        return [];
+      }
+      const pattern = toPattern(options.pattern);
+      const isHeader =
+        (first.type === "comment" || first.type === "macro-comment") &&
+        (!pattern || pattern.test(first.text));
+      return isHeader
+        ? []
+        : [
+            {
+              range: toRange(first),
+              fix: TextEdit.insert(
+                { line: 0, character: 0 },
+                "/*\n * Program:\n * Purpose:\n */\n",
+              ),
+            },
+          ];
+    },
+  },
+};
+
+const isLintRuleId = (id: string): id is LintRuleId =>
+  Object.keys(rules).includes(id);
+
+const isLintSeverity = (value: unknown): value is LintSeverity =>
+  typeof value === "string" && Object.keys(SEVERITIES).includes(value);
+
+/**
+ * Picks the valid rules of the content of a .saslintrc file, such as
+ * `{ "rules": { "no-goto": "off", "max-macro-nesting": ["error", { "max": 4 }] } }`.
+ * Unknown rules, invalid severities and invalid patterns are ignored.
+ */
+export const toLintConfig = (value: unknown): LintConfig => {
+  const config: LintConfig = {};
+  if (typeof value !== "object" || value === null || !("rules" in value)) {
+    return config;
+  }
+  const ruleConfigs = value.rules;
+  if (typeof ruleConfigs !== "object" || ruleConfigs === null) {
+    return config;
+  }
+  for (const [id, rule] of Object.entries(ruleConfigs)) {
+    const [severity, options]: unknown[] = Array.isArray(rule) ? rule : [rule];
+    if (isLintRuleId(id) && isLintSeverity(severity)) {
+      const ruleOptions: Record<string, unknown> =
+        typeof options === "object" && options !== null ? { ...options } : {};
+      if ("pattern" in ruleOptions && !toPattern(ruleOptions.pattern)) {
+        delete ruleOptions.pattern;
+      }
+      config[id] = { severity, options: ruleOptions };
+    }
+  }
+  return config;
+};
+
+/**
+ * Checks SAS programs against a set of style and safety rules, which can be
+ * configured in a .saslintrc file and disabled in code by
+ * `/* saslint-disable rule *\/` comments, and offers their quick fixes.
+ */
+export class LintProvider {
+  constructor(
+    private model: Model,
+    private tokens: Token[],
+    private syntaxProvider: SyntaxProvider,
+  ) {}
+
+  getDiagnostics(config: LintConfig = {}): Diagnostic[] {
+    const allTokens = this.tokens.filter((token) => token.type !== "blank");
+    const tokens = allTokens.filter(
+      (token) => token.type !== "comment" && token.type !== "macro-comment",
+    );
+    const directives = this._getDirectives(allTokens);
+    const result: Diagnostic[] = [];
+    for (const [id, rule] of Object.entries(rules)) {
+      if (!isLintRuleId(id)) {
+        continue;
+      }
+      const severity = SEVERITIES[config[id]?.severity ?? rule.defaultSeverity];
+      if (severity === undefined) {
+        continue;
+      }
+      const problems = rule.check({
+        model: this.model,
+        syntaxProvider: this.syntaxProvider,
+        tokens,
+        allTokens,
+        options: config[id]?.options ?? {},
+      });
+      for (const { range, arg, fix } of problems) {
+        if (this._isDisabled(directives, id, range.start)) {
+          continue;
+        }
+        result.push({
+          range,
+          severity,
+          code: id,
+          source: LINT_SOURCE,
+          message: getText(`ce_ln_${id.replace(/-/g, "_")}.fmt`, arg),
+          data: fix ? { fix } : undefined,
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns the quick fixes of the lint diagnostics, and the actions that
+   * disable their rules for their lines.
+   */
+  getCodeActions(uri: string, diagnostics: Diagnostic[]): CodeAction[] {
+    const result: CodeAction[] = [];
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.source !== LINT_SOURCE) {
+        continue;
+      }
+      const code = String(diagnostic.code);
+      const fix = diagnostic.data?.fix;
+      if (TextEdit.is(fix)) {
+        result.push({
+          title: getText(`ce_ln_fix_${code.replace(/-/g, "_")}.fmt`),
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [diagnostic],
+          isPreferred: true,
+          edit: { changes: { [uri]: [fix] } },
+        });
+      }
+      const line = diagnostic.range.start.line;
+      const indentation = /^[ \t]*/.exec(this.model.getLine(line))?.[0] ?? "";
+      result.push({
+        title: getText("ce_ln_disable_next_line.fmt", code),
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        edit: {
+          changes: {
+            [uri]: [
+              TextEdit.insert(
+                { line, character: 0 },
+                `${indentation}/* saslint-disable-next-line ${code} */\n`,
+              ),
+            ],
+          },
+        },
+      });
+    }
+    return result;
+  }
+
+  private _getDirectives(tokens: Token[]): Directive[] {
+    const result: Directive[] = [];
+    for (const token of tokens) {
+      if (token.type !== "comment" && token.type !== "macro-comment") {
+        continue;
+      }
+      const text = token.text
+        .replace(/^(\/\*|%?\*)/, "")
+        .replace(/(\*\/|;)$/, "")
+        .trim();
+      const match = /^saslint-(disable-next-line|disable|enable)\b(.*)$/s.exec(
+        text,
+      );
+      if (!match) {
+        continue;
+      }
+      const type =
+        match[1] === "disable-next-line"
+          ? "disable-next-line"
+          : match[1] === "disable"
+            ? "disable"
+            : "enable";
+      result.push({
+        type,
+        rules: match[2].split(/[\s,]+/).filter((rule) => rule !== ""),
+        token,
+      });
+    }
+    return result;
+  }
+
+  private _isDisabled(
+    directives: Directive[],
+    id: LintRuleId,
+    position: Position,
+  ): boolean {
+    let disabled = false;
+    for (const { type, rules, token } of directives) {
+      if (rules.length > 0 && !rules.includes(id)) {
+        continue;
+      }
+      if (type === "disable-next-line") {
+        if (token.end.line + 1 === position.line) {
+          return true;
+        }
+      } else if (!isBefore(position, toPosition(token.start))) {
+        disabled = type === "disable";
+      }
+    }
+    return disabled;
+  }
+}
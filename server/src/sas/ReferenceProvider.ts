@@ -0,0 +1,637 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { Position, Range } from "vscode-languageserver";
+
+import type { Token } from "./Lexer";
+import type { Model } from "./Model";
+
+export type SasSymbolKind = "macro" | "macro-variable" | "dataset";
+
+export interface SasSymbolOccurrence {
+  kind: SasSymbolKind;
+  // normalized (upper case) name, one-level data set names are prefixed with WORK.
+  name: string;
+  range: Range;
+  isDefinition: boolean;
+  // range of the %macro ... %mend block containing this occurrence
+  scope?: Range;
+}
+
+export interface MacroParameter {
+  name: string;
+  // text after the equal sign of a keyword parameter
+  defaultValue?: string;
+}
+
+export interface MacroDefinition {
+  name: string;
+  parameters: MacroParameter[];
+  // comment preceding the %macro statement
+  documentation?: string;
+  range: Range;
+}
+
+const MACRO_VARIABLE_STATEMENTS = ["%LET", "%GLOBAL", "%LOCAL"];
+const SYMPUT_ROUTINES = ["SYMPUT", "SYMPUTX"];
+const DATASET_STATEMENTS = ["SET", "MERGE", "UPDATE", "MODIFY"];
+const DATASET_INPUT_OPTIONS = ["DATA", "BASE", "COMPARE", "NEW"];
+const DATASET_OUTPUT_OPTIONS = [
+  "OUT",
+  "OUTEST",
+  "OUTSTAT",
+  "OUTCOV",
+  "OUTSSCP",
+  "OUTP",
+];
+const SQL_TABLE_KEYWORDS = ["FROM", "JOIN"];
+// lexed as macro references, but not macro calls
+const MACRO_LANGUAGE_KEYWORDS = [
+  "%IF",
+  "%THEN",
+  "%ELSE",
+  "%TO",
+  "%BY",
+  "%WHILE",
+  "%UNTIL",
+  "%INCLUDE",
+  "%INC",
+];
+
+const macroVariableInStringRegex = /&+([a-z_][a-z0-9_]*)/gi;
+
+const isSep = (token: Token | undefined, text: string) =>
+  token?.type === "sep" && token.text === text;
+
+const isAdjacent = (left: Token, right: Token) =>
+  left.end.line === right.start.line && left.end.column === right.start.column;
+
+const toRange = (token: Token): Range => ({
+  start: { line: token.start.line, character: token.start.column },
+  end: { line: token.end.line, character: token.end.column },
+});
+
+const isInRange = (range: Range, position: Position) =>
+  (range.start.line < position.line ||
+    (range.start.line === position.line &&
+      range.start.character <= position.character)) &&
+  (range.end.line > position.line ||
+    (range.end.line === position.line &&
+      range.end.character >= position.character));
+
+export const normalizeDatasetName = (name: string) => {
+  const upperName = name.toUpperCase();
+  return upperName.includes(".") ? upperName : `WORK.${upperName}`;
+};
+
+const isDatasetName = (text: string) =>
+  /^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)?$/i.test(text) &&
+  !/^_(null|data|last)_$/i.test(text);
+
+/**
+ * Whether the occurrence is a parameter or %local variable of the macro
+ * containing it, or a reference to one.
+ */
+export const isLocalOccurrence = (
+  occurrence: SasSymbolOccurrence,
+  occurrences: SasSymbolOccurrence[],
+) =>
+  occurrence.kind === "macro-variable" &&
+  !!occurrence.scope &&
+  occurrences.some(
+    (definition) =>
+      definition.isDefinition &&
+      definition.kind === occurrence.kind &&
+      definition.name === occurrence.name &&
+      definition.scope === occurrence.scope,
+  );
+
+/**
+ * Collects macro, macro variable and data set occurrences from the token
+ * stream of a document, so that definitions and references can be resolved
+ * within the document and across documents.
+ */
+export class ReferenceProvider {
+  private occurrences: SasSymbolOccurrence[] | undefined;
+  private macroDefinitions: MacroDefinition[] | undefined;
+
+  constructor(
+    private model: Model,
+    private tokens: Token[],
+  ) {}
+
+  getOccurrences(): SasSymbolOccurrence[] {
+    if (!this.occurrences) {
+      this.occurrences = this._collectOccurrences();
+    }
+    return this.occurrences;
+  }
+
+  getMacroDefinitions(): MacroDefinition[] {
+    if (!this.macroDefinitions) {
+      this.macroDefinitions = this._collectMacroDefinitions();
+    }
+    return this.macroDefinitions;
+  }
+
+  /**
+   * Paths of the files included by %include statements, file references
+   * such as `%include myref(member);` are not resolved.
+   */
+  getIncludes(): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < this.tokens.length - 1; i++) {
+      const token = this.tokens[i];
+      const next = this.tokens[i + 1];
+      if (
+        token.type === "macro-ref" &&
+        ["%INCLUDE", "%INC"].includes(token.text.toUpperCase()) &&
+        next.type === "string"
+      ) {
+        result.push(next.text.slice(1, -1));
+      }
+    }
+    return result;
+  }
+
+  getSymbolAt(position: Position): SasSymbolOccurrence | undefined {
+    return this.getOccurrences().find((occurrence) =>
+      isInRange(occurrence.range, position),
+    );
+  }
+
+  getDefinitions(symbol: SasSymbolOccurrence): SasSymbolOccurrence[] {
+    const definitions = this.getOccurrences().filter(
+      (occurrence) =>
+        occurrence.isDefinition &&
+        occurrence.kind === symbol.kind &&
+        occurrence.name === symbol.name,
+    );
+    if (symbol.kind === "macro-variable" && symbol.scope) {
+      // prefer parameters and %local definitions of the enclosing macro
+      const localDefinitions = definitions.filter(
+        (definition) => definition.scope === symbol.scope,
+      );
+      if (localDefinitions.length > 0) {
+        return localDefinitions;
+      }
+    }
+    return definitions;
+  }
+
+  /**
+   * Whether the symbol is a parameter or %local variable of the macro
+   * containing it, so that it can't be referenced from other documents.
+   */
+  isLocal(symbol: SasSymbolOccurrence): boolean {
+    return isLocalOccurrence(symbol, this.getOccurrences());
+  }
+
+  getReferences(
+    symbol: SasSymbolOccurrence,
+    includeDeclaration = true,
+  ): SasSymbolOccurrence[] {
+    const scope = this.isLocal(symbol) ? symbol.scope : undefined;
+    return this.getOccurrences().filter(
+      (occurrence) =>
+        occurrence.kind === symbol.kind &&
+        occurrence.name === symbol.name &&
+        (!scope || occurrence.scope === scope) &&
+        (includeDeclaration || !occurrence.isDefinition),
+    );
+  }
+
+  private _collectOccurrences(): SasSymbolOccurrence[] {
+    const result: SasSymbolOccurrence[] = [];
+    const tokens = this.tokens.filter(
+      (token) => token.type !== "comment" && token.type !== "macro-comment",
+    );
+    const scopes: { start: Token; occurrences: SasSymbolOccurrence[] }[] = [];
+    // statement context: first token of the current statement
+    let statement: Token | undefined;
+    let procName = "";
+    let parenDepth = 0;
+
+    const add = (
+      kind: SasSymbolKind,
+      name: string,
+      range: Range,
+      isDefinition: boolean,
+    ) => {
+      const occurrence: SasSymbolOccurrence = {
+        kind,
+        name,
+        range,
+        isDefinition,
+      };
+      result.push(occurrence);
+      if (scopes.length > 0) {
+        scopes[scopes.length - 1].occurrences.push(occurrence);
+      }
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const word = token.text.toUpperCase();
+      const prev = tokens[i - 1];
+      const next = tokens[i + 1];
+
+      if (token.type === "macro-sec-keyword") {
+        if (word === "%MACRO" && next?.type === "text") {
+          scopes.push({ start: token, occurrences: [] });
+          add("macro", next.text.toUpperCase(), toRange(next), true);
+          i = this._collectMacroParameters(tokens, i + 2, add);
+        } else if (word === "%MEND") {
+          if (next?.type === "text") {
+            add("macro", next.text.toUpperCase(), toRange(next), false);
+          }
+          const scope = scopes.pop();
+          if (scope) {
+            const range: Range = {
+              start: toRange(scope.start).start,
+              end: toRange(next ?? token).end,
+            };
+            for (const occurrence of scope.occurrences) {
+              occurrence.scope = range;
+            }
+          }
+        }
+        statement = undefined;
+        continue;
+      }
+
+      if (token.type === "macro-ref") {
+        if (!MACRO_LANGUAGE_KEYWORDS.includes(word)) {
+          // %name, the range covers the name only
+          const range = toRange(token);
+          range.start.character++;
+          add("macro", word.slice(1), range, false);
+        }
+        continue;
+      }
+
+      if (
+        token.type === "macro-keyword" &&
+        MACRO_VARIABLE_STATEMENTS.includes(word)
+      ) {
+        // %let name = ...; %global a b; %local a b;
+        for (let j = i + 1; j < tokens.length; j++) {
+          const current = tokens[j];
+          if (current.type !== "text") {
+            break;
+          }
+          add(
+            "macro-variable",
+            current.text.toUpperCase(),
+            toRange(current),
+            true,
+          );
+          if (word === "%LET") {
+            break;
+          }
+        }
+        continue;
+      }
+
+      if (
+        token.type === "macro-keyword" &&
+        word === "%DO" &&
+        next?.type === "text" &&
+        isSep(tokens[i + 2], "=")
+      ) {
+        add("macro-variable", next.text.toUpperCase(), toRange(next), true);
+        continue;
+      }
+
+      if (isSep(token, "&")) {
+        if (next?.type === "text" && isAdjacent(token, next)) {
+          add("macro-variable", next.text.toUpperCase(), toRange(next), false);
+          i++;
+        } else if (
+          next?.type === "format" &&
+          isAdjacent(token, next) &&
+          /^[a-z_][a-z0-9_]*\.$/i.test(next.text)
+        ) {
+          // &lib..class is lexed as a format
+          const range = toRange(next);
+          range.end.character--;
+          add(
+            "macro-variable",
+            next.text.slice(0, -1).toUpperCase(),
+            range,
+            false,
+          );
+          i++;
+        }
+        continue;
+      }
+
+      if (token.type === "string") {
+        if (
+          SYMPUT_ROUTINES.includes(tokens[i - 2]?.text.toUpperCase()) &&
+          isSep(prev, "(") &&
+          /^(['"])[a-z_][a-z0-9_]*\1$/i.test(token.text)
+        ) {
+          // call symputx('name', value);
+          add(
+            "macro-variable",
+            token.text.slice(1, -1).toUpperCase(),
+            {
+              start: {
+                line: token.start.line,
+                character: token.start.column + 1,
+              },
+              end: { line: token.end.line, character: token.end.column - 1 },
+            },
+            true,
+          );
+        } else if (token.text.startsWith('"')) {
+          this._collectMacroVariablesInString(token, add);
+        }
+        continue;
+      }
+
+      if (
+        isSep(token, ":") &&
+        next?.type === "text" &&
+        isAdjacent(token, next) &&
+        procName === "SQL" &&
+        this._isInSqlIntoClause(tokens, i)
+      ) {
+        // select count(*) into :name
+        add("macro-variable", next.text.toUpperCase(), toRange(next), true);
+        i++;
+        continue;
+      }
+
+      if (isSep(token, ";")) {
+        statement = undefined;
+        parenDepth = 0;
+        continue;
+      }
+      if (isSep(token, "(")) {
+        parenDepth++;
+      } else if (isSep(token, ")")) {
+        parenDepth = Math.max(parenDepth - 1, 0);
+      }
+      if (!statement) {
+        statement = token;
+        if (token.type === "sec-keyword") {
+          if (word === "PROC") {
+            procName = next?.text.toUpperCase() ?? "";
+          } else if (word === "DATA") {
+            procName = "";
+          }
+        }
+        continue;
+      }
+
+      if (token.type !== "text" || !isDatasetName(token.text)) {
+        continue;
+      }
+      const statementWord = statement.text.toUpperCase();
+
+      if (
+        statement.type === "sec-keyword" &&
+        statementWord === "DATA" &&
+        parenDepth === 0 &&
+        !isSep(prev, "=")
+      ) {
+        // data one two(keep=x);
+        add("dataset", normalizeDatasetName(token.text), toRange(token), true);
+        continue;
+      }
+      if (DATASET_STATEMENTS.includes(statementWord) && parenDepth === 0) {
+        // set one two(where=(x>1));
+        if (!isSep(prev, "=")) {
+          add(
+            "dataset",
+            normalizeDatasetName(token.text),
+            toRange(token),
+            false,
+          );
+        }
+        continue;
+      }
+      if (isSep(prev, "=")) {
+        const option = tokens[i - 2]?.text.toUpperCase();
+        if (DATASET_INPUT_OPTIONS.includes(option)) {
+          add(
+            "dataset",
+            normalizeDatasetName(token.text),
+            toRange(token),
+            false,
+          );
+        } else if (DATASET_OUTPUT_OPTIONS.includes(option)) {
+          add(
+            "dataset",
+            normalizeDatasetName(token.text),
+            toRange(token),
+            true,
+          );
+        }
+        continue;
+      }
+      if (procName === "SQL") {
+        const previousWord = prev?.text.toUpperCase();
+        if (
+          previousWord === "TABLE" &&
+          tokens[i - 2]?.text.toUpperCase() === "CREATE"
+        ) {
+          add(
+            "dataset",
+            normalizeDatasetName(token.text),
+            toRange(token),
+            true,
+          );
+        } else if (
+          SQL_TABLE_KEYWORDS.includes(previousWord) ||
+          (isSep(prev, ",") && this._isInSqlFromClause(tokens, i))
+        ) {
+          add(
+            "dataset",
+            normalizeDatasetName(token.text),
+            toRange(token),
+            false,
+          );
+        }
+      }
+    }
+    return result;
+  }
+
+  private _collectMacroDefinitions(): MacroDefinition[] {
+    const result: MacroDefinition[] = [];
+    for (let i = 0; i < this.tokens.length - 1; i++) {
+      const token = this.tokens[i];
+      const next = this.tokens[i + 1];
+      if (
+        token.type !== "macro-sec-keyword" ||
+        token.text.toUpperCase() !== "%MACRO" ||
+        next.type !== "text"
+      ) {
+        continue;
+      }
+      const parameters: MacroParameter[] = [];
+      let j = i + 2;
+      if (isSep(this.tokens[j], "(")) {
+        let depth = 0;
+        let parameter: MacroParameter | undefined;
+        let valueStart: Token | undefined;
+        const endParameter = (end: Token) => {
+          if (parameter && valueStart) {
+            parameter.defaultValue = this.model
+              .getText({ start: valueStart.end, end: end.start })
+              .trim();
+          }
+          parameter = undefined;
+          valueStart = undefined;
+        };
+        for (; j < this.tokens.length; j++) {
+          const current = this.tokens[j];
+          if (isSep(current, ";")) {
+            break;
+          } else if (isSep(current, "(")) {
+            depth++;
+          } else if (isSep(current, ")")) {
+            if (--depth === 0) {
+              endParameter(current);
+              break;
+            }
+          } else if (depth === 1 && isSep(current, ",")) {
+            endParameter(current);
+          } else if (depth === 1 && !parameter && current.type === "text") {
+            parameter = { name: current.text };
+            parameters.push(parameter);
+          } else if (depth === 1 && parameter && isSep(current, "=")) {
+            valueStart ??= current;
+          }
+        }
+      }
+      result.push({
+        name: next.text,
+        parameters,
+        documentation: this._getDocumentation(i),
+        range: toRange(next),
+      });
+    }
+    return result;
+  }
+
+  // the comment right before the %macro statement
+  private _getDocumentation(index: number): string | undefined {
+    const token = this.tokens[index];
+    const comment = this.tokens[index - 1];
+    if (
+      !comment ||
+      (comment.type !== "comment" && comment.type !== "macro-comment") ||
+      token.start.line - comment.end.line > 1
+    ) {
+      return undefined;
+    }
+    const text = comment.text
+      .replace(/^(\/\*+|%?\*)|(\*+\/|;)$/g, "")
+      .split(/\r?\n/)
+      .map((line) => line.replace(/^\s*\*?\s?/, "").trimEnd())
+      .join("\n")
+      .trim();
+    return text || undefined;
+  }
+
+  private _collectMacroParameters(
+    tokens: Token[],
+    start: number,
+    add: (
+      kind: SasSymbolKind,
+      name: string,
+      range: Range,
+      isDefinition: boolean,
+    ) => void,
+  ): number {
+    if (!isSep(tokens[start], "(")) {
+      return start - 1;
+    }
+    let depth = 0;
+    let expectName = true;
+    let i = start;
+    for (; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (isSep(token, "(")) {
+        depth++;
+      } else if (isSep(token, ")")) {
+        if (--depth === 0) {
+          break;
+        }
+      } else if (isSep(token, ";")) {
+        break;
+      } else if (depth === 1 && isSep(token, ",")) {
+        expectName = true;
+      } else if (depth === 1 && expectName && token.type === "text") {
+        add("macro-variable", token.text.toUpperCase(), toRange(token), true);
+        expectName = false;
+      } else {
+        expectName = false;
+      }
+    }
+    return i;
+  }
+
+  private _collectMacroVariablesInString(
+    token: Token,
+    add: (
+      kind: SasSymbolKind,
+      name: string,
+      range: Range,
+      isDefinition: boolean,
+    ) => void,
+  ) {
+    for (let line = token.start.line; line <= token.end.line; line++) {
+      const lineText = this.model.getLine(line);
+      const startColumn = line === token.start.line ? token.start.column : 0;
+      const endColumn =
+        line === token.end.line ? token.end.column : lineText.length;
+      const text = lineText.slice(startColumn, endColumn);
+      for (const match of text.matchAll(macroVariableInStringRegex)) {
+        const character =
+          startColumn + match.index! + match[0].length - match[1].length;
+        add(
+          "macro-variable",
+          match[1].toUpperCase(),
+          {
+            start: { line, character },
+            end: { line, character: character + match[1].length },
+          },
+          false,
+        );
+      }
+    }
+  }
+
+  private _isInSqlIntoClause(tokens: Token[], index: number): boolean {
+    for (let i = index - 1; i >= 0; i--) {
+      const word = tokens[i].text.toUpperCase();
+      if (word === "INTO") {
+        return true;
+      }
+      if (isSep(tokens[i], ";") || word === "SELECT" || word === "FROM") {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  private _isInSqlFromClause(tokens: Token[], index: number): boolean {
+    for (let i = index - 1; i >= 0; i--) {
+      const word = tokens[i].text.toUpperCase();
+      if (isSep(tokens[i], ";")) {
+        return false;
+      }
+      if (SQL_TABLE_KEYWORDS.includes(word)) {
+        return true;
+      }
+      if (["SELECT", "WHERE", "ON", "SET", "GROUP", "ORDER"].includes(word)) {
+        return false;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,150 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { TextEdit, WorkspaceEdit } from "vscode-languageserver";
+
+import {
+  ReferenceProvider,
+  SasSymbolOccurrence,
+  isLocalOccurrence,
+} from "./ReferenceProvider";
+import type { SyntaxDataProvider } from "./SyntaxDataProvider";
+
+export interface DocumentOccurrences {
+  uri: string;
+  occurrences: SasSymbolOccurrence[];
+}
+
+export type RenameConflict =
+  | { type: "invalid-name" }
+  | { type: "reserved-name" }
+  | { type: "existing-name"; uri: string; occurrence: SasSymbolOccurrence };
+
+const MAX_NAME_LENGTH = 32;
+
+/**
+ * Renames macros and macro variables in the current document and, unless the
+ * macro variable is local to a macro, in the other documents of the workspace.
+ */
+export class RenameProvider {
+  constructor(
+    private referenceProvider: ReferenceProvider,
+    private syntaxDb: SyntaxDataProvider,
+  ) {}
+
+  getRenameSymbol(position: {
+    line: number;
+    character: number;
+  }): SasSymbolOccurrence | undefined {
+    const symbol = this.referenceProvider.getSymbolAt(position);
+    if (!symbol || symbol.kind === "dataset") {
+      return undefined;
+    }
+    return symbol;
+  }
+
+  isLocal(symbol: SasSymbolOccurrence): boolean {
+    return this.referenceProvider.isLocal(symbol);
+  }
+
+  findConflict(
+    symbol: SasSymbolOccurrence,
+    newName: string,
+    currentUri: string,
+    otherDocuments: DocumentOccurrences[],
+  ): RenameConflict | undefined {
+    if (
+      !/^[a-z_][a-z0-9_]*$/i.test(newName) ||
+      newName.length > MAX_NAME_LENGTH
+    ) {
+      return { type: "invalid-name" };
+    }
+    const name = newName.toUpperCase();
+    if (this._getReservedNames(symbol).includes(name)) {
+      return { type: "reserved-name" };
+    }
+    for (const document of this._getDocuments(
+      symbol,
+      currentUri,
+      otherDocuments,
+    )) {
+      // the symbol itself may take a name that differs only in case
+      const occurrence = document.occurrences.find(
+        (occurrence) =>
+          occurrence.kind === symbol.kind &&
+          occurrence.name === name &&
+          occurrence.name !== symbol.name,
+      );
+      if (occurrence) {
+        return { type: "existing-name", uri: document.uri, occurrence };
+      }
+    }
+    return undefined;
+  }
+
+  getRenameEdit(
+    symbol: SasSymbolOccurrence,
+    newName: string,
+    currentUri: string,
+    otherDocuments: DocumentOccurrences[],
+  ): WorkspaceEdit {
+    const changes: Record<string, TextEdit[]> = {};
+    for (const document of this._getDocuments(
+      symbol,
+      currentUri,
+      otherDocuments,
+    )) {
+      const edits = document.occurrences
+        .filter(
+          (occurrence) =>
+            occurrence.kind === symbol.kind && occurrence.name === symbol.name,
+        )
+        .map((occurrence) => TextEdit.replace(occurrence.range, newName));
+      if (edits.length > 0) {
+        changes[document.uri] = edits;
+      }
+    }
+    return { changes };
+  }
+
+  private _getDocuments(
+    symbol: SasSymbolOccurrence,
+    currentUri: string,
+    otherDocuments: DocumentOccurrences[],
+  ): DocumentOccurrences[] {
+    const occurrences = this.referenceProvider.getOccurrences();
+    if (this.isLocal(symbol)) {
+      return [
+        {
+          uri: currentUri,
+          occurrences: occurrences.filter(
+            (occurrence) => occurrence.scope === symbol.scope,
+          ),
+        },
+      ];
+    }
+    // leave the local macro variables of the same name untouched
+    return [{ uri: currentUri, occurrences }, ...otherDocuments].map(
+      (document) => ({
+        uri: document.uri,
+        occurrences: document.occurrences.filter(
+          (occurrence) =>
+            occurrence.name !== symbol.name ||
+            !isLocalOccurrence(occurrence, document.occurrences),
+        ),
+      }),
+    );
+  }
+
+  private _getReservedNames(symbol: SasSymbolOccurrence): string[] {
+    if (symbol.kind === "macro") {
+      return [
+        ...(this.syntaxDb.getMacroStatements() ?? []),
+        ...(this.syntaxDb.getMacroFunctions() ?? []),
+        ...(this.syntaxDb.getAutocallMacros() ?? []),
+      ].map((name) => name.slice(1).toUpperCase());
+    }
+    return (this.syntaxDb.getAutoVariables() ?? []).map((name: string) =>
+      name.toUpperCase(),
+    );
+  }
+}
@@ -1828,7 +1828,7 @@ export class SyntaxDataProvider {
    *  If cb is valid, the call will work in asynchronous mode;
    *  if cb is invalid, the call will work in synchronous mode.
    */
-  getProcedures(cb: (data: string[]) => void) {
+  getProcedures(cb?: (data: string[]) => void) {
     //return _loadKeywords(/*'procedures'*/'proc', cb);
     return _tryToLoadProceduresFromPubs(cb, function () {
       let data = _keywordObj("proc");
@@ -0,0 +1,200 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import {
+  CompletionItem,
+  CompletionItemKind,
+  Hover,
+  MarkupKind,
+  Position,
+  SignatureHelp,
+} from "vscode-languageserver";
+
+import type { Token } from "./Lexer";
+import type { Model } from "./Model";
+import type { MacroDefinition } from "./ReferenceProvider";
+
+export interface UserMacro extends MacroDefinition {
+  // document defining the macro
+  uri: string;
+}
+
+const isSep = (token: Token | undefined, text: string) =>
+  token?.type === "sep" && token.text === text;
+
+const isBefore = (
+  a: { line: number; column: number },
+  b: { line: number; column: number },
+) => a.line < b.line || (a.line === b.line && a.column < b.column);
+
+const getSignature = (macro: MacroDefinition) =>
+  `%${macro.name}` +
+  (macro.parameters.length > 0
+    ? `(${macro.parameters
+        .map((parameter) =>
+          parameter.defaultValue === undefined
+            ? parameter.name
+            : `${parameter.name}=${parameter.defaultValue}`,
+        )
+        .join(", ")})`
+    : "");
+
+const getFileName = (uri: string) =>
+  decodeURIComponent(uri.slice(uri.lastIndexOf("/") + 1));
+
+/**
+ * Offers the macros defined by the user, in the current document or in the
+ * other SAS files known to the server, in code completion, hover and
+ * signature help.
+ */
+export class UserMacroProvider {
+  constructor(
+    private model: Model,
+    private tokens: Token[],
+  ) {}
+
+  // the partial macro name before the position, after a percent sign
+  getMacroPrefix(position: Position): string | undefined {
+    const line = this.model.getLine(position.line);
+    return /%(\w*)$/.exec(line.slice(0, position.character))?.[1];
+  }
+
+  getCompletionItems(
+    position: Position,
+    macros: UserMacro[],
+  ): CompletionItem[] {
+    const prefix = this.getMacroPrefix(position);
+    if (prefix === undefined) {
+      return [];
+    }
+    const word = prefix.toUpperCase();
+    return macros
+      .filter((macro) => macro.name.toUpperCase().startsWith(word))
+      .map((macro) => ({
+        label: `%${macro.name}`,
+        kind: CompletionItemKind.Function,
+        detail: getSignature(macro),
+        documentation: macro.documentation
+          ? { kind: MarkupKind.Markdown, value: macro.documentation }
+          : undefined,
+        data: { _userMacro: true },
+      }));
+  }
+
+  getHover(position: Position, macros: UserMacro[]): Hover | undefined {
+    const offset = { line: position.line, column: position.character };
+    const token = this.tokens.find(
+      (token) =>
+        token.type === "macro-ref" &&
+        !isBefore(offset, token.start) &&
+        isBefore(offset, token.end),
+    );
+    const macro = token && this._findMacro(token, macros);
+    if (!token || !macro) {
+      return undefined;
+    }
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: [
+          "```sas\n" + getSignature(macro) + "\n```",
+          macro.documentation,
+          getFileName(macro.uri),
+        ]
+          .filter((item) => item)
+          .join("\n\n---\n\n"),
+      },
+      range: {
+        start: { line: token.start.line, character: token.start.column },
+        end: { line: token.end.line, character: token.end.column },
+      },
+    };
+  }
+
+  getSignatureHelp(
+    position: Position,
+    macros: UserMacro[],
+  ): SignatureHelp | undefined {
+    const offset = { line: position.line, column: position.character };
+    let index = this.tokens.findIndex(
+      (token) => !isBefore(token.start, offset),
+    );
+    if (index === -1) {
+      index = this.tokens.length;
+    }
+    // walk back to the opening parenthesis of the macro call
+    let depth = 0;
+    let argumentIndex = 0;
+    let argumentStart: Token | undefined;
+    for (let i = index - 1; i >= 0; i--) {
+      const token = this.tokens[i];
+      if (token.type === "comment" || token.type === "macro-comment") {
+        continue;
+      }
+      if (isSep(token, ";")) {
+        return undefined;
+      } else if (isSep(token, ")")) {
+        depth++;
+      } else if (isSep(token, "(") && depth > 0) {
+        depth--;
+      } else if (isSep(token, "(")) {
+        const previous = this.tokens[i - 1];
+        if (
+          previous?.type !== "macro-ref" ||
+          isBefore(previous.end, token.start)
+        ) {
+          return undefined;
+        }
+        const macro = this._findMacro(previous, macros);
+        if (!macro) {
+          return undefined;
+        }
+        argumentStart ??= this.tokens[i + 1];
+        return this._createSignatureHelp(macro, argumentIndex, argumentStart);
+      } else if (isSep(token, ",") && depth === 0) {
+        argumentStart ??= this.tokens[i + 1];
+        argumentIndex++;
+      }
+    }
+    return undefined;
+  }
+
+  private _createSignatureHelp(
+    macro: MacroDefinition,
+    argumentIndex: number,
+    argumentStart: Token | undefined,
+  ): SignatureHelp {
+    let activeParameter = argumentIndex;
+    // keyword parameters can be given in any order
+    const next =
+      argumentStart && this.tokens[this.tokens.indexOf(argumentStart) + 1];
+    if (argumentStart?.type === "text" && isSep(next, "=")) {
+      activeParameter = macro.parameters.findIndex(
+        (parameter) =>
+          parameter.name.toUpperCase() === argumentStart.text.toUpperCase(),
+      );
+    }
+    return {
+      signatures: [
+        {
+          label: getSignature(macro),
+          documentation: macro.documentation
+            ? { kind: MarkupKind.Markdown, value: macro.documentation }
+            : undefined,
+          parameters: macro.parameters.map((parameter) => ({
+            label:
+              parameter.defaultValue === undefined
+                ? parameter.name
+                : `${parameter.name}=${parameter.defaultValue}`,
+          })),
+        },
+      ],
+      activeSignature: 0,
+      activeParameter,
+    };
+  }
+
+  private _findMacro(token: Token, macros: UserMacro[]): UserMacro | undefined {
+    const name = token.text.slice(1).toUpperCase();
+    return macros.find((macro) => macro.name.toUpperCase() === name);
+  }
+}
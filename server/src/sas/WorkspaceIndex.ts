@@ -0,0 +1,135 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { FileLoader } from "../node/FileLoader";
+import { LanguageServiceProvider } from "./LanguageServiceProvider";
+import type { MacroDefinition, SasSymbolOccurrence } from "./ReferenceProvider";
+
+interface IndexEntry {
+  occurrences: SasSymbolOccurrence[];
+  macroDefinitions: MacroDefinition[];
+  includes: string[];
+}
+
+const getFolderUri = (uri: string) => uri.slice(0, uri.lastIndexOf("/"));
+
+/**
+ * Keeps the symbol occurrences and macro definitions of the SAS files in the
+ * workspace folders, re-parsing a file only after it was invalidated by a
+ * change.
+ */
+export class WorkspaceIndex {
+  private entries: Record<string, IndexEntry> = {};
+  private fileUris: Record<string, string[]> = {};
+  private autocallFileUris: Record<string, string[]> = {};
+
+  getFileUris(folderUris: string[]): string[] {
+    const key = folderUris.join("\n");
+    if (!this.fileUris[key]) {
+      this.fileUris[key] = FileLoader.findFiles(folderUris, [".sas"]);
+    }
+    return this.fileUris[key];
+  }
+
+  // to be called when SAS files are created or deleted
+  clearFileUris(): void {
+    this.fileUris = {};
+    this.autocallFileUris = {};
+  }
+
+  // to be called when SAS files changed, or were closed in the editor
+  invalidate(isChanged: (uri: string) => boolean): void {
+    for (const uri of Object.keys(this.entries).filter(isChanged)) {
+      delete this.entries[uri];
+    }
+  }
+
+  /**
+   * Lists the SAS files directly in the given autocall folders, relative
+   * folders are resolved against the workspace folders.
+   */
+  getAutocallFileUris(paths: string[], folderUris: string[]): string[] {
+    const key = [...paths, "", ...folderUris].join("\n");
+    if (!this.autocallFileUris[key]) {
+      const autocallFolderUris: string[] = [];
+      for (const path of paths) {
+        const uri = FileLoader.resolvePath(path, folderUris);
+        if (uri) {
+          autocallFolderUris.push(uri);
+        }
+      }
+      this.autocallFileUris[key] = FileLoader.findFiles(
+        autocallFolderUris,
+        [".sas"],
+        false,
+      );
+    }
+    return this.autocallFileUris[key];
+  }
+
+  /**
+   * Follows the %include statements of a document and of the files it
+   * includes, relative paths are resolved against the folder of the including
+   * file, then against the workspace folders.
+   */
+  getIncludedFileUris(
+    uri: string,
+    includes: string[],
+    folderUris: string[],
+  ): string[] {
+    const result: string[] = [];
+    const queue = [{ uri, includes }];
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      for (const include of item.includes) {
+        const includedUri = FileLoader.resolvePath(include, [
+          getFolderUri(item.uri),
+          ...folderUris,
+        ]);
+        if (
+          includedUri &&
+          includedUri !== uri &&
+          !result.includes(includedUri)
+        ) {
+          result.push(includedUri);
+          queue.push({
+            uri: includedUri,
+            includes: this.getIncludes(includedUri),
+          });
+        }
+      }
+    }
+    return result;
+  }
+
+  getOccurrences(uri: string): SasSymbolOccurrence[] {
+    return this._getEntry(uri)?.occurrences ?? [];
+  }
+
+  getMacroDefinitions(uri: string): MacroDefinition[] {
+    return this._getEntry(uri)?.macroDefinitions ?? [];
+  }
+
+  getIncludes(uri: string): string[] {
+    return this._getEntry(uri)?.includes ?? [];
+  }
+
+  private _getEntry(uri: string): IndexEntry | undefined {
+    if (this.entries[uri]) {
+      return this.entries[uri];
+    }
+    const text = FileLoader.readFile(uri);
+    if (text === undefined) {
+      return undefined;
+    }
+    const { referenceProvider } = new LanguageServiceProvider(
+      TextDocument.create(uri, "sas", 0, text),
+    );
+    this.entries[uri] = {
+      occurrences: referenceProvider.getOccurrences(),
+      macroDefinitions: referenceProvider.getMacroDefinitions(),
+      includes: referenceProvider.getIncludes(),
+    };
+    return this.entries[uri];
+  }
+}
@@ -0,0 +1,106 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import type { Range, TextEdit } from "vscode-languageserver-protocol";
+
+// the formatter only changes whitespace, so lines are matched by the
+// characters that are not whitespace
+const getContentLength = (line: string) => line.replace(/\s/g, "").length;
+
+/**
+ * Returns the edits that change the lines of a document into the lines of
+ * the formatted document, only for the lines that changed.
+ * @param lines the lines of the document, without line breaks.
+ * @param formattedLines the lines of the formatted document.
+ * @param range when given, only the edits of the lines in this range.
+ */
+export const getFormattingEdits = (
+  lines: string[],
+  formattedLines: string[],
+  range?: Range,
+): TextEdit[] => {
+  const firstLine = range?.start.line ?? 0;
+  const lastLine = range
+    ? range.end.character === 0 && range.end.line > range.start.line
+      ? range.end.line - 1
+      : range.end.line
+    : lines.length - 1;
+  const edits: TextEdit[] = [];
+
+  // replaces lines[start, end) with formattedLines[newStart, newEnd)
+  const addEdit = (
+    start: number,
+    end: number,
+    newStart: number,
+    newEnd: number,
+  ) => {
+    const oldText = lines.slice(start, end).join("\n");
+    const newText = formattedLines.slice(newStart, newEnd).join("\n");
+    if (oldText === newText || end <= firstLine || start > lastLine) {
+      return;
+    }
+    edits.push(
+      end < lines.length
+        ? {
+            range: {
+              start: { line: start, character: 0 },
+              end: { line: end, character: 0 },
+            },
+            newText: newEnd > newStart ? `${newText}\n` : "",
+          }
+        : {
+            range: {
+              start: { line: start, character: 0 },
+              end: { line: end - 1, character: lines[end - 1].length },
+            },
+            newText,
+          },
+    );
+  };
+
+  let line = 0;
+  let newLine = 0;
+  while (line < lines.length || newLine < formattedLines.length) {
+    // a group of lines with the same content, which can span a different
+    // number of lines when the formatter joins or splits lines
+    const start = line;
+    const newStart = newLine;
+    let length = 0;
+    let newLength = 0;
+    if (line < lines.length) {
+      length += getContentLength(lines[line++]);
+    }
+    if (newLine < formattedLines.length) {
+      newLength += getContentLength(formattedLines[newLine++]);
+    }
+    while (length !== newLength) {
+      if (length < newLength && line < lines.length) {
+        length += getContentLength(lines[line++]);
+      } else if (newLength < length && newLine < formattedLines.length) {
+        newLength += getContentLength(formattedLines[newLine++]);
+      } else {
+        break;
+      }
+    }
+    // the remaining lines of the longer document belong to the last group
+    if (line === lines.length || newLine === formattedLines.length) {
+      line = lines.length;
+      newLine = formattedLines.length;
+    }
+
+    if (line - start === newLine - newStart) {
+      // lines that changed in place are edited one by one
+      for (let index = 0; index < line - start; index++) {
+        addEdit(
+          start + index,
+          start + index + 1,
+          newStart + index,
+          newStart + index + 1,
+        );
+      }
+    } else {
+      addEdit(start, line, newStart, newLine);
+    }
+  }
+
+  return edits;
+};
@@ -1,6 +1,6 @@
 // Copyright © 2023, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
-import type { TextEdit } from "vscode-languageserver-protocol";
+import type { Range, TextEdit } from "vscode-languageserver-protocol";
 
 import type { Options, Plugin } from "prettier";
 import { format } from "prettier/standalone";
@@ -8,6 +8,8 @@ import { format } from "prettier/standalone";
 import type { Token } from "../Lexer";
 import type { Model } from "../Model";
 import type { SyntaxProvider } from "../SyntaxProvider";
+import { getFormattingEdits } from "./edits";
+import { pluginOptions } from "./options";
 import { SASAST, getParser } from "./parser";
 import { print } from "./printer";
 
@@ -37,32 +39,31 @@ const getSasPlugin = (
       print,
     },
   },
+  options: pluginOptions,
 });
 
 export class Formatter {
-  private tokens: Token[] = [];
-
   constructor(
     private model: Model,
     private syntaxProvider: SyntaxProvider,
-  ) {
-    this.syntaxProvider.setTokenCallback(this.tokens.push.bind(this.tokens));
-  }
+    private tokens: Token[],
+  ) {}
 
-  async format(options: Options): Promise<TextEdit[]> {
+  /**
+   * Formats the document, or only the lines in a range of it. The whole
+   * document is formatted, so that the lines in the range are indented as
+   * they are in the document, and only the lines that changed are edited.
+   */
+  async format(options: Options, range?: Range): Promise<TextEdit[]> {
     const formattedText = await format("text", {
       parser: "sas",
       plugins: [getSasPlugin(this.model, this.tokens, this.syntaxProvider)],
       ...options,
     });
-    return [
-      {
-        range: {
-          start: { line: 0, character: 0 },
-          end: { line: this.model.getLineCount(), character: 0 },
-        },
-        newText: formattedText,
-      },
-    ];
+    const lines: string[] = [];
+    for (let line = 0; line < this.model.getLineCount(); line++) {
+      lines.push(this.model.getLine(line).replace(/\r?\n$/, ""));
+    }
+    return getFormattingEdits(lines, formattedText.split("\n"), range);
   }
 }
@@ -0,0 +1,118 @@
+// Copyright © 2025, SAS Institute Inc., Cary, NC, USA.  All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+import type { SupportOptions } from "prettier";
+
+export type KeywordCase = "upper" | "lower" | "preserve";
+export type SqlClauseLayout = "preserve" | "newline";
+
+/**
+ * The style options of the SAS formatter, read from the SAS.format settings
+ * and the .sasformatrc file.
+ */
+export interface FormatOptions {
+  printWidth: number;
+  keywordCase: KeywordCase;
+  oneStatementPerLine: boolean;
+  alignEquals: boolean;
+  blankLinesBetweenSteps: number;
+  indentMacroBlocks: boolean;
+  sqlClauseLayout: SqlClauseLayout;
+}
+
+export const defaultFormatOptions: FormatOptions = {
+  printWidth: 80,
+  keywordCase: "preserve",
+  oneStatementPerLine: true,
+  alignEquals: false,
+  blankLinesBetweenSteps: 1,
+  indentMacroBlocks: true,
+  sqlClauseLayout: "preserve",
+};
+
+const keywordCases: KeywordCase[] = ["upper", "lower", "preserve"];
+const sqlClauseLayouts: SqlClauseLayout[] = ["preserve", "newline"];
+
+// the options added to prettier by the SAS plugin, printWidth is its own
+export const pluginOptions: SupportOptions = {
+  keywordCase: {
+    category: "SAS",
+    type: "choice",
+    default: defaultFormatOptions.keywordCase,
+    description: "The case of keywords.",
+    choices: keywordCases.map((value) => ({ value, description: value })),
+  },
+  oneStatementPerLine: {
+    category: "SAS",
+    type: "boolean",
+    default: defaultFormatOptions.oneStatementPerLine,
+    description: "Put each statement on its own line.",
+  },
+  alignEquals: {
+    category: "SAS",
+    type: "boolean",
+    default: defaultFormatOptions.alignEquals,
+    description: "Align the equals signs of wrapped option lists.",
+  },
+  blankLinesBetweenSteps: {
+    category: "SAS",
+    type: "int",
+    default: defaultFormatOptions.blankLinesBetweenSteps,
+    description: "The number of blank lines before each step.",
+    range: { start: 0, end: Infinity, step: 1 },
+  },
+  indentMacroBlocks: {
+    category: "SAS",
+    type: "boolean",
+    default: defaultFormatOptions.indentMacroBlocks,
+    description: "Indent the code in %macro and %do blocks.",
+  },
+  sqlClauseLayout: {
+    category: "SAS",
+    type: "choice",
+    default: defaultFormatOptions.sqlClauseLayout,
+    description: "The layout of the clauses of PROC SQL statements.",
+    choices: sqlClauseLayouts.map((value) => ({ value, description: value })),
+  },
+};
+
+const isOneOf = <T extends string>(
+  values: readonly T[],
+  value: unknown,
+): value is T => values.some((item) => item === value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+/**
+ * Picks the valid format options of an object, such as the SAS.format
+ * settings or the content of a .sasformatrc file. Invalid options are ignored.
+ */
+export const toFormatOptions = (value: unknown): Partial<FormatOptions> => {
+  const result: Partial<FormatOptions> = {};
+  if (typeof value !== "object" || value === null) {
+    return result;
+  }
+  const options: Record<string, unknown> = { ...value };
+  if (isCount(options.printWidth) && options.printWidth > 0) {
+    result.printWidth = options.printWidth;
+  }
+  if (isOneOf(keywordCases, options.keywordCase)) {
+    result.keywordCase = options.keywordCase;
+  }
+  if (typeof options.oneStatementPerLine === "boolean") {
+    result.oneStatementPerLine = options.oneStatementPerLine;
+  }
+  if (typeof options.alignEquals === "boolean") {
+    result.alignEquals = options.alignEquals;
+  }
+  if (isCount(options.blankLinesBetweenSteps)) {
+    result.blankLinesBetweenSteps = options.blankLinesBetweenSteps;
+  }
+  if (typeof options.indentMacroBlocks === "boolean") {
+    result.indentMacroBlocks = options.indentMacroBlocks;
+  }
+  if (isOneOf(sqlClauseLayouts, options.sqlClauseLayout)) {
+    result.sqlClauseLayout = options.sqlClauseLayout;
+  }
+  return result;
+};
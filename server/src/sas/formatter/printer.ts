@@ -4,11 +4,18 @@ import type { Doc, Printer } from "prettier";
 import { builders, utils } from "prettier/doc";
 
 import { isSamePosition } from "../utils";
-import { SASAST, Statement, Token, isComment } from "./parser";
+import {
+  FormatOptions,
+  defaultFormatOptions,
+  toFormatOptions,
+} from "./options";
+import { Region, SASAST, Statement, Token, isComment } from "./parser";
 
 const {
   fill,
+  group,
   hardline,
+  ifBreak,
   indent,
   join,
   line,
@@ -17,6 +24,81 @@ const {
   softline,
 } = builders;
 
+const KEYWORD_TYPES = [
+  "keyword",
+  "sec-keyword",
+  "proc-name",
+  "macro-keyword",
+  "macro-sec-keyword",
+];
+// macro statement keywords the lexer reads as macro calls
+const MACRO_KEYWORDS = /^%(if|then|else|to|by|until|while)$/i;
+// the keywords of PROC SQL, which the lexer reads as text
+const SQL_KEYWORDS = [
+  "SELECT",
+  "DISTINCT",
+  "AS",
+  "FROM",
+  "WHERE",
+  "GROUP",
+  "BY",
+  "HAVING",
+  "ORDER",
+  "ASC",
+  "DESC",
+  "UNION",
+  "EXCEPT",
+  "INTERSECT",
+  "OUTER",
+  "ALL",
+  "CORR",
+  "JOIN",
+  "NATURAL",
+  "LEFT",
+  "RIGHT",
+  "FULL",
+  "INNER",
+  "CROSS",
+  "ON",
+  "AND",
+  "OR",
+  "NOT",
+  "IN",
+  "IS",
+  "NULL",
+  "LIKE",
+  "BETWEEN",
+  "CASE",
+  "WHEN",
+  "THEN",
+  "ELSE",
+  "END",
+  "INTO",
+  "VALUES",
+  "CALCULATED",
+];
+// the clauses of PROC SQL statements put on their own lines
+const SQL_CLAUSES = [
+  "SELECT",
+  "FROM",
+  "WHERE",
+  "GROUP",
+  "HAVING",
+  "ORDER",
+  "UNION",
+  "EXCEPT",
+  "INTERSECT",
+];
+const SQL_JOIN_PREFIXES = [
+  "NATURAL",
+  "LEFT",
+  "RIGHT",
+  "FULL",
+  "INNER",
+  "OUTER",
+  "CROSS",
+];
+
 const isRootAlign = (doc: Doc) =>
   typeof doc === "object" &&
   "type" in doc &&
@@ -24,8 +106,10 @@ const isRootAlign = (doc: Doc) =>
   typeof doc.n === "object" &&
   doc.n.type === "root";
 
-const isEqualsSign = (token: Token) =>
-  token.type === "sep" && token.text === "=";
+const isSep = (token: Token | undefined, text: string) =>
+  token?.type === "sep" && token.text === text;
+
+const isEqualsSign = (token: Token) => isSep(token, "=");
 
 const startsWithLineBreak = (doc: Doc) => {
   while (Array.isArray(doc)) {
@@ -34,83 +118,336 @@ const startsWithLineBreak = (doc: Doc) => {
   return typeof doc === "object" && "type" in doc && doc.type === "line";
 };
 
+const isRawStatement = (node: Region | Statement) =>
+  node.type === "statement" &&
+  (node.children[0].type === "cards-data" ||
+    node.children[0].type === "raw-data");
+
+// %macro definitions, %do blocks and the %if statements of %do blocks
+const isMacroBlock = (node: Region) => {
+  const first = node.children[0];
+  return first?.type === "statement" && first.children[0].text[0] === "%";
+};
+
+const isInProcSql = (ancestors: SASAST[]) => {
+  const step = ancestors.find(
+    (node): node is Region => node.type === "region" && !!node.block,
+  );
+  const procName = step?.children[0]?.children[1];
+  return (
+    step?.block?.name === "PROC" &&
+    !!procName &&
+    "text" in procName &&
+    /^sql$/i.test(procName.text)
+  );
+};
+
 export const print: Printer<SASAST>["print"] = (path, options, print) => {
   const { node } = path;
+  const formatOptions = {
+    ...defaultFormatOptions,
+    ...toFormatOptions(options),
+  };
   if ("children" in node && node.children?.length) {
     if (node.type === "statement") {
-      return printStatement(node);
+      return printStatement(node, formatOptions, isInProcSql(path.ancestors));
     }
+    const docs = path.map(print, "children");
     const children = removeRedundantLineBreaks(
-      path.map(print, "children").filter((doc) => doc !== ""),
+      docs.filter((doc) => doc !== ""),
     );
+    const nodes = node.children.filter((_, index) => docs[index] !== "");
     if (node.type === "region") {
-      const region = printRegion(children);
+      const region = printRegion(
+        joinChildren(nodes, children, formatOptions, (doc) =>
+          isRootAlign(doc) ? literalline : line,
+        ),
+        formatOptions.indentMacroBlocks || !isMacroBlock(node),
+      );
       return !(
         path.isFirst ||
         (path.index === 1 && path.parent?.type === "region")
       ) && node.block
-        ? [hardline, ...region]
+        ? [
+            ...Array.from(
+              { length: formatOptions.blankLinesBetweenSteps },
+              () => hardline,
+            ),
+            ...region,
+          ]
         : region;
     }
-    return [...join(line, children), literalline];
+    return [
+      ...joinChildren(nodes, children, formatOptions, () => line),
+      literalline,
+    ];
   }
   return "text" in node ? node.text : "";
 };
 
-const printRegion = (children: Doc[]) => {
+// whether a statement is kept on the line of the previous statement
+const isOnSameLine = (
+  prev: Region | Statement,
+  node: Region | Statement,
+  options: FormatOptions,
+) => {
+  if (
+    options.oneStatementPerLine ||
+    prev.type !== "statement" ||
+    node.type !== "statement" ||
+    node.leadingComment ||
+    isRawStatement(prev) ||
+    isRawStatement(node)
+  ) {
+    return false;
+  }
+  const lastToken = prev.children[prev.children.length - 1];
+  return (
+    lastToken.type !== "raw-data" &&
+    !isComment(lastToken) &&
+    lastToken.end.line === node.children[0].start.line
+  );
+};
+
+const joinChildren = (
+  nodes: (Region | Statement)[],
+  docs: Doc[],
+  options: FormatOptions,
+  getLineBreak: (doc: Doc) => Doc,
+) =>
+  docs.reduce<Doc[]>(
+    (pre, doc, index) =>
+      index === 0
+        ? [doc]
+        : [
+            ...pre,
+            isOnSameLine(nodes[index - 1], nodes[index], options)
+              ? " "
+              : getLineBreak(doc),
+            doc,
+          ],
+    [],
+  );
+
+const printRegion = (children: Doc[], indentBody: boolean) => {
   const [first, ...others] = children;
-  return [
-    first,
-    indent(
-      others.reduce<Doc[]>(
-        (pre, doc) => [...pre, isRootAlign(doc) ? literalline : line, doc],
-        [],
-      ),
-    ),
-  ];
+  return [first, indentBody ? indent(others) : others];
 };
 
-const printStatement = (node: Statement) => {
-  const [first, ...others] = node.children;
-  const statement =
-    first.type === "cards-data" || first.type === "raw-data"
-      ? markAsRoot(node.children.map((token) => token.text))
-      : fill(
-          // Note: `fill` requires elements with odd indices must be line breaks
-          // Refers to https://github.com/prettier/prettier/blob/main/commands.md#fill
-          others.reduce<Doc[]>(
-            (pre, token, index) => {
-              const preToken = index === 0 ? first : others[index - 1];
-              if (
-                typeof pre[pre.length - 1] === "string" &&
-                isSamePosition(token.start, preToken.end)
-              ) {
-                // do not break if no whitespace
-                pre[pre.length - 1] += token.text;
-                return pre;
-              }
-              return [
-                ...pre,
-                indent(
-                  isEqualsSign(token) ||
-                    (isEqualsSign(preToken) &&
-                      index + 1 < others.length &&
-                      !isEqualsSign(others[index + 1]))
-                    ? // trim whitespace around equals sign
-                      softline
-                    : line,
-                ),
-                token.text,
-              ];
-            },
-            [isComment(first) ? printComment(first) : first.text],
-          ),
-        );
+const printStatement = (
+  node: Statement,
+  options: FormatOptions,
+  inSql: boolean,
+) => {
+  const statement = isRawStatement(node)
+    ? markAsRoot(node.children.map((token) => token.text))
+    : printTokens(node.children, options, inSql);
   return node.leadingComment
     ? [printComment(node.leadingComment), hardline, statement]
     : statement;
 };
 
+const printTokens = (
+  tokens: Token[],
+  options: FormatOptions,
+  inSql: boolean,
+): Doc => {
+  const getText = (token: Token) => {
+    const word = token.text.toUpperCase();
+    const isKeyword =
+      KEYWORD_TYPES.includes(token.type) ||
+      (token.type === "macro-ref" && MACRO_KEYWORDS.test(token.text)) ||
+      (inSql && token.type === "text" && SQL_KEYWORDS.includes(word));
+    if (!isKeyword || options.keywordCase === "preserve") {
+      return token.text;
+    }
+    return options.keywordCase === "upper" ? word : token.text.toLowerCase();
+  };
+
+  if (inSql && options.sqlClauseLayout === "newline") {
+    const [first, ...clauses] = splitSqlClauses(tokens);
+    if (clauses.length > 0) {
+      return [
+        fill(getFillParts(first, getText)),
+        indent(
+          clauses.flatMap((clause) => [
+            hardline,
+            fill(getFillParts(clause, getText)),
+          ]),
+        ),
+      ];
+    }
+  }
+  if (options.alignEquals) {
+    const end = tokens.findIndex((token) => isSep(token, ";"));
+    const optionLines = end > 0 && printOptions(tokens.slice(0, end), getText);
+    if (optionLines) {
+      // the semicolon and the trailing comment stay after the options
+      const [semicolon, ...others] = getFillParts(tokens.slice(end), getText);
+      return fill([
+        [
+          optionLines,
+          isSamePosition(tokens[end].start, tokens[end - 1].end) ? "" : " ",
+          semicolon,
+        ],
+        ...others,
+      ]);
+    }
+  }
+  return fill(getFillParts(tokens, getText));
+};
+
+// Note: `fill` requires elements with odd indices must be line breaks
+// Refers to https://github.com/prettier/prettier/blob/main/commands.md#fill
+const getFillParts = (tokens: Token[], getText: (token: Token) => string) => {
+  const [first, ...others] = tokens;
+  return others.reduce<Doc[]>(
+    (pre, token, index) => {
+      const preToken = index === 0 ? first : others[index - 1];
+      if (
+        typeof pre[pre.length - 1] === "string" &&
+        isSamePosition(token.start, preToken.end)
+      ) {
+        // do not break if no whitespace
+        pre[pre.length - 1] += getText(token);
+        return pre;
+      }
+      return [
+        ...pre,
+        indent(
+          isEqualsSign(token) ||
+            (isEqualsSign(preToken) &&
+              index + 1 < others.length &&
+              !isEqualsSign(others[index + 1]))
+            ? // trim whitespace around equals sign
+              softline
+            : line,
+        ),
+        getText(token),
+      ];
+    },
+    [isComment(first) ? printComment(first) : getText(first)],
+  );
+};
+
+// splits a PROC SQL statement before its clauses, such as FROM and WHERE
+const splitSqlClauses = (tokens: Token[]) => {
+  const getWord = (token: Token | undefined) =>
+    token && (token.type === "text" || token.type === "keyword")
+      ? token.text.toUpperCase()
+      : "";
+  const isJoinStart = (index: number) => {
+    if (SQL_JOIN_PREFIXES.includes(getWord(tokens[index - 1]))) {
+      return false;
+    }
+    while (SQL_JOIN_PREFIXES.includes(getWord(tokens[index]))) {
+      index++;
+    }
+    return getWord(tokens[index]) === "JOIN";
+  };
+
+  const clauses: Token[][] = [[]];
+  let parenDepth = 0;
+  tokens.forEach((token, index) => {
+    if (isSep(token, "(")) {
+      parenDepth++;
+    } else if (isSep(token, ")")) {
+      parenDepth = Math.max(parenDepth - 1, 0);
+    } else if (
+      // the clause right after the statement name stays on its line
+      index > 1 &&
+      parenDepth === 0 &&
+      (SQL_CLAUSES.includes(getWord(token)) || isJoinStart(index))
+    ) {
+      clauses.push([]);
+    }
+    clauses[clauses.length - 1].push(token);
+  });
+  return clauses;
+};
+
+/**
+ * Prints the options of a statement, such as `out=a dbms=csv`, on their own
+ * lines with their equals signs aligned when they do not fit on one line.
+ * Returns undefined for statements with less than two options.
+ */
+const printOptions = (
+  tokens: Token[],
+  getText: (token: Token) => string,
+): Doc | undefined => {
+  if (tokens.some((token) => isComment(token) || token.type === "raw-data")) {
+    return undefined;
+  }
+
+  // the words of the statement, an option value with its parentheses is one
+  const words: string[] = [];
+  let parenDepth = 0;
+  tokens.forEach((token, index) => {
+    const preToken = tokens[index - 1];
+    const nextToken = tokens[index + 1];
+    const isWordStart =
+      !preToken ||
+      (parenDepth === 0 &&
+        (isEqualsSign(token) ||
+          isEqualsSign(preToken) ||
+          !isSamePosition(token.start, preToken.end)));
+    if (isSep(token, "(")) {
+      parenDepth++;
+    } else if (isSep(token, ")")) {
+      parenDepth = Math.max(parenDepth - 1, 0);
+    }
+    if (isWordStart) {
+      words.push(getText(token));
+    } else {
+      const trimmed =
+        isEqualsSign(token) ||
+        (isEqualsSign(preToken) && nextToken && !isEqualsSign(nextToken)) ||
+        isSamePosition(token.start, preToken.end);
+      words[words.length - 1] += (trimmed ? "" : " ") + getText(token);
+    }
+  });
+
+  const items: { name?: string; text: string }[] = [];
+  for (let index = 0; index < words.length; index++) {
+    if (words[index + 1] === "=") {
+      // the value of `name=` is empty when another option follows it
+      const value = words[index + 3] === "=" ? "" : (words[index + 2] ?? "");
+      items.push({ name: words[index], text: value });
+      index += value ? 2 : 1;
+    } else {
+      items.push({ text: words[index] });
+    }
+  }
+  const firstOption = items.findIndex(({ name }) => name !== undefined);
+  const optionItems = items.filter(({ name }) => name !== undefined);
+  if (firstOption < 1 || optionItems.length < 2) {
+    return undefined;
+  }
+
+  const nameWidth = Math.max(...optionItems.map(({ name }) => name!.length));
+  const lines: Doc[] = [];
+  let prefix = "";
+  for (const { name, text } of items.slice(firstOption)) {
+    if (name === undefined && text === "/") {
+      // a slash starts the options after it
+      prefix = "/ ";
+      continue;
+    }
+    lines.push(
+      line,
+      name === undefined
+        ? prefix + text
+        : [prefix, ifBreak(name.padEnd(nameWidth), name), "=", text],
+    );
+    prefix = "";
+  }
+  const head = items
+    .slice(0, firstOption)
+    .map(({ text }) => text)
+    .join(" ");
+  return group([head, indent(lines)]);
+};
+
 const printComment = (token: Token) => {
   const text = token.text.split("\n");
   if (text.length === 0 || !token.text.startsWith("/*")) {
@@ -7,11 +7,16 @@ import {
   CompletionTriggerKind,
   Connection,
   DidChangeConfigurationParams,
+  DidChangeWatchedFilesNotification,
   DidChangeWatchedFilesParams,
+  DocumentHighlight,
+  DocumentHighlightKind,
   DocumentHighlightParams,
   DocumentSymbol,
   ExecuteCommandParams,
+  FileChangeType,
   InitializeResult,
+  LSPErrorCodes,
   Location,
   Position,
   PrepareRenameParams,
@@ -20,6 +25,7 @@ import {
   Registration,
   RegistrationRequest,
   RenameParams,
+  ResponseError,
   ResultProgressReporter,
   SemanticTokensRequest,
   TextDocumentPositionParams,
@@ -39,9 +45,20 @@ import { ParseFileResults } from "pyright-internal-node/dist/packages/pyright-in
 
 import { PyrightLanguageProvider } from "./python/PyrightLanguageProvider";
 import { CodeZoneManager } from "./sas/CodeZoneManager";
+import type { ColumnCompleteItem } from "./sas/ColumnProvider";
+import { readConfigFile } from "./sas/ConfigFile";
 import { LanguageServiceProvider, legend } from "./sas/LanguageServiceProvider";
+import { LintConfig, toLintConfig } from "./sas/LintProvider";
+import type {
+  MacroDefinition,
+  SasSymbolOccurrence,
+} from "./sas/ReferenceProvider";
+import type { DocumentOccurrences, RenameConflict } from "./sas/RenameProvider";
 import type { LibCompleteItem } from "./sas/SyntaxDataProvider";
-import { isCustomRegionStartComment } from "./sas/utils";
+import type { UserMacro } from "./sas/UserMacroProvider";
+import { WorkspaceIndex } from "./sas/WorkspaceIndex";
+import { FormatOptions, toFormatOptions } from "./sas/formatter/options";
+import { getText, isCustomRegionStartComment } from "./sas/utils";
 
 interface DocumentInfo {
   document: TextDocument;
@@ -54,8 +71,12 @@ export const runServer = (
   _pyrightLanguageProvider: PyrightLanguageProvider,
 ) => {
   const documentPool: Record<string, DocumentInfo> = {};
+  const workspaceIndex = new WorkspaceIndex();
+  const pendingValidations: Record<string, ReturnType<typeof setTimeout>> = {};
 
   let supportSASGetLibList = false;
+  let supportSASGetColumnList = false;
+  let supportWatchedFilesRegistration = false;
   let registeredAdvancedCapabilities = false;
 
   _pyrightLanguageProvider.setSasLspProvider(getLanguageService);
@@ -67,6 +88,11 @@ export const runServer = (
     ) {
       supportSASGetLibList = true;
     }
+    supportSASGetColumnList =
+      !!params.initializationOptions?.supportSASGetColumnList;
+    supportWatchedFilesRegistration =
+      !!params.capabilities.workspace?.didChangeWatchedFiles
+        ?.dynamicRegistration;
     _pyrightLanguageProvider.initialize(params, [], []);
 
     const result: InitializeResult = {
@@ -77,6 +103,11 @@ export const runServer = (
           full: true,
         },
         documentFormattingProvider: true,
+        documentRangeFormattingProvider: true,
+        definitionProvider: true,
+        referencesProvider: true,
+        documentHighlightProvider: true,
+        renameProvider: { prepareProvider: true },
         foldingRangeProvider: true,
         documentOnTypeFormattingProvider: {
           firstTriggerCharacter: "\n",
@@ -117,7 +148,18 @@ export const runServer = (
     return result;
   });
 
-  connection.onInitialized(() => _pyrightLanguageProvider.onInitialized());
+  connection.onInitialized(() => {
+    _pyrightLanguageProvider.onInitialized();
+    if (supportWatchedFilesRegistration) {
+      // keep the list of SAS files in workspace folders up to date
+      connection.client.register(DidChangeWatchedFilesNotification.type, {
+        watchers: [
+          { globPattern: "**/*.sas" },
+          { globPattern: "**/.saslintrc" },
+        ],
+      });
+    }
+  });
 
   connection.onRequest(SemanticTokensRequest.type, (params) => {
     syncIfDocChange(params.textDocument.uri);
@@ -129,8 +171,12 @@ export const runServer = (
   connection.onHover(async (params, token) => {
     return await dispatch(params, {
       async sas(languageService) {
-        return await languageService.completionProvider.getHelp(
-          params.position,
+        return (
+          languageService.userMacroProvider.getHover(
+            params.position,
+            await getUserMacros(params.textDocument.uri),
+          ) ??
+          (await languageService.completionProvider.getHelp(params.position))
         );
       },
       async python(pyrightLanguageService) {
@@ -142,16 +188,59 @@ export const runServer = (
   connection.onCompletion(async (params, token) => {
     return await dispatch(params, {
       async sas(languageService) {
+        const triggerCharacter = params.context?.triggerCharacter;
         if (
-          params.context?.triggerCharacter &&
-          params.context.triggerCharacter !== " "
+          triggerCharacter &&
+          triggerCharacter !== " " &&
+          (triggerCharacter !== "." || !supportSASGetLibList)
         ) {
           return undefined;
         }
-        const completionList =
+        let completionList =
           await languageService.completionProvider.getCompleteItems(
             params.position,
           );
+        if (triggerCharacter === ".") {
+          // typing a libref lists the tables of the library
+          return languageService.completionProvider.isLibraryCompletion()
+            ? completionList
+            : undefined;
+        }
+        if (supportSASGetColumnList) {
+          const columnItems =
+            await languageService.columnProvider.getCompletionItems(
+              params.position,
+              (table) =>
+                connection.sendRequest<ColumnCompleteItem[]>(
+                  "sas/getColumnList",
+                  table,
+                ),
+            );
+          if (columnItems.length > 0) {
+            completionList = {
+              isIncomplete: true,
+              items: [...columnItems, ...(completionList?.items ?? [])],
+            };
+          }
+        }
+        const userMacroProvider = languageService.userMacroProvider;
+        if (userMacroProvider.getMacroPrefix(params.position) !== undefined) {
+          const labels = (completionList?.items ?? []).map((item) =>
+            item.label.toUpperCase(),
+          );
+          const userItems = userMacroProvider
+            .getCompletionItems(
+              params.position,
+              await getUserMacros(params.textDocument.uri),
+            )
+            .filter((item) => !labels.includes(item.label.toUpperCase()));
+          if (userItems.length > 0) {
+            completionList = {
+              isIncomplete: true,
+              items: [...(completionList?.items ?? []), ...userItems],
+            };
+          }
+        }
         if (completionList) {
           for (const item of completionList.items) {
             if (!item.data) {
@@ -222,7 +311,9 @@ export const runServer = (
 
   connection.onCompletionResolve(async (completionItem, token) => {
     const lang = completionItem.data._languageService;
-    if (lang === "sas") {
+    if (completionItem.data._userMacro || completionItem.data._column) {
+      return completionItem;
+    } else if (lang === "sas") {
       const languageService = getLanguageService(completionItem.data._uri);
       return await languageService.completionProvider.getCompleteItemHelp(
         completionItem,
@@ -315,9 +406,15 @@ export const runServer = (
   connection.onSignatureHelp(async (params, token) => {
     return await dispatch(params, {
       async sas(languageService) {
-        return await languageService.completionProvider.getSignatureHelp(
-          params.position,
-          params.context?.activeSignatureHelp?.activeSignature,
+        return (
+          languageService.userMacroProvider.getSignatureHelp(
+            params.position,
+            await getUserMacros(params.textDocument.uri),
+          ) ??
+          (await languageService.completionProvider.getSignatureHelp(
+            params.position,
+            params.context?.activeSignatureHelp?.activeSignature,
+          ))
         );
       },
       async python(pyrightLanguageService) {
@@ -331,15 +428,61 @@ export const runServer = (
     });
   });
 
-  connection.onDocumentFormatting((params) => {
+  // the closest config file of a document, such as .sasformatrc
+  const getConfigFile = async (uri: string, fileName: string) => {
+    const folderUris = (
+      (await connection.workspace.getWorkspaceFolders()) ?? []
+    ).map((folder) => folder.uri);
+    try {
+      return readConfigFile(uri, fileName, folderUris);
+    } catch (e) {
+      connection.console.warn(
+        `Ignoring ${fileName}: ${e instanceof Error ? e.message : e}`,
+      );
+      return undefined;
+    }
+  };
+
+  // the SAS.format settings, overridden by the closest .sasformatrc file
+  const getFormatOptions = async (
+    uri: string,
+  ): Promise<Partial<FormatOptions>> => {
+    const settings = await connection.workspace.getConfiguration({
+      scopeUri: uri,
+      section: "SAS.format",
+    });
+    return {
+      ...toFormatOptions(settings),
+      ...toFormatOptions(await getConfigFile(uri, ".sasformatrc")),
+    };
+  };
+
+  const getLintConfig = async (uri: string): Promise<LintConfig> =>
+    toLintConfig(await getConfigFile(uri, ".saslintrc"));
+
+  connection.onDocumentFormatting(async (params) => {
     syncIfDocChange(params.textDocument.uri);
     const languageService = getLanguageService(params.textDocument.uri);
     return languageService.formatter.format({
       tabWidth: params.options.tabSize,
       useTabs: params.options.insertSpaces === false,
+      ...(await getFormatOptions(params.textDocument.uri)),
     });
   });
 
+  connection.onDocumentRangeFormatting(async (params) => {
+    syncIfDocChange(params.textDocument.uri);
+    const languageService = getLanguageService(params.textDocument.uri);
+    return languageService.formatter.format(
+      {
+        tabWidth: params.options.tabSize,
+        useTabs: params.options.insertSpaces === false,
+        ...(await getFormatOptions(params.textDocument.uri)),
+      },
+      params.range,
+    );
+  });
+
   connection.onDidOpenTextDocument(async (params) => {
     const doc = TextDocument.create(
       params.textDocument.uri,
@@ -348,12 +491,20 @@ export const runServer = (
       params.textDocument.text,
     );
     documentPool[doc.uri] = { document: doc, changed: false };
+    scheduleValidation(doc.uri);
     await _pyrightLanguageProvider.onDidOpenTextDocument(params);
   });
 
   connection.onDidCloseTextDocument(async (params) => {
     const uri = params.textDocument.uri;
     delete documentPool[uri];
+    // the file may have been changed outside of the watched folders
+    workspaceIndex.invalidate(
+      (indexedUri) => normalizeUri(indexedUri) === normalizeUri(uri),
+    );
+    clearTimeout(pendingValidations[uri]);
+    delete pendingValidations[uri];
+    connection.sendDiagnostics({ uri, diagnostics: [] });
     await _pyrightLanguageProvider.onDidCloseTextDocument(params);
   });
 
@@ -367,6 +518,7 @@ export const runServer = (
     );
     docInfo.changed = true;
     docInfo.service = undefined;
+    scheduleValidation(uri);
   });
 
   connection.onDidChangeConfiguration(
@@ -378,6 +530,26 @@ export const runServer = (
   connection.onDefinition(
     async (params: TextDocumentPositionParams, token: CancellationToken) => {
       return await dispatch(params, {
+        async sas(languageService) {
+          const referenceProvider = languageService.referenceProvider;
+          const symbol = referenceProvider.getSymbolAt(params.position);
+          if (!symbol) {
+            return undefined;
+          }
+          const definitions = referenceProvider.getDefinitions(symbol);
+          if (definitions.length > 0) {
+            return definitions.map((definition) =>
+              Location.create(params.textDocument.uri, definition.range),
+            );
+          }
+          return await findOccurrencesInWorkspace(
+            params.textDocument.uri,
+            (occurrence) =>
+              occurrence.isDefinition &&
+              occurrence.kind === symbol.kind &&
+              occurrence.name === symbol.name,
+          );
+        },
         async python(pyrightLanguageService) {
           return await pyrightLanguageService.onDefinition(params, token);
         },
@@ -422,6 +594,31 @@ export const runServer = (
       ) => Location | undefined,
     ) => {
       return await dispatch(params, {
+        async sas(languageService) {
+          const referenceProvider = languageService.referenceProvider;
+          const symbol = referenceProvider.getSymbolAt(params.position);
+          if (!symbol) {
+            return undefined;
+          }
+          const includeDeclaration = params.context.includeDeclaration;
+          const locations = referenceProvider
+            .getReferences(symbol, includeDeclaration)
+            .map((occurrence) =>
+              Location.create(params.textDocument.uri, occurrence.range),
+            );
+          if (referenceProvider.isLocal(symbol)) {
+            return locations;
+          }
+          return locations.concat(
+            await findOccurrencesInWorkspace(
+              params.textDocument.uri,
+              (occurrence) =>
+                occurrence.kind === symbol.kind &&
+                occurrence.name === symbol.name &&
+                (includeDeclaration || !occurrence.isDefinition),
+            ),
+          );
+        },
         async python(pyrightLanguageService) {
           return await pyrightLanguageService.onReferences(
             params,
@@ -455,6 +652,23 @@ export const runServer = (
   connection.onDocumentHighlight(
     async (params: DocumentHighlightParams, token: CancellationToken) => {
       return await dispatch(params, {
+        async sas(languageService) {
+          const referenceProvider = languageService.referenceProvider;
+          const symbol = referenceProvider.getSymbolAt(params.position);
+          if (!symbol) {
+            return undefined;
+          }
+          return referenceProvider
+            .getReferences(symbol)
+            .map((occurrence) =>
+              DocumentHighlight.create(
+                occurrence.range,
+                occurrence.isDefinition
+                  ? DocumentHighlightKind.Write
+                  : DocumentHighlightKind.Read,
+              ),
+            );
+        },
         async python(pyrightLanguageService) {
           return await pyrightLanguageService.onDocumentHighlight(
             params,
@@ -468,6 +682,27 @@ export const runServer = (
   connection.onPrepareRename(
     async (params: PrepareRenameParams, token: CancellationToken) => {
       return await dispatch(params, {
+        async sas(languageService) {
+          const symbol = languageService.renameProvider.getRenameSymbol(
+            params.position,
+          );
+          if (!symbol) {
+            return null;
+          }
+          return {
+            range: symbol.range,
+            placeholder: languageService.model.getText({
+              start: {
+                line: symbol.range.start.line,
+                column: symbol.range.start.character,
+              },
+              end: {
+                line: symbol.range.end.line,
+                column: symbol.range.end.character,
+              },
+            }),
+          };
+        },
         async python(pyrightLanguageService) {
           return await pyrightLanguageService.onPrepareRenameRequest(
             params,
@@ -481,6 +716,35 @@ export const runServer = (
   connection.onRenameRequest(
     async (params: RenameParams, token: CancellationToken) => {
       return await dispatch(params, {
+        async sas(languageService) {
+          const renameProvider = languageService.renameProvider;
+          const symbol = renameProvider.getRenameSymbol(params.position);
+          if (!symbol) {
+            return null;
+          }
+          const uri = params.textDocument.uri;
+          const otherDocuments = renameProvider.isLocal(symbol)
+            ? []
+            : await getWorkspaceOccurrences(uri);
+          const conflict = renameProvider.findConflict(
+            symbol,
+            params.newName,
+            uri,
+            otherDocuments,
+          );
+          if (conflict) {
+            throw new ResponseError(
+              LSPErrorCodes.RequestFailed,
+              getRenameConflictMessage(conflict, params.newName),
+            );
+          }
+          return renameProvider.getRenameEdit(
+            symbol,
+            params.newName,
+            uri,
+            otherDocuments,
+          );
+        },
         async python(pyrightLanguageService) {
           // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
           return (await pyrightLanguageService.onRenameRequest(
@@ -495,6 +759,19 @@ export const runServer = (
 
   connection.onDidChangeWatchedFiles(
     async (params: DidChangeWatchedFilesParams) => {
+      const sasFileChanges = params.changes.filter((item) =>
+        item.uri.toLowerCase().endsWith(".sas"),
+      );
+      const changedUris = sasFileChanges.map((item) => normalizeUri(item.uri));
+      workspaceIndex.invalidate((uri) =>
+        changedUris.includes(normalizeUri(uri)),
+      );
+      if (sasFileChanges.some((item) => item.type !== FileChangeType.Changed)) {
+        workspaceIndex.clearFileUris();
+      }
+      if (params.changes.some((item) => item.uri.endsWith("/.saslintrc"))) {
+        Object.keys(documentPool).forEach(scheduleValidation);
+      }
       params.changes.forEach((item) => {
         if (item.uri in documentPool) {
           syncIfDocChange(item.uri);
@@ -552,6 +829,12 @@ export const runServer = (
     return await dispatch(
       { textDocument: params.textDocument, position: params.range.start },
       {
+        async sas(languageService) {
+          return languageService.lintProvider.getCodeActions(
+            params.textDocument.uri,
+            params.context.diagnostics,
+          );
+        },
         async python(pyrightLanguageService) {
           return await pyrightLanguageService.executeCodeAction(params, token);
         },
@@ -646,6 +929,158 @@ export const runServer = (
     }
   };
 
+  // wait for a pause in typing before publishing the diagnostics
+  const scheduleValidation = (uri: string) => {
+    clearTimeout(pendingValidations[uri]);
+    pendingValidations[uri] = setTimeout(async () => {
+      delete pendingValidations[uri];
+      if (!documentPool[uri]) {
+        return;
+      }
+      const lintConfig = await getLintConfig(uri);
+      // the document may be closed while the config is read
+      if (!documentPool[uri]) {
+        return;
+      }
+      try {
+        const diagnostics = getLanguageService(uri).getDiagnostics({
+          // notebook cells can use macro variables defined in other cells
+          checkMacroVariables: !uri.startsWith("vscode-notebook-cell"),
+          lintConfig,
+        });
+        connection.sendDiagnostics({ uri, diagnostics });
+      } catch (e) {
+        connection.console.error(
+          `Failed to check ${uri}: ${e instanceof Error ? e.message : e}`,
+        );
+      }
+    }, 500);
+  };
+
+  // the other open documents, then the SAS files in workspace folders
+  const getWorkspaceOccurrences = async (
+    currentUri: string,
+  ): Promise<DocumentOccurrences[]> => {
+    const result: DocumentOccurrences[] = [];
+    const visited = [normalizeUri(currentUri)];
+    for (const uri in documentPool) {
+      if (visited.includes(normalizeUri(uri))) {
+        continue;
+      }
+      visited.push(normalizeUri(uri));
+      result.push({
+        uri,
+        occurrences: getLanguageService(uri).referenceProvider.getOccurrences(),
+      });
+    }
+    const workspaceFolders =
+      (await connection.workspace.getWorkspaceFolders()) ?? [];
+    for (const uri of workspaceIndex.getFileUris(
+      workspaceFolders.map((folder) => folder.uri),
+    )) {
+      if (visited.includes(normalizeUri(uri))) {
+        continue;
+      }
+      result.push({ uri, occurrences: workspaceIndex.getOccurrences(uri) });
+    }
+    return result;
+  };
+
+  // the current document first, then the files it includes, the other open
+  // documents, the SAS files in workspace folders and the autocall folders
+  const getUserMacros = async (currentUri: string): Promise<UserMacro[]> => {
+    const result: UserMacro[] = [];
+    const names = new Set<string>();
+    const visited: string[] = [];
+    const addMacros = (uri: string, definitions: MacroDefinition[]) => {
+      visited.push(normalizeUri(uri));
+      for (const definition of definitions) {
+        const name = definition.name.toUpperCase();
+        if (!names.has(name)) {
+          names.add(name);
+          result.push({ ...definition, uri });
+        }
+      }
+    };
+    const getMacroDefinitions = (uri: string) => {
+      const openUri = Object.keys(documentPool).find(
+        (item) => normalizeUri(item) === normalizeUri(uri),
+      );
+      return openUri
+        ? getLanguageService(openUri).referenceProvider.getMacroDefinitions()
+        : workspaceIndex.getMacroDefinitions(uri);
+    };
+
+    const referenceProvider = getLanguageService(currentUri).referenceProvider;
+    addMacros(currentUri, referenceProvider.getMacroDefinitions());
+    const folderUris = (
+      (await connection.workspace.getWorkspaceFolders()) ?? []
+    ).map((folder) => folder.uri);
+    const autocallPaths: string[] =
+      (await connection.workspace.getConfiguration({
+        scopeUri: currentUri,
+        section: "SAS.macros.autocallPaths",
+      })) ?? [];
+    for (const uri of [
+      ...workspaceIndex.getIncludedFileUris(
+        currentUri,
+        referenceProvider.getIncludes(),
+        folderUris,
+      ),
+      ...Object.keys(documentPool),
+      ...workspaceIndex.getFileUris(folderUris),
+      ...workspaceIndex.getAutocallFileUris(autocallPaths, folderUris),
+    ]) {
+      if (!visited.includes(normalizeUri(uri))) {
+        addMacros(uri, getMacroDefinitions(uri));
+      }
+    }
+    return result;
+  };
+
+  const findOccurrencesInWorkspace = async (
+    currentUri: string,
+    predicate: (occurrence: SasSymbolOccurrence) => boolean,
+  ): Promise<Location[]> => {
+    const locations: Location[] = [];
+    for (const { uri, occurrences } of await getWorkspaceOccurrences(
+      currentUri,
+    )) {
+      for (const occurrence of occurrences) {
+        if (predicate(occurrence)) {
+          locations.push(Location.create(uri, occurrence.range));
+        }
+      }
+    }
+    return locations;
+  };
+
+  const getRenameConflictMessage = (
+    conflict: RenameConflict,
+    newName: string,
+  ) => {
+    switch (conflict.type) {
+      case "invalid-name":
+        return getText("ce_rn_invalid_name.fmt", newName);
+      case "reserved-name":
+        return getText("ce_rn_reserved_name.fmt", newName);
+      case "existing-name":
+        return getText(
+          conflict.occurrence.kind === "macro"
+            ? "ce_rn_existing_macro.fmt"
+            : "ce_rn_existing_macro_variable.fmt",
+          newName,
+        );
+    }
+  };
+
+  // file uris from the client are percent-encoded with lower case drive letters
+  const normalizeUri = (uri: string) =>
+    decodeURIComponent(uri).replace(
+      /^file:\/\/\/([a-zA-Z]):/,
+      (_, drive) => `file:///${drive.toLowerCase()}:`,
+    );
+
   const isRangeIncluded = (a: Range, b: Range) => {
     if (
       b.start.line > a.start.line &&
@@ -674,11 +1109,7 @@ export const runServer = (
 
   const advancedCapabilities = [
     "textDocument/declaration",
-    "textDocument/definition",
     "textDocument/typeDefinition",
-    "textDocument/references",
-    "textDocument/rename",
-    "textDocument/documentHighlight",
     "textDocument/prepareCallHierarchy",
   ];
 
@@ -0,0 +1,166 @@
+import { assert } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { run } from "../../src/node/cli";
+
+const folder = "server/testFixture/cli";
+
+const runCli = async (args: string[]) => {
+  const output = { log: "", error: "" };
+  const exitCode = await run(args, {
+    log: (text) => (output.log += text),
+    error: (text) => (output.error += text),
+  });
+  return { exitCode, ...output };
+};
+
+describe("Test sas-tools CLI", () => {
+  it("checks the formatting of files and notebooks", async () => {
+    const { exitCode, log } = await runCli([
+      "format",
+      "--check",
+      "--reporter",
+      "json",
+      folder,
+    ]);
+    assert.equal(exitCode, 1);
+    assert.deepEqual(
+      JSON.parse(log).map(
+        (problem: { file: string; cell?: number; line: number }) => [
+          problem.file,
+          problem.cell,
+          problem.line,
+        ],
+      ),
+      [
+        [`${folder}/notebook.sasnb`, 3, 2],
+        [`${folder}/unformatted.sas`, undefined, 2],
+      ],
+    );
+
+    assert.equal(
+      (await runCli(["format", `${folder}/formatted.sas`])).exitCode,
+      0,
+    );
+  });
+
+  it("formats files and notebooks in place", async () => {
+    const tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), "sas-tools-"));
+    try {
+      for (const name of ["unformatted.sas", "notebook.sasnb"]) {
+        fs.copyFileSync(`${folder}/${name}`, path.join(tempFolder, name));
+      }
+      assert.equal(
+        (await runCli(["format", "--write", tempFolder])).exitCode,
+        0,
+      );
+      assert.equal(
+        fs.readFileSync(path.join(tempFolder, "unformatted.sas"), "utf-8"),
+        fs.readFileSync(`${folder}/formatted.sas`, "utf-8"),
+      );
+      assert.equal((await runCli(["format", tempFolder])).exitCode, 0);
+    } finally {
+      fs.rmSync(tempFolder, { recursive: true });
+    }
+  });
+
+  it("reports lint problems in SARIF", async () => {
+    const { exitCode, log } = await runCli([
+      "lint",
+      "--reporter",
+      "sarif",
+      `${folder}/notebook.sasnb`,
+    ]);
+    assert.equal(exitCode, 1);
+    const sarif = JSON.parse(log);
+    assert.equal(sarif.version, "2.1.0");
+    assert.deepEqual(sarif.runs[0].tool.driver.rules, [
+      { id: "no-options-nonotes" },
+    ]);
+    assert.deepInclude(sarif.runs[0].results[0], {
+      ruleId: "no-options-nonotes",
+      level: "warning",
+      properties: { cell: 3 },
+    });
+    assert.deepEqual(
+      sarif.runs[0].results[0].locations[0].physicalLocation.region,
+      { startLine: 1, startColumn: 9, endLine: 1, endColumn: 16 },
+    );
+  });
+
+  it("fails on problems of the given severity", async () => {
+    const { exitCode, log } = await runCli(["lint", folder]);
+    assert.equal(exitCode, 1);
+    assert.include(
+      log,
+      `${folder}/notebook.sasnb#cell3:1:9 warning NONOTES hides the notes of the SAS log. (no-options-nonotes)`,
+    );
+
+    assert.equal(
+      (await runCli(["lint", "--fail-on", "error", folder])).exitCode,
+      0,
+    );
+  });
+
+  it("reports the problems of a file in the order of their lines", async () => {
+    const tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), "sas-tools-"));
+    try {
+      const file = path.join(tempFolder, "problems.sas");
+      fs.writeFileSync(
+        file,
+        [
+          "%put &undefined;",
+          "options nonotes;",
+          "data a;",
+          '  x = "a" + 1;',
+          "run;",
+          "proc print data=a",
+          "run;",
+          "options nonotes;",
+        ].join("\n"),
+      );
+      const { log } = await runCli(["lint", "--reporter", "json", file]);
+      assert.deepEqual(
+        JSON.parse(log).map((problem: { line: number }) => problem.line),
+        [1, 2, 4, 6, 8],
+      );
+    } finally {
+      fs.rmSync(tempFolder, { recursive: true });
+    }
+  });
+
+  it("checks the other files when a file cannot be checked", async () => {
+    const tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), "sas-tools-"));
+    try {
+      fs.writeFileSync(path.join(tempFolder, "broken.sasnb"), "{");
+      fs.copyFileSync(
+        `${folder}/unformatted.sas`,
+        path.join(tempFolder, "unformatted.sas"),
+      );
+      const { exitCode, log, error } = await runCli([
+        "format",
+        "--reporter",
+        "json",
+        tempFolder,
+      ]);
+      assert.equal(exitCode, 2);
+      assert.include(error, "broken.sasnb: not a SAS notebook");
+      assert.isNotEmpty(JSON.parse(log));
+    } finally {
+      fs.rmSync(tempFolder, { recursive: true });
+    }
+  });
+
+  it("exits with 2 on invalid arguments", async () => {
+    assert.equal((await runCli(["check", folder])).exitCode, 2);
+    assert.equal(
+      (await runCli(["lint", "--reporter", "xml", folder])).exitCode,
+      2,
+    );
+    const { exitCode, error } = await runCli(["lint", `${folder}/missing.sas`]);
+    assert.equal(exitCode, 2);
+    assert.equal(error, `Cannot read ${folder}/missing.sas`);
+  });
+});
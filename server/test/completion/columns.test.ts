@@ -0,0 +1,95 @@
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { assert } from "chai";
+
+import { ColumnProvider } from "../../src/sas/ColumnProvider";
+import { LanguageServiceProvider } from "../../src/sas/LanguageServiceProvider";
+
+// the position is at the "|" in the code, or at the end of the code
+const getProvider = (code: string) => {
+  const offset = code.includes("|") ? code.indexOf("|") : code.length;
+  const lines = code.slice(0, offset).split("\n");
+  const doc = TextDocument.create(
+    "file:///columns.sas",
+    "sas",
+    1,
+    code.replace("|", ""),
+  );
+  return {
+    provider: new LanguageServiceProvider(doc).columnProvider as ColumnProvider,
+    position: {
+      line: lines.length - 1,
+      character: lines[lines.length - 1].length,
+    },
+  };
+};
+
+const getTables = (code: string) => {
+  const { provider, position } = getProvider(code);
+  return provider
+    .getTables(position)
+    .map(({ libId, tableId }) => `${libId}.${tableId}`);
+};
+
+describe("Test SAS column completion", () => {
+  it("finds the data set of column options", () => {
+    assert.deepEqual(getTables("proc print data=sashelp.class(keep="), [
+      "SASHELP.CLASS",
+    ]);
+    assert.deepEqual(getTables("data a;\n  set sashelp.class(where=(age > "), [
+      "SASHELP.CLASS",
+    ]);
+    assert.deepEqual(getTables("proc print data=sashelp.class(obs="), []);
+  });
+
+  it("finds the data sets read by the step of column statements", () => {
+    assert.deepEqual(getTables("proc means data=sashelp.class;\n  var ag"), [
+      "SASHELP.CLASS",
+    ]);
+    assert.deepEqual(
+      getTables(
+        "data a;\n  keep |;\n  set sashelp.class;\n  merge b class;\nrun;\nproc print data=c;\nrun;",
+      ),
+      ["SASHELP.CLASS", "WORK.B", "WORK.CLASS"],
+    );
+    assert.deepEqual(getTables("proc means data=sashelp.class;\n  va"), []);
+    assert.deepEqual(getTables("proc freq data=class;\n  tables a*b / "), []);
+    assert.deepEqual(getTables("proc print data=class;\n  title 'var "), []);
+  });
+
+  it("completes the columns of the data sets", async () => {
+    const { provider, position } = getProvider(
+      "data a;\n  set one two;\n  where |;\nrun;",
+    );
+    const items = await provider.getCompletionItems(
+      position,
+      async ({ tableId }) =>
+        tableId === "ONE"
+          ? [
+              { name: "Age", type: "num", label: "Age in years" },
+              { name: "Home Town", type: "char" },
+            ]
+          : [{ name: "age", type: "num" }],
+    );
+
+    assert.deepEqual(
+      items.map(({ label, detail, insertText }) => ({
+        label,
+        detail,
+        insertText,
+      })),
+      [
+        {
+          label: "Age",
+          detail: "Age in years (WORK.ONE)",
+          insertText: undefined,
+        },
+        {
+          label: "Home Town",
+          detail: "WORK.ONE",
+          insertText: "'Home Town'n",
+        },
+      ],
+    );
+  });
+});
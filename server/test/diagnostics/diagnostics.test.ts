@@ -0,0 +1,64 @@
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { assert } from "chai";
+import fs from "fs";
+
+import { LanguageServiceProvider } from "../../src/sas/LanguageServiceProvider";
+
+const openDoc = (path: string): TextDocument => {
+  const content = fs.readFileSync(path, {
+    encoding: "utf-8",
+  });
+  return TextDocument.create(path, "sas", 1, content);
+};
+
+const getDiagnostics = (path: string, checkMacroVariables?: boolean) =>
+  new LanguageServiceProvider(openDoc(path)).diagnosticProvider
+    .getDiagnostics({ checkMacroVariables })
+    .map((diagnostic) => ({
+      line: diagnostic.range.start.line,
+      character: diagnostic.range.start.character,
+      code: diagnostic.code,
+    }));
+
+describe("Test SAS diagnostics", () => {
+  const path = "server/testFixture/diagnostics/diagnostics.sas";
+
+  it("reports static diagnostics", () => {
+    assert.sameDeepMembers(getDiagnostics(path), [
+      { line: 6, character: 2, code: "unmatched-end" },
+      { line: 26, character: 2, code: "unclosed-do" },
+      { line: 28, character: 0, code: "unmatched-mend" },
+      { line: 41, character: 6, code: "unclosed-string" },
+      { line: 21, character: 0, code: "missing-run" },
+      { line: 40, character: 0, code: "missing-run" },
+      { line: 18, character: 5, code: "unknown-proc" },
+      { line: 15, character: 2, code: "unknown-statement" },
+      { line: 23, character: 15, code: "undefined-macro-variable" },
+    ]);
+  });
+
+  it("skips undefined macro variables when asked", () => {
+    assert.notDeepInclude(
+      getDiagnostics(path, false).map((diagnostic) => diagnostic.code),
+      "undefined-macro-variable",
+    );
+  });
+
+  it("reports unclosed comments", () => {
+    assert.deepEqual(
+      getDiagnostics("server/testFixture/diagnostics/comment.sas"),
+      [{ line: 2, character: 0, code: "unclosed-comment" }],
+    );
+  });
+
+  it("reports diagnostic messages", () => {
+    const diagnostics = new LanguageServiceProvider(
+      openDoc(path),
+    ).diagnosticProvider.getDiagnostics();
+    assert.include(
+      diagnostics.map((diagnostic) => diagnostic.message),
+      "Unknown procedure prnt.",
+    );
+  });
+});
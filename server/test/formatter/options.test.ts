@@ -0,0 +1,93 @@
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { assert } from "chai";
+
+import { LanguageServiceProvider } from "../../src/sas/LanguageServiceProvider";
+import { toFormatOptions } from "../../src/sas/formatter/options";
+
+const format = async (code: string, options: object) => {
+  const doc = TextDocument.create("file:///format.sas", "sas", 1, code);
+  const edits = await new LanguageServiceProvider(doc).formatter.format({
+    tabWidth: 2,
+    useTabs: false,
+    ...options,
+  });
+  return TextDocument.applyEdits(doc, edits);
+};
+
+describe("Test SAS formatter options", () => {
+  it("ignores invalid options", () => {
+    assert.deepEqual(
+      toFormatOptions({
+        printWidth: 100,
+        keywordCase: "title",
+        alignEquals: "yes",
+        blankLinesBetweenSteps: -1,
+        sqlClauseLayout: "newline",
+      }),
+      { printWidth: 100, sqlClauseLayout: "newline" },
+    );
+    assert.deepEqual(toFormatOptions(undefined), {});
+  });
+
+  it("changes the case of keywords", async () => {
+    const code =
+      "%macro m;\n%if &a %then %put x;\n%mend;\ndata a;\nset b;\nrun;\n";
+    assert.equal(
+      await format(code, { keywordCase: "upper" }),
+      "%MACRO m;\n  %IF &a %THEN %PUT x;\n%MEND;\n\nDATA a;\n  SET b;\nRUN;\n",
+    );
+    assert.equal(
+      await format(code.toUpperCase(), { keywordCase: "lower" }),
+      "%macro M;\n  %if &A %then %put X;\n%mend;\n\ndata A;\n  set B;\nrun;\n",
+    );
+  });
+
+  it("keeps statements on the same line", async () => {
+    const code = "data a; set b;\nx=1; y=2;\nrun;\n";
+    assert.equal(
+      await format(code, { oneStatementPerLine: false }),
+      "data a; set b;\n  x=1; y=2;\nrun;\n",
+    );
+  });
+
+  it("aligns the equals signs of wrapped options", async () => {
+    const code =
+      'proc import datafile="/data/a/long/path/to/the/input/file.csv" out=work.a dbms=csv replace;\nrun;\nproc print data=a noobs;\nrun;\n';
+    assert.equal(
+      await format(code, { alignEquals: true }),
+      'proc import\n  datafile="/data/a/long/path/to/the/input/file.csv"\n  out     =work.a\n  dbms    =csv\n  replace;\nrun;\n\nproc print data=a noobs;\nrun;\n',
+    );
+  });
+
+  it("puts blank lines between steps", async () => {
+    const code = "data a;\nrun;\nproc print;\nrun;\n";
+    assert.equal(
+      await format(code, { blankLinesBetweenSteps: 0 }),
+      "data a;\nrun;\nproc print;\nrun;\n",
+    );
+    assert.equal(
+      await format(code, { blankLinesBetweenSteps: 2 }),
+      "data a;\nrun;\n\n\nproc print;\nrun;\n",
+    );
+  });
+
+  it("does not indent macro blocks", async () => {
+    assert.equal(
+      await format("%macro m;\n%do i=1 %to 3;\n%put &i;\n%end;\n%mend;\n", {
+        indentMacroBlocks: false,
+      }),
+      "%macro m;\n%do i=1 %to 3;\n%put &i;\n%end;\n%mend;\n",
+    );
+  });
+
+  it("puts the clauses of SQL queries on their own lines", async () => {
+    assert.equal(
+      await format(
+        "proc sql;\ncreate table c as select a.x, count(*) as n from a left join b on a.x=b.x where a.x in (select x from d) group by a.x;\nquit;\n",
+        { sqlClauseLayout: "newline", keywordCase: "upper" },
+      ),
+      "PROC SQL;\n  CREATE TABLE c AS\n    SELECT a.x, COUNT(*) AS n\n    FROM a\n    LEFT JOIN b ON a.x=b.x\n    WHERE a.x IN (SELECT x FROM d)\n    GROUP BY a.x;\nQUIT;\n",
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { assert } from "chai";
+
+import { LanguageServiceProvider } from "../../src/sas/LanguageServiceProvider";
+import { getFormattingEdits } from "../../src/sas/formatter/edits";
+
+const applyEdits = (
+  text: string,
+  edits: ReturnType<typeof getFormattingEdits>,
+) =>
+  TextDocument.applyEdits(
+    TextDocument.create("file:///format.sas", "sas", 1, text),
+    edits,
+  );
+
+describe("Test SAS range formatting", () => {
+  it("only edits the lines that changed", () => {
+    const lines = ["data a;", "set b;", "  x = 1;", "run;"];
+    const formatted = ["data a;", "  set b;", "  x = 1;", "run;", ""];
+    const edits = getFormattingEdits(lines, formatted);
+
+    assert.deepEqual(edits, [
+      {
+        range: {
+          start: { line: 1, character: 0 },
+          end: { line: 2, character: 0 },
+        },
+        newText: "  set b;\n",
+      },
+      {
+        range: {
+          start: { line: 3, character: 0 },
+          end: { line: 3, character: 4 },
+        },
+        newText: "run;\n",
+      },
+    ]);
+    assert.equal(applyEdits(lines.join("\n"), edits), formatted.join("\n"));
+  });
+
+  it("edits the lines joined or split by the formatter", () => {
+    const lines = ["data a; set b;", "run;", "proc print", "  data=a;", "run;"];
+    const formatted = [
+      "data a;",
+      "  set b;",
+      "run;",
+      "proc print data=a;",
+      "run;",
+    ];
+    const edits = getFormattingEdits(lines, formatted);
+
+    assert.deepEqual(
+      edits.map(({ range }) => [range.start.line, range.end.line]),
+      [
+        [0, 1],
+        [2, 4],
+      ],
+    );
+    assert.equal(applyEdits(lines.join("\n"), edits), formatted.join("\n"));
+  });
+
+  it("only edits the lines in the range", () => {
+    const lines = ["data a;", "set b;", "x = 1;", "run;"];
+    const formatted = ["data a;", "  set b;", "  x = 1;", "run;"];
+    const edits = getFormattingEdits(lines, formatted, {
+      start: { line: 2, character: 3 },
+      end: { line: 3, character: 0 },
+    });
+
+    assert.deepEqual(edits, [
+      {
+        range: {
+          start: { line: 2, character: 0 },
+          end: { line: 3, character: 0 },
+        },
+        newText: "  x = 1;\n",
+      },
+    ]);
+  });
+
+  it("formats a range of the document with its indentation", async () => {
+    const doc = TextDocument.create(
+      "file:///format.sas",
+      "sas",
+      1,
+      "data a;\nset b;\nrun;\n\nproc print data=a;\nvar x;\nrun;\n",
+    );
+    const edits = await new LanguageServiceProvider(doc).formatter.format(
+      { tabWidth: 2, useTabs: false },
+      { start: { line: 5, character: 0 }, end: { line: 5, character: 6 } },
+    );
+
+    assert.equal(
+      TextDocument.applyEdits(doc, edits),
+      "data a;\nset b;\nrun;\n\nproc print data=a;\n  var x;\nrun;\n",
+    );
+  });
+});
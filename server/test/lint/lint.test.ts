@@ -0,0 +1,133 @@
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { assert } from "chai";
+import fs from "fs";
+
+import { LanguageServiceProvider } from "../../src/sas/LanguageServiceProvider";
+import { LintConfig, toLintConfig } from "../../src/sas/LintProvider";
+
+const path = "server/testFixture/lint/lint.sas";
+
+const getLintProvider = (content = fs.readFileSync(path, "utf-8")) =>
+  new LanguageServiceProvider(TextDocument.create(path, "sas", 1, content))
+    .lintProvider;
+
+const getDiagnostics = (config?: LintConfig, content?: string) =>
+  getLintProvider(content)
+    .getDiagnostics(config)
+    .map((diagnostic) => ({
+      line: diagnostic.range.start.line,
+      character: diagnostic.range.start.character,
+      code: diagnostic.code,
+    }));
+
+describe("Test SAS lint rules", () => {
+  it("reports the problems of the default rules", () => {
+    assert.sameDeepMembers(getDiagnostics(), [
+      { line: 0, character: 12, code: "no-absolute-path" },
+      { line: 2, character: 8, code: "no-options-nonotes" },
+      { line: 34, character: 8, code: "no-options-nonotes" },
+      { line: 16, character: 0, code: "data-step-run" },
+      { line: 22, character: 0, code: "data-step-run" },
+      { line: 12, character: 2, code: "no-goto" },
+      { line: 17, character: 4, code: "implicit-conversion" },
+      { line: 18, character: 4, code: "implicit-conversion" },
+      { line: 7, character: 6, code: "max-macro-nesting" },
+    ]);
+  });
+
+  it("reads the rules of a .saslintrc file", () => {
+    const config = toLintConfig({
+      rules: {
+        "no-absolute-path": "error",
+        "max-macro-nesting": ["warning", { max: 4 }],
+        "implicit-conversion": "off",
+        "header-comment": ["warning", { pattern: "Purpose:" }],
+        "unknown-rule": "error",
+        "no-goto": "fatal",
+      },
+    });
+    assert.deepEqual(Object.keys(config), [
+      "no-absolute-path",
+      "max-macro-nesting",
+      "implicit-conversion",
+      "header-comment",
+    ]);
+
+    const diagnostics = getDiagnostics(config);
+    assert.notDeepInclude(
+      diagnostics.map(({ code }) => code),
+      "implicit-conversion",
+    );
+    assert.notDeepInclude(
+      diagnostics.map(({ code }) => code),
+      "max-macro-nesting",
+    );
+    assert.deepInclude(diagnostics, {
+      line: 0,
+      character: 0,
+      code: "header-comment",
+    });
+    assert.deepEqual(
+      getDiagnostics(config, "/* Purpose: test */\ndata a;\nrun;\n"),
+      [],
+    );
+  });
+
+  it("ignores invalid header comment patterns", () => {
+    const config = toLintConfig({
+      rules: { "header-comment": ["warning", { pattern: "Purpose: (" }] },
+    });
+    assert.deepEqual(config["header-comment"]?.options, {});
+
+    const invalidConfig: LintConfig = {
+      "header-comment": { severity: "warning", options: { pattern: "[" } },
+    };
+    assert.deepEqual(
+      getDiagnostics(invalidConfig, "/* test */\ndata a;\nrun;\n"),
+      [],
+    );
+  });
+
+  it("offers quick fixes", () => {
+    const provider = getLintProvider();
+    const diagnostics = provider.getDiagnostics();
+    const actions = provider.getCodeActions(
+      "file:///lint.sas",
+      diagnostics.filter(({ range }) => range.start.line === 16),
+    );
+
+    assert.deepEqual(
+      actions.map(({ title, edit }) => ({
+        title,
+        edits: edit?.changes?.["file:///lint.sas"],
+      })),
+      [
+        {
+          title: "End the DATA step with RUN",
+          edits: [
+            {
+              range: {
+                start: { line: 20, character: 0 },
+                end: { line: 20, character: 4 },
+              },
+              newText: "run",
+            },
+          ],
+        },
+        {
+          title: "Disable data-step-run for this line",
+          edits: [
+            {
+              range: {
+                start: { line: 16, character: 0 },
+                end: { line: 16, character: 0 },
+              },
+              newText: "/* saslint-disable-next-line data-step-run */\n",
+            },
+          ],
+        },
+      ],
+    );
+  });
+});
@@ -0,0 +1,6 @@
+import fs from "fs";
+
+// load .properties files as text, like the esbuild and webpack loaders do
+require.extensions[".properties"] = (module, filename) => {
+  module.exports = fs.readFileSync(filename, "utf-8");
+};
@@ -0,0 +1,211 @@
+import { MarkupContent } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { assert } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+
+import { LanguageServiceProvider } from "../../src/sas/LanguageServiceProvider";
+import { UserMacro } from "../../src/sas/UserMacroProvider";
+import { WorkspaceIndex } from "../../src/sas/WorkspaceIndex";
+
+const openDoc = (path: string): TextDocument => {
+  const content = fs.readFileSync(path, {
+    encoding: "utf-8",
+  });
+  return TextDocument.create(path, "sas", 1, content);
+};
+
+const toUri = (file: string) => pathToFileURL(path.resolve(file)).toString();
+
+const fixtureFolder = "server/testFixture/macros";
+const programPath = `${fixtureFolder}/program.sas`;
+
+describe("Test SAS user macros", () => {
+  let languageService: LanguageServiceProvider;
+  let macros: UserMacro[];
+
+  before(() => {
+    languageService = new LanguageServiceProvider(openDoc(programPath));
+    const libraryService = new LanguageServiceProvider(
+      openDoc(`${fixtureFolder}/library.sas`),
+    );
+    macros = [
+      ...languageService.referenceProvider
+        .getMacroDefinitions()
+        .map((macro) => ({ ...macro, uri: toUri(programPath) })),
+      ...libraryService.referenceProvider
+        .getMacroDefinitions()
+        .map((macro) => ({
+          ...macro,
+          uri: toUri(`${fixtureFolder}/library.sas`),
+        })),
+    ];
+  });
+
+  it("collects macro definitions with parameters and documentation", () => {
+    const [printDs, summarize] = macros;
+    assert.deepEqual(printDs.parameters, [
+      { name: "ds" },
+      { name: "obs", defaultValue: "10" },
+      { name: "where", defaultValue: "%str(age > 12)" },
+    ]);
+    assert.equal(
+      printDs.documentation,
+      "Prints the given data set.\n@param ds data set to print",
+    );
+    assert.deepEqual(printDs.range, {
+      start: { line: 6, character: 7 },
+      end: { line: 6, character: 15 },
+    });
+    assert.deepEqual(summarize.parameters, [
+      { name: "data" },
+      { name: "var", defaultValue: "" },
+      { name: "stats", defaultValue: "mean std" },
+    ]);
+    assert.equal(summarize.documentation, "Computes summary statistics.");
+  });
+
+  it("collects included files", () => {
+    assert.deepEqual(languageService.referenceProvider.getIncludes(), [
+      "library.sas",
+    ]);
+  });
+
+  it("completes user macros after a percent sign", () => {
+    const items = languageService.userMacroProvider.getCompletionItems(
+      { line: 12, character: 3 },
+      macros,
+    );
+    assert.deepEqual(
+      items.map((item) => [item.label, item.detail]),
+      [["%summarize", "%summarize(data, var=, stats=mean std)"]],
+    );
+    assert.isEmpty(
+      languageService.userMacroProvider.getCompletionItems(
+        { line: 12, character: 11 },
+        macros,
+      ),
+    );
+  });
+
+  it("shows the signature of a macro on hover", () => {
+    const hover = languageService.userMacroProvider.getHover(
+      { line: 12, character: 4 },
+      macros,
+    );
+    assert.deepEqual(hover?.range, {
+      start: { line: 12, character: 0 },
+      end: { line: 12, character: 10 },
+    });
+    const contents = hover?.contents;
+    const value = MarkupContent.is(contents) ? contents.value : "";
+    assert.include(value, "%summarize(data, var=, stats=mean std)");
+    assert.include(value, "Computes summary statistics.");
+    assert.include(value, "library.sas");
+  });
+
+  it("highlights the current parameter of a macro call", () => {
+    const provider = languageService.userMacroProvider;
+    const positional = provider.getSignatureHelp(
+      { line: 13, character: 12 },
+      macros,
+    );
+    assert.equal(
+      positional?.signatures[0].label,
+      "%print_ds(ds, obs=10, where=%str(age > 12))",
+    );
+    assert.equal(positional?.activeParameter, 0);
+    const keyword = provider.getSignatureHelp(
+      { line: 13, character: 30 },
+      macros,
+    );
+    assert.equal(keyword?.activeParameter, 1);
+    const unfinished = provider.getSignatureHelp(
+      { line: 14, character: 10 },
+      macros,
+    );
+    assert.equal(unfinished?.activeParameter, 0);
+    assert.isUndefined(
+      provider.getSignatureHelp({ line: 9, character: 5 }, macros),
+    );
+  });
+
+  it("follows included files and lists autocall folders", () => {
+    const workspaceIndex = new WorkspaceIndex();
+    const includedUris = workspaceIndex.getIncludedFileUris(
+      toUri(programPath),
+      ["library.sas"],
+      [],
+    );
+    assert.deepEqual(includedUris, [
+      toUri(`${fixtureFolder}/library.sas`),
+      toUri(`${fixtureFolder}/nested/helpers.sas`),
+    ]);
+    assert.deepEqual(
+      workspaceIndex
+        .getMacroDefinitions(includedUris[1])
+        .map((macro) => macro.name),
+      ["log_message"],
+    );
+
+    const autocallUris = workspaceIndex.getAutocallFileUris(
+      ["autocall"],
+      [toUri(fixtureFolder)],
+    );
+    assert.deepEqual(autocallUris, [
+      toUri(`${fixtureFolder}/autocall/tidy_up.sas`),
+    ]);
+    const [tidyUp] = workspaceIndex.getMacroDefinitions(autocallUris[0]);
+    assert.deepEqual(tidyUp.parameters, []);
+    assert.equal(
+      tidyUp.documentation,
+      "Deletes the data sets of the WORK library.",
+    );
+  });
+
+  it("keeps the index of a folder until its files change", () => {
+    const tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), "sas-macros-"));
+    try {
+      const workspaceIndex = new WorkspaceIndex();
+      const folderUri = toUri(tempFolder);
+      const fileUri = toUri(path.join(tempFolder, "first.sas"));
+      const getMacroNames = () =>
+        workspaceIndex.getMacroDefinitions(fileUri).map((macro) => macro.name);
+      fs.writeFileSync(
+        path.join(tempFolder, "first.sas"),
+        "%macro first; %mend;",
+      );
+      assert.deepEqual(workspaceIndex.getAutocallFileUris(["."], [folderUri]), [
+        fileUri,
+      ]);
+      assert.deepEqual(getMacroNames(), ["first"]);
+
+      fs.writeFileSync(
+        path.join(tempFolder, "first.sas"),
+        "%macro renamed; %mend;",
+      );
+      fs.writeFileSync(
+        path.join(tempFolder, "second.sas"),
+        "%macro second; %mend;",
+      );
+      assert.deepEqual(getMacroNames(), ["first"]);
+      assert.lengthOf(
+        workspaceIndex.getAutocallFileUris(["."], [folderUri]),
+        1,
+      );
+
+      workspaceIndex.invalidate((uri) => uri === fileUri);
+      workspaceIndex.clearFileUris();
+      assert.deepEqual(getMacroNames(), ["renamed"]);
+      assert.lengthOf(
+        workspaceIndex.getAutocallFileUris(["."], [folderUri]),
+        2,
+      );
+    } finally {
+      fs.rmSync(tempFolder, { recursive: true });
+    }
+  });
+});
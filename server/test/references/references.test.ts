@@ -0,0 +1,70 @@
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { assert } from "chai";
+import fs from "fs";
+
+import { LanguageServiceProvider } from "../../src/sas/LanguageServiceProvider";
+import { ReferenceProvider } from "../../src/sas/ReferenceProvider";
+
+const openDoc = (path: string): TextDocument => {
+  const content = fs.readFileSync(path, {
+    encoding: "utf-8",
+  });
+  return TextDocument.create(path, "sas", 1, content);
+};
+
+const lines = (provider: ReferenceProvider, line: number, character: number) =>
+  provider
+    .getReferences(provider.getSymbolAt({ line, character })!)
+    .map((occurrence) => occurrence.range.start.line);
+
+describe("Test SAS definitions and references", () => {
+  let provider: ReferenceProvider;
+
+  before(() => {
+    const doc = openDoc("server/testFixture/references/references.sas");
+    provider = new LanguageServiceProvider(doc).referenceProvider;
+  });
+
+  it("resolves macro definitions", () => {
+    const symbol = provider.getSymbolAt({ line: 16, character: 2 });
+    assert.deepInclude(symbol, { kind: "macro", name: "PRINT" });
+
+    const definitions = provider.getDefinitions(symbol!);
+    assert.equal(definitions.length, 1);
+    assert.deepEqual(definitions[0].range, {
+      start: { line: 3, character: 7 },
+      end: { line: 3, character: 12 },
+    });
+    assert.deepEqual(lines(provider, 16, 2), [3, 9, 16]);
+  });
+
+  it("resolves macro variables", () => {
+    assert.deepEqual(lines(provider, 12, 8), [0, 12]);
+    assert.deepEqual(lines(provider, 27, 7), [13, 27]);
+    // &title inside a double quoted string
+    assert.deepEqual(lines(provider, 6, 10), [4, 5, 6]);
+  });
+
+  it("resolves macro parameters within the macro", () => {
+    const symbol = provider.getSymbolAt({ line: 7, character: 27 })!;
+    assert.isTrue(provider.isLocal(symbol));
+    assert.deepEqual(
+      provider.getDefinitions(symbol).map((item) => item.range.start),
+      [{ line: 3, character: 17 }],
+    );
+    assert.deepEqual(lines(provider, 7, 27), [3, 5, 7]);
+  });
+
+  it("resolves data sets", () => {
+    const symbol = provider.getSymbolAt({ line: 18, character: 16 });
+    assert.deepInclude(symbol, { kind: "dataset", name: "WORK.OUT2" });
+    assert.deepEqual(
+      provider.getDefinitions(symbol!).map((item) => item.range.start.line),
+      [11],
+    );
+    assert.deepEqual(lines(provider, 18, 26), [18, 24]);
+    // one-level and two-level names of the same WORK data set
+    assert.deepEqual(lines(provider, 11, 10), [11, 24]);
+  });
+});
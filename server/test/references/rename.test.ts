@@ -0,0 +1,158 @@
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { assert } from "chai";
+import fs from "fs";
+
+import { LanguageServiceProvider } from "../../src/sas/LanguageServiceProvider";
+import {
+  DocumentOccurrences,
+  RenameProvider,
+} from "../../src/sas/RenameProvider";
+
+const openDoc = (path: string): TextDocument => {
+  const content = fs.readFileSync(path, {
+    encoding: "utf-8",
+  });
+  return TextDocument.create(path, "sas", 1, content);
+};
+
+const currentUri = "server/testFixture/references/references.sas";
+const otherUri = "server/testFixture/references/macros.sas";
+
+describe("Test SAS rename", () => {
+  let renameProvider: RenameProvider;
+  let otherDocuments: DocumentOccurrences[];
+
+  before(() => {
+    renameProvider = new LanguageServiceProvider(openDoc(currentUri))
+      .renameProvider;
+    otherDocuments = [
+      {
+        uri: otherUri,
+        occurrences: new LanguageServiceProvider(
+          openDoc(otherUri),
+        ).referenceProvider.getOccurrences(),
+      },
+    ];
+  });
+
+  it("renames a macro across documents", () => {
+    const symbol = renameProvider.getRenameSymbol({ line: 16, character: 3 })!;
+    assert.isUndefined(
+      renameProvider.findConflict(symbol, "show", currentUri, otherDocuments),
+    );
+    const edit = renameProvider.getRenameEdit(
+      symbol,
+      "show",
+      currentUri,
+      otherDocuments,
+    );
+    assert.deepEqual(
+      edit.changes![currentUri].map((item) => item.range.start),
+      [
+        { line: 3, character: 7 },
+        { line: 9, character: 6 },
+        { line: 16, character: 1 },
+      ],
+    );
+    assert.deepEqual(edit.changes![otherUri], [
+      {
+        range: {
+          start: { line: 2, character: 3 },
+          end: { line: 2, character: 8 },
+        },
+        newText: "show",
+      },
+    ]);
+  });
+
+  it("renames a global macro variable across documents", () => {
+    const symbol = renameProvider.getRenameSymbol({ line: 0, character: 6 })!;
+    const edit = renameProvider.getRenameEdit(
+      symbol,
+      "input",
+      currentUri,
+      otherDocuments,
+    );
+    assert.deepEqual(
+      edit.changes![currentUri].map((item) => item.range.start.line),
+      [0, 12],
+    );
+    assert.deepEqual(
+      edit.changes![otherUri].map((item) => item.range.start.line),
+      [1, 5],
+    );
+  });
+
+  it("renames a macro parameter within its macro", () => {
+    const symbol = renameProvider.getRenameSymbol({ line: 7, character: 20 })!;
+    assert.isTrue(renameProvider.isLocal(symbol));
+    const edit = renameProvider.getRenameEdit(symbol, "data", currentUri, []);
+    assert.deepEqual(Object.keys(edit.changes!), [currentUri]);
+    assert.deepEqual(
+      edit.changes![currentUri].map((item) => item.range.start),
+      [
+        { line: 3, character: 13 },
+        { line: 7, character: 19 },
+      ],
+    );
+  });
+
+  it("refuses conflicting names", () => {
+    const macro = renameProvider.getRenameSymbol({ line: 16, character: 3 })!;
+    assert.deepInclude(
+      renameProvider.findConflict(macro, "report", currentUri, otherDocuments),
+      { type: "existing-name", uri: otherUri },
+    );
+    assert.deepEqual(
+      renameProvider.findConflict(macro, "sysfunc", currentUri, otherDocuments),
+      { type: "reserved-name" },
+    );
+    assert.deepEqual(
+      renameProvider.findConflict(macro, "1abc", currentUri, otherDocuments),
+      { type: "invalid-name" },
+    );
+
+    const parameter = renameProvider.getRenameSymbol({
+      line: 7,
+      character: 20,
+    })!;
+    assert.deepInclude(
+      renameProvider.findConflict(parameter, "title", currentUri, []),
+      { type: "existing-name", uri: currentUri },
+    );
+    assert.isUndefined(
+      renameProvider.findConflict(parameter, "count", currentUri, []),
+    );
+  });
+
+  it("renames a symbol to a name that differs only in case", () => {
+    const macro = renameProvider.getRenameSymbol({ line: 16, character: 3 })!;
+    assert.isUndefined(
+      renameProvider.findConflict(
+        macro,
+        macro.name.toLowerCase(),
+        currentUri,
+        otherDocuments,
+      ),
+    );
+    const parameter = renameProvider.getRenameSymbol({
+      line: 7,
+      character: 20,
+    })!;
+    assert.isUndefined(
+      renameProvider.findConflict(
+        parameter,
+        parameter.name.toLowerCase(),
+        currentUri,
+        [],
+      ),
+    );
+  });
+
+  it("does not rename data sets", () => {
+    assert.isUndefined(
+      renameProvider.getRenameSymbol({ line: 18, character: 16 }),
+    );
+  });
+});
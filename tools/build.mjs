@@ -45,11 +45,27 @@ const nodeBuildOptions = {
   platform: "node",
 };
 
+// the sas-tools command is packaged separately from the extension, with the
+// syntax data and messages it reads two folders up, as the server does
+const cliBuildOptions = {
+  ...commonBuildOptions,
+  entryPoints: {
+    "./server/cli/dist/node/bin/sas-tools": "./server/src/node/cli.ts",
+  },
+  platform: "node",
+  banner: { js: "#!/usr/bin/env node" },
+};
+
 const browserBuildOptions = {
   ...commonBuildOptions,
   format: "esm",
   entryPoints: {
     "./client/dist/webview/DataViewer": "./client/src/webview/DataViewer.tsx",
+    "./client/dist/webview/TableProfile":
+      "./client/src/webview/TableProfile.tsx",
+    "./client/dist/webview/TableImport": "./client/src/webview/TableImport.tsx",
+    "./client/dist/webview/TableCompare":
+      "./client/src/webview/TableCompare.tsx",
     "./client/dist/notebook/LogRenderer":
       "./client/src/components/notebook/renderers/LogRenderer.ts",
     "./client/dist/notebook/HTMLRenderer":
@@ -58,15 +74,18 @@ const browserBuildOptions = {
 };
 
 if (process.env.npm_config_webviews || process.env.npm_config_client) {
-  const ctx = await esbuild.context(
-    process.env.npm_config_webviews ? browserBuildOptions : nodeBuildOptions,
-  );
-  await ctx.rebuild();
+  const buildOptions = process.env.npm_config_webviews
+    ? [browserBuildOptions]
+    : [nodeBuildOptions, cliBuildOptions];
+  for (const options of buildOptions) {
+    const ctx = await esbuild.context(options);
+    await ctx.rebuild();
 
-  if (dev) {
-    await ctx.watch();
-  } else {
-    await ctx.dispose();
+    if (dev) {
+      await ctx.watch();
+    } else {
+      await ctx.dispose();
+    }
   }
 } else {
   const { result } = concurrently([
@@ -95,6 +114,15 @@ if (process.env.npm_config_webviews || process.env.npm_config_client) {
           src: "./server/src/python/sas",
           dest: "./server/dist/node/typeshed-fallback/stubs/sas",
         },
+        { src: "./server/data", dest: "./server/cli/dist/data" },
+        { src: "./server/pubsdata", dest: "./server/cli/dist/pubsdata" },
+        ...fs
+          .readdirSync("./server")
+          .filter((name) => name.endsWith(".properties"))
+          .map((name) => ({
+            src: `./server/${name}`,
+            dest: `./server/cli/dist/${name}`,
+          })),
       ];
       for (const item of foldersToCopy) {
         fs.cpSync(item.src, item.dest, { recursive: true });